@@ -306,6 +306,24 @@ What specific issue would you like help with first?`,
                 </IconButton>
               </Tooltip>
             </Typography>
+            {suggestion.alternatives && suggestion.alternatives.length > 0 && (
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 0.5, mt: 0.5 }}>
+                <Typography variant="caption" color="text.secondary">
+                  Alternatives:
+                </Typography>
+                {suggestion.alternatives.map(alternative => (
+                  <Tooltip key={alternative.value} title={alternative.description} arrow>
+                    <Chip
+                      size="small"
+                      variant="outlined"
+                      label={alternative.value}
+                      onClick={() => copyToClipboard(alternative.value)}
+                      color={copySuccess === alternative.value ? 'success' : 'default'}
+                    />
+                  </Tooltip>
+                ))}
+              </Box>
+            )}
           </CardContent>
           <CardActions sx={{ p: 0 }}>
             <Button 
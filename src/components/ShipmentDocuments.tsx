@@ -0,0 +1,201 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Paper,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Delete as DeleteIcon, Description as DescriptionIcon, UploadFile } from '@mui/icons-material';
+import { ComplianceResult } from '../services/types';
+import { FormattedData } from '../services/formatConverterDb';
+import { ShipmentDocument, ShipmentDocumentType } from '../services/database/models';
+import { complianceService } from '../services/complianceService';
+import { crossBorderComplianceService } from '../services/crossBorderComplianceService';
+import {
+  DOCUMENT_TYPES,
+  REQUIRED_DOCUMENTS_FIELD,
+  getShipmentKey,
+  shipmentDocumentService
+} from '../services/shipmentDocumentService';
+import { DOCUMENT_CONSISTENCY_FIELD } from '../services/documentConsistencyService';
+
+interface ShipmentDocumentsProps {
+  formattedData: FormattedData;
+  complianceResults: ComplianceResult[];
+  onResultsChange: (results: ComplianceResult[]) => void;
+}
+
+/**
+ * Documents uploaded for the checked shipment and the required documents
+ * still missing. Uploading, retyping or removing a document re-checks the
+ * shipment's documents and reconciles them with the checked record.
+ */
+const ShipmentDocuments: React.FC<ShipmentDocumentsProps> = ({
+  formattedData,
+  complianceResults,
+  onResultsChange
+}) => {
+  const shipmentKey = getShipmentKey(formattedData.fields, formattedData.id);
+  const [documents, setDocuments] = useState<ShipmentDocument[]>([]);
+  const [uploading, setUploading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDocuments = useCallback(async () => {
+    setDocuments(await shipmentDocumentService.getDocuments(shipmentKey));
+  }, [shipmentKey]);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+
+  // Replace the document results with those of a fresh check
+  const recheck = async () => {
+    await loadDocuments();
+    const documentResults = await crossBorderComplianceService.checkShipmentDocuments(formattedData);
+    onResultsChange([
+      ...complianceResults.filter(result =>
+        result.field !== REQUIRED_DOCUMENTS_FIELD && result.field !== DOCUMENT_CONSISTENCY_FIELD),
+      ...documentResults
+    ]);
+  };
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setError(null);
+    const failed: string[] = [];
+    for (const file of files) {
+      setUploading(file.name);
+      try {
+        await complianceService.attachShipmentDocument(shipmentKey, file);
+      } catch (err) {
+        console.error(`Error attaching ${file.name}:`, err);
+        failed.push(`${file.name}: ${err instanceof Error ? err.message : 'upload failed'}`);
+      }
+    }
+    setUploading(null);
+
+    if (failed.length > 0) {
+      setError(failed.join('; '));
+    }
+    await recheck();
+  };
+
+  const handleTypeChange = async (document: ShipmentDocument, type: ShipmentDocumentType) => {
+    await shipmentDocumentService.setDocumentType(document.id, type);
+    await recheck();
+  };
+
+  const handleRemove = async (document: ShipmentDocument) => {
+    await shipmentDocumentService.removeDocument(document.id);
+    await recheck();
+  };
+
+  const missing = complianceResults.filter(
+    result => result.field === REQUIRED_DOCUMENTS_FIELD && result.status === 'non-compliant'
+  );
+  const inconsistent = complianceResults.filter(
+    result => result.field === DOCUMENT_CONSISTENCY_FIELD && result.status !== 'compliant'
+  );
+
+  return (
+    <Paper sx={{ p: 2, mb: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="h6">
+          <DescriptionIcon sx={{ verticalAlign: 'middle', mr: 1 }} />
+          Shipment Documents
+        </Typography>
+        <Button
+          variant="outlined"
+          component="label"
+          startIcon={uploading ? <CircularProgress size={18} /> : <UploadFile />}
+          disabled={uploading !== null}
+        >
+          {uploading ? `Reading ${uploading}...` : 'Upload Documents'}
+          <input type="file" hidden multiple accept="image/*,.txt,.csv,.json" onChange={handleUpload} />
+        </Button>
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Commercial invoices, packing lists, certificates of origin and other documents of shipment {shipmentKey}.
+        Images are read with on-device OCR; the document type is detected from its title.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>{error}</Alert>
+      )}
+
+      {missing.length > 0 && (
+        <Box sx={{ mb: 2 }}>
+          <Typography variant="subtitle2" gutterBottom>Missing</Typography>
+          {missing.map(result => (
+            <Chip key={result.id} label={result.value} color="error" size="small" sx={{ mr: 1, mb: 1 }} />
+          ))}
+        </Box>
+      )}
+
+      {inconsistent.length > 0 && (
+        <Box sx={{ mb: 2 }}>
+          <Typography variant="subtitle2" gutterBottom>Differs between documents</Typography>
+          {inconsistent.map(result => (
+            <Chip
+              key={result.id}
+              label={result.value}
+              color={result.status === 'non-compliant' ? 'error' : 'warning'}
+              size="small"
+              sx={{ mr: 1, mb: 1 }}
+            />
+          ))}
+        </Box>
+      )}
+
+      {documents.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">No documents uploaded</Typography>
+      ) : (
+        <List dense disablePadding>
+          {documents.map(document => (
+            <ListItem
+              key={document.id}
+              disableGutters
+              secondaryAction={
+                <IconButton edge="end" aria-label="Remove document" onClick={() => handleRemove(document)}>
+                  <DeleteIcon />
+                </IconButton>
+              }
+            >
+              <ListItemText
+                primary={document.filename}
+                secondary={`Attached ${new Date(document.attachedAt).toLocaleString()}`}
+              />
+              <TextField
+                select
+                size="small"
+                label="Type"
+                value={document.type}
+                onChange={(e) => handleTypeChange(document, e.target.value as ShipmentDocumentType)}
+                sx={{ minWidth: 240, mr: 6 }}
+              >
+                {DOCUMENT_TYPES.map(definition => (
+                  <MenuItem key={definition.type} value={definition.type}>{definition.name}</MenuItem>
+                ))}
+                <MenuItem value="other">Other Document</MenuItem>
+              </TextField>
+            </ListItem>
+          ))}
+        </List>
+      )}
+    </Paper>
+  );
+};
+
+export default ShipmentDocuments;
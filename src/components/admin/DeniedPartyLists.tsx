@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CircularProgress,
+  Grid,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  Typography
+} from '@mui/material';
+import { GppMaybe, Save, Search, UploadFile } from '@mui/icons-material';
+import {
+  deniedPartyScreeningService,
+  DeniedPartyListStatus,
+  DeniedPartyMatch,
+  DENIED_PARTY_LISTS
+} from '../../services/deniedPartyScreeningService';
+
+/**
+ * Import of denied party list files and settings of the name matching
+ */
+const DeniedPartyLists: React.FC = () => {
+  const [lists, setLists] = useState<DeniedPartyListStatus[]>([]);
+  const [threshold, setThreshold] = useState(deniedPartyScreeningService.getThreshold());
+  const [importing, setImporting] = useState(false);
+  const [testName, setTestName] = useState('');
+  const [matches, setMatches] = useState<DeniedPartyMatch[] | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLists = async () => {
+    setLists(await deniedPartyScreeningService.getListStatus());
+  };
+
+  useEffect(() => {
+    loadLists();
+  }, []);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setImporting(true);
+    setError(null);
+    setSuccess(null);
+
+    const messages: string[] = [];
+    for (const file of files) {
+      try {
+        const summary = await deniedPartyScreeningService.importList(await file.text());
+        summary.forEach(item => messages.push(`${file.name}: ${item.imported} entries of the ${DENIED_PARTY_LISTS[item.list]} (${item.format})`));
+      } catch (err) {
+        console.error(`Error importing ${file.name}:`, err);
+        setError(`${file.name}: ${err instanceof Error ? err.message : 'import failed'}`);
+      }
+    }
+
+    if (messages.length > 0) {
+      setSuccess(`Imported ${messages.join('; ')}`);
+    }
+    await loadLists();
+    setImporting(false);
+  };
+
+  const handleSaveThreshold = () => {
+    deniedPartyScreeningService.setThreshold(threshold);
+    setThreshold(deniedPartyScreeningService.getThreshold());
+    setSuccess('Screening threshold saved');
+  };
+
+  const handleScreen = async () => {
+    setMatches(await deniedPartyScreeningService.screenName(testName, threshold));
+  };
+
+  return (
+    <Card>
+      <CardHeader
+        title="Denied Party Screening"
+        subheader="Sanctions and export control lists that shipper and recipient names are screened against"
+        avatar={<GppMaybe color="primary" />}
+      />
+      <CardContent>
+        <Grid container spacing={3}>
+          {success && (
+            <Grid item xs={12}>
+              <Alert severity="success" onClose={() => setSuccess(null)}>{success}</Alert>
+            </Grid>
+          )}
+          {error && (
+            <Grid item xs={12}>
+              <Alert severity="error" onClose={() => setError(null)}>{error}</Alert>
+            </Grid>
+          )}
+
+          <Grid item xs={12}>
+            <List dense disablePadding>
+              {lists.map(list => (
+                <ListItem key={list.list} disableGutters>
+                  <ListItemText
+                    primary={list.name}
+                    secondary={list.entries > 0
+                      ? `${list.entries.toLocaleString()} entries, imported ${new Date(list.importedAt!).toLocaleString()}`
+                      : 'Not imported'}
+                  />
+                </ListItem>
+              ))}
+            </List>
+            <Button
+              variant="contained"
+              component="label"
+              startIcon={importing ? <CircularProgress size={18} color="inherit" /> : <UploadFile />}
+              disabled={importing}
+            >
+              Import List Files
+              <input type="file" hidden multiple accept=".xml,.csv" onChange={handleImport} />
+            </Button>
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+              OFAC SDN (sdn.xml, or sdn.csv with alt.csv), EU consolidated list (XML or CSV), UK HM Treasury
+              consolidated list (ConList.csv) and the Consolidated Screening List (consolidated.csv) for the BIS
+              Entity List. Each import replaces the previous version of the list.
+            </Typography>
+          </Grid>
+
+          <Grid item xs={12} sm={6}>
+            <TextField
+              fullWidth
+              type="number"
+              label="Match Threshold"
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              inputProps={{ min: 0.5, max: 1, step: 0.01 }}
+              helperText="Name similarity from 0.5 to 1 that counts as a match. Lower values catch more spelling variants and more false positives."
+            />
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <Button variant="outlined" startIcon={<Save />} onClick={handleSaveThreshold}>
+              Save Threshold
+            </Button>
+          </Grid>
+
+          <Grid item xs={12} sm={8}>
+            <TextField
+              fullWidth
+              label="Screen a Name"
+              value={testName}
+              onChange={(e) => setTestName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleScreen()}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <Button variant="outlined" startIcon={<Search />} onClick={handleScreen} disabled={!testName.trim()}>
+              Screen
+            </Button>
+          </Grid>
+          {matches && (
+            <Grid item xs={12}>
+              {matches.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">No matches</Typography>
+              ) : (
+                <List dense disablePadding>
+                  {matches.slice(0, 10).map(match => (
+                    <ListItem key={match.party.id} disableGutters>
+                      <ListItemText
+                        primary={`${match.matchedName} (${Math.round(match.score * 100)}%)`}
+                        secondary={`${match.listName}, entry ${match.party.sourceId}${match.matchedName !== match.party.name ? `, alias of ${match.party.name}` : ''}`}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              )}
+            </Grid>
+          )}
+        </Grid>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DeniedPartyLists;
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  CircularProgress,
+  Grid,
+  Typography
+} from '@mui/material';
+import { CurrencyExchange, UploadFile } from '@mui/icons-material';
+import { currencyService } from '../../services/currencyService';
+import { FxRate } from '../../services/database/models';
+
+/**
+ * Import of exchange rate files for converting declared values offline
+ */
+const FxRates: React.FC = () => {
+  const [rates, setRates] = useState<FxRate[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRates = async () => {
+    setRates(await currencyService.getRates());
+  };
+
+  useEffect(() => {
+    loadRates();
+  }, []);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const imported = await currencyService.importRates(await file.text(), file.name);
+      setSuccess(`Imported ${imported} exchange rates from ${file.name}`);
+    } catch (err) {
+      console.error(`Error importing ${file.name}:`, err);
+      setError(`${file.name}: ${err instanceof Error ? err.message : 'import failed'}`);
+    }
+
+    await loadRates();
+    setImporting(false);
+  };
+
+  const imported = rates.filter(rate => rate.source !== 'bundled');
+  const lastImport = imported.reduce<FxRate | undefined>(
+    (latest, rate) => (!latest || rate.updatedAt > latest.updatedAt ? rate : latest),
+    undefined
+  );
+
+  return (
+    <Card>
+      <CardHeader
+        title="Exchange Rates"
+        subheader="Rates declared values are converted with for de minimis and declared value checks"
+        avatar={<CurrencyExchange color="primary" />}
+      />
+      <CardContent>
+        <Grid container spacing={3}>
+          {success && (
+            <Grid item xs={12}>
+              <Alert severity="success" onClose={() => setSuccess(null)}>{success}</Alert>
+            </Grid>
+          )}
+          {error && (
+            <Grid item xs={12}>
+              <Alert severity="error" onClose={() => setError(null)}>{error}</Alert>
+            </Grid>
+          )}
+
+          <Grid item xs={12}>
+            <Typography variant="body2" gutterBottom>
+              {lastImport
+                ? `${rates.length} currencies, ${imported.length} imported from ${lastImport.source} on ${new Date(lastImport.updatedAt).toLocaleString()}`
+                : `${rates.length} currencies at the indicative rates bundled with the app`}
+            </Typography>
+            {rates.map(rate => (
+              <Chip
+                key={rate.currency}
+                label={`${rate.currency} ${rate.unitsPerUsd}`}
+                title={rate.name}
+                size="small"
+                variant={rate.source === 'bundled' ? 'outlined' : 'filled'}
+                sx={{ mr: 1, mb: 1 }}
+              />
+            ))}
+          </Grid>
+
+          <Grid item xs={12}>
+            <Button
+              variant="contained"
+              component="label"
+              startIcon={importing ? <CircularProgress size={18} color="inherit" /> : <UploadFile />}
+              disabled={importing}
+            >
+              Import Rate File
+              <input type="file" hidden accept=".csv,.json,.txt" onChange={handleImport} />
+            </Button>
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+              CSV with a currency code and its units per US dollar on each line (e.g. EUR,0.92), or JSON with a
+              base currency and rates as published by rate APIs. Imported rates replace those of the same currencies.
+            </Typography>
+          </Grid>
+        </Grid>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FxRates;
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  FormControl,
+  FormControlLabel,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Psychology, Refresh, Save } from '@mui/icons-material';
+import { llmClient } from '../../services/llm/llmClient';
+import { LLMConfig } from '../../services/llm/types';
+
+/**
+ * Settings for the shared LLM client, saved in the browser.
+ * Values left empty fall back to the REACT_APP_* environment variables.
+ */
+const LLMSettings: React.FC = () => {
+  const [config, setConfig] = useState<LLMConfig>(llmClient.getConfig());
+  const [metrics, setMetrics] = useState(llmClient.getMetrics());
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const handleChange = (key: keyof LLMConfig) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = ['timeoutMs', 'maxRetries'].includes(key) ? Number(event.target.value) : event.target.value;
+    setConfig({ ...config, [key]: value });
+  };
+
+  const handleSave = () => {
+    llmClient.updateSettings({
+      provider: config.provider,
+      apiKey: config.apiKey.trim(),
+      model: config.model.trim(),
+      visionModel: config.visionModel.trim(),
+      timeoutMs: Math.max(1000, config.timeoutMs || 0),
+      maxRetries: Math.max(0, config.maxRetries || 0),
+      rulesOnly: config.rulesOnly
+    });
+    setConfig(llmClient.getConfig());
+    setSuccess('LLM settings saved');
+  };
+
+  const handleRefreshMetrics = () => {
+    setMetrics(llmClient.getMetrics());
+  };
+
+  return (
+    <Card>
+      <CardHeader
+        title="AI Model Settings"
+        subheader="API key, model and retry policy used for all AI-assisted checks"
+        avatar={<Psychology color="primary" />}
+      />
+      <CardContent>
+        <Grid container spacing={3}>
+          {success && (
+            <Grid item xs={12}>
+              <Alert severity="success" onClose={() => setSuccess(null)}>{success}</Alert>
+            </Grid>
+          )}
+
+          <Grid item xs={12}>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={config.rulesOnly}
+                  onChange={(e) => setConfig({ ...config, rulesOnly: e.target.checked })}
+                />
+              }
+              label="Rules-only mode"
+            />
+            <Typography variant="body2" color="text.secondary">
+              Skip all AI calls and run checks on the rule set, pattern extraction and keyword lists only.
+              Results are reproducible run to run.
+            </Typography>
+          </Grid>
+
+          {!config.rulesOnly && !llmClient.isConfigured() && (
+            <Grid item xs={12}>
+              <Alert severity="warning">
+                No API key configured. AI-assisted checks are skipped until a key is provided.
+              </Alert>
+            </Grid>
+          )}
+
+          <Grid item xs={12} sm={4}>
+            <FormControl fullWidth>
+              <InputLabel id="llm-provider-label">Provider</InputLabel>
+              <Select
+                labelId="llm-provider-label"
+                value={config.provider}
+                label="Provider"
+                onChange={(e) => setConfig({ ...config, provider: e.target.value })}
+              >
+                <MenuItem value="gemini">Google Gemini</MenuItem>
+                <MenuItem value="mock">Mock (offline testing)</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12} sm={8}>
+            <TextField
+              fullWidth
+              type="password"
+              label="API Key"
+              value={config.apiKey}
+              onChange={handleChange('apiKey')}
+              helperText="Stored in this browser only"
+            />
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <TextField fullWidth label="Text Model" value={config.model} onChange={handleChange('model')} />
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <TextField fullWidth label="Vision Model" value={config.visionModel} onChange={handleChange('visionModel')} />
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <TextField
+              fullWidth
+              type="number"
+              label="Timeout (ms)"
+              value={config.timeoutMs}
+              onChange={handleChange('timeoutMs')}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6}>
+            <TextField
+              fullWidth
+              type="number"
+              label="Max Retries"
+              value={config.maxRetries}
+              onChange={handleChange('maxRetries')}
+              helperText="Retries use exponential backoff"
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <Button variant="contained" color="primary" startIcon={<Save />} onClick={handleSave}>
+              Save Settings
+            </Button>
+          </Grid>
+
+          <Grid item xs={12}>
+            <Typography variant="subtitle2" gutterBottom>
+              Usage this session
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {metrics.totalCalls} calls ({metrics.failedCalls} failed, {metrics.retries} retries) ·{' '}
+              {metrics.totalTokens.toLocaleString()} tokens ({metrics.promptTokens.toLocaleString()} prompt,{' '}
+              {metrics.completionTokens.toLocaleString()} completion) · average latency{' '}
+              {Math.round(metrics.averageLatencyMs)} ms
+            </Typography>
+            <Button size="small" startIcon={<Refresh />} onClick={handleRefreshMetrics} sx={{ mt: 1 }}>
+              Refresh
+            </Button>
+          </Grid>
+        </Grid>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LLMSettings;
@@ -0,0 +1,278 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TableSortLabel,
+  TextField,
+  Typography
+} from '@mui/material';
+import { CheckCircle, Error as ErrorIcon, Visibility, Warning } from '@mui/icons-material';
+import { Link } from 'react-router-dom';
+import { ComplianceRun, ComplianceRunStatus } from '../../services/database/models';
+import { countryService } from '../../services/countryService';
+
+type SortKey = 'trackingNumber' | 'route' | 'source' | 'status' | 'nonCompliant' | 'timestamp';
+type SortOrder = 'asc' | 'desc';
+
+interface ComplianceRunTableProps {
+  runs: ComplianceRun[];
+  emptyMessage?: string;
+  ariaLabel?: string;
+}
+
+const COLUMNS: Array<{ key: SortKey; label: string; numeric?: boolean }> = [
+  { key: 'trackingNumber', label: 'Tracking Number' },
+  { key: 'route', label: 'Route' },
+  { key: 'source', label: 'Source' },
+  { key: 'status', label: 'Compliance Status' },
+  { key: 'nonCompliant', label: 'Non-Compliant', numeric: true },
+  { key: 'timestamp', label: 'Checked' }
+];
+
+// Worst status sorts first when ordering by status ascending
+const STATUS_ORDER: Record<ComplianceRunStatus, number> = {
+  'non-compliant': 0,
+  warning: 1,
+  compliant: 2
+};
+
+/**
+ * Link that reopens a stored run in the Compliance Checker
+ */
+const getRunLink = (run: ComplianceRun): string => `/compliance-checker?run=${encodeURIComponent(run.id)}`;
+
+const getRunOrigin = (run: ComplianceRun): string => {
+  const fields = run.formattedData.fields || {};
+  return countryService.normalizeCode(fields.senderCountry || fields.shipperCountry || fields.originCountry || '');
+};
+
+const getRoute = (run: ComplianceRun): string => {
+  const origin = getRunOrigin(run);
+  if (!origin && !run.destinationCountry) return '';
+  return `${origin || '?'} → ${run.destinationCountry || '?'}`;
+};
+
+const getSortValue = (run: ComplianceRun, key: SortKey): string | number => {
+  switch (key) {
+    case 'route':
+      return getRoute(run);
+    case 'status':
+      return STATUS_ORDER[run.status];
+    case 'nonCompliant':
+      return run.stats.nonCompliant;
+    default:
+      return (run[key] || '').toLowerCase();
+  }
+};
+
+const getRunStatusChip = (status: ComplianceRunStatus) => {
+  switch (status) {
+    case 'compliant':
+      return <Chip icon={<CheckCircle />} label="Compliant" color="success" size="small" />;
+    case 'warning':
+      return <Chip icon={<Warning />} label="Warning" color="warning" size="small" />;
+    default:
+      return <Chip icon={<ErrorIcon />} label="Non-Compliant" color="error" size="small" />;
+  }
+};
+
+/**
+ * Sortable, filterable and paged table of compliance runs.
+ * Filtering and sorting happen in memory; only the current page is rendered.
+ */
+const ComplianceRunTable: React.FC<ComplianceRunTableProps> = ({
+  runs,
+  emptyMessage = 'No compliance checks recorded yet.',
+  ariaLabel = 'compliance runs table'
+}) => {
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<ComplianceRunStatus | 'all'>('all');
+  const [destinationFilter, setDestinationFilter] = useState('all');
+  const [orderBy, setOrderBy] = useState<SortKey>('timestamp');
+  const [order, setOrder] = useState<SortOrder>('desc');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(10);
+
+  const destinations = useMemo(
+    () => Array.from(new Set(runs.map(run => run.destinationCountry).filter(Boolean))).sort(),
+    [runs]
+  );
+
+  const filteredRuns = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return runs.filter(run =>
+      (statusFilter === 'all' || run.status === statusFilter) &&
+      (destinationFilter === 'all' || run.destinationCountry === destinationFilter) &&
+      (!term ||
+        run.trackingNumber.toLowerCase().includes(term) ||
+        getRoute(run).toLowerCase().includes(term) ||
+        (run.filename || '').toLowerCase().includes(term))
+    );
+  }, [runs, search, statusFilter, destinationFilter]);
+
+  const sortedRuns = useMemo(() => {
+    const direction = order === 'asc' ? 1 : -1;
+    return [...filteredRuns].sort((a, b) => {
+      const left = getSortValue(a, orderBy);
+      const right = getSortValue(b, orderBy);
+      if (left < right) return -direction;
+      if (left > right) return direction;
+      // Newest first as a stable tie-breaker
+      return b.timestamp.localeCompare(a.timestamp);
+    });
+  }, [filteredRuns, orderBy, order]);
+
+  // Keep the page in range when filters shrink the result set
+  const lastPage = Math.max(0, Math.ceil(sortedRuns.length / rowsPerPage) - 1);
+  const currentPage = Math.min(page, lastPage);
+  const pageRuns = sortedRuns.slice(currentPage * rowsPerPage, currentPage * rowsPerPage + rowsPerPage);
+
+  const handleSort = (key: SortKey) => {
+    if (orderBy === key) {
+      setOrder(order === 'asc' ? 'desc' : 'asc');
+    } else {
+      setOrderBy(key);
+      setOrder(key === 'timestamp' || key === 'nonCompliant' ? 'desc' : 'asc');
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+        <TextField
+          size="small"
+          label="Search"
+          placeholder="Tracking number, route or file"
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value);
+            setPage(0);
+          }}
+          sx={{ minWidth: 240 }}
+        />
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel>Status</InputLabel>
+          <Select
+            value={statusFilter}
+            label="Status"
+            onChange={(e) => {
+              setStatusFilter(e.target.value as ComplianceRunStatus | 'all');
+              setPage(0);
+            }}
+          >
+            <MenuItem value="all">All</MenuItem>
+            <MenuItem value="non-compliant">Non-Compliant</MenuItem>
+            <MenuItem value="warning">Warning</MenuItem>
+            <MenuItem value="compliant">Compliant</MenuItem>
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel>Destination</InputLabel>
+          <Select
+            value={destinationFilter}
+            label="Destination"
+            onChange={(e) => {
+              setDestinationFilter(e.target.value);
+              setPage(0);
+            }}
+          >
+            <MenuItem value="all">All</MenuItem>
+            {destinations.map(country => (
+              <MenuItem key={country} value={country}>{country}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+
+      <TableContainer component={Paper} elevation={0} variant="outlined">
+        <Table size="small" aria-label={ariaLabel}>
+          <TableHead>
+            <TableRow>
+              {COLUMNS.map(column => (
+                <TableCell
+                  key={column.key}
+                  align={column.numeric ? 'right' : 'left'}
+                  sortDirection={orderBy === column.key ? order : false}
+                >
+                  <TableSortLabel
+                    active={orderBy === column.key}
+                    direction={orderBy === column.key ? order : 'asc'}
+                    onClick={() => handleSort(column.key)}
+                  >
+                    {column.label}
+                  </TableSortLabel>
+                </TableCell>
+              ))}
+              <TableCell>Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {pageRuns.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={COLUMNS.length + 1} align="center">
+                  <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+                    {runs.length === 0 ? emptyMessage : 'No results match the current filters.'}
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ) : (
+              pageRuns.map(run => (
+                <TableRow key={run.id} hover>
+                  <TableCell component="th" scope="row">
+                    {run.trackingNumber || <Typography variant="body2" color="text.secondary">Not provided</Typography>}
+                  </TableCell>
+                  <TableCell>{getRoute(run) || '—'}</TableCell>
+                  <TableCell sx={{ textTransform: 'capitalize' }}>
+                    {run.source === 'vision' ? 'Image' : run.source}
+                  </TableCell>
+                  <TableCell>{getRunStatusChip(run.status)}</TableCell>
+                  <TableCell align="right">{run.stats.nonCompliant}</TableCell>
+                  <TableCell>{new Date(run.timestamp).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      color="primary"
+                      startIcon={<Visibility />}
+                      component={Link}
+                      to={getRunLink(run)}
+                    >
+                      View
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <TablePagination
+        component="div"
+        count={sortedRuns.length}
+        page={currentPage}
+        onPageChange={(_, newPage) => setPage(newPage)}
+        rowsPerPage={rowsPerPage}
+        onRowsPerPageChange={(e) => {
+          setRowsPerPage(parseInt(e.target.value, 10));
+          setPage(0);
+        }}
+        rowsPerPageOptions={[10, 25, 50, 100]}
+      />
+    </Box>
+  );
+};
+
+export default ComplianceRunTable;
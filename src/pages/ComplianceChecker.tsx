@@ -53,16 +53,27 @@ import {
   GetApp,
   PictureAsPdf,
   Psychology,
-  Info as InfoIcon
+  Info as InfoIcon,
+  Pause,
+  PlayArrow,
+  Stop
 } from '@mui/icons-material';
 import { analyzeImage, convertToComplianceResults } from '../services/visionService';
 import FormatConverter from '../components/common/FormatConverter';
 import { FormattedData } from '../services/formatConverterDb';
-import { complianceService } from '../services/complianceService';
+import { complianceService, CsvEntryResult } from '../services/complianceService';
+import { batchJobRunner, BatchJobListener, BatchJobProgress, toBatchJobProgress } from '../services/batchJobRunner';
+import { BatchJob } from '../services/database/models';
 import { dataStandardizationService } from '../services/dataStandardizationService';
 import { RawInputData } from '../services/types';
 import ComplianceChat from '../components/ComplianceChat';
+import ShipmentDocuments from '../components/ShipmentDocuments';
+import { REQUIRED_DOCUMENTS_FIELD } from '../services/shipmentDocumentService';
+import { useAuth } from '../context/AuthContext';
+import { useSearchParams } from 'react-router-dom';
+import { complianceRunRepository } from '../services/database/complianceRunRepository';
 import { pdfReportGenerator } from '../services/pdfReportGenerator';
+import { llmClient } from '../services/llm/llmClient';
 
 // Define the type for compliance results
 interface ComplianceResult {
@@ -209,6 +220,9 @@ function checkFieldCompliance(field: string, value: string): { status: 'complian
 
 // ComplianceChecker component
 const ComplianceChecker: React.FC = () => {
+  const { currentUser } = useAuth();
+  const [searchParams] = useSearchParams();
+  const runId = searchParams.get('run');
   // State for tab value
   const [tabValue, setTabValue] = useState(0);
   
@@ -224,7 +238,7 @@ const ComplianceChecker: React.FC = () => {
   const [results, setResults] = useState<ComplianceResult[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [processingStage, setProcessingStage] = useState('');
-  const [useVisionModel, setUseVisionModel] = useState(true);
+  const [useVisionModel, setUseVisionModel] = useState(llmClient.isAiEnabled());
   
   // State for messages
   const [errorMessage, setErrorMessage] = useState('');
@@ -252,20 +266,13 @@ const ComplianceChecker: React.FC = () => {
   const [rawTextExtracted, setRawTextExtracted] = useState<string>('');
 
   // Add a new state for CSV entries
-  const [csvEntries, setCsvEntries] = useState<Array<{
-    entryId: string;
-    entryText: string;
-    formattedData: FormattedData;
-    complianceResults: ComplianceResult[];
-    complianceStats: {
-      compliant: number;
-      nonCompliant: number;
-      warnings: number;
-      total: number;
-      complianceRate: number;
-    };
-    isExpanded: boolean;
-  }>>([]);
+  const [csvEntries, setCsvEntries] = useState<Array<CsvEntryResult & { isExpanded: boolean }>>([]);
+  
+  // State for the CSV batch job
+  const [batchProgress, setBatchProgress] = useState<BatchJobProgress | null>(null);
+  const [batchErrors, setBatchErrors] = useState<Array<{ rowIndex: number; error: string }>>([]);
+  const [unfinishedJobs, setUnfinishedJobs] = useState<BatchJob[]>([]);
+  const detachBatchListener = useRef<(() => void) | null>(null);
 
   // Add state for PDF generation
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
@@ -337,6 +344,45 @@ const ComplianceChecker: React.FC = () => {
     initService();
   }, []);
 
+  // Offer to resume batches left unfinished by a refresh or pause
+  useEffect(() => {
+    batchJobRunner.getUnfinishedJobs(currentUser?.uid)
+      .then(setUnfinishedJobs)
+      .catch(error => console.error('Failed to load unfinished batch jobs:', error));
+  }, [currentUser?.uid]);
+
+  // Stop listening to a running batch when leaving the page; the batch keeps running
+  useEffect(() => {
+    return () => detachBatchListener.current?.();
+  }, []);
+
+  // Reopen a stored run linked from the dashboard
+  useEffect(() => {
+    if (!runId) return;
+    
+    const loadRun = async () => {
+      try {
+        const run = await complianceRunRepository.getRunById(runId);
+        if (!run) {
+          setErrorMessage('The requested compliance check could not be found.');
+          return;
+        }
+        
+        // Open the tab the run was created from
+        setTabValue(run.source === 'vision' ? 0 : run.source === 'csv' ? 1 : 2);
+        setSelectedConverter(run.source);
+        setRawTextExtracted(run.formattedData.rawText || '');
+        handleFormattedData({ formattedData: run.formattedData, complianceResults: run.results });
+        setSuccessMessage(`Showing compliance check from ${new Date(run.timestamp).toLocaleString()}`);
+      } catch (error) {
+        console.error('Failed to load compliance run:', error);
+        setErrorMessage('Failed to load the compliance check. Please try again.');
+      }
+    };
+    
+    loadRun();
+  }, [runId]);
+
   // Handle tab change
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setTabValue(newValue);
@@ -353,6 +399,23 @@ const ComplianceChecker: React.FC = () => {
 
     setIsLoading(true);
       
+      // Without the vision model, read the label on this device
+      if (!useVisionModel || !llmClient.isAiEnabled()) {
+        setProcessingStage('Recognizing text on this device...');
+        const result = await complianceService.analyzeImageWithOcr(imageFile, {
+          userId: currentUser?.uid,
+          onProgress: (progress, status) => {
+            setProcessingStage(status === 'recognizing text'
+              ? `Recognizing text on this device... ${Math.round(progress * 100)}%`
+              : 'Loading on-device OCR...');
+          }
+        });
+        
+        setRawTextExtracted(result.formattedData.rawText || '');
+        handleFormattedData(result);
+        return;
+      }
+      
       // Step 1: Extract text from image using Vision API
       const extractedData = await analyzeImage(imageFile);
       console.log('Extracted data:', extractedData);
@@ -379,7 +442,8 @@ const ComplianceChecker: React.FC = () => {
         metadata: {
           confidence: extractedData.confidence,
           filename: imageFile.name,
-          timestamp: new Date().toISOString()
+          timestamp: new Date().toISOString(),
+          userId: currentUser?.uid
         }
       };
       
@@ -394,6 +458,7 @@ const ComplianceChecker: React.FC = () => {
       setErrorMessage('Error processing image: ' + (error instanceof Error ? error.message : String(error)));
     } finally {
       setIsLoading(false);
+      setProcessingStage('');
     }
   };
 
@@ -440,7 +505,7 @@ const ComplianceChecker: React.FC = () => {
     }
   };
 
-  // Process CSV data
+  // Process CSV data as a batch job
   const processCsvFile = async (file: File) => {
     try {
       setIsLoading(true);
@@ -448,30 +513,14 @@ const ComplianceChecker: React.FC = () => {
       
       const csvText = await readFileAsText(file);
       
-      setProcessingStage('Processing CSV entries...');
-      
-      // Process CSV as multiple manual entries
-      const entries = await complianceService.processCsvAsManualEntries(csvText);
-      
-      // Add isExpanded property to each entry (initially collapsed)
-      const entriesWithExpandState = entries.map(entry => ({
-        ...entry,
-        isExpanded: false
-      }));
+      setProcessingStage('Preparing CSV entries...');
+      setCsvEntries([]);
+      setBatchErrors([]);
       
-      // Update state with processed entries
-      setCsvEntries(entriesWithExpandState);
-      
-      // Also set the first entry as the currently displayed result for compatibility
-      if (entries.length > 0) {
-        handleFormattedData({
-          formattedData: entries[0].formattedData,
-          complianceResults: entries[0].complianceResults
-        });
-        setSuccessMessage(`Successfully processed ${entries.length} entries from CSV file.`);
-      } else {
-        setErrorMessage('No valid entries found in the CSV file.');
-      }
+      // Rows are checked in the background; progress and entries stream in through the listener
+      const listener = createBatchListener();
+      const job = await batchJobRunner.startJob(csvText, { userId: currentUser?.uid, filename: file.name }, listener);
+      attachBatch(job, listener);
     } catch (error) {
       console.error('Error processing CSV:', error);
       setErrorMessage(`Error processing CSV: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -481,6 +530,83 @@ const ComplianceChecker: React.FC = () => {
     }
   };
 
+  // Listener that streams the entries and progress of a batch job into the page
+  const createBatchListener = (): BatchJobListener => ({
+    onEntry: entry => {
+      setCsvEntries(prevEntries => complianceService.sortCsvEntries([...prevEntries, { ...entry, isExpanded: false }]));
+    },
+    onRowError: (rowIndex, error) => {
+      setBatchErrors(prevErrors => [...prevErrors, { rowIndex, error }]);
+    },
+    onProgress: progress => {
+      setBatchProgress(progress);
+      if (progress.status === 'completed') {
+        finishBatch(progress);
+      }
+    }
+  });
+
+  // Follow a started or resumed job
+  const attachBatch = (job: BatchJob, listener: BatchJobListener) => {
+    detachBatchListener.current?.();
+    detachBatchListener.current = batchJobRunner.subscribe(job.id, listener);
+    setBatchProgress(toBatchJobProgress(job));
+    setUnfinishedJobs(prevJobs => prevJobs.filter(unfinished => unfinished.id !== job.id));
+  };
+
+  // Show all entries of a finished job, with the most critical entry selected
+  const finishBatch = async (progress: BatchJobProgress) => {
+    try {
+      const entries = complianceService.sortCsvEntries(await batchJobRunner.getEntries(progress.jobId));
+      setCsvEntries(entries.map(entry => ({ ...entry, isExpanded: false })));
+      
+      if (entries.length > 0) {
+        handleFormattedData(entries[0]);
+        setSuccessMessage(`Successfully processed ${entries.length} entries from CSV file.` +
+          (progress.failedRows > 0 ? ` ${progress.failedRows} rows could not be checked.` : ''));
+      } else {
+        setErrorMessage('No valid entries found in the CSV file.');
+      }
+    } catch (error) {
+      console.error('Error loading batch results:', error);
+      setErrorMessage('The batch finished but its results could not be loaded.');
+    }
+  };
+
+  const handlePauseBatch = () => {
+    if (batchProgress) {
+      batchJobRunner.pauseJob(batchProgress.jobId);
+    }
+  };
+
+  const handleResumeBatch = async (jobId: string) => {
+    try {
+      setErrorMessage('');
+      setTabValue(1);
+      
+      // Show the rows checked before the pause or refresh
+      const entries = complianceService.sortCsvEntries(await batchJobRunner.getEntries(jobId));
+      setCsvEntries(entries.map(entry => ({ ...entry, isExpanded: false })));
+      
+      const listener = createBatchListener();
+      const job = await batchJobRunner.resumeJob(jobId, listener);
+      attachBatch(job, listener);
+    } catch (error) {
+      console.error('Error resuming batch:', error);
+      setErrorMessage(`Error resuming batch: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleCancelBatch = async (jobId: string) => {
+    try {
+      await batchJobRunner.cancelJob(jobId);
+      setUnfinishedJobs(prevJobs => prevJobs.filter(job => job.id !== jobId));
+    } catch (error) {
+      console.error('Error cancelling batch:', error);
+      setErrorMessage('The batch could not be cancelled.');
+    }
+  };
+
   // Read file as text
   const readFileAsText = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -534,7 +660,8 @@ const ComplianceChecker: React.FC = () => {
         content: enhancedData, // Use the structured data instead of raw text
         metadata: {
           timestamp: new Date().toISOString(),
-          confidence: 0.9 // Higher confidence since we're using Gemini
+          confidence: 0.9, // Higher confidence since we're using Gemini
+          userId: currentUser?.uid
         }
       };
       
@@ -676,6 +803,15 @@ const ComplianceChecker: React.FC = () => {
     setSuccessMessage('');
     setErrorMessage('');
     setCsvEntries([]);
+    
+    // A running batch keeps going and can be resumed from the CSV tab
+    detachBatchListener.current?.();
+    detachBatchListener.current = null;
+    setBatchProgress(null);
+    setBatchErrors([]);
+    batchJobRunner.getUnfinishedJobs(currentUser?.uid)
+      .then(setUnfinishedJobs)
+      .catch(error => console.error('Failed to load unfinished batch jobs:', error));
   };
 
   // Toggle vision model usage
@@ -840,6 +976,12 @@ const ComplianceChecker: React.FC = () => {
         Upload an image, CSV, or manually enter data to check compliance
       </Typography>
 
+      {llmClient.getConfig().rulesOnly && (
+        <Alert severity="info" sx={{ mb: 3 }}>
+          Rules-only mode is on. Checks use the rule set, pattern extraction and keyword lists only, and images are read with on-device OCR.
+        </Alert>
+      )}
+
       <Box sx={{ mb: 4 }}>
         <Tabs
           value={tabValue}
@@ -913,7 +1055,7 @@ const ComplianceChecker: React.FC = () => {
               startIcon={<Assessment />}
               sx={{ mr: 2 }}
             >
-              Analyze with Gemini Vision
+              {useVisionModel && llmClient.isAiEnabled() ? 'Analyze with Gemini Vision' : 'Analyze on This Device'}
             </Button>
             <Button
               variant="outlined"
@@ -931,8 +1073,9 @@ const ComplianceChecker: React.FC = () => {
           <FormControlLabel
             control={
               <Switch
-                checked={useVisionModel}
+                checked={useVisionModel && llmClient.isAiEnabled()}
                 onChange={handleToggleVision}
+                disabled={!llmClient.isAiEnabled()}
                 name="useVisionModel"
                 color="primary"
               />
@@ -940,6 +1083,13 @@ const ComplianceChecker: React.FC = () => {
             label="Use Gemini Vision for enhanced image analysis"
           />
           </Box>
+        <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+          <Typography variant="caption" color="text.secondary">
+            {useVisionModel && llmClient.isAiEnabled()
+              ? 'The image is sent to the configured AI provider.'
+              : 'Text is read with on-device OCR. The image never leaves this machine.'}
+          </Typography>
+          </Box>
       </TabPanel>
 
       {/* CSV Upload Panel */}
@@ -951,6 +1101,27 @@ const ComplianceChecker: React.FC = () => {
           Upload a CSV file with logistics data for compliance validation
         </Typography>
         
+        {unfinishedJobs.map(job => (
+          <Alert
+            key={job.id}
+            severity="warning"
+            sx={{ mb: 2 }}
+            action={
+              <>
+                <Button color="inherit" size="small" onClick={() => handleResumeBatch(job.id)}>
+                  Resume
+                </Button>
+                <Button color="inherit" size="small" onClick={() => handleCancelBatch(job.id)}>
+                  Discard
+                </Button>
+              </>
+            }
+          >
+            Unfinished batch{job.filename ? ` from ${job.filename}` : ''}: {job.processedRows} of {job.totalRows} rows checked
+            {batchJobRunner.isRunning(job.id) ? ' (still running)' : ''}.
+          </Alert>
+        ))}
+        
           <input
             accept=".csv"
             style={{ display: 'none' }}
@@ -970,11 +1141,67 @@ const ComplianceChecker: React.FC = () => {
           </UploadBox>
         </label>
 
-        {csvFile && (
+        {(csvFile || batchProgress) && (
           <Box sx={{ mt: 3 }}>
-            <Alert severity="info" sx={{ mb: 2 }}>
-              Uploaded: {csvFile.name} ({(csvFile.size / 1024).toFixed(1)} KB)
-            </Alert>
+            {csvFile && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                Uploaded: {csvFile.name} ({(csvFile.size / 1024).toFixed(1)} KB)
+              </Alert>
+            )}
+            
+            {batchProgress && batchProgress.status !== 'completed' && (
+              <Box sx={{ width: '100%', mt: 2, mb: 3 }}>
+                <LinearProgress
+                  variant="determinate"
+                  value={batchProgress.totalRows > 0 ? (batchProgress.processedRows / batchProgress.totalRows) * 100 : 0}
+                  sx={{ height: 8, borderRadius: 4 }}
+                />
+                <Typography variant="body2" sx={{ mt: 1, textAlign: 'center' }}>
+                  {batchProgress.processedRows} of {batchProgress.totalRows} rows checked
+                  {batchProgress.failedRows > 0 ? `, ${batchProgress.failedRows} failed` : ''}
+                  {batchProgress.status === 'paused' ? ' (paused)' : ''}
+                  {batchProgress.status === 'cancelled' ? ' (cancelled)' : ''}
+                </Typography>
+                {batchProgress.status !== 'cancelled' && (
+                  <Box sx={{ mt: 1, display: 'flex', justifyContent: 'center', gap: 2 }}>
+                    {batchProgress.status === 'running' ? (
+                      <Button variant="outlined" size="small" startIcon={<Pause />} onClick={handlePauseBatch}>
+                        Pause
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="outlined"
+                        size="small"
+                        startIcon={<PlayArrow />}
+                        onClick={() => handleResumeBatch(batchProgress.jobId)}
+                      >
+                        Resume
+                      </Button>
+                    )}
+                    <Button
+                      variant="outlined"
+                      size="small"
+                      color="error"
+                      startIcon={<Stop />}
+                      onClick={() => handleCancelBatch(batchProgress.jobId)}
+                    >
+                      Cancel
+                    </Button>
+                  </Box>
+                )}
+              </Box>
+            )}
+            
+            {batchErrors.length > 0 && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                <AlertTitle>{batchErrors.length} rows could not be checked</AlertTitle>
+                {batchErrors.slice(0, 5).map(({ rowIndex, error }) => (
+                  <Typography key={rowIndex} variant="body2">
+                    Row {rowIndex + 1}: {error}
+                  </Typography>
+                ))}
+              </Alert>
+            )}
             
             {isLoading ? (
               <Box sx={{ width: '100%', mt: 2, mb: 2 }}>
@@ -986,10 +1213,12 @@ const ComplianceChecker: React.FC = () => {
             ) : (
               csvEntries.length > 0 && (
                 <>
-                  <Alert severity="success" sx={{ mb: 2 }}>
-                    <AlertTitle>CSV Processing Complete</AlertTitle>
-                    Successfully processed {csvEntries.length} entries.
-                  </Alert>
+                  {batchProgress?.status === 'completed' && (
+                    <Alert severity="success" sx={{ mb: 2 }}>
+                      <AlertTitle>CSV Processing Complete</AlertTitle>
+                      Successfully processed {csvEntries.length} entries.
+                    </Alert>
+                  )}
                   
                   <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
                     <Typography variant="h6" gutterBottom>
@@ -1330,6 +1559,14 @@ const ComplianceChecker: React.FC = () => {
             </Grid>
           </Paper>
           
+          {/* Label results that were produced without any model calls */}
+          {formattedData?.processingMetadata?.aiAssisted === false && (
+            <Alert severity="info" icon={<Block />} sx={{ mb: 3 }}>
+              <AlertTitle>Produced without AI</AlertTitle>
+              These results come from the rule set, pattern extraction and keyword lists only. The same input always gives the same results.
+            </Alert>
+          )}
+          
           {/* Confidence score alert if low */}
           {formattedData?.processingMetadata?.confidence !== undefined && 
             formattedData.processingMetadata.confidence < 0.8 && (
@@ -1418,6 +1655,15 @@ const ComplianceChecker: React.FC = () => {
             )}
           </Box>
           
+          {/* Documents of international shipments */}
+          {formattedData && results.some(result => result.field === REQUIRED_DOCUMENTS_FIELD) && (
+            <ShipmentDocuments
+              formattedData={formattedData}
+              complianceResults={results}
+              onResultsChange={setResults}
+            />
+          )}
+          
           {/* Detailed Results */}
           <Typography variant="h6" gutterBottom>
             Detailed Results
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { 
   Container, 
   Typography, 
@@ -16,15 +16,11 @@ import {
   ListItemText, 
   ListItemIcon,
   Divider,
-  TableContainer,
-  Table,
-  TableHead,
-  TableRow,
-  TableCell,
-  TableBody,
   CardActions,
   AppBar,
-  CssBaseline
+  CssBaseline,
+  Alert,
+  CircularProgress
 } from '@mui/material';
 import { 
   Inventory, 
@@ -45,10 +41,36 @@ import {
 } from '@mui/icons-material';
 import { useAuth } from '../context/AuthContext';
 import { Link } from 'react-router-dom';
+import ComplianceRunTable from '../components/dashboard/ComplianceRunTable';
+import { complianceRunRepository } from '../services/database/complianceRunRepository';
+import { ComplianceRun } from '../services/database/models';
 
 // Drawer width constant
 const drawerWidth = 240;
 
+// Shipments last checked within this window are shown as active
+const ACTIVE_SHIPMENT_DAYS = 30;
+
+/**
+ * Latest run for each shipment checked within the active window.
+ * Runs are grouped by tracking number; runs without one are treated as separate shipments.
+ */
+const getActiveShipments = (runs: ComplianceRun[]): ComplianceRun[] => {
+  const cutoff = new Date(Date.now() - ACTIVE_SHIPMENT_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const latestByShipment = new Map<string, ComplianceRun>();
+
+  for (const run of runs) {
+    if (run.timestamp < cutoff) continue;
+    const key = run.trackingNumber ? run.trackingNumber.toUpperCase() : run.id;
+    const latest = latestByShipment.get(key);
+    if (!latest || run.timestamp > latest.timestamp) {
+      latestByShipment.set(key, run);
+    }
+  }
+
+  return Array.from(latestByShipment.values());
+};
+
 interface TabPanelProps {
   children?: React.ReactNode;
   index: number;
@@ -83,61 +105,35 @@ const Dashboard: React.FC = () => {
     setTabValue(newValue);
   };
 
-  // Mock data for shipments
-  const activeShipments = [
-    { 
-      id: 'SHP-1234567', 
-      origin: 'New York, USA', 
-      destination: 'London, UK', 
-      status: 'In Transit', 
-      estimatedDelivery: '2023-03-15',
-      type: 'Air Freight'
-    },
-    { 
-      id: 'SHP-7654321', 
-      origin: 'Shanghai, China', 
-      destination: 'Los Angeles, USA', 
-      status: 'Customs Clearance', 
-      estimatedDelivery: '2023-03-18',
-      type: 'Ocean Freight'
-    },
-    { 
-      id: 'SHP-9876543', 
-      origin: 'Berlin, Germany', 
-      destination: 'Paris, France', 
-      status: 'Out for Delivery', 
-      estimatedDelivery: '2023-03-10',
-      type: 'Road Transport'
-    }
-  ];
+  const [runs, setRuns] = useState<ComplianceRun[]>([]);
+  const [runsLoading, setRunsLoading] = useState(true);
+  const [runsError, setRunsError] = useState('');
 
-  // Mock data for shipment history
-  const shipmentHistory = [
-    { 
-      id: 'SHP-5432167', 
-      origin: 'Tokyo, Japan', 
-      destination: 'Sydney, Australia', 
-      status: 'Delivered', 
-      deliveryDate: '2023-02-28',
-      type: 'Air Freight'
-    },
-    { 
-      id: 'SHP-8765432', 
-      origin: 'Mumbai, India', 
-      destination: 'Dubai, UAE', 
-      status: 'Delivered', 
-      deliveryDate: '2023-02-15',
-      type: 'Ocean Freight'
-    },
-    { 
-      id: 'SHP-2345678', 
-      origin: 'Toronto, Canada', 
-      destination: 'Chicago, USA', 
-      status: 'Delivered', 
-      deliveryDate: '2023-02-10',
-      type: 'Road Transport'
-    }
-  ];
+  // Load the compliance checks recorded for this user
+  useEffect(() => {
+    const loadRuns = async () => {
+      if (!currentUser) {
+        setRuns([]);
+        setRunsLoading(false);
+        return;
+      }
+
+      try {
+        setRunsLoading(true);
+        setRuns(await complianceRunRepository.getRunsByUser(currentUser.uid));
+        setRunsError('');
+      } catch (error) {
+        console.error('Failed to load compliance runs:', error);
+        setRunsError('Failed to load your shipment history. Please try refreshing the page.');
+      } finally {
+        setRunsLoading(false);
+      }
+    };
+
+    loadRuns();
+  }, [currentUser]);
+
+  const activeShipments = useMemo(() => getActiveShipments(runs), [runs]);
 
   // Mock data for notifications
   const notifications = [
@@ -167,19 +163,18 @@ const Dashboard: React.FC = () => {
     }
   ];
 
-  const getStatusChip = (status: string) => {
-    switch(status) {
-      case 'In Transit':
-        return <Chip icon={<LocalShipping />} label={status} color="primary" size="small" />;
-      case 'Customs Clearance':
-        return <Chip icon={<Schedule />} label={status} color="warning" size="small" />;
-      case 'Out for Delivery':
-        return <Chip icon={<LocalShipping />} label={status} color="info" size="small" />;
-      case 'Delivered':
-        return <Chip icon={<CheckCircle />} label={status} color="success" size="small" />;
-      default:
-        return <Chip label={status} size="small" />;
+  const renderRunTable = (tableRuns: ComplianceRun[], ariaLabel: string, emptyMessage: string) => {
+    if (runsLoading) {
+      return (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      );
+    }
+    if (runsError) {
+      return <Alert severity="error">{runsError}</Alert>;
     }
+    return <ComplianceRunTable runs={tableRuns} ariaLabel={ariaLabel} emptyMessage={emptyMessage} />;
   };
 
   // Dashboard items
@@ -293,11 +288,11 @@ const Dashboard: React.FC = () => {
                   {activeShipments.length}
                 </Typography>
                 <Typography variant="body2" color="text.secondary">
-                  Shipments currently in progress
+                  Shipments checked in the last {ACTIVE_SHIPMENT_DAYS} days
                 </Typography>
               </CardContent>
               <CardActions>
-                <Button size="small" color="primary">View All</Button>
+                <Button size="small" color="primary" onClick={() => setTabValue(0)}>View All</Button>
               </CardActions>
             </Card>
           </Grid>
@@ -308,18 +303,18 @@ const Dashboard: React.FC = () => {
                 <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
                   <History color="primary" sx={{ mr: 1 }} />
                   <Typography variant="h6" component="div">
-                    Completed Shipments
+                    Compliance Checks
                   </Typography>
                 </Box>
                 <Typography variant="h3" component="div" sx={{ fontWeight: 'bold', mb: 1 }}>
-                  {shipmentHistory.length}
+                  {runs.length}
                 </Typography>
                 <Typography variant="body2" color="text.secondary">
-                  Successfully delivered shipments
+                  {runs.filter(run => run.status === 'non-compliant').length} with non-compliant findings
                 </Typography>
               </CardContent>
               <CardActions>
-                <Button size="small" color="primary">View History</Button>
+                <Button size="small" color="primary" onClick={() => setTabValue(1)}>View History</Button>
               </CardActions>
             </Card>
           </Grid>
@@ -391,41 +386,10 @@ const Dashboard: React.FC = () => {
                 <Typography variant="h6" gutterBottom component="div">
                   Current Shipments
                 </Typography>
-                <TableContainer component={Paper} elevation={0} variant="outlined">
-                  <Table>
-                    <TableHead>
-                      <TableRow>
-                        <TableCell>Tracking Number</TableCell>
-                        <TableCell>Route</TableCell>
-                        <TableCell>Status</TableCell>
-                        <TableCell>ETA</TableCell>
-                        <TableCell>Actions</TableCell>
-                      </TableRow>
-                    </TableHead>
-                    <TableBody>
-                      {activeShipments.map((shipment) => (
-                        <TableRow key={shipment.id}>
-                          <TableCell>{shipment.id}</TableCell>
-                          <TableCell>{shipment.origin} → {shipment.destination}</TableCell>
-                          <TableCell>
-                            {getStatusChip(shipment.status)}
-                          </TableCell>
-                          <TableCell>{shipment.estimatedDelivery}</TableCell>
-                          <TableCell>
-                            <Button 
-                              size="small" 
-                              variant="outlined" 
-                              color="primary"
-                              startIcon={<Visibility />}
-                            >
-                              View
-                            </Button>
-                          </TableCell>
-                        </TableRow>
-                      ))}
-                    </TableBody>
-                  </Table>
-                </TableContainer>
+                <Typography variant="body2" color="text.secondary" paragraph>
+                  The latest compliance check for each shipment checked in the last {ACTIVE_SHIPMENT_DAYS} days.
+                </Typography>
+                {renderRunTable(activeShipments, 'active shipments table', 'No shipments checked recently.')}
               </TabPanel>
 
               {/* Shipment History Tab */}
@@ -433,38 +397,10 @@ const Dashboard: React.FC = () => {
                 <Typography variant="h6" gutterBottom component="div">
                   Shipment History
                 </Typography>
-                <TableContainer>
-                  <Table sx={{ minWidth: 650 }} aria-label="shipment history table">
-                    <TableHead>
-                      <TableRow>
-                        <TableCell>Tracking ID</TableCell>
-                        <TableCell>Type</TableCell>
-                        <TableCell>Origin</TableCell>
-                        <TableCell>Destination</TableCell>
-                        <TableCell>Status</TableCell>
-                        <TableCell>Delivery Date</TableCell>
-                        <TableCell>Actions</TableCell>
-                      </TableRow>
-                    </TableHead>
-                    <TableBody>
-                      {shipmentHistory.map((shipment) => (
-                        <TableRow key={shipment.id}>
-                          <TableCell component="th" scope="row">
-                            {shipment.id}
-                          </TableCell>
-                          <TableCell>{shipment.type}</TableCell>
-                          <TableCell>{shipment.origin}</TableCell>
-                          <TableCell>{shipment.destination}</TableCell>
-                          <TableCell>{getStatusChip(shipment.status)}</TableCell>
-                          <TableCell>{shipment.deliveryDate}</TableCell>
-                          <TableCell>
-                            <Button size="small" color="primary">Details</Button>
-                          </TableCell>
-                        </TableRow>
-                      ))}
-                    </TableBody>
-                  </Table>
-                </TableContainer>
+                <Typography variant="body2" color="text.secondary" paragraph>
+                  Every compliance check you have run.
+                </Typography>
+                {renderRunTable(runs, 'shipment history table', 'No compliance checks recorded yet.')}
               </TabPanel>
 
               {/* Notifications Tab */}
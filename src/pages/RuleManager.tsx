@@ -29,7 +29,14 @@ import {
   AccordionSummary,
   AccordionDetails,
   Grid,
-  Chip
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip
 } from '@mui/material';
 import {
   Add,
@@ -39,20 +46,32 @@ import {
   Save,
   Refresh,
   Code,
-  Category
+  Category,
+  History,
+  Restore
 } from '@mui/icons-material';
 import { ruleRepository } from '../services/database/ruleRepository';
+import { useAuth } from '../context/AuthContext';
 import { ruleLoader } from '../services/database/ruleLoader';
+import { expressionEvaluator } from '../services/expressionEvaluator';
 import {
   ComplianceRule,
   RuleCategory,
   ValidationConstraint,
+  RuleDependency,
+  RegionalRule,
+  RuleChangeHistory,
+  RuleChangeOptions,
   FieldType,
   ValidationLevel
 } from '../services/database/models';
+import { ruleDependencyEngine } from '../services/ruleDependencyEngine';
 import SyncRegulations from '../components/admin/SyncRegulations';
 import SyncScheduleConfig from '../components/admin/SyncScheduleConfig';
 import ReinitializeRules from '../components/admin/ReinitializeRules';
+import LLMSettings from '../components/admin/LLMSettings';
+import DeniedPartyLists from '../components/admin/DeniedPartyLists';
+import FxRates from '../components/admin/FxRates';
 
 // Field type options
 const fieldTypeOptions: FieldType[] = ['text', 'date', 'number', 'select', 'regex'];
@@ -60,6 +79,17 @@ const fieldTypeOptions: FieldType[] = ['text', 'date', 'number', 'select', 'rege
 // Validation level options
 const validationLevelOptions: ValidationLevel[] = ['error', 'warning', 'info'];
 
+// Item types that can be deleted from the manager
+type DeletableItemType = 'rule' | 'category' | 'constraint' | 'dependency' | 'regionalRule';
+
+// Format a rule value for the history diff
+const formatHistoryValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
 // Interface for tab panel props
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -85,6 +115,8 @@ function TabPanel(props: TabPanelProps) {
 
 // Rule Manager component
 const RuleManager: React.FC = () => {
+  const { currentUser } = useAuth();
+  
   // Tab state
   const [tabValue, setTabValue] = useState(0);
   
@@ -92,20 +124,33 @@ const RuleManager: React.FC = () => {
   const [rules, setRules] = useState<ComplianceRule[]>([]);
   const [categories, setCategories] = useState<RuleCategory[]>([]);
   const [constraints, setConstraints] = useState<Record<string, ValidationConstraint[]>>({});
+  const [dependencies, setDependencies] = useState<RuleDependency[]>([]);
+  const [regionalRules, setRegionalRules] = useState<RegionalRule[]>([]);
   
   // Selected item state
   const [selectedRule, setSelectedRule] = useState<ComplianceRule | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<RuleCategory | null>(null);
   const [selectedConstraint, setSelectedConstraint] = useState<ValidationConstraint | null>(null);
+  const [selectedDependency, setSelectedDependency] = useState<RuleDependency | null>(null);
+  const [selectedRegionalRule, setSelectedRegionalRule] = useState<RegionalRule | null>(null);
   
   // Dialog state
   const [ruleDialogOpen, setRuleDialogOpen] = useState(false);
   const [categoryDialogOpen, setCategoryDialogOpen] = useState(false);
   const [constraintDialogOpen, setConstraintDialogOpen] = useState(false);
+  const [dependencyDialogOpen, setDependencyDialogOpen] = useState(false);
+  const [regionalRuleDialogOpen, setRegionalRuleDialogOpen] = useState(false);
+  const [historyDialogOpen, setHistoryDialogOpen] = useState(false);
   const [confirmDeleteDialogOpen, setConfirmDeleteDialogOpen] = useState(false);
-  const [deleteItemType, setDeleteItemType] = useState<'rule' | 'category' | 'constraint'>('rule');
+  const [deleteItemType, setDeleteItemType] = useState<DeletableItemType>('rule');
   const [deleteItemId, setDeleteItemId] = useState<string>('');
   
+  // Rule change history state
+  const [changeReason, setChangeReason] = useState('');
+  const [historyTitle, setHistoryTitle] = useState('');
+  const [historyEntries, setHistoryEntries] = useState<RuleChangeHistory[]>([]);
+  const [historyRuleId, setHistoryRuleId] = useState<string | null>(null);
+  
   // Loading and error states
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -150,6 +195,30 @@ const RuleManager: React.FC = () => {
     metadata: {}
   });
   
+  // New dependency form state
+  const [newDependency, setNewDependency] = useState<Partial<RuleDependency>>({
+    primaryRuleId: '',
+    dependentRuleId: '',
+    condition: '',
+    description: '',
+    message: '',
+    severity: 'non-compliant',
+    isActive: true
+  });
+  
+  // New regional override form state
+  const [newRegionalRule, setNewRegionalRule] = useState<Partial<RegionalRule>>({
+    ruleId: '',
+    countryCode: '',
+    regionCode: '',
+    appliesTo: 'destination',
+    validationPattern: '',
+    validationMessage: '',
+    severity: 'non-compliant',
+    description: '',
+    isActive: true
+  });
+  
   // Load data on component mount
   useEffect(() => {
     loadData();
@@ -172,6 +241,8 @@ const RuleManager: React.FC = () => {
       // Load rules and categories
       const rulesData = await ruleRepository.getAllRules();
       const categoriesData = await ruleRepository.getAllCategories();
+      const dependenciesData = await ruleRepository.getAllDependencies();
+      const regionalRulesData = await ruleRepository.getAllRegionalRules();
       
       // Load constraints for each rule
       const constraintsData: Record<string, ValidationConstraint[]> = {};
@@ -194,6 +265,8 @@ const RuleManager: React.FC = () => {
       setRules(rulesData);
       setCategories(categoriesData);
       setConstraints(constraintsData);
+      setDependencies(dependenciesData);
+      setRegionalRules(regionalRulesData.sort((a, b) => a.countryCode.localeCompare(b.countryCode)));
       
       setIsLoading(false);
       setSuccess('Data loaded successfully');
@@ -204,8 +277,15 @@ const RuleManager: React.FC = () => {
     }
   };
   
+  // Attribution for rule changes made from this page
+  const getChangeOptions = (): RuleChangeOptions => ({
+    changedBy: currentUser?.email || currentUser?.phoneNumber || currentUser?.uid || 'anonymous',
+    changeReason: changeReason.trim() || undefined
+  });
+  
   // Open rule dialog for creating/editing
   const openRuleDialog = (rule?: ComplianceRule) => {
+    setChangeReason('');
     if (rule) {
       setNewRule({ ...rule });
       setSelectedRule(rule);
@@ -270,8 +350,51 @@ const RuleManager: React.FC = () => {
     setConstraintDialogOpen(true);
   };
   
+  // Open dependency dialog for creating/editing
+  const openDependencyDialog = (dependency?: RuleDependency) => {
+    if (dependency) {
+      setNewDependency({ ...dependency });
+      setSelectedDependency(dependency);
+    } else {
+      setNewDependency({
+        primaryRuleId: rules.length > 0 ? rules[0].id : '',
+        dependentRuleId: '',
+        condition: '',
+        description: '',
+        message: '',
+        severity: 'non-compliant',
+        isActive: true
+      });
+      setSelectedDependency(null);
+    }
+    setDependencyDialogOpen(true);
+  };
+  
+  // Open regional override dialog for creating/editing
+  const openRegionalRuleDialog = (regionalRule?: RegionalRule) => {
+    if (regionalRule) {
+      setNewRegionalRule({ ...regionalRule });
+      setSelectedRegionalRule(regionalRule);
+    } else {
+      setNewRegionalRule({
+        ruleId: rules.length > 0 ? rules[0].id : '',
+        countryCode: '',
+        regionCode: '',
+        appliesTo: 'destination',
+        validationPattern: '',
+        validationMessage: '',
+        severity: 'non-compliant',
+        description: '',
+        isActive: true
+      });
+      setSelectedRegionalRule(null);
+    }
+    setRegionalRuleDialogOpen(true);
+  };
+  
   // Open delete confirmation dialog
-  const openDeleteDialog = (type: 'rule' | 'category' | 'constraint', id: string) => {
+  const openDeleteDialog = (type: DeletableItemType, id: string) => {
+    setChangeReason('');
     setDeleteItemType(type);
     setDeleteItemId(id);
     setConfirmDeleteDialogOpen(true);
@@ -292,6 +415,16 @@ const RuleManager: React.FC = () => {
     setNewConstraint(prev => ({ ...prev, [field]: value }));
   };
   
+  // Handle dependency form change
+  const handleDependencyChange = (field: keyof RuleDependency, value: any) => {
+    setNewDependency(prev => ({ ...prev, [field]: value }));
+  };
+  
+  // Handle regional override form change
+  const handleRegionalRuleChange = (field: keyof RegionalRule, value: any) => {
+    setNewRegionalRule(prev => ({ ...prev, [field]: value }));
+  };
+  
   // Save a rule
   const saveRule = async () => {
     setIsLoading(true);
@@ -306,11 +439,11 @@ const RuleManager: React.FC = () => {
       
       if (selectedRule) {
         // Update existing rule
-        savedRule = await ruleRepository.updateRule(selectedRule.id, newRule);
+        savedRule = await ruleRepository.updateRule(selectedRule.id, newRule, getChangeOptions());
         setSuccess(`Rule "${savedRule.displayName}" updated successfully`);
       } else {
         // Create new rule
-        savedRule = await ruleRepository.addRule(newRule);
+        savedRule = await ruleRepository.addRule(newRule, getChangeOptions());
         setSuccess(`Rule "${savedRule.displayName}" created successfully`);
       }
       
@@ -327,6 +460,77 @@ const RuleManager: React.FC = () => {
     }
   };
   
+  // Toggle a rule between active and inactive
+  const toggleRuleActive = async (rule: ComplianceRule) => {
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      if (rule.isActive) {
+        await ruleRepository.deactivateRule(rule.id, getChangeOptions());
+        setSuccess(`Rule "${rule.displayName}" deactivated`);
+      } else {
+        await ruleRepository.activateRule(rule.id, getChangeOptions());
+        setSuccess(`Rule "${rule.displayName}" activated`);
+      }
+      await loadData();
+    } catch (err) {
+      console.error('Error changing rule status:', err);
+      setError(err instanceof Error ? err.message : 'Error changing rule status');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  // Load history entries for a rule, or deleted rules when no rule is given
+  const loadHistory = async (ruleId: string | null) => {
+    if (ruleId) {
+      setHistoryEntries(await ruleRepository.getRuleHistory(ruleId));
+      return;
+    }
+    
+    const allHistory = await ruleRepository.getAllRuleHistory();
+    const existingIds = new Set((await ruleRepository.getAllRules()).map(rule => rule.id));
+    setHistoryEntries(allHistory.filter(entry => entry.changeType === 'delete' && !existingIds.has(entry.ruleId)));
+  };
+  
+  // Open the history dialog for a rule, or for deleted rules
+  const openHistoryDialog = async (rule?: ComplianceRule) => {
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      setHistoryRuleId(rule ? rule.id : null);
+      setHistoryTitle(rule ? `Change History: ${rule.displayName}` : 'Deleted Rules');
+      setChangeReason('');
+      await loadHistory(rule ? rule.id : null);
+      setHistoryDialogOpen(true);
+    } catch (err) {
+      console.error('Error loading rule history:', err);
+      setError(err instanceof Error ? err.message : 'Error loading rule history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  // Revert a recorded change
+  const revertHistoryEntry = async (entry: RuleChangeHistory) => {
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      await ruleRepository.revertChange(entry.id, getChangeOptions());
+      setSuccess(entry.changeType === 'delete' ? 'Rule restored successfully' : 'Change reverted successfully');
+      await loadData();
+      await loadHistory(historyRuleId);
+    } catch (err) {
+      console.error('Error reverting change:', err);
+      setError(err instanceof Error ? err.message : 'Error reverting change');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
   // Save a category
   const saveCategory = async () => {
     setIsLoading(true);
@@ -372,12 +576,19 @@ const RuleManager: React.FC = () => {
         throw new Error('Rule ID, constraint type, and constraint value are required');
       }
       
+      if (newConstraint.constraintType === 'custom') {
+        const expressionError = expressionEvaluator.validate(newConstraint.constraintValue);
+        if (expressionError) {
+          throw new Error(`Invalid custom expression: ${expressionError}`);
+        }
+      }
+      
       // Ensure enhanced fields are synced with legacy fields
       const enhancedConstraint = {
         ...newConstraint,
-        type: newConstraint.type || newConstraint.constraintType,
+        type: newConstraint.constraintType || newConstraint.type,
         message: newConstraint.message || newConstraint.errorMessage,
-        pattern: newConstraint.pattern || (newConstraint.constraintType === 'pattern' ? newConstraint.constraintValue : undefined),
+        pattern: newConstraint.constraintType === 'pattern' ? newConstraint.constraintValue : newConstraint.pattern,
         minValue: newConstraint.constraintType === 'min' ? parseFloat(newConstraint.constraintValue) : newConstraint.minValue,
         maxValue: newConstraint.constraintType === 'max' ? parseFloat(newConstraint.constraintValue) : newConstraint.maxValue,
         severity: newConstraint.severity || (newConstraint.validationLevel === 'error' ? 'non-compliant' : 'warning'),
@@ -409,6 +620,82 @@ const RuleManager: React.FC = () => {
     }
   };
   
+  // Save a dependency
+  const saveDependency = async () => {
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      // Reject invalid conditions and circular dependencies before saving
+      const validationError = ruleDependencyEngine.validateDependency(newDependency, dependencies, rules);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+      
+      if (selectedDependency) {
+        await ruleRepository.updateDependency(selectedDependency.id, newDependency);
+        setSuccess('Dependency updated successfully');
+      } else {
+        await ruleRepository.addDependency(newDependency);
+        setSuccess('Dependency created successfully');
+      }
+      
+      // Refresh data
+      await loadData();
+      
+      // Close dialog
+      setDependencyDialogOpen(false);
+    } catch (err) {
+      console.error('Error saving dependency:', err);
+      setError(err instanceof Error ? err.message : 'Error saving dependency');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  // Save a regional override
+  const saveRegionalRule = async () => {
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      if (!newRegionalRule.ruleId || !newRegionalRule.countryCode || !newRegionalRule.validationPattern) {
+        throw new Error('Rule, country code, and validation pattern are required');
+      }
+      
+      try {
+        new RegExp(newRegionalRule.validationPattern);
+      } catch {
+        throw new Error(`Invalid validation pattern: ${newRegionalRule.validationPattern}`);
+      }
+      
+      const regionalRuleData = {
+        ...newRegionalRule,
+        countryCode: newRegionalRule.countryCode.trim().toUpperCase(),
+        regionCode: newRegionalRule.regionCode?.trim() || undefined
+      };
+      
+      if (selectedRegionalRule) {
+        await ruleRepository.updateRegionalRule(selectedRegionalRule.id, regionalRuleData);
+        setSuccess('Regional override updated successfully');
+      } else {
+        await ruleRepository.addRegionalRule(regionalRuleData);
+        setSuccess('Regional override created successfully');
+      }
+      
+      // Refresh data
+      await loadData();
+      
+      // Close dialog
+      setRegionalRuleDialogOpen(false);
+    } catch (err) {
+      console.error('Error saving regional override:', err);
+      setError(err instanceof Error ? err.message : 'Error saving regional override');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
   // Delete an item
   const deleteItem = async () => {
     setIsLoading(true);
@@ -417,7 +704,7 @@ const RuleManager: React.FC = () => {
     try {
       switch (deleteItemType) {
         case 'rule':
-          await ruleRepository.deleteRule(deleteItemId);
+          await ruleRepository.deleteRule(deleteItemId, getChangeOptions());
           setSuccess('Rule deleted successfully');
           break;
         case 'category':
@@ -428,6 +715,14 @@ const RuleManager: React.FC = () => {
           await ruleRepository.deleteConstraint(deleteItemId);
           setSuccess('Constraint deleted successfully');
           break;
+        case 'dependency':
+          await ruleRepository.deleteDependency(deleteItemId);
+          setSuccess('Dependency deleted successfully');
+          break;
+        case 'regionalRule':
+          await ruleRepository.deleteRegionalRule(deleteItemId);
+          setSuccess('Regional override deleted successfully');
+          break;
       }
       
       // Refresh data
@@ -449,6 +744,17 @@ const RuleManager: React.FC = () => {
     return category ? category.name : 'Unknown Category';
   };
   
+  // Get rule display name by ID
+  const getRuleName = (ruleId: string): string => {
+    const rule = rules.find(r => r.id === ruleId);
+    return rule ? rule.displayName : 'Unknown Rule';
+  };
+  
+  // Syntax error for the condition being edited, shown inline
+  const dependencyConditionError = newDependency.condition
+    ? expressionEvaluator.validate(newDependency.condition)
+    : null;
+  
   // Handle sync completion
   const handleSyncComplete = () => {
     setSuccess('Synchronization completed successfully');
@@ -496,6 +802,21 @@ const RuleManager: React.FC = () => {
         <SyncScheduleConfig onConfigUpdate={loadData} />
       </Box>
       
+      {/* AI Model Settings */}
+      <Box sx={{ mb: 3 }}>
+        <LLMSettings />
+      </Box>
+      
+      {/* Denied Party Lists */}
+      <Box sx={{ mb: 3 }}>
+        <DeniedPartyLists />
+      </Box>
+      
+      {/* Exchange Rates */}
+      <Box sx={{ mb: 3 }}>
+        <FxRates />
+      </Box>
+      
       {/* Rule Database Maintenance */}
       <Box sx={{ mb: 3 }}>
         <Typography variant="h6" gutterBottom>
@@ -527,11 +848,20 @@ const RuleManager: React.FC = () => {
         <Tabs value={tabValue} onChange={handleTabChange} sx={{ borderBottom: 1, borderColor: 'divider' }}>
           <Tab label="Rules" id="rule-tab-0" aria-controls="rule-tabpanel-0" />
           <Tab label="Categories" id="rule-tab-1" aria-controls="rule-tabpanel-1" />
+          <Tab label="Dependencies" id="rule-tab-2" aria-controls="rule-tabpanel-2" />
+          <Tab label="Regional Overrides" id="rule-tab-3" aria-controls="rule-tabpanel-3" />
         </Tabs>
         
         {/* Rules Tab */}
         <TabPanel value={tabValue} index={0}>
-          <Box sx={{ mb: 3, display: 'flex', justifyContent: 'flex-end' }}>
+          <Box sx={{ mb: 3, display: 'flex', justifyContent: 'flex-end', gap: 2 }}>
+            <Button
+              variant="outlined"
+              startIcon={<History />}
+              onClick={() => openHistoryDialog()}
+            >
+              Deleted Rules
+            </Button>
             <Button
               variant="contained"
               color="primary"
@@ -586,12 +916,24 @@ const RuleManager: React.FC = () => {
                               sx={{ mr: 1 }}
                             />
                             
-                            <Chip 
-                              label={rule.isActive ? 'Active' : 'Inactive'} 
-                              color={rule.isActive ? 'success' : 'error'}
-                              size="small"
-                              sx={{ mr: 1 }}
-                            />
+                            <Tooltip title={rule.isActive ? 'Click to deactivate' : 'Click to activate'}>
+                              <Chip 
+                                label={rule.isActive ? 'Active' : 'Inactive'} 
+                                color={rule.isActive ? 'success' : 'error'}
+                                size="small"
+                                sx={{ mr: 1 }}
+                                onClick={() => toggleRuleActive(rule)}
+                              />
+                            </Tooltip>
+                            
+                            <Tooltip title="Change history">
+                              <IconButton 
+                                onClick={() => openHistoryDialog(rule)}
+                                size="small"
+                              >
+                                <History />
+                              </IconButton>
+                            </Tooltip>
                             
                             <IconButton 
                               color="primary"
@@ -782,6 +1124,136 @@ const RuleManager: React.FC = () => {
             </Alert>
           )}
         </TabPanel>
+        
+        {/* Dependencies Tab */}
+        <TabPanel value={tabValue} index={2}>
+          <Box sx={{ mb: 3, display: 'flex', justifyContent: 'flex-end' }}>
+            <Button
+              variant="contained"
+              color="primary"
+              startIcon={<Add />}
+              onClick={() => openDependencyDialog()}
+              disabled={rules.length < 2}
+            >
+              Add New Dependency
+            </Button>
+          </Box>
+          
+          <List>
+            {dependencies.map(dependency => (
+              <Paper key={dependency.id} sx={{ mb: 2 }}>
+                <ListItem
+                  secondaryAction={
+                    <>
+                      <IconButton 
+                        edge="end" 
+                        aria-label="edit"
+                        onClick={() => openDependencyDialog(dependency)}
+                        size="small"
+                      >
+                        <Edit />
+                      </IconButton>
+                      <IconButton 
+                        edge="end" 
+                        aria-label="delete"
+                        onClick={() => openDeleteDialog('dependency', dependency.id)}
+                        size="small"
+                      >
+                        <Delete />
+                      </IconButton>
+                    </>
+                  }
+                >
+                  <ListItemText
+                    primary={`If ${getRuleName(dependency.primaryRuleId)} matches "${dependency.condition}" then ${getRuleName(dependency.dependentRuleId)} is required`}
+                    secondary={dependency.description || dependency.message}
+                  />
+                  <Chip 
+                    label={dependency.isActive ? 'Active' : 'Inactive'} 
+                    color={dependency.isActive ? 'success' : 'error'}
+                    size="small"
+                    sx={{ mr: 2 }}
+                  />
+                </ListItem>
+              </Paper>
+            ))}
+          </List>
+          
+          {dependencies.length === 0 && (
+            <Alert severity="info">
+              No dependencies defined. Dependencies make a field required when another field meets a condition.
+            </Alert>
+          )}
+        </TabPanel>
+        
+        {/* Regional Overrides Tab */}
+        <TabPanel value={tabValue} index={3}>
+          <Box sx={{ mb: 3, display: 'flex', justifyContent: 'flex-end' }}>
+            <Button
+              variant="contained"
+              color="primary"
+              startIcon={<Add />}
+              onClick={() => openRegionalRuleDialog()}
+              disabled={rules.length === 0}
+            >
+              Add Regional Override
+            </Button>
+          </Box>
+          
+          <List>
+            {regionalRules.map(regionalRule => (
+              <Paper key={regionalRule.id} sx={{ mb: 2 }}>
+                <ListItem
+                  secondaryAction={
+                    <>
+                      <IconButton 
+                        edge="end" 
+                        aria-label="edit"
+                        onClick={() => openRegionalRuleDialog(regionalRule)}
+                        size="small"
+                      >
+                        <Edit />
+                      </IconButton>
+                      <IconButton 
+                        edge="end" 
+                        aria-label="delete"
+                        onClick={() => openDeleteDialog('regionalRule', regionalRule.id)}
+                        size="small"
+                      >
+                        <Delete />
+                      </IconButton>
+                    </>
+                  }
+                >
+                  <Chip 
+                    label={regionalRule.regionCode 
+                      ? `${regionalRule.countryCode}-${regionalRule.regionCode}` 
+                      : regionalRule.countryCode} 
+                    color="primary"
+                    size="small"
+                    sx={{ mr: 2 }}
+                  />
+                  <ListItemText
+                    primary={`${getRuleName(regionalRule.ruleId)} (${regionalRule.appliesTo || 'destination'} country)`}
+                    secondary={`${regionalRule.validationPattern} — ${regionalRule.validationMessage}`}
+                  />
+                  <Chip 
+                    label={regionalRule.isActive ? 'Active' : 'Inactive'} 
+                    color={regionalRule.isActive ? 'success' : 'error'}
+                    size="small"
+                    sx={{ mr: 2 }}
+                  />
+                </ListItem>
+              </Paper>
+            ))}
+          </List>
+          
+          {regionalRules.length === 0 && (
+            <Alert severity="info">
+              No regional overrides defined. Overrides replace a rule's pattern for shipments to or from a specific country.
+            </Alert>
+          )}
+        </TabPanel>
       </Paper>
       
       {/* Rule Dialog */}
@@ -922,6 +1394,15 @@ const RuleManager: React.FC = () => {
                 label="Active"
               />
             </Grid>
+            <Grid item xs={12}>
+              <TextField
+                label="Change Reason"
+                value={changeReason}
+                onChange={e => setChangeReason(e.target.value)}
+                fullWidth
+                helperText="Optional note recorded in the rule's change history"
+              />
+            </Grid>
           </Grid>
         </DialogContent>
         <DialogActions>
@@ -1019,6 +1500,7 @@ const RuleManager: React.FC = () => {
                   <MenuItem value="min">Minimum Value</MenuItem>
                   <MenuItem value="max">Maximum Value</MenuItem>
                   <MenuItem value="equal">Equal To</MenuItem>
+                  <MenuItem value="oneOf">One Of</MenuItem>
                   <MenuItem value="custom">Custom</MenuItem>
                 </Select>
               </FormControl>
@@ -1064,10 +1546,11 @@ const RuleManager: React.FC = () => {
                 required
                 helperText={
                   newConstraint.constraintType === 'pattern' ? 'Regular expression pattern' :
-                  newConstraint.constraintType === 'min' ? 'Minimum value' :
-                  newConstraint.constraintType === 'max' ? 'Maximum value' :
+                  newConstraint.constraintType === 'min' ? 'Minimum value (dates: YYYY-MM-DD or today, today-30)' :
+                  newConstraint.constraintType === 'max' ? 'Maximum value (dates: YYYY-MM-DD or today, today+30)' :
                   newConstraint.constraintType === 'equal' ? 'Value to compare against' :
-                  'Custom validation'
+                  newConstraint.constraintType === 'oneOf' ? 'Allowed values separated by commas or |' :
+                  "Expression, e.g. value > 0 && currency in ['USD', 'EUR']"
                 }
               />
             </Grid>
@@ -1098,6 +1581,18 @@ const RuleManager: React.FC = () => {
               </Grid>
             )}
             
+            {(newConstraint.constraintType === 'min' || newConstraint.constraintType === 'max') && (
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  label="Unit"
+                  value={newConstraint.metadata?.unit || ''}
+                  onChange={e => handleConstraintChange('metadata', { ...newConstraint.metadata, unit: e.target.value })}
+                  fullWidth
+                  helperText="Unit of the limit: kg, lb, g, oz for weights or a currency code for values"
+                />
+              </Grid>
+            )}
+            
             <Grid item xs={12}>
               <TextField
                 label="Error Message"
@@ -1136,6 +1631,334 @@ const RuleManager: React.FC = () => {
         </DialogActions>
       </Dialog>
       
+      {/* Dependency Dialog */}
+      <Dialog open={dependencyDialogOpen} onClose={() => setDependencyDialogOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>
+          {selectedDependency ? 'Edit Dependency' : 'Add New Dependency'}
+        </DialogTitle>
+        <DialogContent>
+          <Grid container spacing={2} sx={{ mt: 1 }}>
+            <Grid item xs={12} sm={6}>
+              <FormControl fullWidth>
+                <InputLabel>When Rule</InputLabel>
+                <Select
+                  value={newDependency.primaryRuleId}
+                  label="When Rule"
+                  onChange={e => handleDependencyChange('primaryRuleId', e.target.value)}
+                  required
+                >
+                  {rules.map(rule => (
+                    <MenuItem key={rule.id} value={rule.id}>
+                      {rule.displayName} ({rule.fieldKey})
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <FormControl fullWidth>
+                <InputLabel>Then Require</InputLabel>
+                <Select
+                  value={newDependency.dependentRuleId}
+                  label="Then Require"
+                  onChange={e => handleDependencyChange('dependentRuleId', e.target.value)}
+                  required
+                >
+                  {rules
+                    .filter(rule => rule.id !== newDependency.primaryRuleId)
+                    .map(rule => (
+                      <MenuItem key={rule.id} value={rule.id}>
+                        {rule.displayName} ({rule.fieldKey})
+                      </MenuItem>
+                    ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                label="Condition"
+                value={newDependency.condition}
+                onChange={e => handleDependencyChange('condition', e.target.value)}
+                fullWidth
+                required
+                error={!!dependencyConditionError}
+                helperText={
+                  dependencyConditionError ||
+                  "Use value for the selected field or any field key, e.g. value contains 'international' or declaredValue > 2500"
+                }
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                label="Description"
+                value={newDependency.description}
+                onChange={e => handleDependencyChange('description', e.target.value)}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                label="Error Message"
+                value={newDependency.message}
+                onChange={e => handleDependencyChange('message', e.target.value)}
+                fullWidth
+                helperText="Message shown when the required field is missing"
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <FormControl fullWidth>
+                <InputLabel>Severity</InputLabel>
+                <Select
+                  value={newDependency.severity || 'non-compliant'}
+                  label="Severity"
+                  onChange={e => handleDependencyChange('severity', e.target.value)}
+                >
+                  <MenuItem value="non-compliant">Non-Compliant</MenuItem>
+                  <MenuItem value="warning">Warning</MenuItem>
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={newDependency.isActive}
+                    onChange={e => handleDependencyChange('isActive', e.target.checked)}
+                  />
+                }
+                label="Active"
+              />
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDependencyDialogOpen(false)}>Cancel</Button>
+          <Button 
+            variant="contained" 
+            color="primary" 
+            onClick={saveDependency}
+            disabled={isLoading || !!dependencyConditionError}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+      
+      {/* Regional Override Dialog */}
+      <Dialog open={regionalRuleDialogOpen} onClose={() => setRegionalRuleDialogOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>
+          {selectedRegionalRule ? 'Edit Regional Override' : 'Add Regional Override'}
+        </DialogTitle>
+        <DialogContent>
+          <Grid container spacing={2} sx={{ mt: 1 }}>
+            <Grid item xs={12} sm={6}>
+              <FormControl fullWidth>
+                <InputLabel>Rule</InputLabel>
+                <Select
+                  value={newRegionalRule.ruleId}
+                  label="Rule"
+                  onChange={e => handleRegionalRuleChange('ruleId', e.target.value)}
+                  required
+                >
+                  {rules.map(rule => (
+                    <MenuItem key={rule.id} value={rule.id}>
+                      {rule.displayName} ({rule.fieldKey})
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <FormControl fullWidth>
+                <InputLabel>Applies To</InputLabel>
+                <Select
+                  value={newRegionalRule.appliesTo || 'destination'}
+                  label="Applies To"
+                  onChange={e => handleRegionalRuleChange('appliesTo', e.target.value)}
+                >
+                  <MenuItem value="destination">Destination Country</MenuItem>
+                  <MenuItem value="origin">Origin Country</MenuItem>
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                label="Country Code"
+                value={newRegionalRule.countryCode}
+                onChange={e => handleRegionalRuleChange('countryCode', e.target.value)}
+                fullWidth
+                required
+                inputProps={{ maxLength: 2 }}
+                helperText="ISO 3166 alpha-2 code (e.g., GB, CA)"
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                label="Region Code"
+                value={newRegionalRule.regionCode || ''}
+                onChange={e => handleRegionalRuleChange('regionCode', e.target.value)}
+                fullWidth
+                helperText="Optional state or province (e.g., QC)"
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                label="Validation Pattern"
+                value={newRegionalRule.validationPattern}
+                onChange={e => handleRegionalRuleChange('validationPattern', e.target.value)}
+                fullWidth
+                required
+                helperText="Regular expression that replaces the rule's own pattern (case-insensitive)"
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                label="Validation Message"
+                value={newRegionalRule.validationMessage}
+                onChange={e => handleRegionalRuleChange('validationMessage', e.target.value)}
+                fullWidth
+                helperText="Message shown when validation fails"
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                label="Description"
+                value={newRegionalRule.description || ''}
+                onChange={e => handleRegionalRuleChange('description', e.target.value)}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <FormControl fullWidth>
+                <InputLabel>Severity</InputLabel>
+                <Select
+                  value={newRegionalRule.severity || 'non-compliant'}
+                  label="Severity"
+                  onChange={e => handleRegionalRuleChange('severity', e.target.value)}
+                >
+                  <MenuItem value="non-compliant">Non-Compliant</MenuItem>
+                  <MenuItem value="warning">Warning</MenuItem>
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={newRegionalRule.isActive}
+                    onChange={e => handleRegionalRuleChange('isActive', e.target.checked)}
+                  />
+                }
+                label="Active"
+              />
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRegionalRuleDialogOpen(false)}>Cancel</Button>
+          <Button 
+            variant="contained" 
+            color="primary" 
+            onClick={saveRegionalRule}
+            disabled={isLoading}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+      
+      {/* Rule History Dialog */}
+      <Dialog open={historyDialogOpen} onClose={() => setHistoryDialogOpen(false)} maxWidth="lg" fullWidth>
+        <DialogTitle>{historyTitle}</DialogTitle>
+        <DialogContent>
+          {historyEntries.length === 0 ? (
+            <Alert severity="info" sx={{ mt: 1 }}>
+              {historyRuleId ? 'No changes have been recorded for this rule.' : 'No deleted rules to restore.'}
+            </Alert>
+          ) : (
+            <>
+              <TextField
+                label="Revert Reason"
+                value={changeReason}
+                onChange={e => setChangeReason(e.target.value)}
+                fullWidth
+                size="small"
+                sx={{ mt: 1, mb: 2 }}
+                helperText="Optional note recorded when reverting a change"
+              />
+              {historyEntries.map(entry => {
+                const changedFields = Array.from(new Set([
+                  ...Object.keys(entry.previousValues || {}),
+                  ...Object.keys(entry.newValues || {})
+                ]));
+                
+                return (
+                  <Paper key={entry.id} variant="outlined" sx={{ p: 2, mb: 2 }}>
+                    <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+                      <Chip 
+                        label={entry.changeType}
+                        color={
+                          entry.changeType === 'delete' ? 'error' :
+                          entry.changeType === 'create' ? 'success' : 'primary'
+                        }
+                        size="small"
+                        sx={{ mr: 2 }}
+                      />
+                      <Typography variant="body2" sx={{ flexGrow: 1 }}>
+                        {new Date(entry.timestamp).toLocaleString()} by <strong>{entry.changedBy}</strong>
+                        {!historyRuleId && entry.previousValues?.displayName && ` — ${entry.previousValues.displayName}`}
+                      </Typography>
+                      <Button
+                        size="small"
+                        startIcon={<Restore />}
+                        onClick={() => revertHistoryEntry(entry)}
+                        disabled={isLoading}
+                      >
+                        {entry.changeType === 'delete' ? 'Restore' : 'Revert'}
+                      </Button>
+                    </Box>
+                    
+                    {entry.changeReason && (
+                      <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                        Reason: {entry.changeReason}
+                      </Typography>
+                    )}
+                    
+                    <TableContainer>
+                      <Table size="small">
+                        <TableHead>
+                          <TableRow>
+                            <TableCell>Field</TableCell>
+                            <TableCell>Previous Value</TableCell>
+                            <TableCell>New Value</TableCell>
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {changedFields.map(field => (
+                            <TableRow key={field}>
+                              <TableCell>{field}</TableCell>
+                              <TableCell sx={{ color: 'error.main', wordBreak: 'break-word' }}>
+                                {formatHistoryValue((entry.previousValues as any)?.[field])}
+                              </TableCell>
+                              <TableCell sx={{ color: 'success.main', wordBreak: 'break-word' }}>
+                                {formatHistoryValue((entry.newValues as any)?.[field])}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </TableContainer>
+                  </Paper>
+                );
+              })}
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setHistoryDialogOpen(false)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+      
       {/* Delete Confirmation Dialog */}
       <Dialog open={confirmDeleteDialogOpen} onClose={() => setConfirmDeleteDialogOpen(false)}>
         <DialogTitle>Confirm Delete</DialogTitle>
@@ -1148,6 +1971,16 @@ const RuleManager: React.FC = () => {
               Categories with rules cannot be deleted. You must first delete or reassign all rules in this category.
             </Alert>
           )}
+          {deleteItemType === 'rule' && (
+            <TextField
+              label="Change Reason"
+              value={changeReason}
+              onChange={e => setChangeReason(e.target.value)}
+              fullWidth
+              sx={{ mt: 2 }}
+              helperText="Optional note recorded in the rule's change history. Deleted rules can be restored."
+            />
+          )}
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setConfirmDeleteDialogOpen(false)}>Cancel</Button>
@@ -1,12 +1,18 @@
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
 import { v4 as uuidv4 } from 'uuid';
-import { ComplianceRule, RuleCategory, ValidationConstraint } from '../database/models';
+import { ComplianceRule, RuleCategory, ValidationConstraint, RuleChangeOptions } from '../database/models';
 import { ruleRepository } from '../database/ruleRepository';
 import { 
   ApiConfig, 
   SyncResult 
 } from '../../models/compliance';
 
+// Attribution recorded in rule history for synchronized changes
+const SYNC_CHANGE_OPTIONS: RuleChangeOptions = {
+  changedBy: 'regulation-sync',
+  changeReason: 'Synchronized from external compliance API'
+};
+
 /**
  * API configuration interface
  */
@@ -190,11 +196,11 @@ export class ComplianceAPIService {
           // Handle creation or update
           if (existingRule) {
             // Update existing rule
-            await ruleRepository.updateRule(existingRule.id, ruleData);
+            await ruleRepository.updateRule(existingRule.id, ruleData, SYNC_CHANGE_OPTIONS);
             stats.updated++;
           } else {
             // Create new rule
-            await ruleRepository.addRule(ruleData);
+            await ruleRepository.addRule(ruleData, SYNC_CHANGE_OPTIONS);
             stats.imported++;
           }
           
@@ -480,7 +486,7 @@ export class ComplianceAPIService {
           description: rule.description,
           isRequired: rule.isRequired,
           isActive: rule.isActive
-        });
+        }, SYNC_CHANGE_OPTIONS);
         return { isNew: true, updated: false };
       } else {
         // Update existing rule
@@ -491,7 +497,7 @@ export class ComplianceAPIService {
           description: rule.description,
           isRequired: rule.isRequired,
           isActive: rule.isActive
-        });
+        }, SYNC_CHANGE_OPTIONS);
         return { isNew: false, updated: true };
       }
     } catch (error) {
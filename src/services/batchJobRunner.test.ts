@@ -0,0 +1,40 @@
+import { batchJobRunner, BatchJobProgress } from './batchJobRunner';
+import { BatchJob, createBatchJob } from './database/models';
+
+// Jobs saved by the runner, by id
+const mockSavedJobs = new Map<string, BatchJob>();
+
+jest.mock('./complianceService', () => ({ complianceService: {} }));
+jest.mock('./database/complianceRunRepository', () => ({ complianceRunRepository: {} }));
+jest.mock('./database/batchJobRepository', () => ({
+  batchJobRepository: {
+    getJob: async (id: string) => mockSavedJobs.get(id),
+    saveJob: async (job: BatchJob) => {
+      mockSavedJobs.set(job.id, { ...job });
+      return job;
+    },
+    getRows: async () => {
+      throw new Error('IndexedDB unavailable');
+    }
+  }
+}));
+
+describe('batchJobRunner', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('pauses a job whose rows cannot be read and tells its listeners', async () => {
+    const job = createBatchJob({ status: 'paused', totalRows: 3 });
+    mockSavedJobs.set(job.id, job);
+    const progress: BatchJobProgress[] = [];
+
+    await batchJobRunner.resumeJob(job.id, { onProgress: update => progress.push(update) });
+    const stopped = await batchJobRunner.waitForJob(job.id);
+
+    expect(stopped?.status).toBe('paused');
+    expect(mockSavedJobs.get(job.id)?.status).toBe('paused');
+    expect(progress.map(update => update.status)).toEqual(['running', 'paused']);
+    expect(batchJobRunner.isRunning(job.id)).toBe(false);
+  });
+});
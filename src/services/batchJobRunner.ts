@@ -0,0 +1,325 @@
+import { complianceService, CsvEntryResult } from './complianceService';
+import { batchJobRepository } from './database/batchJobRepository';
+import { complianceRunRepository } from './database/complianceRunRepository';
+import { BatchJob, BatchJobRow, BatchJobStatus } from './database/models';
+
+const DEFAULT_CONCURRENCY = 4;
+const MAX_CONCURRENCY = 16;
+
+/**
+ * Snapshot of a job's progress
+ */
+export interface BatchJobProgress {
+  jobId: string;
+  status: BatchJobStatus;
+  totalRows: number;
+  processedRows: number;
+  failedRows: number;
+}
+
+/**
+ * Callbacks for a running job
+ */
+export interface BatchJobListener {
+  onProgress?: (progress: BatchJobProgress) => void;
+  onEntry?: (entry: CsvEntryResult) => void;
+  onRowError?: (rowIndex: number, error: string) => void;
+}
+
+interface ActiveJob {
+  job: BatchJob;
+  stopRequest: 'pause' | 'cancel' | null;
+  listeners: Set<BatchJobListener>;
+  done: Promise<BatchJob>;
+}
+
+/**
+ * Get the progress snapshot of a job
+ */
+export const toBatchJobProgress = (job: BatchJob): BatchJobProgress => ({
+  jobId: job.id,
+  status: job.status,
+  totalRows: job.totalRows,
+  processedRows: job.processedRows,
+  failedRows: job.failedRows
+});
+
+/**
+ * Runs CSV batch jobs with bounded concurrency.
+ *
+ * Every row is checked in isolation, so a failing row is recorded and the
+ * batch carries on. Row outcomes and job counters are saved to IndexedDB as
+ * they complete, so a paused or interrupted job resumes with the rows that
+ * are still pending.
+ */
+class BatchJobRunner {
+  private active = new Map<string, ActiveJob>();
+
+  /**
+   * Parse a CSV file and start checking its rows
+   * @returns The created job; processing continues in the background
+   */
+  async startJob(
+    csvData: string,
+    options: { userId?: string; filename?: string; concurrency?: number } = {},
+    listener?: BatchJobListener
+  ): Promise<BatchJob> {
+    const records = await complianceService.parseCsvRecords(csvData);
+    if (records.length === 0) {
+      throw new Error('No data rows found in the CSV file');
+    }
+
+    const job = await batchJobRepository.createJob({
+      filename: options.filename,
+      userId: options.userId || null,
+      concurrency: Math.min(MAX_CONCURRENCY, Math.max(1, options.concurrency || DEFAULT_CONCURRENCY))
+    }, records);
+
+    this.launch(job, listener);
+    return job;
+  }
+
+  /**
+   * Continue a paused or interrupted job with its pending rows.
+   * If the job is already running, the listener is attached to it.
+   * @param options.retryFailed Also process rows that failed before, even for a completed job
+   */
+  async resumeJob(jobId: string, listener?: BatchJobListener, options: { retryFailed?: boolean } = {}): Promise<BatchJob> {
+    const active = this.active.get(jobId);
+    if (active) {
+      if (!active.stopRequest) {
+        if (listener) active.listeners.add(listener);
+        return active.job;
+      }
+      // Let the pending pause finish, then start again below
+      await active.done;
+    }
+
+    const job = await batchJobRepository.getJob(jobId);
+    if (!job) {
+      throw new Error(`Batch job ${jobId} not found`);
+    }
+    if (job.status === 'cancelled' || (job.status === 'completed' && !options.retryFailed)) {
+      throw new Error(`Batch job ${jobId} is ${job.status} and cannot be resumed`);
+    }
+
+    if (options.retryFailed) {
+      const reset = await batchJobRepository.resetFailedRows(jobId);
+      job.processedRows -= reset;
+      job.failedRows -= reset;
+      job.completedAt = undefined;
+    }
+
+    this.launch(job, listener);
+    return job;
+  }
+
+  /**
+   * Stop taking new rows; rows already in progress are finished and saved
+   */
+  pauseJob(jobId: string): void {
+    const active = this.active.get(jobId);
+    if (active) {
+      active.stopRequest = 'pause';
+    }
+  }
+
+  /**
+   * Stop a job for good. A job that is not running is marked cancelled directly.
+   */
+  async cancelJob(jobId: string): Promise<void> {
+    const active = this.active.get(jobId);
+    if (active) {
+      active.stopRequest = 'cancel';
+      await active.done;
+      return;
+    }
+
+    const job = await batchJobRepository.getJob(jobId);
+    if (job && job.status !== 'completed') {
+      job.status = 'cancelled';
+      await batchJobRepository.saveJob(job);
+    }
+  }
+
+  /**
+   * Attach a listener to a running job
+   * @returns Function that detaches the listener
+   */
+  subscribe(jobId: string, listener: BatchJobListener): () => void {
+    const active = this.active.get(jobId);
+    active?.listeners.add(listener);
+    return () => {
+      active?.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Whether the job is being processed in this session
+   */
+  isRunning(jobId: string): boolean {
+    return this.active.has(jobId);
+  }
+
+  /**
+   * Wait until a running job stops; resolves immediately with the stored job otherwise
+   */
+  async waitForJob(jobId: string): Promise<BatchJob | undefined> {
+    const active = this.active.get(jobId);
+    return active ? active.done : batchJobRepository.getJob(jobId);
+  }
+
+  /**
+   * Get the running or paused jobs of a user. A job still marked running that
+   * is not processed in this session was interrupted by a page refresh and
+   * is returned as paused.
+   */
+  async getUnfinishedJobs(userId?: string): Promise<BatchJob[]> {
+    const jobs = await batchJobRepository.getUnfinishedJobs(userId);
+
+    for (const job of jobs) {
+      if (job.status === 'running' && !this.active.has(job.id)) {
+        job.status = 'paused';
+        await batchJobRepository.saveJob(job);
+      }
+    }
+
+    return jobs.map(job => this.active.get(job.id)?.job || job);
+  }
+
+  /**
+   * Rebuild the entries of the rows a job has completed from the run history
+   */
+  async getEntries(jobId: string): Promise<CsvEntryResult[]> {
+    const rows = await batchJobRepository.getRows(jobId);
+    const entries: CsvEntryResult[] = [];
+
+    for (const row of rows) {
+      if (row.status !== 'completed' || !row.runId) continue;
+
+      const run = await complianceRunRepository.getRunById(row.runId);
+      if (!run) continue;
+
+      entries.push({
+        entryId: `csv-entry-${row.index + 1}`,
+        entryText: run.formattedData.rawText || '',
+        runId: run.id,
+        formattedData: run.formattedData,
+        complianceResults: run.results,
+        complianceStats: run.stats
+      });
+    }
+
+    return entries;
+  }
+
+  private launch(job: BatchJob, listener?: BatchJobListener): void {
+    const active: ActiveJob = {
+      job,
+      stopRequest: null,
+      listeners: new Set(listener ? [listener] : []),
+      done: Promise.resolve(job)
+    };
+    this.active.set(job.id, active);
+    active.done = this.run(active)
+      .catch(error => this.pauseAfterError(active, error))
+      .finally(() => this.active.delete(job.id));
+  }
+
+  /**
+   * Pause a job that stopped on an unexpected error, e.g. when its rows
+   * cannot be read. Its pending rows stay pending, so it can be resumed.
+   */
+  private async pauseAfterError(active: ActiveJob, error: unknown): Promise<BatchJob> {
+    console.error(`Batch job ${active.job.id} stopped:`, error);
+    active.job.status = 'paused';
+    await this.saveJob(active.job);
+    this.emit(active, listener => listener.onProgress?.(toBatchJobProgress(active.job)));
+    return active.job;
+  }
+
+  private async run(active: ActiveJob): Promise<BatchJob> {
+    const job = active.job;
+    job.status = 'running';
+    await this.saveJob(job);
+    this.emit(active, listener => listener.onProgress?.(toBatchJobProgress(job)));
+
+    const rows = (await batchJobRepository.getRows(job.id)).filter(row => row.status === 'pending');
+    let next = 0;
+
+    // Each worker takes the next pending row until none are left or a stop is requested
+    const worker = async () => {
+      while (!active.stopRequest && next < rows.length) {
+        const row = rows[next++];
+        await this.processRow(active, row);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(job.concurrency, rows.length) }, worker));
+
+    if (next < rows.length) {
+      job.status = active.stopRequest === 'cancel' ? 'cancelled' : 'paused';
+    } else {
+      job.status = 'completed';
+      job.completedAt = new Date().toISOString();
+    }
+    await this.saveJob(job);
+    this.emit(active, listener => listener.onProgress?.(toBatchJobProgress(job)));
+
+    return job;
+  }
+
+  private async processRow(active: ActiveJob, row: BatchJobRow): Promise<void> {
+    const job = active.job;
+
+    try {
+      const entry = await complianceService.checkCsvRecord(row.record, row.index, {
+        userId: job.userId || undefined,
+        filename: job.filename,
+        batchId: job.id
+      });
+      row.status = 'completed';
+      row.runId = entry.runId;
+      row.error = undefined;
+      this.emit(active, listener => listener.onEntry?.(entry));
+    } catch (error) {
+      console.error(`Error checking CSV row ${row.index + 1}:`, error);
+      row.status = 'failed';
+      row.error = error instanceof Error ? error.message : String(error);
+      job.failedRows++;
+      this.emit(active, listener => listener.onRowError?.(row.index, row.error!));
+    }
+
+    job.processedRows++;
+    try {
+      await batchJobRepository.saveRow(row);
+    } catch (error) {
+      console.error('Failed to save batch row:', error);
+    }
+    await this.saveJob(job);
+    this.emit(active, listener => listener.onProgress?.(toBatchJobProgress(job)));
+  }
+
+  /**
+   * Save job progress; failures are logged and never stop the batch
+   */
+  private async saveJob(job: BatchJob): Promise<void> {
+    try {
+      await batchJobRepository.saveJob(job);
+    } catch (error) {
+      console.error('Failed to save batch job:', error);
+    }
+  }
+
+  private emit(active: ActiveJob, notify: (listener: BatchJobListener) => void): void {
+    active.listeners.forEach(listener => {
+      try {
+        notify(listener);
+      } catch (error) {
+        console.error('Error in batch job listener:', error);
+      }
+    });
+  }
+}
+
+// Create and export a singleton instance
+export const batchJobRunner = new BatchJobRunner();
@@ -0,0 +1,85 @@
+import { ComplianceChatService } from './complianceChatService';
+import { FormattedData } from './formatConverterDb';
+import { ComplianceResult } from './types';
+import { llmClient } from './llm/llmClient';
+import { MockLLMProvider } from './llm/mockProvider';
+
+// Serve the bundled nomenclature from memory instead of IndexedDB
+jest.mock('./database/hsNomenclatureLoader', () => ({
+  hsNomenclatureLoader: { initializeNomenclature: async () => undefined }
+}));
+jest.mock('./database/hsNomenclatureRepository', () => {
+  const { createHsNomenclatureEntry } = jest.requireActual('./database/models');
+  const entries = jest.requireActual('./database/data/hsNomenclature.json').map(createHsNomenclatureEntry);
+  return {
+    hsNomenclatureRepository: { getAllEntries: async () => entries }
+  };
+});
+
+const record = (localOnly: boolean): FormattedData => ({
+  id: 'record-1',
+  fields: { trackingNumber: 'AB123', packageContents: 'cotton t-shirts', recipientCountry: 'DE' },
+  processingMetadata: { confidence: 1, source: 'image', timestamp: '2024-05-01T00:00:00.000Z', warnings: [], localOnly }
+});
+
+const results: ComplianceResult[] = [
+  { id: 'r1', field: 'Tracking Number', value: 'AB123', status: 'non-compliant', message: 'Tracking number must be at least 8 characters' },
+  { id: 'r2', field: 'HS Tariff Number', value: '', status: 'non-compliant', message: 'HS tariff number is missing' }
+];
+
+// Resolution suggestions are generated in the background
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('ComplianceChatService', () => {
+  let provider: MockLLMProvider;
+  let service: ComplianceChatService;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    provider = new MockLLMProvider(request => request.responseMimeType === 'application/json' ? '[]' : 'Model answer');
+    llmClient.useProvider(provider);
+    service = new ComplianceChatService();
+  });
+
+  it('sends nothing to the model provider for records read on the device', async () => {
+    service.setComplianceContext(record(true), results);
+    await settle();
+    const reply = await service.sendMessage('How do I fix the tracking number?');
+    await service.sendMessage('What documents do I need?');
+
+    expect(provider.requests).toHaveLength(0);
+    expect(reply.content).not.toBe('Model answer');
+    expect(service.getResolutionSuggestions().map(suggestion => suggestion.field))
+      .toEqual(['Tracking Number', 'HS Tariff Number']);
+  });
+
+  it('asks the model provider about other records', async () => {
+    service.setComplianceContext(record(false), results);
+    await settle();
+    const reply = await service.sendMessage('What documents do I need?');
+
+    expect(reply.content).toBe('Model answer');
+    expect(provider.requests.length).toBeGreaterThan(0);
+  });
+
+  it('puts re-ranked nomenclature candidates in place of the model suggestion for the HS code', async () => {
+    provider.enqueue(JSON.stringify([
+      { issueId: '1', field: 'Tracking Number', currentValue: 'AB123', suggestedValue: 'AB12345678', recommendation: 'Use the full number' },
+      { issueId: '2', field: 'HS Tariff Number', currentValue: 'Missing', suggestedValue: '6205', recommendation: 'Classify the shirts', regulatoryReference: 'WCO HS 2022' }
+    ]));
+    service.setComplianceContext(record(false), results);
+    await settle();
+
+    const [tracking, hsCode] = service.getResolutionSuggestions();
+    expect(tracking.suggestedValue).toBe('AB12345678');
+    expect(hsCode).toMatchObject({ issueId: '2', field: 'HS Tariff Number', regulatoryReference: 'WCO HS 2022' });
+    expect(hsCode.suggestedValue).toBe('6109');
+    expect(hsCode.recommendation).toContain('confidence');
+    expect(hsCode.alternatives).toBeDefined();
+    expect(provider.requests.some(request => request.prompt.includes('Candidate codes'))).toBe(true);
+  });
+});
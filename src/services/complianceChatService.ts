@@ -1,6 +1,10 @@
 import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
 import { ComplianceResult } from './types';
 import { FormattedData } from './formatConverterDb';
+import { llmClient } from './llm/llmClient';
+import { LLMError } from './llm/llmError';
+import { hsClassifierService } from './hsClassifierService';
 
 // Message types for the chat
 export interface ChatMessage {
@@ -18,21 +22,22 @@ export interface ResolutionSuggestion {
   suggestedValue: string;
   recommendation: string;
   regulatoryReference?: string;
+  alternatives?: { value: string; description: string }[]; // Other values the user can pick instead
 }
 
+const resolutionSuggestionsSchema = z.array(z.object({
+  issueId: z.coerce.string(),
+  field: z.string(),
+  currentValue: z.string(),
+  suggestedValue: z.string(),
+  recommendation: z.string(),
+  regulatoryReference: z.string().optional()
+}));
+
 /**
  * Service for handling compliance-related chat interactions with enhanced issue resolution
  */
 export class ComplianceChatService {
-  // NOTE: In production, this should be loaded from environment variables
-  private API_KEY = 'your_api_key_here';
-  
-  // Use the standard model name that is known to be available
-  private MODEL_NAME = 'gemini-pro';
-  
-  // API URL with the standard endpoint path
-  private API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${this.MODEL_NAME}:generateContent`;
-  
   // Track if we're in offline mode (for debugging and fallbacks)
   private offlineMode = false;
   
@@ -49,7 +54,7 @@ export class ComplianceChatService {
    */
   setComplianceContext(formattedData: FormattedData, complianceResults: ComplianceResult[]) {
     // First check if we should operate in offline mode
-    this.checkOfflineMode();
+    this.checkOfflineMode(formattedData);
     
     this.complianceContext = {
       formattedData,
@@ -64,16 +69,16 @@ export class ComplianceChatService {
   }
   
   /**
-   * Check if we should operate in offline mode
+   * Check if we should operate in offline mode. Records read on the device
+   * stay offline, so their fields and issues are not sent to the model provider.
    */
-  private checkOfflineMode() {
+  private checkOfflineMode(formattedData: FormattedData) {
     try {
-      this.offlineMode = !this.API_KEY || 
-                          this.API_KEY.includes('your_api_key') || 
-                          this.API_KEY.includes('api-key');
+      const localOnly = formattedData.processingMetadata.localOnly === true;
+      this.offlineMode = !llmClient.isAiEnabled() || localOnly;
       
       if (this.offlineMode) {
-        console.warn('ComplianceChatService: Operating in offline mode (no valid API key)');
+        console.warn(`ComplianceChatService: Operating in offline mode (${localOnly ? 'record read on the device' : 'no valid API key'})`);
       }
     } catch (e) {
       console.error('Error checking offline mode:', e);
@@ -170,7 +175,7 @@ For critical issues, always include step-by-step correction instructions.
       // If we're in offline mode, use fallback suggestions
       if (this.offlineMode) {
         console.log('Generating fallback resolution suggestions (offline mode)');
-        this.createFallbackSuggestions(nonCompliantIssues, shipmentData);
+        await this.createFallbackSuggestions(nonCompliantIssues, shipmentData);
         return;
       }
       
@@ -207,173 +212,43 @@ Format your response as JSON in this exact structure:
 `;
       
       try {
-        // Test API connection with a simple request before making the full request
-        const testResponse = await this.testApiConnection();
-        if (!testResponse) {
-          console.error('API connection test failed, falling back to offline mode');
-          this.offlineMode = true;
-          this.createFallbackSuggestions(nonCompliantIssues, shipmentData);
-          return;
-        }
-        
-        const response = await fetch(`${this.API_URL}?key=${this.API_KEY}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            contents: [
-              {
-                role: 'user',
-                parts: [{ text: prompt }]
-              }
-            ],
-            generationConfig: {
-              temperature: 0.2,
-              topP: 0.95,
-              topK: 40,
-              maxOutputTokens: 2048,
-            }
-          })
+        const suggestions = await llmClient.generateJson(prompt, resolutionSuggestionsSchema, {
+          label: 'chat.resolutionSuggestions',
+          temperature: 0.2,
+          topP: 0.95,
+          topK: 40,
+          maxOutputTokens: 2048
         });
         
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error('API error:', response.status, errorText);
-          this.offlineMode = true;
-          this.createFallbackSuggestions(nonCompliantIssues, shipmentData);
+        if (suggestions.length > 0) {
+          this.resolutionSuggestions = await this.addHsCodeSuggestion(nonCompliantIssues, suggestions, shipmentData);
+          console.log('Generated resolution suggestions:', this.resolutionSuggestions);
           return;
         }
         
-        const data = await response.json();
-        
-        if (data.candidates && data.candidates[0] && data.candidates[0].content) {
-          const text = data.candidates[0].content.parts[0].text;
-          
-          // Extract the JSON from the response
-          try {
-            // Try to find JSON array in the response using regex
-            const jsonMatch = text.match(/\[\s*\{[\s\S]*\}\s*\]/);
-            
-            if (jsonMatch) {
-              const suggestions = JSON.parse(jsonMatch[0]);
-              if (Array.isArray(suggestions) && suggestions.length > 0) {
-                this.resolutionSuggestions = suggestions;
-                console.log('Generated resolution suggestions:', this.resolutionSuggestions);
-                return;
-              }
-            }
-            
-            // If we couldn't extract valid JSON, fall back to our default suggestions
-            console.warn('Could not parse valid JSON from API response, using fallback suggestions');
-            this.createFallbackSuggestions(nonCompliantIssues, shipmentData);
-          } catch (parseError) {
-            console.error('Error parsing resolution suggestions:', parseError);
-            this.createFallbackSuggestions(nonCompliantIssues, shipmentData);
-          }
-        } else {
-          console.warn('Invalid API response format, using fallback suggestions');
-          this.createFallbackSuggestions(nonCompliantIssues, shipmentData);
+        console.warn('No suggestions in API response, using fallback suggestions');
+        await this.createFallbackSuggestions(nonCompliantIssues, shipmentData);
+      } catch (apiError) {
+        console.error('Error fetching resolution suggestions:', apiError);
+        // Unparseable answers only need fallback suggestions; failed calls switch to offline mode
+        if (!(apiError instanceof LLMError && (apiError.code === 'validation' || apiError.code === 'invalid-response'))) {
+          this.offlineMode = true;
         }
-      } catch (fetchError) {
-        console.error('Error fetching from API:', fetchError);
-        this.offlineMode = true;
-        this.createFallbackSuggestions(nonCompliantIssues, shipmentData);
+        await this.createFallbackSuggestions(nonCompliantIssues, shipmentData);
       }
     } catch (error) {
       console.error('Error generating resolution suggestions:', error);
       // Create fallback suggestions on error
       const nonCompliantIssues = (this.complianceContext.complianceResults || [])
         .filter(r => r.status === 'non-compliant');
-      this.createFallbackSuggestions(nonCompliantIssues, this.complianceContext.formattedData?.fields || {});
-    }
-  }
-  
-  /**
-   * Test API connection with a minimal request
-   * @returns true if connection is successful, false otherwise
-   */
-  private async testApiConnection(): Promise<boolean> {
-    try {
-      console.log('Testing API connection with key:', this.API_KEY.substring(0, 6) + '...');
-      
-      // Use the correct models endpoint for Gemini
-      const testUrl = `https://generativelanguage.googleapis.com/v1beta/models?key=${this.API_KEY}`;
-      const response = await fetch(testUrl, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      if (response.ok) {
-        console.log('API connection test successful');
-        // Test a simple content generation to verify full access
-        return await this.testContentGeneration();
-      } else {
-        const errorText = await response.text();
-        console.error('API connection test failed:', response.status, errorText);
-        return false;
-      }
-    } catch (error) {
-      console.error('API connection test error:', error);
-      return false;
-    }
-  }
-
-  /**
-   * Test actual content generation with a simple prompt
-   */
-  private async testContentGeneration(): Promise<boolean> {
-    try {
-      const testPrompt = "Respond with only the word 'SUCCESS' if you can read this message.";
-      
-      const response = await fetch(`${this.API_URL}?key=${this.API_KEY}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{ text: testPrompt }]
-          }],
-          generationConfig: {
-            temperature: 0.1,
-            maxOutputTokens: 100,
-          }
-        })
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Content generation test failed:', response.status, errorText);
-        return false;
-      }
-      
-      const data = await response.json();
-      console.log('Content generation test response:', data);
-      
-      if (data.candidates && 
-          data.candidates[0] && 
-          data.candidates[0].content && 
-          data.candidates[0].content.parts && 
-          data.candidates[0].content.parts[0].text) {
-        console.log('Content generation successful');
-        return true;
-      }
-      
-      console.error('Invalid content generation response format');
-      return false;
-    } catch (error) {
-      console.error('Content generation test error:', error);
-      return false;
+      await this.createFallbackSuggestions(nonCompliantIssues, this.complianceContext.formattedData?.fields || {});
     }
   }
   
   /**
    * Create fallback resolution suggestions based on common rules
    */
-  private createFallbackSuggestions(issues: ComplianceResult[], shipmentData: Record<string, string>) {
+  private async createFallbackSuggestions(issues: ComplianceResult[], shipmentData: Record<string, string>) {
     const suggestions: ResolutionSuggestion[] = [];
     
     issues.forEach((issue, index) => {
@@ -400,7 +275,7 @@ Format your response as JSON in this exact structure:
       } else if (fieldKey.includes('date')) {
         suggestion.suggestedValue = new Date().toISOString().split('T')[0];
         suggestion.recommendation = 'Enter a date in YYYY-MM-DD format.';
-      } else if (fieldKey.includes('code') || fieldKey.includes('commodit')) {
+      } else if (fieldKey.includes('code') || fieldKey.includes('commodit') || fieldKey.includes('tariff')) {
         suggestion.suggestedValue = '8471300000';
         suggestion.recommendation = 'Enter a valid 6-10 digit Harmonized System (HS) code.';
         suggestion.regulatoryReference = 'Harmonized Tariff Schedule';
@@ -415,7 +290,82 @@ Format your response as JSON in this exact structure:
       suggestions.push(suggestion);
     });
     
-    this.resolutionSuggestions = suggestions;
+    this.resolutionSuggestions = await this.addHsCodeSuggestion(issues, suggestions, shipmentData);
+  }
+  
+  /**
+   * Propose HS codes from the goods description when the code is missing or
+   * invalid, in place of the suggestion for the HS code field
+   */
+  private async addHsCodeSuggestion(
+    issues: ComplianceResult[],
+    suggestions: ResolutionSuggestion[],
+    shipmentData: Record<string, string>
+  ): Promise<ResolutionSuggestion[]> {
+    const hsIssueIndex = issues.findIndex(issue => this.isHsCodeIssue(issue));
+    if (hsIssueIndex < 0) {
+      return suggestions;
+    }
+    
+    const hsSuggestion = await this.createHsCodeSuggestion(issues[hsIssueIndex], hsIssueIndex, shipmentData);
+    if (!hsSuggestion) {
+      return suggestions;
+    }
+    
+    // Issues listing several missing fields keep their own suggestion
+    const index = suggestions.findIndex(suggestion => suggestion.field.toLowerCase() === hsSuggestion.field.toLowerCase());
+    if (index < 0) {
+      return [...suggestions, hsSuggestion];
+    }
+    
+    const existing = suggestions[index];
+    return suggestions.map((suggestion, i) => i === index ? {
+      ...hsSuggestion,
+      issueId: existing.issueId,
+      regulatoryReference: existing.regulatoryReference || hsSuggestion.regulatoryReference
+    } : suggestion);
+  }
+  
+  /**
+   * Whether an issue is about a missing or invalid HS code
+   */
+  private isHsCodeIssue(issue: ComplianceResult): boolean {
+    const field = issue.field.toLowerCase();
+    return field.includes('tariff') || field.includes('harmonized') ||
+      /\bhsTariffNumber\b/.test(issue.value || '');
+  }
+  
+  /**
+   * Suggest HS codes for the package contents, best candidate first
+   */
+  private async createHsCodeSuggestion(
+    issue: ComplianceResult,
+    index: number,
+    shipmentData: Record<string, string>
+  ): Promise<ResolutionSuggestion | null> {
+    const packageContents = shipmentData.packageContents || shipmentData.itemDescription;
+    if (!packageContents) {
+      return null;
+    }
+    
+    const candidates = await hsClassifierService.suggest(packageContents, { rerank: !this.offlineMode });
+    if (candidates.length === 0) {
+      return null;
+    }
+    
+    const [best, ...others] = candidates;
+    return {
+      issueId: `issue-${index + 1}`,
+      field: 'HS Tariff Number',
+      currentValue: shipmentData.hsTariffNumber || 'Missing',
+      suggestedValue: best.code,
+      recommendation: `Based on the package contents "${packageContents}", the goods most likely classify as ${best.code} (${best.description}), confidence ${Math.round(best.confidence * 100)}%. Confirm the code and its national tariff digits before filing.`,
+      regulatoryReference: 'Harmonized System Nomenclature',
+      alternatives: others.map(candidate => ({
+        value: candidate.code,
+        description: `${candidate.description} (${Math.round(candidate.confidence * 100)}%)`
+      }))
+    };
   }
   
   /**
@@ -594,51 +544,19 @@ User question: ${userMessage}
 Please provide a detailed solution for this specific field issue:
 `;
       
-      // Make a very simple, clean request
-      const requestBody = {
-        contents: [{
-          parts: [{ text: combinedPrompt }]
-        }],
-        generationConfig: {
-          temperature: 0.2,
-          maxOutputTokens: 1024,
-        }
-      };
-      
-      console.log('Sending field-specific request to Gemini API');
-      const response = await fetch(`${this.API_URL}?key=${this.API_KEY}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody)
+      console.log('Sending field-specific request to LLM');
+      const text = await llmClient.generateText(combinedPrompt, {
+        label: 'chat.fieldResponse',
+        temperature: 0.2,
+        maxOutputTokens: 1024
       });
       
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('API error:', response.status, errorText);
-        throw new Error(`API error: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      
-      if (data.candidates && 
-          data.candidates[0] && 
-          data.candidates[0].content && 
-          data.candidates[0].content.parts && 
-          data.candidates[0].content.parts[0] && 
-          data.candidates[0].content.parts[0].text) {
-        const text = data.candidates[0].content.parts[0].text;
-        
-        return {
-          id: uuidv4(),
-          role: 'assistant',
-          content: text,
-          timestamp: new Date()
-        };
-      }
-      
-      throw new Error('Invalid response from Gemini API');
+      return {
+        id: uuidv4(),
+        role: 'assistant',
+        content: text,
+        timestamp: new Date()
+      };
     } catch (error) {
       console.error('Error generating field-specific response:', error);
       
@@ -678,46 +596,14 @@ Please provide a detailed solution for this specific field issue:
       // We'll combine the system context with the user's query directly
       const combinedPrompt = `${systemContext}\n\nUser question: ${lastUserMessage.content}\n\nPlease provide a helpful response:`;
       
-      // Make a very simple, clean request
-      const requestBody = {
-        contents: [{
-          parts: [{ text: combinedPrompt }]
-        }],
-        generationConfig: {
-          temperature: 0.2,
-          maxOutputTokens: 1024,
-        }
-      };
-      
-      console.log('Sending simple request to Gemini API');
-      
-      const response = await fetch(`${this.API_URL}?key=${this.API_KEY}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody)
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('API error:', response.status, errorText);
-        
-        // On API error, switch to offline mode and return fallback
-        this.offlineMode = true;
-        return this.generateOfflineResponse();
-      }
-      
-      const data = await response.json();
-      console.log('Received API response');
+      console.log('Sending request to LLM');
       
-      if (data.candidates && 
-          data.candidates[0] && 
-          data.candidates[0].content && 
-          data.candidates[0].content.parts && 
-          data.candidates[0].content.parts[0] && 
-          data.candidates[0].content.parts[0].text) {
-        const text = data.candidates[0].content.parts[0].text;
+      try {
+        const text = await llmClient.generateText(combinedPrompt, {
+          label: 'chat.response',
+          temperature: 0.2,
+          maxOutputTokens: 1024
+        });
         
         return {
           id: uuidv4(),
@@ -725,9 +611,12 @@ Please provide a detailed solution for this specific field issue:
           content: text,
           timestamp: new Date()
         };
-      } else {
-        console.error('Invalid response structure:', JSON.stringify(data));
-        throw new Error('Invalid response from Gemini API');
+      } catch (apiError) {
+        console.error('API error:', apiError);
+        
+        // On API error, switch to offline mode and return fallback
+        this.offlineMode = true;
+        return this.generateOfflineResponse();
       }
     } catch (error) {
       console.error('Error calling Gemini API:', error);
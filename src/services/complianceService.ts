@@ -1,8 +1,47 @@
 import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
 import { FormatConverterDb, RawInputData, FormattedData } from './formatConverterDb';
-import { ComplianceResult } from './types';
+import { ComplianceResult, ComplianceStats } from './types';
 import { ruleLoader } from './database/ruleLoader';
 import { crossBorderComplianceService } from './crossBorderComplianceService';
+import { complianceRunRepository } from './database/complianceRunRepository';
+import { llmClient } from './llm/llmClient';
+import { ocrService, OcrProgressListener } from './ocrService';
+import { shipmentDocumentService } from './shipmentDocumentService';
+import { ShipmentDocument } from './database/models';
+import { Country, countryService } from './countryService';
+
+// Shape of the findings the model returns for classification and content checks
+const llmFindingsSchema = z.array(z.object({
+  field: z.string(),
+  value: z.string(),
+  status: z.enum(['compliant', 'non-compliant', 'warning']),
+  message: z.string()
+}));
+
+/**
+ * Outcome of checking a single CSV row
+ */
+export interface CsvEntryResult {
+  entryId: string;
+  entryText: string; // The row as the labelled text that was checked
+  runId?: string;
+  formattedData: FormattedData;
+  complianceResults: ComplianceResult[];
+  complianceStats: ComplianceStats;
+}
+
+/**
+ * FNV-1a hash, used for result IDs that are stable across runs
+ */
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
 
 /**
  * Service to handle compliance operations using the database-backed format converter
@@ -31,11 +70,29 @@ class ComplianceService {
   }
 
   /**
-   * Process input data and return formatted data with compliance results
+   * Process input data and return formatted data with compliance results.
+   * The run is saved to the compliance run history.
    */
   async processInput(input: RawInputData): Promise<{
     formattedData: FormattedData;
     complianceResults: ComplianceResult[];
+    runId?: string;
+  }> {
+    const result = await this.runComplianceChecks(input);
+    const runId = await this.recordRun(input.source, result.formattedData, result.complianceResults, {
+      userId: input.metadata?.userId,
+      filename: input.metadata?.filename
+    });
+    
+    return { ...result, runId };
+  }
+
+  /**
+   * Run all compliance checks for an input without recording the run
+   */
+  private async runComplianceChecks(input: RawInputData): Promise<{
+    formattedData: FormattedData;
+    complianceResults: ComplianceResult[];
   }> {
     await this.ensureInitialized();
     
@@ -63,7 +120,7 @@ class ComplianceService {
     
     return {
       formattedData: result.formattedData,
-      complianceResults: enhancedResults
+      complianceResults: this.finalizeResults(enhancedResults)
     };
   }
 
@@ -91,6 +148,74 @@ class ComplianceService {
     return await this.processInput(inputData);
   }
 
+  /**
+   * Read an image with on-device OCR and check the recognized text.
+   * The image is never sent to a model provider.
+   * @param imageFile Image of a shipping label or document
+   * @returns Formatted data and compliance results
+   */
+  async analyzeImageWithOcr(
+    imageFile: File,
+    options: { userId?: string; onProgress?: OcrProgressListener } = {}
+  ): Promise<{
+    formattedData: FormattedData;
+    complianceResults: ComplianceResult[];
+    runId?: string;
+  }> {
+    await this.initialize();
+    
+    const ocr = await ocrService.recognize(imageFile, options.onProgress);
+    if (!ocr.text.trim()) {
+      throw new Error('No text could be recognized in the image');
+    }
+    
+    return await this.processInput({
+      source: 'vision',
+      content: ocr.text,
+      metadata: {
+        confidence: ocr.confidence,
+        filename: imageFile.name,
+        timestamp: new Date().toISOString(),
+        userId: options.userId,
+        ocr: {
+          wordCount: ocr.words.length,
+          lowConfidenceWords: ocr.lowConfidenceWords
+        }
+      }
+    });
+  }
+
+  /**
+   * Read an uploaded shipment document and attach it to a shipment. Images
+   * are read with on-device OCR, text, CSV and JSON files as they are.
+   * @param shipmentKey Key of the shipment, see getShipmentKey
+   * @param file Image or text file of an invoice, packing list, certificate or other document
+   * @returns The stored document with its detected type
+   */
+  async attachShipmentDocument(
+    shipmentKey: string,
+    file: File,
+    onProgress?: OcrProgressListener
+  ): Promise<ShipmentDocument> {
+    await this.initialize();
+
+    let text: string;
+    if (file.type.startsWith('image/')) {
+      text = (await ocrService.recognize(file, onProgress)).text;
+    } else if (file.type.startsWith('text/') || file.type === 'application/json' || /\.(txt|csv|json)$/i.test(file.name)) {
+      text = await file.text();
+    } else {
+      throw new Error('Only images and text, CSV or JSON files can be read');
+    }
+
+    if (!text.trim()) {
+      throw new Error('No text could be read from the document');
+    }
+
+    const fields = await this.converter.extractStructuredData(text);
+    return shipmentDocumentService.attachDocument(shipmentKey, { filename: file.name, text, fields });
+  }
+
   /**
    * Process CSV data for compliance checking
    * @param csvData CSV data as a string
@@ -114,145 +239,139 @@ class ComplianceService {
   }
 
   /**
-   * Process CSV data as individual manual entries using Gemini API for compliance checking
+   * Parse every data row of a CSV file into a record of standardized fields
    * @param csvData CSV data as a string
-   * @returns Array of processed entries with their compliance results
    */
-  async processCsvAsManualEntries(csvData: string): Promise<Array<{
-    entryId: string;
-    entryText: string;
-    formattedData: FormattedData;
-    complianceResults: ComplianceResult[];
-    complianceStats: {
-      compliant: number;
-      nonCompliant: number;
-      warnings: number;
-      total: number;
-      complianceRate: number;
-    };
-  }>> {
+  async parseCsvRecords(csvData: string): Promise<Record<string, string>[]> {
+    await this.initialize();
+    return this.converter.parseMultipleRowsCSV(csvData);
+  }
+
+  /**
+   * Check a single CSV row as a manual entry using Gemini API for compliance checking.
+   * The run is saved to the compliance run history.
+   * @param record Parsed fields of the row
+   * @param index Zero-based position of the row among the data rows
+   */
+  async checkCsvRecord(
+    record: Record<string, string>,
+    index: number,
+    options: { userId?: string; filename?: string; batchId?: string } = {}
+  ): Promise<CsvEntryResult> {
     await this.initialize();
     
-    try {
-      // First, parse all CSV records into structured data
-      const records = await this.converter.parseMultipleRowsCSV(csvData);
+    // Group fields by category for better organization
+    const fieldGroups: Record<string, string[]> = {
+      'Shipping Information': [],
+      'Sender Details': [],
+      'Recipient Details': [],
+      'Package Details': [],
+      'Other Information': []
+    };
+    
+    // Convert record to a textual key-value pair format
+    // This format works better with the manual text processor and for Gemini API
+    let textualData = '';
+    
+    // Sort the record entries for consistent display
+    const sortedEntries = Object.entries(record).sort(([keyA], [keyB]) => {
+      // Prioritize important fields first
+      const priorityKeys = [
+        'trackingNumber', 'shipperName', 'shipperAddress', 
+        'recipientName', 'recipientAddress', 'packageContents',
+        'contents', 'itemDescription'
+      ];
       
-      // Process each record individually
-      const results = await Promise.all(
-        records.map(async (record, index) => {
-          const entryId = `csv-entry-${index + 1}`;
-          
-          // Group fields by category for better organization
-          const fieldGroups: Record<string, string[]> = {
-            'Shipping Information': [],
-            'Sender Details': [],
-            'Recipient Details': [],
-            'Package Details': [],
-            'Other Information': []
-          };
-          
-          // Convert record to a textual key-value pair format
-          // This format works better with the manual text processor and for Gemini API
-          let textualData = '';
-          
-          // Sort the record entries for consistent display
-          const sortedEntries = Object.entries(record).sort(([keyA], [keyB]) => {
-            // Prioritize important fields first
-            const priorityKeys = [
-              'trackingNumber', 'shipperName', 'shipperAddress', 
-              'recipientName', 'recipientAddress', 'packageContents',
-              'contents', 'itemDescription'
-            ];
-            
-            const indexA = priorityKeys.indexOf(keyA);
-            const indexB = priorityKeys.indexOf(keyB);
-            
-            if (indexA !== -1 && indexB !== -1) return indexA - indexB;
-            if (indexA !== -1) return -1;
-            if (indexB !== -1) return 1;
-            
-            return keyA.localeCompare(keyB);
-          });
-          
-          // Format each field with proper capitalization and categorize
-          for (const [key, value] of sortedEntries) {
-            if (value && value.trim()) {
-              // Format as "Field: Value" with proper capitalization
-              const formattedKey = key
-                .replace(/([A-Z])/g, ' $1') // Add space before capital letters
-                .replace(/^./, firstChar => firstChar.toUpperCase()); // Capitalize first letter
-              
-              const formattedLine = `${formattedKey}: ${value}`;
-              
-              // Categorize the field
-              if (/tracking|carrier|service|shipment|shipping/i.test(key)) {
-                fieldGroups['Shipping Information'].push(formattedLine);
-              } else if (/shipper|sender|from/i.test(key)) {
-                fieldGroups['Sender Details'].push(formattedLine);
-              } else if (/recipient|receiver|to/i.test(key)) {
-                fieldGroups['Recipient Details'].push(formattedLine);
-              } else if (/package|content|item|weight|dimension|parcel/i.test(key)) {
-                fieldGroups['Package Details'].push(formattedLine);
-              } else {
-                fieldGroups['Other Information'].push(formattedLine);
-              }
-            }
-          }
-          
-          // Combine all group sections
-          for (const [groupName, lines] of Object.entries(fieldGroups)) {
-            if (lines.length > 0) {
-              textualData += `[${groupName}]\n`;
-              textualData += lines.join('\n');
-              textualData += '\n\n';
-            }
-          }
-          
-          // Use the Gemini API for advanced compliance checking
-          const processedData = await this.processManualData(textualData);
-          const formattedData = processedData.formattedData;
-          
-          // Enhance compliance checking with Gemini API
-          const enhancedResults = await this.performGeminiComplianceCheck(formattedData, record);
-          
-          // Calculate compliance statistics for this entry
-          const complianceStats = this.calculateComplianceStats(enhancedResults);
-          
-          return {
-            entryId,
-            entryText: textualData,
-            formattedData: formattedData,
-            complianceResults: enhancedResults,
-            complianceStats
-          };
-        })
-      );
+      const indexA = priorityKeys.indexOf(keyA);
+      const indexB = priorityKeys.indexOf(keyB);
       
-      // Sort results to put non-compliant entries first, then warnings, then compliant
-      return results.sort((a, b) => {
-        // Non-compliant entries first
-        if (a.complianceStats.nonCompliant > 0 && b.complianceStats.nonCompliant === 0) {
-          return -1;
-        }
-        if (a.complianceStats.nonCompliant === 0 && b.complianceStats.nonCompliant > 0) {
-          return 1;
-        }
+      if (indexA !== -1 && indexB !== -1) return indexA - indexB;
+      if (indexA !== -1) return -1;
+      if (indexB !== -1) return 1;
+      
+      return keyA.localeCompare(keyB);
+    });
+    
+    // Format each field with proper capitalization and categorize
+    for (const [key, value] of sortedEntries) {
+      if (value && value.trim()) {
+        // Format as "Field: Value" with proper capitalization
+        const formattedKey = key
+          .replace(/([A-Z])/g, ' $1') // Add space before capital letters
+          .replace(/^./, firstChar => firstChar.toUpperCase()); // Capitalize first letter
         
-        // Then entries with warnings
-        if (a.complianceStats.warnings > 0 && b.complianceStats.warnings === 0) {
-          return -1;
-        }
-        if (a.complianceStats.warnings === 0 && b.complianceStats.warnings > 0) {
-          return 1;
-        }
+        const formattedLine = `${formattedKey}: ${value}`;
         
-        // Then by compliance rate (lower rates first)
-        return a.complianceStats.complianceRate - b.complianceStats.complianceRate;
-      });
-    } catch (error) {
-      console.error('Error processing CSV as manual entries:', error);
-      throw error;
+        // Categorize the field
+        if (/tracking|carrier|service|shipment|shipping/i.test(key)) {
+          fieldGroups['Shipping Information'].push(formattedLine);
+        } else if (/shipper|sender|from/i.test(key)) {
+          fieldGroups['Sender Details'].push(formattedLine);
+        } else if (/recipient|receiver|to/i.test(key)) {
+          fieldGroups['Recipient Details'].push(formattedLine);
+        } else if (/package|content|item|weight|dimension|parcel/i.test(key)) {
+          fieldGroups['Package Details'].push(formattedLine);
+        } else {
+          fieldGroups['Other Information'].push(formattedLine);
+        }
+      }
     }
+    
+    // Combine all group sections
+    for (const [groupName, lines] of Object.entries(fieldGroups)) {
+      if (lines.length > 0) {
+        textualData += `[${groupName}]\n`;
+        textualData += lines.join('\n');
+        textualData += '\n\n';
+      }
+    }
+    
+    // Use the Gemini API for advanced compliance checking
+    const processedData = await this.checkManualData(textualData);
+    const formattedData = processedData.formattedData;
+    
+    // Enhance compliance checking with Gemini API
+    const enhancedResults = this.finalizeResults(await this.performGeminiComplianceCheck(formattedData, record));
+    
+    // Calculate compliance statistics for this entry
+    const complianceStats = this.calculateComplianceStats(enhancedResults);
+    
+    const runId = await this.recordRun('csv', formattedData, enhancedResults, options);
+    
+    return {
+      entryId: `csv-entry-${index + 1}`,
+      entryText: textualData,
+      runId,
+      formattedData: formattedData,
+      complianceResults: enhancedResults,
+      complianceStats
+    };
+  }
+
+  /**
+   * Sort CSV entries with non-compliant entries first, then warnings, then by compliance rate
+   */
+  sortCsvEntries<T extends Pick<CsvEntryResult, 'complianceStats'>>(entries: T[]): T[] {
+    return [...entries].sort((a, b) => {
+      // Non-compliant entries first
+      if (a.complianceStats.nonCompliant > 0 && b.complianceStats.nonCompliant === 0) {
+        return -1;
+      }
+      if (a.complianceStats.nonCompliant === 0 && b.complianceStats.nonCompliant > 0) {
+        return 1;
+      }
+      
+      // Then entries with warnings
+      if (a.complianceStats.warnings > 0 && b.complianceStats.warnings === 0) {
+        return -1;
+      }
+      if (a.complianceStats.warnings === 0 && b.complianceStats.warnings > 0) {
+        return 1;
+      }
+      
+      // Then by compliance rate (lower rates first)
+      return a.complianceStats.complianceRate - b.complianceStats.complianceRate;
+    });
   }
 
   /**
@@ -260,7 +379,21 @@ class ComplianceService {
    * @param textData Manually entered text data
    * @returns Formatted data and compliance results
    */
-  async processManualData(textData: string): Promise<{
+  async processManualData(textData: string, userId?: string): Promise<{
+    formattedData: FormattedData;
+    complianceResults: ComplianceResult[];
+    runId?: string;
+  }> {
+    const result = await this.checkManualData(textData);
+    const runId = await this.recordRun('manual', result.formattedData, result.complianceResults, { userId });
+    
+    return { ...result, runId };
+  }
+
+  /**
+   * Run compliance checks on manually entered text without recording the run
+   */
+  private async checkManualData(textData: string): Promise<{
     formattedData: FormattedData;
     complianceResults: ComplianceResult[];
   }> {
@@ -276,7 +409,7 @@ class ComplianceService {
     };
     
     // Process the manual input
-    let result = await this.processInput(inputData);
+    const result = await this.runComplianceChecks(inputData);
     
     // Check if we have compliant results
     const hasCompliantResults = result.complianceResults.some(r => r.status === 'compliant');
@@ -297,7 +430,7 @@ class ComplianceService {
             !result.complianceResults.some(r => r.field === displayName)) {
           
           result.complianceResults.push({
-            id: `manual-${field}-${Date.now()}`,
+            id: `manual-${field}`,
             field: displayName,
             value: result.formattedData.fields[field],
             status: 'compliant',
@@ -310,6 +443,51 @@ class ComplianceService {
     return result;
   }
 
+  /**
+   * In rules-only mode, replace generated result IDs with IDs derived from the
+   * result content so the same input always produces identical results
+   */
+  private finalizeResults(results: ComplianceResult[]): ComplianceResult[] {
+    if (llmClient.isAiEnabled()) {
+      return results;
+    }
+
+    const seen = new Map<string, number>();
+    return results.map(result => {
+      const key = `rules-${hashString([result.field, result.value, result.status, result.message].join('|'))}`;
+      const count = seen.get(key) || 0;
+      seen.set(key, count + 1);
+      return { ...result, id: count === 0 ? key : `${key}-${count}` };
+    });
+  }
+
+  /**
+   * Save a completed run to the compliance run history.
+   * Failures are logged and never interrupt the compliance check itself.
+   */
+  private async recordRun(
+    source: RawInputData['source'],
+    formattedData: FormattedData,
+    results: ComplianceResult[],
+    options: { userId?: string; filename?: string; batchId?: string } = {}
+  ): Promise<string | undefined> {
+    try {
+      const run = await complianceRunRepository.saveRun({
+        source,
+        formattedData,
+        results,
+        stats: this.calculateComplianceStats(results),
+        userId: options.userId || null,
+        filename: options.filename,
+        batchId: options.batchId
+      });
+      return run.id;
+    } catch (error) {
+      console.error('Failed to save compliance run:', error);
+      return undefined;
+    }
+  }
+
   /**
    * Enhance compliance results with additional context and dynamic classification
    */
@@ -355,7 +533,9 @@ class ComplianceService {
   ): Promise<ComplianceResult[]> {
     try {
       // If there are no results or only a few, no need for dynamic classification
-      if (results.length <= 3) {
+      // Rules-only mode keeps the rule engine's classification as is, and
+      // text read with on-device OCR stays on this machine
+      if (results.length <= 3 || !llmClient.isAiEnabled() || formattedData.processingMetadata.localOnly) {
         return results;
       }
       
@@ -403,7 +583,7 @@ class ComplianceService {
       `;
       
       // Call the Gemini API
-      const response = await this.callGeminiAPI(prompt);
+      const response = await this.requestFindings(prompt, 'complianceService.classify');
       
       // If we got a valid response, use it to update our results
       if (response && Array.isArray(response) && response.length > 0) {
@@ -450,58 +630,23 @@ class ComplianceService {
   }
   
   /**
-   * Call the Gemini API for dynamic classification
+   * Ask the model for compliance findings; returns null when the call fails
+   * or AI is disabled
    */
-  private async callGeminiAPI(prompt: string): Promise<any> {
+  private async requestFindings(prompt: string, label: string): Promise<z.infer<typeof llmFindingsSchema> | null> {
+    if (!llmClient.isAiEnabled()) {
+      return null;
+    }
     try {
-      const API_KEY = 'your_api_key_here'; // Should be in environment variables
-      const MODEL_NAME = 'gemini-2.0-flash-thinking-exp-01-21';
-      const API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${MODEL_NAME}:generateContent`;
-      
-      const response = await fetch(`${API_URL}?key=${API_KEY}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              role: 'user',
-              parts: [{ text: prompt }]
-            }
-          ],
-          generationConfig: {
-            temperature: 0.2,
-            topP: 0.8,
-            topK: 40,
-            maxOutputTokens: 1024,
-          }
-        })
+      return await llmClient.generateJson(prompt, llmFindingsSchema, {
+        label,
+        temperature: 0.2,
+        topP: 0.8,
+        topK: 40,
+        maxOutputTokens: 1024
       });
-      
-      const data = await response.json();
-      
-      if (data.candidates && data.candidates[0] && data.candidates[0].content) {
-        const text = data.candidates[0].content.parts[0].text;
-        
-        try {
-          // Try to parse the response as JSON
-          return JSON.parse(text);
-        } catch (e) {
-          // If parsing fails, try to extract JSON from the text
-          const jsonMatch = text.match(/\[(.*)\]/);
-          if (jsonMatch) {
-            return JSON.parse(jsonMatch[0]);
-          }
-          
-          // If all else fails, return null
-          return null;
-        }
-      }
-      
-      return null;
     } catch (error) {
-      console.error('Error calling Gemini API:', error);
+      console.error('Error calling LLM:', error);
       return null;
     }
   }
@@ -570,8 +715,9 @@ class ComplianceService {
       }
     }
     
-    // Add EORI number reminder for UK/EU shipments if not already present
-    if (this.isEuOrUkShipment(fields) && !fields.eoriNumber) {
+    // Add EORI number reminder for UK/EU shipments if not already present; none is needed within the EU
+    const withinEu = countryService.getFreeCirculationBloc(fields.shipperCountry || '', fields.recipientCountry || '')?.id === 'EU';
+    if (this.isEuOrUkShipment(fields) && !fields.eoriNumber && !withinEu) {
       if (!results.some(r => r.field === 'EORI Number')) {
         results.push({
           id: uuidv4(),
@@ -614,33 +760,28 @@ class ComplianceService {
    * Check if shipment is to EU or UK
    */
   private isEuOrUkShipment(fields: Record<string, string>): boolean {
-    const euCountries = ['AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE', 
-                         'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE', 'UK', 'GB'];
+    const isEuOrUk = (country: Country) => country.euMember || country.alpha2 === 'GB';
     
     if (fields.recipientCountry) {
-      const country = fields.recipientCountry.toUpperCase();
-      
-      if (euCountries.includes(country)) {
-        return true;
+      const country = countryService.resolve(fields.recipientCountry);
+      if (country) {
+        return isEuOrUk(country);
       }
       
-      // Also check for country names
-      const countryLower = fields.recipientCountry.toLowerCase();
-      if (countryLower.includes('united kingdom') || countryLower.includes('uk') ||
-          countryLower.includes('england') || countryLower.includes('europe') ||
-          countryLower.includes('european union') || countryLower.includes('eu')) {
+      // Also accept the union itself in place of a country
+      if (/\b(eu|europe|european union)\b/i.test(fields.recipientCountry)) {
         return true;
       }
     }
     
-    // Check for EU indicators in address
+    // Check for EU and UK countries and cities in the address
     if (fields.recipientAddress) {
-      const addressLower = fields.recipientAddress.toLowerCase();
-      const euIndicators = ['uk', 'united kingdom', 'england', 'london', 'manchester', 
-                           'germany', 'france', 'italy', 'spain', 'netherlands',
-                           'belgium', 'austria', 'poland', 'ireland', 'europe'];
+      if (countryService.findInText(fields.recipientAddress).some(isEuOrUk)) {
+        return true;
+      }
       
-      if (euIndicators.some(indicator => addressLower.includes(indicator))) {
+      const addressLower = fields.recipientAddress.toLowerCase();
+      if (['london', 'manchester', 'europe'].some(indicator => addressLower.includes(indicator))) {
         return true;
       }
     }
@@ -872,8 +1013,14 @@ class ComplianceService {
         }
       }
       
+      // Hazardous materials are reported by UN number when the dangerous goods check covered the record
+      const dangerousGoodsChecked = results.some(r => r.field === 'UN Number');
+      const dangerousGoodsKeywords = ['lithium', 'battery', 'flammable', 'chemical', 'aerosol'];
+      
       // Then check for other restricted items (warning status)
       for (const item of restrictedItems) {
+        if (dangerousGoodsChecked && dangerousGoodsKeywords.includes(item.name)) continue;
+        
         // Check if the item keywords are in the package contents
         if (packageContentsLower.includes(item.name)) {
           // Add as a compliance issue if not already present
@@ -1149,7 +1296,7 @@ class ComplianceService {
       `;
       
       // Call the Gemini API
-      const enhancedResults = await this.callGeminiAPI(prompt);
+      const enhancedResults = await this.requestFindings(prompt, 'complianceService.contentCheck');
       
       let formattedResults: ComplianceResult[] = [];
       
@@ -1243,7 +1390,9 @@ class ComplianceService {
           field: "Package Contents Verification",
           value: contentValues.join(", ").substring(0, 100) + (contentValues.join(", ").length > 100 ? "..." : ""),
           status: "compliant",
-          message: "Advanced scanning detected no restricted or prohibited items in package contents."
+          message: enhancedResults
+            ? "Advanced scanning detected no restricted or prohibited items in package contents."
+            : "Keyword scanning detected no restricted or prohibited items in package contents."
         });
       }
       
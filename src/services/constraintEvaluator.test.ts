@@ -0,0 +1,131 @@
+import { ConstraintEvaluator } from './constraintEvaluator';
+import { currencyService } from './currencyService';
+import { ValidationConstraint, createComplianceRule, createValidationConstraint } from './database/models';
+
+const weightRule = createComplianceRule({ fieldKey: 'weight', displayName: 'Weight', fieldType: 'number' });
+const valueRule = createComplianceRule({ fieldKey: 'declaredValue', displayName: 'Declared Value', fieldType: 'number' });
+const dateRule = createComplianceRule({ fieldKey: 'shipDate', displayName: 'Ship Date', fieldType: 'date' });
+const textRule = createComplianceRule({ fieldKey: 'shippingService', displayName: 'Shipping Service' });
+
+const constraint = (data: Partial<ValidationConstraint>): ValidationConstraint =>
+  createValidationConstraint({ validationLevel: 'error', ...data });
+
+describe('ConstraintEvaluator', () => {
+  const evaluator = new ConstraintEvaluator();
+
+  describe('min and max', () => {
+    const maxWeight = constraint({ type: 'max', constraintType: 'max', maxValue: 30, metadata: { unit: 'kg' } });
+
+    it('compares weights in the unit of the bound', () => {
+      expect(evaluator.evaluate(weightRule, [maxWeight], '25 kg')).toEqual([]);
+      expect(evaluator.evaluate(weightRule, [maxWeight], '50 lbs')).toEqual([]);
+
+      const [violation] = evaluator.evaluate(weightRule, [maxWeight], '70 lbs');
+      expect(violation.status).toBe('non-compliant');
+      expect(violation.message).toBe('Value (31.751 kg) exceeds maximum allowed (30 kg)');
+    });
+
+    it('reads the unit of a bare weight from the weight unit field', () => {
+      expect(evaluator.evaluate(weightRule, [maxWeight], '70', { weightUnit: 'lb' })).toHaveLength(1);
+      expect(evaluator.evaluate(weightRule, [maxWeight], '70', { weightUnit: 'g' })).toEqual([]);
+    });
+
+    it('warns about unknown weight units', () => {
+      const [violation] = evaluator.evaluate(weightRule, [maxWeight], '12', { weightUnit: 'stone' });
+      expect(violation.status).toBe('warning');
+      expect(violation.message).toBe('Unrecognized weight unit "stone"');
+    });
+
+    it('converts amounts to the currency of the bound', () => {
+      const minValue = constraint({ type: 'min', constraintType: 'min', constraintValue: '1', metadata: { currency: 'USD' } });
+      const usdPerEur = currencyService.convert(1, 'EUR', 'USD')!;
+      expect(evaluator.evaluate(valueRule, [minValue], '$0.50')[0].message)
+        .toBe('Value (0.5 USD) is less than minimum allowed (1 USD)');
+      expect(evaluator.evaluate(valueRule, [minValue], '€5')).toEqual([]);
+      expect(evaluator.evaluate(valueRule, [minValue], '0,50', { declaredValueCurrency: 'EUR' })[0].message)
+        .toBe(`Value (${Math.round(0.5 * usdPerEur * 1000) / 1000} USD) is less than minimum allowed (1 USD)`);
+    });
+
+    it('warns about amounts in currencies without a rate', () => {
+      const minValue = constraint({ type: 'min', constraintType: 'min', constraintValue: '1', metadata: { currency: 'USD' } });
+      expect(evaluator.evaluate(valueRule, [minValue], '5 XYZ')[0]).toMatchObject({
+        status: 'warning',
+        message: 'Cannot compare XYZ amount against a USD limit without a conversion rate'
+      });
+    });
+
+    it('reports values that are not numbers', () => {
+      const minValue = constraint({ type: 'min', constraintType: 'min', minValue: 1 });
+      expect(evaluator.evaluate(valueRule, [minValue], 'unknown')[0].message).toBe('Value "unknown" is not a valid number');
+    });
+
+    it('checks dates against fixed and relative bounds', () => {
+      const notBefore = constraint({ type: 'min', constraintType: 'min', constraintValue: '2024-01-01' });
+      const notFuture = constraint({ type: 'max', constraintType: 'max', constraintValue: 'today+30' });
+
+      expect(evaluator.evaluate(dateRule, [notBefore], '2024-02-01')).toEqual([]);
+      expect(evaluator.evaluate(dateRule, [notBefore], '2023-12-31')[0].message)
+        .toBe('Date is earlier than the allowed minimum (2024-01-01)');
+      expect(evaluator.evaluate(dateRule, [notFuture], '2999-01-01')).toHaveLength(1);
+    });
+  });
+
+  describe('equal and oneOf', () => {
+    it('compares numbers numerically and text case-insensitively', () => {
+      const equalsTwo = constraint({ type: 'equal', constraintType: 'equal', constraintValue: '2' });
+      expect(evaluator.evaluate(valueRule, [equalsTwo], '2.00')).toEqual([]);
+
+      const equalsExpress = constraint({ type: 'equal', constraintType: 'equal', constraintValue: 'Express' });
+      expect(evaluator.evaluate(textRule, [equalsExpress], 'express')).toEqual([]);
+
+      const caseSensitive = constraint({ ...equalsExpress, metadata: { caseSensitive: true } });
+      expect(evaluator.evaluate(textRule, [caseSensitive], 'express')).toHaveLength(1);
+    });
+
+    it('accepts any of the allowed values', () => {
+      const services = constraint({ type: 'oneOf', constraintType: 'oneOf', constraintValue: 'Express | Standard, Economy' });
+      expect(evaluator.evaluate(textRule, [services], 'economy')).toEqual([]);
+      expect(evaluator.evaluate(textRule, [services], 'Overnight')[0].message)
+        .toBe('Value must be one of: Express, Standard, Economy');
+    });
+  });
+
+  describe('custom', () => {
+    it('evaluates the expression against the value and the other fields', () => {
+      const insured = constraint({
+        type: 'custom',
+        constraintType: 'custom',
+        metadata: { expression: "value <= 1000 || isPresent(insuranceValue)" }
+      });
+
+      expect(evaluator.evaluate(valueRule, [insured], '1500', { insuranceValue: '1500' })).toEqual([]);
+      expect(evaluator.evaluate(valueRule, [insured], '1500', {})[0].message)
+        .toBe('Value does not satisfy custom rule: value <= 1000 || isPresent(insuranceValue)');
+    });
+
+    it('warns when the expression cannot be evaluated', () => {
+      const broken = constraint({ type: 'custom', constraintType: 'custom', constraintValue: 'value >' });
+      const [violation] = evaluator.evaluate(valueRule, [broken], '12');
+      expect(violation.status).toBe('warning');
+      expect(violation.message).toBe('Custom rule could not be evaluated: Unexpected end of expression (at position 7)');
+    });
+  });
+
+  it('checks required, pattern and length, and skips other constraints on empty values', () => {
+    const required = constraint({ type: 'required' });
+    const pattern = constraint({ type: 'regex', pattern: '^[A-Z]{2}$', message: 'Use a two-letter code' });
+    const length = constraint({ type: 'length', minLength: 2, maxLength: 2 });
+
+    expect(evaluator.evaluate(textRule, [required, pattern, length], '').map(v => v.constraintType)).toEqual(['required']);
+    expect(evaluator.evaluate(textRule, [pattern], 'de')[0].message).toBe('Use a two-letter code');
+    expect(evaluator.evaluate(textRule, [length], 'DEU')[0].message).toBe('Value length (3) exceeds maximum allowed (2)');
+  });
+
+  it('skips disabled constraints and uses the legacy validation level as severity', () => {
+    const disabled = constraint({ type: 'required', isEnabled: false });
+    const legacyWarning = { ...constraint({ type: 'required' }), severity: undefined, validationLevel: 'warning' as const };
+
+    expect(evaluator.evaluate(textRule, [disabled], '')).toEqual([]);
+    expect(evaluator.evaluate(textRule, [legacyWarning], '')[0].status).toBe('warning');
+  });
+});
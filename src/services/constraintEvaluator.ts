@@ -0,0 +1,333 @@
+import { ComplianceRule, ValidationConstraint, ConstraintType } from './database/models';
+import { expressionEvaluator } from './expressionEvaluator';
+import { currencyService } from './currencyService';
+
+/**
+ * A single constraint that a field value failed to satisfy
+ */
+export interface ConstraintViolation {
+  constraintId: string;
+  constraintType: ConstraintType;
+  status: 'compliant' | 'non-compliant' | 'warning';
+  message: string;
+}
+
+// Conversion factors to kilograms
+const WEIGHT_UNITS: Record<string, number> = {
+  kg: 1,
+  kgs: 1,
+  kilogram: 1,
+  kilograms: 1,
+  g: 0.001,
+  gram: 0.001,
+  grams: 0.001,
+  lb: 0.45359237,
+  lbs: 0.45359237,
+  pound: 0.45359237,
+  pounds: 0.45359237,
+  oz: 0.028349523125,
+  ounce: 0.028349523125,
+  ounces: 0.028349523125
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR'
+};
+
+/**
+ * Evaluates validation constraints for a single field value.
+ * Numeric ranges on weight and value fields are compared in a common unit;
+ * amounts are converted at the rates currencyService has loaded.
+ */
+export class ConstraintEvaluator {
+  /**
+   * Evaluate every enabled constraint and return all violations
+   */
+  evaluate(
+    rule: ComplianceRule,
+    constraints: ValidationConstraint[],
+    value: string,
+    fields: Record<string, string> = {}
+  ): ConstraintViolation[] {
+    const violations: ConstraintViolation[] = [];
+
+    for (const constraint of constraints) {
+      // Older records only carry isActive
+      if (!(constraint.isEnabled ?? constraint.isActive)) continue;
+
+      const violation = this.evaluateConstraint(rule, constraint, value ?? '', fields);
+      if (violation) {
+        violations.push(violation);
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Evaluate one constraint; returns a violation or null when satisfied
+   */
+  private evaluateConstraint(
+    rule: ComplianceRule,
+    constraint: ValidationConstraint,
+    value: string,
+    fields: Record<string, string>
+  ): ConstraintViolation | null {
+    const type = constraint.type || constraint.constraintType;
+    const isEmpty = value.trim() === '';
+    const fail = (defaultMessage: string, status?: ConstraintViolation['status']): ConstraintViolation => ({
+      constraintId: constraint.id,
+      constraintType: type,
+      status: status || this.getSeverity(constraint),
+      message: constraint.message || constraint.errorMessage || defaultMessage
+    });
+
+    if (type === 'required') {
+      return isEmpty ? fail('Value is required but missing') : null;
+    }
+
+    // Other constraints only apply once a value is present
+    if (isEmpty) return null;
+
+    switch (type) {
+      case 'regex':
+      case 'pattern': {
+        const pattern = constraint.pattern || constraint.constraintValue;
+        if (!pattern) return null;
+        try {
+          return new RegExp(pattern).test(value)
+            ? null
+            : fail(`Value does not match required pattern: ${pattern}`);
+        } catch {
+          return fail(`Constraint pattern is not a valid regular expression: ${pattern}`, 'warning');
+        }
+      }
+
+      case 'length':
+        if (constraint.minLength !== undefined && value.length < constraint.minLength) {
+          return fail(`Value length (${value.length}) is less than minimum required (${constraint.minLength})`);
+        }
+        if (constraint.maxLength !== undefined && value.length > constraint.maxLength) {
+          return fail(`Value length (${value.length}) exceeds maximum allowed (${constraint.maxLength})`);
+        }
+        return null;
+
+      case 'min':
+      case 'max':
+        return this.isDateField(rule)
+          ? this.evaluateDateRange(type, constraint, value, fail)
+          : this.evaluateNumericRange(type, rule, constraint, value, fields, fail);
+
+      case 'equal':
+        return this.valuesEqual(value, constraint.constraintValue, constraint)
+          ? null
+          : fail(`Value must equal ${constraint.constraintValue}`);
+
+      case 'oneOf': {
+        const allowed = this.getAllowedValues(constraint);
+        if (allowed.length === 0) return null;
+        return allowed.some(option => this.valuesEqual(value, option, constraint))
+          ? null
+          : fail(`Value must be one of: ${allowed.join(', ')}`);
+      }
+
+      case 'custom': {
+        const expression = constraint.metadata?.expression || constraint.constraintValue;
+        if (!expression) return null;
+        try {
+          return expressionEvaluator.test(expression, { ...fields, value, fieldKey: rule.fieldKey })
+            ? null
+            : fail(`Value does not satisfy custom rule: ${expression}`);
+        } catch (error) {
+          return fail(
+            `Custom rule could not be evaluated: ${error instanceof Error ? error.message : error}`,
+            'warning'
+          );
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Severity for a failed constraint, falling back to the legacy validation level
+   */
+  private getSeverity(constraint: ValidationConstraint): ConstraintViolation['status'] {
+    if (constraint.severity) return constraint.severity;
+    return constraint.validationLevel === 'error' ? 'non-compliant' : 'warning';
+  }
+
+  private isDateField(rule: ComplianceRule): boolean {
+    return rule.fieldType === 'date';
+  }
+
+  private isWeightField(fieldKey: string): boolean {
+    return /weight/i.test(fieldKey) && !/unit/i.test(fieldKey);
+  }
+
+  private isMonetaryField(fieldKey: string): boolean {
+    return /(value|amount|cost|price)/i.test(fieldKey) && !/currency/i.test(fieldKey);
+  }
+
+  /**
+   * Check a min/max bound, converting weight and currency units where needed
+   */
+  private evaluateNumericRange(
+    type: 'min' | 'max',
+    rule: ComplianceRule,
+    constraint: ValidationConstraint,
+    value: string,
+    fields: Record<string, string>,
+    fail: (message: string, status?: ConstraintViolation['status']) => ConstraintViolation
+  ): ConstraintViolation | null {
+    const bound = type === 'min'
+      ? constraint.minValue ?? this.parseNumber(constraint.constraintValue)
+      : constraint.maxValue ?? this.parseNumber(constraint.constraintValue);
+    if (bound === null || bound === undefined || isNaN(bound)) return null;
+
+    const amount = this.parseNumber(value);
+    if (amount === null) {
+      return fail(`Value "${value}" is not a valid number`);
+    }
+
+    let comparable = amount;
+    let unitLabel = '';
+
+    if (this.isWeightField(rule.fieldKey)) {
+      const boundUnit = (constraint.metadata?.unit || 'kg').toLowerCase();
+      const valueUnit = (this.extractUnit(value) || fields.weightUnit || boundUnit).toLowerCase();
+      const valueFactor = WEIGHT_UNITS[valueUnit];
+      const boundFactor = WEIGHT_UNITS[boundUnit];
+      if (valueFactor === undefined || boundFactor === undefined) {
+        return fail(`Unrecognized weight unit "${valueFactor === undefined ? valueUnit : boundUnit}"`, 'warning');
+      }
+      comparable = (amount * valueFactor) / boundFactor;
+      unitLabel = ` ${boundUnit}`;
+    } else if (this.isMonetaryField(rule.fieldKey)) {
+      const boundCurrency = (constraint.metadata?.currency || constraint.metadata?.unit || 'USD').toUpperCase();
+      const fieldCurrency = fields.declaredValueCurrency || fields.currency || boundCurrency;
+      const money = currencyService.parseMoney(value, fieldCurrency);
+      const valueCurrency = (money?.currency || this.extractCurrency(value) || fieldCurrency).toUpperCase();
+      const converted = currencyService.convert(money?.amount ?? amount, valueCurrency, boundCurrency);
+      if (converted === undefined) {
+        return fail(
+          `Cannot compare ${valueCurrency} amount against a ${boundCurrency} limit without a conversion rate`,
+          'warning'
+        );
+      }
+      comparable = converted;
+      unitLabel = ` ${boundCurrency}`;
+    }
+
+    const display = Math.round(comparable * 1000) / 1000;
+    if (type === 'min' && comparable < bound) {
+      return fail(`Value (${display}${unitLabel}) is less than minimum allowed (${bound}${unitLabel})`);
+    }
+    if (type === 'max' && comparable > bound) {
+      return fail(`Value (${display}${unitLabel}) exceeds maximum allowed (${bound}${unitLabel})`);
+    }
+    return null;
+  }
+
+  /**
+   * Check a min/max bound on a date field.
+   * Bounds may be ISO dates or relative to today, e.g. "today", "today+30", "today-365".
+   */
+  private evaluateDateRange(
+    type: 'min' | 'max',
+    constraint: ValidationConstraint,
+    value: string,
+    fail: (message: string, status?: ConstraintViolation['status']) => ConstraintViolation
+  ): ConstraintViolation | null {
+    const bound = this.parseDateBound(constraint.constraintValue);
+    if (!bound) return null;
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      return fail(`Value "${value}" is not a valid date`);
+    }
+
+    const boundLabel = bound.toISOString().split('T')[0];
+    if (type === 'min' && date.getTime() < bound.getTime()) {
+      return fail(`Date is earlier than the allowed minimum (${boundLabel})`);
+    }
+    if (type === 'max' && date.getTime() > bound.getTime()) {
+      return fail(`Date is later than the allowed maximum (${boundLabel})`);
+    }
+    return null;
+  }
+
+  private parseDateBound(raw: string): Date | null {
+    if (!raw) return null;
+    const relative = raw.trim().match(/^today\s*(?:([+-])\s*(\d+))?$/i);
+    if (relative) {
+      const date = new Date();
+      date.setHours(0, 0, 0, 0);
+      if (relative[1]) {
+        const offset = parseInt(relative[2], 10) * (relative[1] === '-' ? -1 : 1);
+        date.setDate(date.getDate() + offset);
+      }
+      return date;
+    }
+    const parsed = new Date(raw);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  /**
+   * Allowed values for a one-of constraint, from metadata or a comma/pipe separated list
+   */
+  private getAllowedValues(constraint: ValidationConstraint): string[] {
+    if (Array.isArray(constraint.metadata?.allowedValues)) {
+      return constraint.metadata!.allowedValues.map(String);
+    }
+    return (constraint.constraintValue || '')
+      .split(/[|,]/)
+      .map(option => option.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Compare values numerically when possible, otherwise as trimmed strings
+   */
+  private valuesEqual(value: string, expected: string, constraint: ValidationConstraint): boolean {
+    const left = value.trim();
+    const right = (expected || '').trim();
+
+    const leftNumber = this.parseNumber(left);
+    const rightNumber = this.parseNumber(right);
+    if (leftNumber !== null && rightNumber !== null && /^[\d.,\s-]+$/.test(right)) {
+      return leftNumber === rightNumber;
+    }
+
+    return constraint.metadata?.caseSensitive
+      ? left === right
+      : left.toLowerCase() === right.toLowerCase();
+  }
+
+  private parseNumber(raw: string | undefined): number | null {
+    if (raw === undefined || raw === null) return null;
+    const match = String(raw).replace(/,/g, '').match(/-?\d*\.?\d+/);
+    if (!match) return null;
+    const parsed = parseFloat(match[0]);
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  private extractUnit(value: string): string | null {
+    const match = value.match(/[\d.]\s*([a-zA-Z]+)\.?\s*$/);
+    return match && WEIGHT_UNITS[match[1].toLowerCase()] !== undefined ? match[1] : null;
+  }
+
+  private extractCurrency(value: string): string | null {
+    const code = value.match(/\b([A-Z]{3})\b/);
+    if (code) return code[1];
+    const symbol = Object.keys(CURRENCY_SYMBOLS).find(s => value.includes(s));
+    return symbol ? CURRENCY_SYMBOLS[symbol] : null;
+  }
+}
+
+export const constraintEvaluator = new ConstraintEvaluator();
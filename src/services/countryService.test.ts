@@ -0,0 +1,37 @@
+import { countryService } from './countryService';
+
+describe('countryService customs unions', () => {
+  it.each([
+    ['DE', 'EU'],
+    ['Monaco', 'EU'],
+    ['TR', 'EU'],
+    ['San Marino', 'EU'],
+    ['AD', 'EU'],
+    ['Kazakhstan', 'EAEU'],
+    ['AE', 'GCC'],
+    ['Brazil', 'MERCOSUR'],
+    ['ZA', 'SACU'],
+    ['Kenya', 'EAC']
+  ])('puts %s in the %s customs union', (country, union) => {
+    expect(countryService.getCustomsUnion(country)?.id).toBe(union);
+  });
+
+  it('leaves free trade areas and other countries out', () => {
+    expect(countryService.getCustomsUnion('US')).toBeUndefined();
+    expect(countryService.getCustomsUnion('CH')).toBeUndefined();
+    expect(countryService.getCustomsUnion('Atlantis')).toBeUndefined();
+  });
+
+  it('compares the customs unions of two countries', () => {
+    expect(countryService.isSameCustomsUnion('Germany', 'TR')).toBe(true);
+    expect(countryService.isSameCustomsUnion('KE', 'UG')).toBe(true);
+    expect(countryService.isSameCustomsUnion('US', 'CA')).toBe(false);
+    expect(countryService.isSameCustomsUnion('BR', 'ZA')).toBe(false);
+  });
+
+  it('keeps declarations between the EU and its customs union partners', () => {
+    expect(countryService.getFreeCirculationBloc('DE', 'FR')?.id).toBe('EU');
+    expect(countryService.getFreeCirculationBloc('DE', 'TR')).toBeUndefined();
+    expect(countryService.getFreeCirculationBloc('KE', 'UG')).toBeUndefined();
+  });
+});
@@ -0,0 +1,288 @@
+import countriesData from './database/data/countries.json';
+
+/**
+ * A country or territory of ISO 3166-1
+ */
+export interface Country {
+  alpha2: string;
+  alpha3: string;
+  numeric: string; // Three digits, zero-padded
+  name: string; // Common English name
+  nativeNames: string[]; // Names in the country's own languages
+  aliases: string[]; // Former, formal and colloquial names, e.g. "UK" or "Burma"
+  euMember: boolean;
+  eeaMember: boolean;
+  currency?: string; // ISO 4217 code of the legal tender, e.g. "EUR"
+}
+
+export type TradeBlocId = 'EU' | 'EAEU' | 'USMCA' | 'GCC' | 'MERCOSUR' | 'SACU' | 'EAC';
+
+/**
+ * A trade bloc whose customs requirements its member states share
+ */
+export interface TradeBloc {
+  id: TradeBlocId;
+  name: string;
+  members: string[]; // Alpha-2 codes
+  freeCirculation: boolean; // Goods move between members without customs declarations
+  customsUnion: boolean; // Members share a common external tariff
+  customsUnionPartners?: string[]; // Non-members in the bloc's customs union, e.g. Turkey with the EU
+}
+
+export const TRADE_BLOCS: TradeBloc[] = [
+  {
+    id: 'EU',
+    name: 'European Union',
+    // Monaco is part of the EU customs territory through France
+    members: ['AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE', 'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE', 'MC'],
+    freeCirculation: true,
+    customsUnion: true,
+    // Goods to and from these partners are still declared, but under the EU's external tariff
+    customsUnionPartners: ['AD', 'SM', 'TR']
+  },
+  { id: 'EAEU', name: 'Eurasian Economic Union', members: ['AM', 'BY', 'KZ', 'KG', 'RU'], freeCirculation: true, customsUnion: true },
+  // A free trade area: goods are declared at internal borders, origin earns the preferential rate
+  { id: 'USMCA', name: 'United States-Mexico-Canada Agreement', members: ['US', 'MX', 'CA'], freeCirculation: false, customsUnion: false },
+  // Internal borders still clear goods against the duty paid at the first point of entry
+  { id: 'GCC', name: 'Gulf Cooperation Council', members: ['BH', 'KW', 'OM', 'QA', 'SA', 'AE'], freeCirculation: false, customsUnion: true },
+  // Customs unions with a common external tariff whose internal borders still clear goods
+  { id: 'MERCOSUR', name: 'Southern Common Market', members: ['AR', 'BR', 'PY', 'UY'], freeCirculation: false, customsUnion: true },
+  { id: 'SACU', name: 'Southern African Customs Union', members: ['BW', 'LS', 'NA', 'SZ', 'ZA'], freeCirculation: false, customsUnion: true },
+  { id: 'EAC', name: 'East African Community', members: ['BI', 'CD', 'KE', 'RW', 'SO', 'SS', 'TZ', 'UG'], freeCirculation: false, customsUnion: true }
+];
+
+/**
+ * A name a country can be found by in free text
+ */
+interface CountryTerm {
+  pattern: RegExp;
+  country: Country;
+}
+
+/**
+ * Reduce a country name to a form in which spelling variants agree, e.g.
+ * "Côte d’Ivoire" and "cote d'ivoire", or "St. Lucia" and "Saint Lucia"
+ */
+const normalizeName = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\./g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[,'’()"/-]/g, ' ')
+    .replace(/\bst\b/g, 'saint')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^the /, '');
+
+// Places whose names contain a country's name, e.g. "New Jersey" is no address in Jersey
+const PLACES_NAMED_AFTER_COUNTRIES = /(^|[^a-z0-9])(new jersey|new mexico)(?![a-z0-9])/g;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Service resolving the country codes and names found on shipping documents
+ * to ISO 3166-1 countries. Every service resolves countries through it, so
+ * "United Kingdom", "UK", "GBR" and "826" are all GB everywhere.
+ */
+class CountryService {
+  private countries: Country[] = countriesData as Country[];
+  private byCode = new Map<string, Country>();
+  private byName = new Map<string, Country>();
+  private terms: CountryTerm[] | null = null;
+
+  constructor() {
+    for (const country of this.countries) {
+      this.byCode.set(country.alpha2, country);
+      this.byCode.set(country.alpha3, country);
+      this.byCode.set(country.numeric, country);
+      for (const name of [country.name, ...country.nativeNames, ...country.aliases]) {
+        this.byName.set(normalizeName(name), country);
+      }
+    }
+  }
+
+  /**
+   * Get all countries, ordered by alpha-2 code
+   */
+  getAllCountries(): Country[] {
+    return this.countries;
+  }
+
+  /**
+   * Get a country by its alpha-2, alpha-3 or numeric code
+   */
+  getCountry(code: string): Country | undefined {
+    const trimmed = code.trim().toUpperCase();
+    return this.byCode.get(/^\d{1,3}$/.test(trimmed) ? trimmed.padStart(3, '0') : trimmed);
+  }
+
+  /**
+   * Resolve a country code or name, e.g. "DEU", "Deutschland" or "Holland".
+   * Only whole values are matched; use findInText for addresses.
+   */
+  resolve(value: string | undefined): Country | undefined {
+    if (!value || !value.trim()) {
+      return undefined;
+    }
+    return this.getCountry(value) || this.byName.get(normalizeName(value));
+  }
+
+  /**
+   * Normalize a country code or name to its alpha-2 code
+   * @returns The alpha-2 code, or the value trimmed and upper-cased when it
+   * is no known country, e.g. "EU"
+   */
+  normalizeCode(value: string): string {
+    const country = this.resolve(value);
+    return country ? country.alpha2 : value.trim().toUpperCase();
+  }
+
+  /**
+   * Get the common English name of a country, or the value itself when it
+   * is no known country
+   */
+  getName(value: string): string {
+    const country = this.resolve(value);
+    return country ? country.name : value;
+  }
+
+  /**
+   * Find the countries named in free text such as an address. Longer names
+   * are matched first, so "Papua New Guinea" is not also read as Guinea.
+   * Two-letter codes are not matched as they are common words ("IN", "DE"),
+   * but upper-case abbreviations such as "UK" and "USA" are.
+   * @returns The countries in the order they are first named
+   */
+  findInText(text: string): Country[] {
+    let remaining = normalizeName(text).replace(PLACES_NAMED_AFTER_COUNTRIES, (match, before: string, place: string) =>
+      before + ' '.repeat(place.length));
+    const abbreviations = text.replace(/\./g, '');
+    const found: { country: Country; index: number }[] = [];
+    const add = (country: Country, index: number) => {
+      if (!found.some(match => match.country === country)) {
+        found.push({ country, index });
+      }
+    };
+
+    for (const { pattern, country } of this.getTerms()) {
+      const target = pattern.ignoreCase ? remaining : abbreviations;
+      const match = pattern.exec(target);
+      if (match) {
+        add(country, match.index);
+        if (pattern.ignoreCase) {
+          // Blank out the match so shorter names inside it are not matched again
+          remaining = remaining.slice(0, match.index) + ' '.repeat(match[0].length) + remaining.slice(match.index + match[0].length);
+        }
+      }
+    }
+
+    return found.sort((a, b) => a.index - b.index).map(match => match.country);
+  }
+
+  /**
+   * Check whether a country is a member state of the European Union
+   */
+  isEuMember(value: string): boolean {
+    return this.resolve(value)?.euMember ?? false;
+  }
+
+  /**
+   * Check whether a country is in the European Economic Area
+   */
+  isEeaMember(value: string): boolean {
+    return this.resolve(value)?.eeaMember ?? false;
+  }
+
+  /**
+   * Get the ISO 4217 code of a country's currency, e.g. "EUR" for Germany
+   */
+  getCurrency(value: string): string | undefined {
+    return this.resolve(value)?.currency;
+  }
+
+  /**
+   * Get a trade bloc by its id, e.g. "EU"
+   */
+  getTradeBloc(id: string): TradeBloc | undefined {
+    const trimmed = id.trim().toUpperCase();
+    return TRADE_BLOCS.find(bloc => bloc.id === trimmed);
+  }
+
+  /**
+   * Get the trade blocs a country is a member of
+   */
+  getTradeBlocs(value: string): TradeBloc[] {
+    const country = this.resolve(value);
+    return country ? TRADE_BLOCS.filter(bloc => bloc.members.includes(country.alpha2)) : [];
+  }
+
+  /**
+   * Get the customs union a country belongs to, if any, e.g. the EU for
+   * Germany and for Turkey
+   */
+  getCustomsUnion(value: string): TradeBloc | undefined {
+    const country = this.resolve(value);
+    return country ? TRADE_BLOCS.find(bloc => bloc.customsUnion &&
+      [...bloc.members, ...(bloc.customsUnionPartners || [])].includes(country.alpha2)) : undefined;
+  }
+
+  /**
+   * Check whether two countries share a common external tariff, e.g.
+   * Germany and France, or Kenya and Uganda
+   */
+  isSameCustomsUnion(a: string, b: string): boolean {
+    const union = this.getCustomsUnion(a);
+    return union !== undefined && union === this.getCustomsUnion(b);
+  }
+
+  /**
+   * Get the bloc within which goods move between two countries without
+   * customs declarations, e.g. the EU for Germany to France
+   * @returns The bloc, or undefined when the countries are the same, unknown
+   * or not members of one such bloc
+   */
+  getFreeCirculationBloc(origin: string, destination: string): TradeBloc | undefined {
+    const from = this.resolve(origin);
+    const to = this.resolve(destination);
+    if (!from || !to || from === to) {
+      return undefined;
+    }
+    return TRADE_BLOCS.find(bloc =>
+      bloc.freeCirculation && bloc.members.includes(from.alpha2) && bloc.members.includes(to.alpha2));
+  }
+
+  /**
+   * Build the terms findInText matches, longest first
+   */
+  private getTerms(): CountryTerm[] {
+    if (this.terms) {
+      return this.terms;
+    }
+
+    const terms: { term: string; country: Country; caseSensitive: boolean }[] = [];
+    for (const country of this.countries) {
+      for (const name of [country.name, ...country.nativeNames, ...country.aliases]) {
+        const abbreviation = name.replace(/\./g, '');
+        if (/^[A-Z]{2,4}$/.test(abbreviation)) {
+          terms.push({ term: abbreviation, country, caseSensitive: true });
+        } else {
+          terms.push({ term: normalizeName(name), country, caseSensitive: false });
+        }
+      }
+    }
+
+    this.terms = terms
+      .filter(({ term }) => term.length > 1)
+      .sort((a, b) => b.term.length - a.term.length)
+      .map(({ term, country, caseSensitive }) => ({
+        pattern: new RegExp(`(?:^|[^a-zA-Z0-9])${escapeRegExp(term)}(?![a-zA-Z0-9])`, caseSensitive ? '' : 'i'),
+        country
+      }));
+    return this.terms;
+  }
+}
+
+// Create and export a singleton instance
+export const countryService = new CountryService();
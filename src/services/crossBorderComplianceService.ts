@@ -1,7 +1,28 @@
 import { FormattedData } from './formatConverterDb';
 import { ComplianceResult } from './types';
 import { crossBorderRuleRepository } from './database/crossBorderRuleRepository';
+import {
+  EnhancedDocumentation,
+  RestrictedDestination,
+  RestrictedRegion,
+  createEnhancedDocumentation,
+  createRestrictedDestination
+} from './database/models';
+import { landedCostService } from './landedCostService';
+import { deMinimisService } from './deMinimisService';
+import { declaredValueService } from './declaredValueService';
+import { incotermsService } from './incotermsService';
+import { exportControlService } from './exportControlService';
+import { shipmentDocumentService, getDocumentTypeName, getShipmentKey } from './shipmentDocumentService';
+import { documentConsistencyService } from './documentConsistencyService';
+import { countryService, TradeBloc } from './countryService';
+import { traderIdService } from './traderIdService';
 import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { llmClient } from './llm/llmClient';
+
+// The model answers item detection prompts with a list of item names
+const detectedItemsSchema = z.array(z.string());
 
 /**
  * Service for validating cross-border shipment compliance
@@ -13,8 +34,8 @@ export class CrossBorderComplianceService {
   private internationalRequiredFields: string[] = [];
   private countrySpecificRequirements: Record<string, string[]> = {};
   private restrictedItems: Record<string, string[]> = {};
-  private restrictedDestinations: string[] = [];
-  private enhancedDocumentationCountries: string[] = [];
+  private restrictedDestinations: RestrictedDestination[] = [];
+  private enhancedDocumentation: EnhancedDocumentation[] = [];
   private countryRequirementDescriptions: Record<string, string> = {};
 
   constructor() {
@@ -43,7 +64,7 @@ export class CrossBorderComplianceService {
       // Load restricted destinations
       await this.loadRestrictedDestinations();
       
-      // Load countries with enhanced documentation requirements
+      // Load documents required by countries with enhanced documentation requirements
       await this.loadEnhancedDocumentation();
       
       this.initialized = true;
@@ -96,8 +117,9 @@ export class CrossBorderComplianceService {
       
       // Populate from database
       for (const requirement of requirements) {
-        this.countrySpecificRequirements[requirement.countryCode] = requirement.requiredFields;
-        this.countryRequirementDescriptions[requirement.countryCode] = requirement.description;
+        const countryCode = countryService.normalizeCode(requirement.countryCode);
+        this.countrySpecificRequirements[countryCode] = requirement.requiredFields;
+        this.countryRequirementDescriptions[countryCode] = requirement.description;
       }
       
       // If no requirements found, use defaults
@@ -105,8 +127,11 @@ export class CrossBorderComplianceService {
         this.countrySpecificRequirements = {
           'US': ['hsTariffNumber', 'originCountry', 'declaredValue'],
           'CA': ['hsTariffNumber', 'originCountry', 'declaredValue', 'naccsCode'],
-          'UK': ['eoriNumber', 'hsTariffNumber', 'originCountry', 'declaredValue'],
+          'GB': ['eoriNumber', 'hsTariffNumber', 'originCountry', 'declaredValue'],
           'EU': ['eoriNumber', 'hsTariffNumber', 'originCountry', 'declaredValue'],
+          'EAEU': ['hsTariffNumber', 'originCountry', 'declaredValue'],
+          'USMCA': ['hsTariffNumber', 'originCountry', 'declaredValue'],
+          'GCC': ['hsTariffNumber', 'originCountry', 'declaredValue'],
           'CN': ['hsTariffNumber', 'originCountry', 'declaredValue', 'chinaCustomsCode'],
           'AU': ['hsTariffNumber', 'originCountry', 'declaredValue', 'abnNumber']
         };
@@ -168,12 +193,13 @@ export class CrossBorderComplianceService {
    */
   private async loadRestrictedDestinations(): Promise<void> {
     try {
-      const destinations = await crossBorderRuleRepository.getRestrictedDestinations();
-      this.restrictedDestinations = destinations.map(dest => dest.countryCode);
+      this.restrictedDestinations = await crossBorderRuleRepository.getRestrictedDestinations();
       
       // If no destinations found, use defaults
       if (this.restrictedDestinations.length === 0) {
-        this.restrictedDestinations = ['CU', 'IR', 'KP', 'SY', 'SD', 'BY'];
+        this.restrictedDestinations = ['CU', 'IR', 'KP', 'SY', 'SD', 'BY'].map(countryCode =>
+          createRestrictedDestination({ countryCode, restrictionType: 'embargoed' })
+        );
       }
     } catch (error) {
       console.error('Error loading restricted destinations:', error);
@@ -182,16 +208,21 @@ export class CrossBorderComplianceService {
   }
 
   /**
-   * Load countries with enhanced documentation requirements from the database
+   * Load the documents required by countries with enhanced documentation
+   * requirements from the database
    */
   private async loadEnhancedDocumentation(): Promise<void> {
     try {
-      const documentation = await crossBorderRuleRepository.getEnhancedDocumentationCountries();
-      this.enhancedDocumentationCountries = documentation.map(doc => doc.countryCode);
+      this.enhancedDocumentation = await crossBorderRuleRepository.getEnhancedDocumentationCountries();
       
       // If no countries found, use defaults
-      if (this.enhancedDocumentationCountries.length === 0) {
-        this.enhancedDocumentationCountries = ['RU', 'VE', 'MM', 'IQ', 'LY', 'ZW', 'CD'];
+      if (this.enhancedDocumentation.length === 0) {
+        this.enhancedDocumentation = ['RU', 'VE', 'MM', 'IQ', 'LY', 'ZW', 'CD'].map(countryCode =>
+          createEnhancedDocumentation({
+            countryCode,
+            requirements: ['Commercial invoice', 'Certificate of origin', 'Detailed packing list']
+          })
+        );
       }
     } catch (error) {
       console.error('Error loading enhanced documentation countries:', error);
@@ -217,6 +248,8 @@ export class CrossBorderComplianceService {
     await this.ensureInitialized();
     
     const fields = formattedData.fields;
+    // Text read with on-device OCR is not sent to the model provider
+    const localOnly = formattedData.processingMetadata.localOnly === true;
     const rawText = formattedData.rawText || '';
     const results: ComplianceResult[] = [];
     
@@ -231,28 +264,70 @@ export class CrossBorderComplianceService {
       return results; // Not an international shipment, no cross-border rules apply
     }
     
+    // Goods moving within a bloc without internal customs borders are not declared
+    const freeCirculationBloc = countryService.getFreeCirculationBloc(fields.shipperCountry || '', fields.recipientCountry || '');
+    if (freeCirculationBloc) {
+      return this.checkFreeCirculationMovement(fields, freeCirculationBloc, localOnly);
+    }
+    
     // Check required international fields
     const missingFieldResults = this.checkRequiredInternationalFields(fields);
     results.push(...missingFieldResults);
     
+    // Check the format and check digits of EORI, VAT and other trader identifiers
+    results.push(...traderIdService.checkTraderIds(fields));
+    
+    // Check the incoterm against the mode of transport
+    results.push(...incotermsService.checkIncoterm(fields));
+    
+    // Check the declared value against the actual and local values and the origin's currency
+    results.push(...await declaredValueService.checkDeclaredValues(fields));
+    
     // Get destination country
     const destinationCountry = fields.recipientCountry || '';
     
     if (destinationCountry) {
       // Check if destination is restricted
-      const restrictedResults = this.checkRestrictedDestination(destinationCountry);
+      const restrictedResults = this.checkRestrictedDestination(fields, destinationCountry);
       results.push(...restrictedResults);
       
+      // Check whether the export control classification needs a licence
+      const exportControlResults = await exportControlService.checkExportControl(
+        fields,
+        countryService.normalizeCode(destinationCountry),
+        fields.shipperCountry ? countryService.normalizeCode(fields.shipperCountry) : undefined
+      );
+      results.push(...exportControlResults);
+      
       // Check country-specific requirements
       const countryRequirementResults = this.checkCountrySpecificRequirements(fields, destinationCountry);
       results.push(...countryRequirementResults);
+      
+      // Check that the documents required for the destination, value, goods and incoterm are present
+      const documentResults = await this.checkShipmentDocuments(formattedData);
+      results.push(...documentResults);
+      
+      // Check declared duty, tax and fees against the rate tables
+      const landedCostResults = await landedCostService.checkDeclaredLandedCost(
+        fields,
+        countryService.normalizeCode(destinationCountry)
+      );
+      results.push(...landedCostResults);
+      
+      // Check the declared value against the de minimis and low-value scheme thresholds
+      const deMinimisResults = await deMinimisService.checkLowValueConsignment(
+        fields,
+        countryService.normalizeCode(destinationCountry)
+      );
+      results.push(...deMinimisResults);
     }
     
     // Check package contents for restricted items
     if (fields.packageContents) {
       const restrictedItemResults = await this.checkRestrictedItems(
         fields.packageContents, 
-        destinationCountry
+        destinationCountry,
+        localOnly
       );
       results.push(...restrictedItemResults);
     }
@@ -266,7 +341,7 @@ export class CrossBorderComplianceService {
   private isInternationalShipment(fields: Record<string, string>): boolean {
     // If we have explicit countries and they differ, it's international
     if (fields.shipperCountry && fields.recipientCountry && 
-        fields.shipperCountry !== fields.recipientCountry) {
+        countryService.normalizeCode(fields.shipperCountry) !== countryService.normalizeCode(fields.recipientCountry)) {
       return true;
     }
     
@@ -300,22 +375,16 @@ export class CrossBorderComplianceService {
       'overseas', 'foreign', 'VAT', 'tariff'
     ];
     
-    // Common non-US/non-local country names or abbreviations
-    const countryIndicators = [
-      'UK', 'GB', 'EU', 'CN', 'JP', 'DE', 'FR', 'IT', 'ES', 'CA', 'MX',
-      'germany', 'france', 'spain', 'china', 'japan', 'canada', 'england',
-      'united kingdom', 'mexico', 'australia', 'india', 'brazil'
-    ];
-    
     const lowerText = text.toLowerCase();
     
-    for (const word of [...internationalWords, ...countryIndicators]) {
+    for (const word of internationalWords) {
       if (lowerText.includes(word.toLowerCase())) {
         return true;
       }
     }
     
-    return false;
+    // Any country other than the US named in the address
+    return countryService.findInText(text).some(country => country.alpha2 !== 'US');
   }
 
   /**
@@ -401,68 +470,216 @@ export class CrossBorderComplianceService {
   }
 
   /**
-   * Check for country-specific requirements
+   * Check for country-specific requirements. A country without an entry of
+   * its own inherits the requirements of the trade blocs it belongs to, e.g.
+   * DE those of the EU; an entry for the country replaces them.
    */
   private checkCountrySpecificRequirements(fields: Record<string, string>, country: string): ComplianceResult[] {
     const results: ComplianceResult[] = [];
     
     // Normalize country code to 2-letter format
-    const countryCode = this.normalizeCountryCode(country);
+    const countryCode = countryService.normalizeCode(country);
+    const requirements = this.getCountryRequirements(countryCode);
     
     // Check if we have specific requirements for this country
-    if (this.countrySpecificRequirements[countryCode]) {
-      const requiredFields = this.countrySpecificRequirements[countryCode];
+    if (requirements) {
       const missingFields: string[] = [];
       
-      for (const field of requiredFields) {
+      for (const field of requirements.requiredFields) {
         if (!fields[field] || fields[field].trim() === '') {
           missingFields.push(field);
         }
       }
       
       if (missingFields.length > 0) {
+        const inherited = requirements.source !== countryCode ? ` (${requirements.source} requirements)` : '';
         results.push({
           id: `country-specific-${Date.now()}`,
           field: `${countryCode} Specific Requirements`,
           value: missingFields.join(', '),
           status: 'non-compliant',
-          message: `Missing country-specific required fields for shipping to ${countryCode}: ${missingFields.map(f => 
+          message: `Missing country-specific required fields for shipping to ${countryCode}${inherited}: ${missingFields.map(f => 
             f.charAt(0).toUpperCase() + f.slice(1).replace(/([A-Z])/g, ' $1').trim()
           ).join(', ')}. These fields are required for customs clearance in this country.`
         });
       }
     }
     
-    // Check for enhanced documentation countries
-    if (this.enhancedDocumentationCountries.includes(countryCode)) {
-      results.push({
-        id: `enhanced-docs-${Date.now()}`,
-        field: 'Enhanced Documentation',
-        value: countryCode,
-        status: 'warning',
-        message: `Shipping to ${countryCode} requires enhanced documentation and may be subject to additional scrutiny. Consider including commercial invoice, certificate of origin, and detailed packing list.`
-      });
+    return results;
+  }
+
+  /**
+   * Get the fields a destination requires: those of its own entry, or else
+   * those of the trade blocs it is a member of
+   * @returns The required fields and the country or blocs they come from
+   */
+  private getCountryRequirements(countryCode: string): { source: string; requiredFields: string[] } | undefined {
+    if (this.countrySpecificRequirements[countryCode]) {
+      return { source: countryCode, requiredFields: this.countrySpecificRequirements[countryCode] };
+    }
+    
+    const blocs = countryService.getTradeBlocs(countryCode)
+      .filter(bloc => this.countrySpecificRequirements[bloc.id]);
+    if (blocs.length === 0) {
+      return undefined;
+    }
+    
+    return {
+      source: blocs.map(bloc => bloc.id).join(', '),
+      requiredFields: Array.from(new Set(blocs.flatMap(bloc => this.countrySpecificRequirements[bloc.id])))
+    };
+  }
+
+  /**
+   * Check a movement between two members of a bloc without internal customs
+   * borders, e.g. DE to FR. No customs declaration is made, so customs
+   * fields, duties, documents and destination requirements are not checked;
+   * sanctions, export controls and national restrictions on the contents
+   * still apply, e.g. to sanctioned goods moving from KZ to RU.
+   */
+  private async checkFreeCirculationMovement(fields: Record<string, string>, bloc: TradeBloc, localOnly: boolean): Promise<ComplianceResult[]> {
+    const origin = countryService.normalizeCode(fields.shipperCountry);
+    const destination = countryService.normalizeCode(fields.recipientCountry);
+    const results: ComplianceResult[] = [{
+      id: `free-circulation-${Date.now()}`,
+      field: 'Customs Declaration',
+      value: `${origin} to ${destination}`,
+      status: 'compliant',
+      message: `${origin} to ${destination} is a movement within the ${bloc.name}. The goods are in free circulation and need no customs declaration, so customs fields, duties and import documents are not checked.`
+    }];
+    
+    // Sanctions and export controls apply within the bloc as well
+    results.push(...this.checkRestrictedDestination(fields, fields.recipientCountry));
+    results.push(...await exportControlService.checkExportControl(fields, destination, origin));
+    
+    if (fields.packageContents) {
+      results.push(...await this.checkRestrictedItems(fields.packageContents, fields.recipientCountry, localOnly));
     }
     
     return results;
   }
 
   /**
-   * Check for restricted destinations
+   * Check the documents of a shipment against the documents it needs,
+   * including those its destination country asks for, and reconcile the
+   * fields of its uploaded documents with the checked record. Also used to
+   * re-check a shipment after documents are uploaded for it.
+   * @param formattedData The formatted shipment data
+   * @returns Array of compliance results, one for each missing document or
+   * field the documents disagree on
    */
-  private checkRestrictedDestination(country: string): ComplianceResult[] {
+  public async checkShipmentDocuments(formattedData: FormattedData): Promise<ComplianceResult[]> {
+    await this.ensureInitialized();
+    
+    const fields = formattedData.fields;
+    if (!fields.recipientCountry) {
+      return [];
+    }
+    
+    const countryCode = countryService.normalizeCode(fields.recipientCountry);
+    const shipmentKey = getShipmentKey(fields, formattedData.id);
+    const results = await shipmentDocumentService.checkDocuments(
+      fields,
+      shipmentKey,
+      countryCode,
+      this.enhancedDocumentation.find(doc => doc.countryCode === countryCode)
+    );
+    
+    // Reconcile the checked record, e.g. a label, with the documents uploaded for the shipment
+    const uploaded = await shipmentDocumentService.getDocuments(shipmentKey);
+    results.push(...documentConsistencyService.checkConsistency([
+      { name: formattedData.processingMetadata.source === 'vision' ? 'label' : 'shipment record', data: formattedData },
+      ...uploaded.map(document => ({
+        name: `${getDocumentTypeName(document.type)} (${document.filename})`,
+        data: shipmentDocumentService.toFormattedData(document)
+      }))
+    ]));
+    
+    return results;
+  }
+
+  /**
+   * Check for restricted destinations. A restriction scoped to regions only
+   * applies when the recipient's postal code or address lies in one of them,
+   * and one scoped to goods categories only when the shipment contains them.
+   * Embargoes and sanctions are non-compliant; limited restrictions, ones a
+   * licence exception may cover and regions only partly restricted are warnings.
+   */
+  private checkRestrictedDestination(fields: Record<string, string>, country: string): ComplianceResult[] {
     const results: ComplianceResult[] = [];
     
     // Normalize country code to 2-letter format
-    const countryCode = this.normalizeCountryCode(country);
-    
-    if (this.restrictedDestinations.includes(countryCode)) {
+    const countryCode = countryService.normalizeCode(country);
+    const license = fields.licenseException || fields.exportLicenseNumber || fields.licenseNumber;
+    
+    for (const destination of this.restrictedDestinations.filter(dest => dest.countryCode === countryCode)) {
+      const regions = destination.regions || [];
+      const goodsCategories = destination.goodsCategories || [];
+      let scope = countryCode;
+      let needsReview = false;
+      
+      if (regions.length > 0) {
+        const regionMatch = this.matchRestrictedRegion(fields, regions);
+        if (!regionMatch) {
+          if (!fields.recipientPostalCode && !fields.recipientAddress && !fields.recipientCity) {
+            results.push({
+              id: `restricted-dest-${destination.id}-${Date.now()}`,
+              field: 'Restricted Destination',
+              value: countryCode,
+              status: 'warning',
+              message: `Parts of ${countryCode} (${regions.map(region => region.name).join(', ')}) are under embargo, but the recipient has no postal code or address to tell whether the shipment goes there.`
+            });
+          }
+          continue;
+        }
+        
+        scope = `the ${regionMatch.region.name} region of ${countryCode}`;
+        needsReview = regionMatch.byPostalCodeOnly && regionMatch.region.partial;
+      }
+      
+      let goods = '';
+      if (goodsCategories.length > 0) {
+        const matchedGoods = this.matchGoodsCategories(fields, goodsCategories);
+        if (matchedGoods.length === 0) {
+          continue;
+        }
+        goods = matchedGoods.join(', ');
+      }
+      
+      const subject = goods ? `Shipping ${goods} to ${scope}` : `Shipping to ${scope}`;
+      const value = goods ? `${scope}: ${goods}` : scope;
+      const details = destination.details ? ` ${destination.details}.` : '';
+      
+      if (destination.licenseExceptionAvailable && license) {
+        results.push({
+          id: `restricted-dest-${destination.id}-${Date.now()}`,
+          field: 'Restricted Destination',
+          value,
+          status: 'compliant',
+          message: `${subject} is restricted, and the shipment declares licence or licence exception ${license}.${details}`
+        });
+        continue;
+      }
+      
+      let message: string;
+      if (needsReview) {
+        message = `The recipient's postal code lies in the ${scope.replace(/^the /, '')}, part of which is under embargo. Verify that the address is outside the restricted area.${details}`;
+      } else if (destination.restrictionType === 'limited') {
+        message = `${subject} is subject to restrictions.${details} Check the restrictions before shipping.`;
+      } else if (destination.licenseExceptionAvailable) {
+        message = `${subject} is restricted.${details} A licence exception or general licence may apply; declare it on the shipment.`;
+      } else {
+        message = `${subject} is prohibited by ${destination.restrictionType === 'embargoed' ? 'an embargo' : 'sanctions'}.${details} Shipment cannot proceed without special authorization.`;
+      }
+      
       results.push({
-        id: `restricted-dest-${Date.now()}`,
+        id: `restricted-dest-${destination.id}-${Date.now()}`,
         field: 'Restricted Destination',
-        value: countryCode,
-        status: 'non-compliant',
-        message: `Shipping to ${countryCode} is restricted or prohibited. This country may be subject to trade sanctions or embargoes. Shipment cannot proceed without special authorization.`
+        value,
+        status: needsReview || destination.restrictionType === 'limited' || destination.licenseExceptionAvailable
+          ? 'warning'
+          : 'non-compliant',
+        message
       });
     }
     
@@ -470,9 +687,58 @@ export class CrossBorderComplianceService {
   }
 
   /**
-   * Check for restricted items using semantic analysis
+   * Find the restricted region of the recipient's address. Place names are
+   * matched as whole words; postal codes are read from the postal code field
+   * or from the address.
    */
-  private async checkRestrictedItems(packageContents: string, country?: string): Promise<ComplianceResult[]> {
+  private matchRestrictedRegion(
+    fields: Record<string, string>,
+    regions: RestrictedRegion[]
+  ): { region: RestrictedRegion; byPostalCodeOnly: boolean } | undefined {
+    const address = [fields.recipientAddress, fields.recipientCity, fields.recipientState]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase();
+    const words = new Set(address.split(/[^a-z\u00c0-\u024f\u0400-\u04ff]+/));
+    const postalCodes = [fields.recipientPostalCode || '', ...(address.match(/\b\d{5,6}\b/g) || [])]
+      .map(code => code.replace(/\s/g, ''))
+      .filter(Boolean);
+    
+    for (const region of regions) {
+      if (region.addressKeywords.some(keyword => words.has(keyword.toLowerCase()))) {
+        return { region, byPostalCodeOnly: false };
+      }
+    }
+    
+    for (const region of regions) {
+      const pattern = new RegExp(region.postalCodePattern);
+      if (postalCodes.some(code => pattern.test(code))) {
+        return { region, byPostalCodeOnly: true };
+      }
+    }
+    
+    return undefined;
+  }
+
+  /**
+   * Find the restricted goods categories in a shipment: HS code prefixes are
+   * matched against the tariff number, keywords against the package contents
+   */
+  private matchGoodsCategories(fields: Record<string, string>, goodsCategories: string[]): string[] {
+    const hsCode = (fields.hsTariffNumber || fields.hsCode || '').replace(/\D/g, '');
+    const contents = (fields.packageContents || '').toLowerCase();
+    
+    return goodsCategories.filter(category => /^\d+$/.test(category)
+      ? hsCode !== '' && hsCode.startsWith(category)
+      : new RegExp(`\\b${category.toLowerCase()}s?\\b`).test(contents)
+    ).map(category => /^\d+$/.test(category) ? `HS ${category}` : category);
+  }
+
+  /**
+   * Check for restricted items using semantic analysis; local-only contents
+   * are checked against the keyword lists alone
+   */
+  private async checkRestrictedItems(packageContents: string, country?: string, localOnly = false): Promise<ComplianceResult[]> {
     const results: ComplianceResult[] = [];
     const packageLower = packageContents.toLowerCase();
     
@@ -487,7 +753,7 @@ export class CrossBorderComplianceService {
     }
     
     // Then, perform semantic analysis for weapons, drugs, and other dangerous items
-    const dangerousItemsDetected = await this.detectDangerousItems(packageContents);
+    const dangerousItemsDetected = localOnly ? [] : await this.detectDangerousItems(packageContents);
     
     // Combine the results from both approaches
     if (foundGlobalRestrictions.length > 0 || dangerousItemsDetected.length > 0) {
@@ -505,7 +771,7 @@ export class CrossBorderComplianceService {
     
     // If we have a country, check country-specific restrictions
     if (country) {
-      const countryCode = this.normalizeCountryCode(country);
+      const countryCode = countryService.normalizeCode(country);
       
       if (this.restrictedItems[countryCode]) {
         const countryRestrictedItems = this.restrictedItems[countryCode];
@@ -518,7 +784,7 @@ export class CrossBorderComplianceService {
         }
         
         // Also check for country-specific semantic matches
-        const countrySpecificDangerousItems = await this.detectCountrySpecificRestrictions(packageContents, countryCode);
+        const countrySpecificDangerousItems = localOnly ? [] : await this.detectCountrySpecificRestrictions(packageContents, countryCode);
         
         if (foundCountryRestrictions.length > 0 || countrySpecificDangerousItems.length > 0) {
           // Combine arrays and remove duplicates
@@ -582,13 +848,7 @@ export class CrossBorderComplianceService {
         Example: ["AK-47", "explosives"]
       `;
       
-      const response = await this.callGeminiAPI(prompt);
-      
-      if (response && Array.isArray(response)) {
-        return response;
-      }
-      
-      return [];
+      return await this.detectItems(prompt, 'crossBorder.dangerousItems');
     } catch (error) {
       console.error('Error detecting dangerous items:', error);
       return [];
@@ -626,13 +886,7 @@ export class CrossBorderComplianceService {
         If nothing restricted is detected, return an empty array.
       `;
       
-      const response = await this.callGeminiAPI(prompt);
-      
-      if (response && Array.isArray(response)) {
-        return response;
-      }
-      
-      return [];
+      return await this.detectItems(prompt, 'crossBorder.countryRestrictions');
     } catch (error) {
       console.error(`Error detecting ${countryCode}-specific restrictions:`, error);
       return [];
@@ -640,101 +894,27 @@ export class CrossBorderComplianceService {
   }
   
   /**
-   * Call the Gemini API for semantic analysis
+   * Ask the model for a list of detected items; returns an empty list when the call fails.
+   * In rules-only mode only the keyword lists are used.
    */
-  private async callGeminiAPI(prompt: string): Promise<any> {
+  private async detectItems(prompt: string, label: string): Promise<string[]> {
+    if (!llmClient.isAiEnabled()) {
+      return [];
+    }
     try {
-      const API_KEY = 'your_api_key_here'; // Should be in environment variables
-      const MODEL_NAME = 'gemini-2.0-flash-thinking-exp-01-21';
-      const API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${MODEL_NAME}:generateContent`;
-      
-      const response = await fetch(`${API_URL}?key=${API_KEY}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              role: 'user',
-              parts: [{ text: prompt }]
-            }
-          ],
-          generationConfig: {
-            temperature: 0.2,
-            topP: 0.8,
-            topK: 40,
-            maxOutputTokens: 1024,
-          }
-        })
+      return await llmClient.generateJson(prompt, detectedItemsSchema, {
+        label,
+        temperature: 0.2,
+        topP: 0.8,
+        topK: 40,
+        maxOutputTokens: 1024
       });
-      
-      const data = await response.json();
-      
-      if (data.candidates && data.candidates[0] && data.candidates[0].content) {
-        const text = data.candidates[0].content.parts[0].text;
-        
-        try {
-          // Try to parse the response as JSON
-          return JSON.parse(text);
-        } catch (e) {
-          // If parsing fails, try to extract JSON from the text
-          const jsonMatch = text.match(/\[(.*)\]/);
-          if (jsonMatch) {
-            return JSON.parse(jsonMatch[0]);
-          }
-          
-          // If all else fails, return an empty array
-          return [];
-        }
-      }
-      
-      return [];
     } catch (error) {
-      console.error('Error calling Gemini API:', error);
+      console.error('Error calling LLM:', error);
       return [];
     }
   }
 
-  /**
-   * Normalize a country name or code to a 2-letter code
-   */
-  private normalizeCountryCode(country: string): string {
-    // Map of common country names and variations to their 2-letter codes
-    const countryMap: Record<string, string> = {
-      'united states': 'US', 'usa': 'US', 'u.s.a.': 'US', 'u.s.': 'US', 'america': 'US',
-      'canada': 'CA',
-      'united kingdom': 'UK', 'great britain': 'UK', 'england': 'UK', 'britain': 'UK',
-      'australia': 'AU', 
-      'china': 'CN', 
-      'japan': 'JP',
-      'european union': 'EU', 'europe': 'EU',
-      'germany': 'DE', 'france': 'FR', 'italy': 'IT', 'spain': 'ES',
-      'mexico': 'MX', 'brazil': 'BR', 'india': 'IN'
-    };
-    
-    // If it's already a 2-letter code (likely), return it uppercase
-    if (country.length === 2) {
-      return country.toUpperCase();
-    }
-    
-    // Try to match it to a known country name
-    const lowerCountry = country.toLowerCase();
-    if (countryMap[lowerCountry]) {
-      return countryMap[lowerCountry];
-    }
-    
-    // For longer strings, look for the country name within the text
-    for (const [name, code] of Object.entries(countryMap)) {
-      if (lowerCountry.includes(name)) {
-        return code;
-      }
-    }
-    
-    // If we can't determine the country code, return the original (uppercase)
-    return country.toUpperCase();
-  }
-
   /**
    * Debug helper to log all available fields for troubleshooting
    * This helps identify why fields might not be detected properly
@@ -0,0 +1,97 @@
+import { currencyService, parseNumber } from './currencyService';
+
+describe('parseNumber', () => {
+  it.each([
+    ['1,234.56', 1234.56],
+    ['1.234,56', 1234.56],
+    ['1 234,56', 1234.56],
+    ["1'234.56", 1234.56],
+    ['1,250', 1250],
+    ['1,5', 1.5],
+    ['1.234', 1.234],
+    ['1.234.567', 1234567]
+  ])('reads %s as %d', (value, expected) => {
+    expect(parseNumber(value)).toBe(expected);
+  });
+
+  it('reads a dot before three digits as a thousands separator in continental notation', () => {
+    expect(parseNumber('1.234', true)).toBe(1234);
+    expect(parseNumber('1.23', true)).toBe(1.23);
+  });
+});
+
+describe('currencyService.parseMoney', () => {
+  it.each([
+    ['1.234,56 €', 1234.56, 'EUR'],
+    ['EUR 1,234.56', 1234.56, 'EUR'],
+    ['CA$150', 150, 'CAD'],
+    ['1 234,56 kr', 1234.56, 'SEK'],
+    ["1'234.50 CHF", 1234.5, 'CHF'],
+    ['12,50 eur', 12.5, 'EUR'],
+    ['R$ 104,75', 104.75, 'BRL'],
+    ['₹69,340.00', 69340, 'INR'],
+    ['RMB 500', 500, 'CNY'],
+    ['-12 USD', -12, 'USD'],
+    ['(1,234.56 USD)', -1234.56, 'USD']
+  ])('reads %s', (value, amount, currency) => {
+    expect(currencyService.parseMoney(value)).toEqual({ amount, currency });
+  });
+
+  it('reads a dot before three digits the same with the code before or after the amount', () => {
+    expect(currencyService.parseMoney('EUR 1.234')).toEqual({ amount: 1234, currency: 'EUR' });
+    expect(currencyService.parseMoney('1.234 EUR')).toEqual({ amount: 1234, currency: 'EUR' });
+    expect(currencyService.parseMoney('1.234 €')).toEqual({ amount: 1234, currency: 'EUR' });
+  });
+
+  it('keeps three decimals for currencies written with them', () => {
+    expect(currencyService.parseMoney('KWD 1.234')).toEqual({ amount: 1.234, currency: 'KWD' });
+  });
+
+  it('uses the hint for bare amounts and for symbols several currencies share', () => {
+    expect(currencyService.parseMoney('120.00', 'usd')).toEqual({ amount: 120, currency: 'USD' });
+    expect(currencyService.parseMoney('$20', 'CAD')).toEqual({ amount: 20, currency: 'CAD' });
+    expect(currencyService.parseMoney('¥10,000', 'CNY')).toEqual({ amount: 10000, currency: 'CNY' });
+    expect(currencyService.parseMoney('¥10,000')).toEqual({ amount: 10000, currency: 'JPY' });
+  });
+
+  it('does not read lower case words as currency codes', () => {
+    expect(currencyService.parseMoney('all 100 usd')).toBeUndefined();
+    expect(currencyService.parseMoney('Total: 100 USD')).toEqual({ amount: 100, currency: 'USD' });
+  });
+
+  it.each([
+    [undefined],
+    [''],
+    ['n/a'],
+    ['1e5'],
+    ['$12abc'],
+    ['100 USD approx'],
+    ['12.50/kg']
+  ])('returns undefined for %p', value => {
+    expect(currencyService.parseMoney(value)).toBeUndefined();
+  });
+});
+
+describe('currencyService.convert', () => {
+  it('converts through the US dollar at the bundled rates', () => {
+    const eurPerUsd = currencyService.getRate('EUR')!.unitsPerUsd;
+    expect(currencyService.convert(100, 'USD', 'EUR')).toBeCloseTo(100 * eurPerUsd);
+    expect(currencyService.convert(100, 'EUR', 'EUR')).toBeCloseTo(100);
+    expect(currencyService.convert(100, 'USD', 'XYZ')).toBeUndefined();
+  });
+
+  it('knows ISO codes without a rate from the country table', () => {
+    expect(currencyService.isKnownCurrency('eur')).toBe(true);
+    expect(currencyService.isKnownCurrency('XYZ')).toBe(false);
+  });
+});
+
+describe('currencyService.readDeclaredValue', () => {
+  it('prefers the USD value and falls back to the currency of the record', () => {
+    expect(currencyService.readDeclaredValue({ declaredValueUsd: '110', declaredValue: '100 EUR' }))
+      .toEqual({ amount: 110, currency: 'USD' });
+    expect(currencyService.readDeclaredValue({ declaredValue: '100', declaredValueCurrency: 'GBP' }))
+      .toEqual({ amount: 100, currency: 'GBP' });
+    expect(currencyService.readDeclaredValue({ customsValue: '100' })).toEqual({ amount: 100, currency: 'USD' });
+  });
+});
@@ -0,0 +1,350 @@
+import { FxRate, createFxRate } from './database/models';
+import { fxRateRepository } from './database/fxRateRepository';
+import { fxRateLoader } from './database/fxRateLoader';
+import { countryService } from './countryService';
+import fxRatesData from './database/data/fxRates.json';
+
+/**
+ * An amount read from text, with its currency when the text names one
+ */
+export interface Money {
+  amount: number;
+  currency?: string; // ISO 4217 code
+}
+
+/**
+ * Currency symbols and the currencies they stand for, the most common first.
+ * Prefixed dollar symbols come before "$" so "CA$" is not read as US dollars.
+ */
+const CURRENCY_SYMBOLS: { symbol: string; currencies: string[] }[] = [
+  { symbol: 'US$', currencies: ['USD'] },
+  { symbol: 'CA$', currencies: ['CAD'] },
+  { symbol: 'C$', currencies: ['CAD'] },
+  { symbol: 'AU$', currencies: ['AUD'] },
+  { symbol: 'A$', currencies: ['AUD'] },
+  { symbol: 'NZ$', currencies: ['NZD'] },
+  { symbol: 'HK$', currencies: ['HKD'] },
+  { symbol: 'S$', currencies: ['SGD'] },
+  { symbol: 'MX$', currencies: ['MXN'] },
+  { symbol: 'NT$', currencies: ['TWD'] },
+  { symbol: 'R$', currencies: ['BRL'] },
+  { symbol: '$', currencies: ['USD', 'CAD', 'AUD', 'NZD', 'HKD', 'SGD', 'MXN', 'TWD', 'ARS', 'CLP', 'COP'] },
+  { symbol: '€', currencies: ['EUR'] },
+  { symbol: '£', currencies: ['GBP'] },
+  { symbol: '¥', currencies: ['JPY', 'CNY'] },
+  { symbol: '元', currencies: ['CNY'] },
+  { symbol: '円', currencies: ['JPY'] },
+  { symbol: '₹', currencies: ['INR'] },
+  { symbol: '₩', currencies: ['KRW'] },
+  { symbol: '₽', currencies: ['RUB'] },
+  { symbol: '₺', currencies: ['TRY'] },
+  { symbol: '₪', currencies: ['ILS'] },
+  { symbol: '₱', currencies: ['PHP'] },
+  { symbol: '₫', currencies: ['VND'] },
+  { symbol: '฿', currencies: ['THB'] },
+  { symbol: '₴', currencies: ['UAH'] },
+  { symbol: 'zł', currencies: ['PLN'] },
+  { symbol: 'Kč', currencies: ['CZK'] },
+  { symbol: 'kr', currencies: ['SEK', 'NOK', 'DKK', 'ISK'] },
+  { symbol: 'Fr.', currencies: ['CHF'] }
+];
+
+// Names of currencies written instead of their ISO code
+const CURRENCY_ALIASES: Record<string, string> = { RMB: 'CNY', NTD: 'TWD' };
+
+// Thousands separators besides dots and commas: spaces and the Swiss apostrophe
+const GROUP_SEPARATORS = /[\s\u00a0\u202f'’]/g;
+
+const bundledRates = (): Map<string, FxRate> =>
+  new Map((fxRatesData as Partial<FxRate>[]).map(rate => [rate.currency!, createFxRate(rate)]));
+
+/**
+ * Read a number written with any decimal and thousands separators, e.g.
+ * "1.234,56", "1,234.56", "1 234,56" or "1'234.56"
+ * @param continental Whether a single dot before three digits is a
+ * thousands separator, as in "1.234 €"
+ */
+export const parseNumber = (value: string, continental = false): number | undefined => {
+  const compact = value.replace(GROUP_SEPARATORS, '');
+  const lastDot = compact.lastIndexOf('.');
+  const lastComma = compact.lastIndexOf(',');
+  let normalized: string;
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    // The separator written last is the decimal one
+    const decimal = lastDot > lastComma ? '.' : ',';
+    const group = decimal === '.' ? ',' : '.';
+    normalized = compact.split(group).join('').replace(decimal, '.');
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const separator = lastDot >= 0 ? '.' : ',';
+    const parts = compact.split(separator);
+    const decimals = parts[parts.length - 1].length;
+    const grouping = parts.length > 2 || (decimals === 3 && (separator === ',' || continental));
+    normalized = grouping ? parts.join('') : parts.join('.');
+  } else {
+    normalized = compact;
+  }
+
+  const parsed = parseFloat(normalized);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+/**
+ * Service for reading amounts written in any currency and converting them
+ * offline. Rates come from the local exchange rate table, which starts with
+ * the indicative rates bundled with the app and can be replaced by importing
+ * a rate file.
+ */
+class CurrencyService {
+  private rates = bundledRates();
+  private loaded = false;
+
+  /**
+   * Load the rates of the local table, so conversions use imported rates
+   * rather than the bundled ones. Conversions made before use the bundled rates.
+   */
+  async loadRates(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+
+    try {
+      await fxRateLoader.initializeRates();
+      const stored = await fxRateRepository.getAllRates();
+      stored.forEach(rate => this.rates.set(rate.currency, rate));
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+      // Don't re-throw, conversions fall back to the bundled rates
+    }
+
+    this.loaded = true;
+  }
+
+  /**
+   * Get the rates of all currencies, ordered by currency code
+   */
+  async getRates(): Promise<FxRate[]> {
+    await this.loadRates();
+    return Array.from(this.rates.values()).sort((a, b) => a.currency.localeCompare(b.currency));
+  }
+
+  /**
+   * Import an exchange rate file into the local table. Rates of currencies in
+   * the file replace the stored ones; other currencies keep theirs. Accepted
+   * are CSV with a currency code and its units per US dollar on each line,
+   * a JSON array of { currency, unitsPerUsd } and JSON of the form
+   * { base, rates: { EUR: 0.92, ... } } that rate APIs publish.
+   * @param source Name the rates are shown with, e.g. the file name
+   * @returns The number of rates imported
+   * @throws Error when the file holds no rates
+   */
+  async importRates(content: string, source: string): Promise<number> {
+    const updatedAt = new Date().toISOString();
+    const rates = this.parseRateFile(content)
+      .map(rate => ({ ...rate, name: rate.name || this.getRate(rate.currency!)?.name, source, updatedAt }));
+
+    if (rates.length === 0) {
+      throw new Error('No exchange rates found. Expected lines of a currency code and its units per US dollar, e.g. "EUR,0.92".');
+    }
+
+    await fxRateLoader.initializeRates();
+    await fxRateRepository.importRates(rates);
+    this.loaded = false;
+    await this.loadRates();
+    return rates.length;
+  }
+
+  /**
+   * Get the rate of a currency
+   * @param currency ISO 4217 code, e.g. "EUR"
+   */
+  getRate(currency: string): FxRate | undefined {
+    return this.rates.get(currency.trim().toUpperCase());
+  }
+
+  /**
+   * Convert an amount between two currencies through the US dollar
+   * @returns The converted amount, or undefined when a currency has no rate
+   */
+  convert(amount: number, from: string, to: string): number | undefined {
+    const fromRate = this.getRate(from);
+    const toRate = this.getRate(to);
+    if (!fromRate || !toRate) {
+      return undefined;
+    }
+    return amount / fromRate.unitsPerUsd * toRate.unitsPerUsd;
+  }
+
+  /**
+   * Check whether a code is an ISO 4217 currency: one with a rate or the
+   * legal tender of a country
+   */
+  isKnownCurrency(code: string): boolean {
+    const upper = code.trim().toUpperCase();
+    return this.rates.has(upper) || countryService.getAllCountries().some(country => country.currency === upper);
+  }
+
+  /**
+   * Read an amount and its currency from text such as "1.234,56 €",
+   * "EUR 1,234.56", "CA$150" or "¥10,000"
+   * @param currencyHint Currency stated in a separate field; it also picks
+   * the currency of a symbol several currencies use, e.g. "$" for CAD
+   * @returns The amount, or undefined when the text holds no number or
+   * anything but a currency follows it, as in "1e5" or "$12abc"
+   */
+  parseMoney(value: string | undefined, currencyHint?: string): Money | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const numberMatch = value.match(/\d[\d.,\s\u00a0\u202f'’]*/);
+    if (!numberMatch || numberMatch.index === undefined) {
+      return undefined;
+    }
+
+    const hint = currencyHint && currencyHint.trim() ? this.normalizeCurrency(currencyHint) : undefined;
+    const { currency, index, length } = this.findCurrency(value, hint);
+    const numberEnd = numberMatch.index + numberMatch[0].length;
+    const trailing = index >= numberEnd
+      ? value.slice(numberEnd, index) + value.slice(index + length)
+      : value.slice(numberEnd);
+    if (!/^[\s)]*$/.test(trailing)) {
+      return undefined;
+    }
+
+    // A written currency makes "EUR 1.234" and "1.234 EUR" both 1234, except
+    // for currencies with three decimals such as KWD
+    const continental = currency !== undefined && this.getMinorDigits(currency) !== 3;
+    const amount = parseNumber(numberMatch[0].replace(/[\s.,'’]+$/, ''), continental);
+    if (amount === undefined) {
+      return undefined;
+    }
+
+    const negative = /-\s*$/.test(value.slice(0, numberMatch.index)) || /^\(.*\)$/.test(value.trim());
+    return { amount: negative ? -amount : amount, currency: currency || hint };
+  }
+
+  /**
+   * Read the declared value of a shipment and its currency, preferring the
+   * USD figure; values without a currency are taken to be in USD
+   */
+  readDeclaredValue(fields: Record<string, string>): Money | undefined {
+    const usd = this.parseMoney(fields.declaredValueUsd, 'USD');
+    if (usd) {
+      return usd;
+    }
+    return this.parseMoney(
+      fields.declaredValue || fields.customsValue,
+      fields.declaredValueCurrency || fields.currency || 'USD'
+    );
+  }
+
+  /**
+   * Format an amount with the currency's symbol, e.g. "CA$150" or "€12.50"
+   */
+  format(amount: number, currency: string): string {
+    const code = currency.trim().toUpperCase();
+    const fractionDigits = Number.isInteger(amount) ? 0 : 2;
+    try {
+      return new Intl.NumberFormat('en', {
+        style: 'currency',
+        currency: code,
+        minimumFractionDigits: fractionDigits,
+        maximumFractionDigits: fractionDigits
+      }).format(amount);
+    } catch {
+      // Not an ISO 4217 code
+      return `${amount.toFixed(fractionDigits)} ${code}`;
+    }
+  }
+
+  /**
+   * Number of decimals the amounts of a currency are written with
+   */
+  private getMinorDigits(currency: string): number {
+    try {
+      return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits;
+    } catch {
+      // Not an ISO 4217 code
+      return 2;
+    }
+  }
+
+  private normalizeCurrency(code: string): string {
+    const upper = code.trim().toUpperCase();
+    return CURRENCY_ALIASES[upper] || upper;
+  }
+
+  /**
+   * Find the currency an amount is written in, by ISO code or symbol
+   * @returns The currency, and where and how long it is written, or index -1 when none is
+   */
+  private findCurrency(value: string, hint?: string): { currency?: string; index: number; length: number } {
+    // Codes are upper case, unless the code is all there is besides the amount, as in "12,50 eur"
+    const onlyCode = value.replace(/[\d.,\s\u00a0\u202f'’()-]/g, '');
+    const codePattern = /(^|[^A-Za-z])([A-Za-z]{3})(?![A-Za-z])/g;
+    let codeMatch: RegExpExecArray | null;
+    while ((codeMatch = codePattern.exec(value)) !== null) {
+      const code = this.normalizeCurrency(codeMatch[2]);
+      const written = codeMatch[2] === codeMatch[2].toUpperCase() || codeMatch[2] === onlyCode;
+      if (written && this.isKnownCurrency(code)) {
+        return { currency: code, index: codeMatch.index + codeMatch[1].length, length: 3 };
+      }
+    }
+
+    for (const { symbol, currencies } of CURRENCY_SYMBOLS) {
+      const index = value.indexOf(symbol);
+      if (index >= 0) {
+        return { currency: hint && currencies.includes(hint) ? hint : currencies[0], index, length: symbol.length };
+      }
+    }
+
+    return { index: -1, length: 0 };
+  }
+
+  /**
+   * Read the rates of an exchange rate file
+   */
+  private parseRateFile(content: string): Partial<FxRate>[] {
+    const trimmed = content.trim();
+    const valid = (rate: Partial<FxRate>) =>
+      /^[A-Z]{3}$/.test(rate.currency || '') && rate.unitsPerUsd !== undefined && isFinite(rate.unitsPerUsd) && rate.unitsPerUsd > 0;
+
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) {
+        return parsed
+          .map((entry: Record<string, unknown>) => ({
+            currency: String(entry.currency || entry.code || '').toUpperCase(),
+            name: entry.name ? String(entry.name) : undefined,
+            unitsPerUsd: Number(entry.unitsPerUsd ?? entry.rate)
+          }))
+          .filter(valid);
+      }
+
+      // Rates against another base are converted to rates against the US dollar
+      const rates: Record<string, number> = parsed.rates || {};
+      const base = String(parsed.base || 'USD').toUpperCase();
+      const usdPerBase = base === 'USD' ? 1 : Number(rates.USD);
+      if (!usdPerBase) {
+        throw new Error(`Rates against ${base} need the rate of USD to be converted.`);
+      }
+      return Object.entries({ ...rates, [base]: 1 })
+        .map(([currency, rate]) => ({ currency: currency.toUpperCase(), unitsPerUsd: Number(rate) / usdPerBase }))
+        .filter(valid);
+    }
+
+    return trimmed
+      .split(/\r?\n/)
+      .map(line => line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, '')))
+      .map(([currency, rate, name]) => ({
+        currency: (currency || '').toUpperCase(),
+        name: name || undefined,
+        unitsPerUsd: parseNumber(rate || '', false)
+      }))
+      .filter(valid);
+  }
+}
+
+// Create and export a singleton instance
+export const currencyService = new CurrencyService();
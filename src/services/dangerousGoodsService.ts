@@ -0,0 +1,454 @@
+import { ComplianceResult } from './types';
+import { DangerousGoodsEntry } from './database/models';
+import { dangerousGoodsRepository } from './database/dangerousGoodsRepository';
+import { dangerousGoodsLoader } from './database/dangerousGoodsLoader';
+import { detectTransportMode } from './incotermsService';
+
+/**
+ * Dangerous goods regulations by mode of transport
+ */
+export type DangerousGoodsRegulation = 'IATA' | 'IMDG' | 'ADR';
+
+const REGULATION_NAMES: Record<DangerousGoodsRegulation, string> = {
+  IATA: 'IATA Dangerous Goods Regulations',
+  IMDG: 'IMDG Code',
+  ADR: 'ADR/RID'
+};
+
+// Goods descriptions and item types that point to dangerous goods without naming them
+const HAZARD_PATTERN = /\b(chemicals?|flammable|corrosive|hazardous|hazmat|toxic|dangerous goods|oxidi[sz]er|explosives?)\b/i;
+
+const LITHIUM_PATTERN = /\b(lithium|li-?ion)\b/i;
+
+const EQUIPMENT_PATTERN = /\b(laptops?|phones?|smartphones?|tablets?|cameras?|devices?|equipment|watch(es)?|headphones?|tools?|contained|installed|with)\b/i;
+
+// Answers of a dangerous goods field declaring that a shipment contains none
+const NOT_RESTRICTED_PATTERN = /^(no|none|n|false|not restricted|non-dg|not dangerous)\b/i;
+
+// Lithium battery packing instructions without a Section II since the 2022 IATA DGR
+const NO_SECTION_II = ['PI965', 'PI968'];
+
+/**
+ * Read a UN number, e.g. "UN1263" from "UN 1263" or "1263"
+ * @returns The normalized UN number, or undefined when the value is not one
+ */
+export const parseUnNumber = (value: string): string | undefined => {
+  const match = value.trim().match(/^(?:UN)?\s*-?\s*(\d{4})$/i);
+  return match ? `UN${match[1]}` : undefined;
+};
+
+/**
+ * Read a packing group as a roman numeral, e.g. "II" from "PG 2"
+ */
+export const parsePackingGroup = (value: string): string | undefined => {
+  const match = value.trim().match(/^(?:PG|packing group)?\s*(III|II|I|[123])$/i);
+  if (!match) {
+    return undefined;
+  }
+
+  const group = match[1].toUpperCase();
+  return ({ '1': 'I', '2': 'II', '3': 'III' } as Record<string, string>)[group] || group;
+};
+
+/**
+ * Read a lithium battery packing instruction and section, e.g. "PI967" and
+ * "II" from "PI 967 Section II"
+ */
+export const parseLithiumSection = (value: string): { instruction: string; section?: string } | undefined => {
+  const instruction = value.match(/\b(?:PI)?\s*-?\s*(96[5-9]|970)\b/i);
+  if (!instruction) {
+    return undefined;
+  }
+
+  const section = value.slice(instruction.index! + instruction[0].length).match(/\b(IA|IB|II|I)\b/i);
+  return { instruction: `PI${instruction[1]}`, section: section ? section[1].toUpperCase() : undefined };
+};
+
+const normalizeName = (name: string): string =>
+  name.toLowerCase().replace(/\bn\.?o\.?s\.?/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+const normalizeClass = (hazardClass: string): string =>
+  hazardClass.trim().replace(/^(class|div\.?|division)\s*/i, '').toUpperCase();
+
+/**
+ * Service for validating the dangerous goods declaration of a shipment
+ * against the local dangerous goods list and the rules of the mode of
+ * transport: the IATA DGR for air, courier and postal shipments and the
+ * IMDG Code for ocean freight
+ */
+class DangerousGoodsService {
+  private entries: DangerousGoodsEntry[] = [];
+  private loading: Promise<void> | null = null;
+
+  /**
+   * Check the dangerous goods fields of a record. A declared UN number is
+   * checked against the proper shipping name, hazard class, packing group
+   * and lithium battery section; goods that look dangerous without a UN
+   * number need one.
+   * @param fields Formatted shipment fields
+   * @param idPrefix Prefix of the result IDs, usually the record ID
+   */
+  async checkDangerousGoods(fields: Record<string, string>, idPrefix: string): Promise<ComplianceResult[]> {
+    await this.ensureLoaded();
+    if (this.entries.length === 0) {
+      return [];
+    }
+
+    const service = fields.transportMode || fields.modeOfTransport || fields.shippingService || '';
+    const regulation = this.getRegulation(service);
+    const declared = (fields.unNumber || '').trim();
+
+    if (!declared) {
+      return NOT_RESTRICTED_PATTERN.test(fields.dangerousGoods || '')
+        ? []
+        : this.checkUndeclaredGoods(fields, idPrefix, service, regulation);
+    }
+
+    const results: ComplianceResult[] = [];
+    const unNumber = parseUnNumber(declared);
+    if (!unNumber) {
+      results.push({
+        id: `${idPrefix}-dg-unNumber`,
+        field: 'UN Number',
+        value: declared,
+        status: 'non-compliant',
+        message: `"${declared}" is not a UN number. Use "UN" followed by the four digits of the dangerous goods list, e.g. UN1263.`
+      });
+      return results;
+    }
+
+    const entry = this.entries.find(item => item.unNumber === unNumber);
+    if (!entry) {
+      results.push({
+        id: `${idPrefix}-dg-unNumber`,
+        field: 'UN Number',
+        value: declared,
+        status: 'warning',
+        message: `${unNumber} is not in the local dangerous goods list, so its proper shipping name, class and packing group could not be verified.`
+      });
+      return results;
+    }
+
+    results.push({
+      id: `${idPrefix}-dg-unNumber`,
+      field: 'UN Number',
+      value: declared,
+      status: 'compliant',
+      message: `${this.describe(entry)}.`
+    });
+
+    results.push(...this.checkDeclaration(entry, fields, idPrefix));
+
+    if (regulation === 'IATA') {
+      results.push(...this.checkAirRules(entry, fields, idPrefix, service));
+    } else if (regulation === 'IMDG') {
+      results.push(...this.checkSeaRules(entry, fields, idPrefix));
+    }
+
+    return results;
+  }
+
+  /**
+   * Find the dangerous goods entries whose common names appear in a goods
+   * description, e.g. UN1133 for "Adhesive"
+   */
+  async findByDescription(description: string): Promise<DangerousGoodsEntry[]> {
+    await this.ensureLoaded();
+    const text = ` ${normalizeName(description)} `;
+    return this.entries.filter(entry =>
+      entry.keywords.some(keyword => text.includes(` ${normalizeName(keyword)} `))
+    );
+  }
+
+  /**
+   * Goods without a UN number: require one when the description or item type
+   * points to dangerous goods
+   */
+  private async checkUndeclaredGoods(
+    fields: Record<string, string>,
+    idPrefix: string,
+    service: string,
+    regulation: DangerousGoodsRegulation | undefined
+  ): Promise<ComplianceResult[]> {
+    const contents = fields.packageContents || '';
+    const described = [fields.itemType, contents].filter(Boolean).join(' ');
+    let candidates = await this.findByDescription(contents);
+
+    // Batteries in or with equipment are shipped under UN3481 or UN3091 rather than as batteries on their own
+    if (LITHIUM_PATTERN.test(contents)) {
+      const metal = /\b(lithium metal|coin cells?|cr\d{4})\b/i.test(contents);
+      const unNumber = EQUIPMENT_PATTERN.test(contents)
+        ? (metal ? 'UN3091' : 'UN3481')
+        : (metal ? 'UN3090' : 'UN3480');
+      candidates = [
+        ...this.entries.filter(entry => entry.unNumber === unNumber),
+        ...candidates.filter(entry => entry.lithiumPackingInstructions.length === 0)
+      ];
+    }
+
+    const declaredDangerous = /^(yes|y|true)\b/i.test(fields.dangerousGoods || '');
+    if (candidates.length === 0 && !HAZARD_PATTERN.test(described) && !declaredDangerous) {
+      return [];
+    }
+
+    const goods = contents || fields.itemType || 'The goods';
+    const shipped = service ? ` shipped by ${service}` : '';
+    const regime = regulation
+      ? `must be declared as dangerous goods under the ${REGULATION_NAMES[regulation]}`
+      : 'may need to be declared as dangerous goods';
+    const suggestion = candidates.length > 0
+      ? ` Likely ${candidates.slice(0, 2).map(entry => this.describe(entry)).join(', or ')}.`
+      : '';
+    const lithium = regulation === 'IATA' && candidates.some(entry => entry.lithiumPackingInstructions.length > 0)
+      ? ', and the lithium battery packing instruction and section'
+      : '';
+
+    return [{
+      id: `${idPrefix}-dg-unNumber`,
+      field: 'UN Number',
+      value: 'Missing',
+      status: regulation ? 'non-compliant' : 'warning',
+      message: `UN number required: ${goods}${shipped} ${regime}. Declare the UN number, proper shipping name, hazard class and packing group${lithium}, or mark the goods as not restricted if they are not regulated.${suggestion}`
+    }];
+  }
+
+  /**
+   * Check the proper shipping name, hazard class and packing group declared
+   * with a UN number
+   */
+  private checkDeclaration(entry: DangerousGoodsEntry, fields: Record<string, string>, idPrefix: string): ComplianceResult[] {
+    const results: ComplianceResult[] = [];
+
+    const name = (fields.properShippingName || '').trim();
+    const names = [entry.properShippingName, ...entry.alternativeNames].map(normalizeName);
+    if (!name) {
+      results.push({
+        id: `${idPrefix}-dg-properShippingName`,
+        field: 'Proper Shipping Name',
+        value: 'Missing',
+        status: 'non-compliant',
+        message: `The proper shipping name is required with ${entry.unNumber}: ${entry.properShippingName}.`
+      });
+    } else if (!names.some(expected => normalizeName(name).startsWith(expected))) {
+      results.push({
+        id: `${idPrefix}-dg-properShippingName`,
+        field: 'Proper Shipping Name',
+        value: name,
+        status: 'warning',
+        message: `"${name}" is not the proper shipping name of ${entry.unNumber}, which is "${entry.properShippingName}".`
+      });
+    }
+
+    const hazardClass = normalizeClass(fields.hazardClass || '');
+    if (!hazardClass) {
+      results.push({
+        id: `${idPrefix}-dg-hazardClass`,
+        field: 'Hazard Class',
+        value: 'Missing',
+        status: 'non-compliant',
+        message: `The hazard class is required with ${entry.unNumber}, which is class ${entry.hazardClass}.`
+      });
+    } else if (!this.classMatches(hazardClass, entry.hazardClass)) {
+      results.push({
+        id: `${idPrefix}-dg-hazardClass`,
+        field: 'Hazard Class',
+        value: fields.hazardClass,
+        status: 'non-compliant',
+        message: `${entry.unNumber} is class ${entry.hazardClass}, not class ${hazardClass}.`
+      });
+    }
+
+    const declaredGroup = (fields.packingGroup || '').trim();
+    const packingGroup = parsePackingGroup(declaredGroup);
+    if (entry.packingGroups.length === 0) {
+      if (declaredGroup) {
+        results.push({
+          id: `${idPrefix}-dg-packingGroup`,
+          field: 'Packing Group',
+          value: declaredGroup,
+          status: 'warning',
+          message: `${entry.unNumber} has no packing group; remove packing group ${declaredGroup} from the declaration.`
+        });
+      }
+    } else if (!declaredGroup) {
+      results.push({
+        id: `${idPrefix}-dg-packingGroup`,
+        field: 'Packing Group',
+        value: 'Missing',
+        status: 'non-compliant',
+        message: `The packing group is required with ${entry.unNumber} (${entry.packingGroups.join(', ')}).`
+      });
+    } else if (!packingGroup || !entry.packingGroups.includes(packingGroup)) {
+      results.push({
+        id: `${idPrefix}-dg-packingGroup`,
+        field: 'Packing Group',
+        value: declaredGroup,
+        status: 'non-compliant',
+        message: `Packing group ${declaredGroup} is not permitted for ${entry.unNumber}; use ${entry.packingGroups.join(' or ')}.`
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * IATA DGR: whether the goods may fly at all or only on cargo aircraft,
+   * the lithium battery packing instruction, and what postal services accept
+   */
+  private checkAirRules(
+    entry: DangerousGoodsEntry,
+    fields: Record<string, string>,
+    idPrefix: string,
+    service: string
+  ): ComplianceResult[] {
+    const results: ComplianceResult[] = [];
+    const lithium = fields.lithiumBatterySection ? parseLithiumSection(fields.lithiumBatterySection) : undefined;
+
+    if (entry.air === 'forbidden') {
+      results.push({
+        id: `${idPrefix}-dg-air`,
+        field: 'Dangerous Goods',
+        value: `${entry.unNumber} / ${service}`,
+        status: 'non-compliant',
+        message: `${entry.unNumber} (${entry.properShippingName}) is forbidden on aircraft under the IATA DGR. Ship it by road or sea instead.`
+      });
+      return results;
+    }
+
+    if (/\b(post|postal|mail)\b/i.test(service)) {
+      const acceptedByPost = lithium !== undefined &&
+        (lithium.instruction === 'PI967' || lithium.instruction === 'PI970') &&
+        lithium.section === 'II' &&
+        entry.lithiumPackingInstructions.includes(lithium.instruction);
+      if (!acceptedByPost) {
+        results.push({
+          id: `${idPrefix}-dg-air`,
+          field: 'Dangerous Goods',
+          value: `${entry.unNumber} / ${service}`,
+          status: 'non-compliant',
+          message: `Postal services only accept lithium batteries contained in equipment under Section II (PI967 or PI970) as dangerous goods. Ship ${entry.unNumber} with a carrier that accepts dangerous goods.`
+        });
+        return results;
+      }
+    }
+
+    if (entry.air === 'cargo-only') {
+      results.push({
+        id: `${idPrefix}-dg-air`,
+        field: 'Dangerous Goods',
+        value: `${entry.unNumber} / ${service}`,
+        status: 'warning',
+        message: `${entry.unNumber} (${entry.properShippingName}) is Cargo Aircraft Only under the IATA DGR. Label the packages accordingly and confirm that ${service || 'the carrier'} does not load them on passenger aircraft.`
+      });
+    }
+
+    if (entry.lithiumPackingInstructions.length > 0) {
+      const allowed = entry.lithiumPackingInstructions.join(' or ');
+      if (!lithium) {
+        results.push({
+          id: `${idPrefix}-dg-lithiumBatterySection`,
+          field: 'Lithium Battery Section',
+          value: fields.lithiumBatterySection || 'Missing',
+          status: 'non-compliant',
+          message: `${entry.unNumber} shipped by air must declare its packing instruction and section (${allowed}).`
+        });
+      } else if (!entry.lithiumPackingInstructions.includes(lithium.instruction)) {
+        results.push({
+          id: `${idPrefix}-dg-lithiumBatterySection`,
+          field: 'Lithium Battery Section',
+          value: fields.lithiumBatterySection,
+          status: 'non-compliant',
+          message: `${lithium.instruction} does not apply to ${entry.unNumber} (${entry.properShippingName}); use ${allowed}.`
+        });
+      } else if (lithium.section === 'II' && NO_SECTION_II.includes(lithium.instruction)) {
+        results.push({
+          id: `${idPrefix}-dg-lithiumBatterySection`,
+          field: 'Lithium Battery Section',
+          value: fields.lithiumBatterySection,
+          status: 'non-compliant',
+          message: `${lithium.instruction} no longer has a Section II; batteries shipped on their own must be declared under Section IA or IB.`
+        });
+      } else {
+        results.push({
+          id: `${idPrefix}-dg-lithiumBatterySection`,
+          field: 'Lithium Battery Section',
+          value: fields.lithiumBatterySection,
+          status: 'compliant',
+          message: `${lithium.instruction}${lithium.section ? ` Section ${lithium.section}` : ''} applies to ${entry.unNumber}.`
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * IMDG Code: the dangerous goods declaration of flammable liquids must
+   * state their minimum flashpoint
+   */
+  private checkSeaRules(entry: DangerousGoodsEntry, fields: Record<string, string>, idPrefix: string): ComplianceResult[] {
+    if (entry.hazardClass !== '3' || fields.flashPoint) {
+      return [];
+    }
+
+    return [{
+      id: `${idPrefix}-dg-flashPoint`,
+      field: 'Flash Point',
+      value: 'Missing',
+      status: 'warning',
+      message: `The IMDG Code requires the minimum flashpoint of ${entry.unNumber} (class 3) on the dangerous goods declaration.`
+    }];
+  }
+
+  private getRegulation(service: string): DangerousGoodsRegulation | undefined {
+    switch (detectTransportMode(service)) {
+      case 'sea':
+        return 'IMDG';
+      case 'air':
+      case 'courier':
+        return 'IATA';
+      case 'road':
+      case 'rail':
+        return 'ADR';
+      default:
+        return undefined;
+    }
+  }
+
+  private classMatches(declared: string, expected: string): boolean {
+    // Class 2 entries take any division; explosives may be declared without the compatibility group
+    return declared === expected ||
+      declared.startsWith(`${expected}.`) ||
+      expected.replace(/[A-Z]$/, '') === declared;
+  }
+
+  private describe(entry: DangerousGoodsEntry): string {
+    const subsidiary = entry.subsidiaryHazards.length > 0 ? ` (${entry.subsidiaryHazards.join(', ')})` : '';
+    const packingGroup = entry.packingGroups.length > 0 ? `, packing group ${entry.packingGroups.join('/')}` : '';
+    return `${entry.unNumber} ${entry.properShippingName}, class ${entry.hazardClass}${subsidiary}${packingGroup}`;
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (this.entries.length > 0) {
+      return;
+    }
+
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          await dangerousGoodsLoader.initializeDangerousGoods();
+          this.entries = await dangerousGoodsRepository.getAllEntries();
+        } catch (error) {
+          console.error('Error loading dangerous goods list:', error);
+        } finally {
+          this.loading = null;
+        }
+      })();
+    }
+
+    await this.loading;
+  }
+}
+
+// Create and export a singleton instance
+export const dangerousGoodsService = new DangerousGoodsService();
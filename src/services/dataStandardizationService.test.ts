@@ -0,0 +1,83 @@
+import { dataStandardizationService } from './dataStandardizationService';
+import { llmClient } from './llm/llmClient';
+import { MockLLMProvider } from './llm/mockProvider';
+
+const LABEL_TEXT = [
+  'Tracking Number: 1Z999AA10123456784',
+  'Shipper Country: United States',
+  'Recipient Country: Germany',
+  'Package Contents: Cotton T-shirts',
+  'Declared Value: 120.00 USD',
+  'Weight: 2 kg'
+].join('\n');
+
+describe('dataStandardizationService', () => {
+  const provider = new MockLLMProvider();
+
+  beforeAll(() => {
+    llmClient.useProvider(provider);
+  });
+
+  afterEach(() => {
+    provider.reset();
+  });
+
+  describe('in rules-only mode', () => {
+    beforeAll(() => {
+      llmClient.configure({ rulesOnly: true });
+    });
+
+    it('maps labelled lines to standard fields without calling the model', async () => {
+      const fields = await dataStandardizationService.standardizeData(LABEL_TEXT);
+
+      expect(fields).toEqual({
+        trackingNumber: '1Z999AA10123456784',
+        shipperCountry: 'United States',
+        recipientCountry: 'Germany',
+        packageContents: 'Cotton T-shirts',
+        declaredValue: '120.00 USD',
+        weight: '2 kg'
+      });
+      expect(provider.requests).toHaveLength(0);
+    });
+
+    it('gives the same result for the same input', async () => {
+      const first = await dataStandardizationService.enhanceStandardizedData(
+        await dataStandardizationService.standardizeData(LABEL_TEXT)
+      );
+      const second = await dataStandardizationService.enhanceStandardizedData(
+        await dataStandardizationService.standardizeData(LABEL_TEXT)
+      );
+
+      expect(second).toEqual(first);
+      expect(provider.requests).toHaveLength(0);
+    });
+  });
+
+  describe('with the model enabled', () => {
+    beforeAll(() => {
+      llmClient.configure({ rulesOnly: false });
+    });
+
+    it('reads the fields from the model response', async () => {
+      provider.enqueue(JSON.stringify({
+        trackingNumber: '1Z999AA10123456784',
+        recipientCountry: 'Germany',
+        packageContents: ['Cotton T-shirts', 'Socks'],
+        packageCount: 2,
+        hsCode: null
+      }));
+
+      const fields = await dataStandardizationService.standardizeData(LABEL_TEXT);
+
+      expect(provider.requests).toHaveLength(1);
+      expect(fields).toMatchObject({
+        trackingNumber: '1Z999AA10123456784',
+        recipientCountry: 'Germany',
+        packageContents: 'Cotton T-shirts, Socks',
+        packageCount: '2'
+      });
+      expect(fields).not.toHaveProperty('hsCode');
+    });
+  });
+});
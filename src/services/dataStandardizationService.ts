@@ -1,7 +1,20 @@
-import axios from 'axios';
+import { llmClient } from './llm/llmClient';
 import { v4 as uuidv4 } from 'uuid';
-
-// Keep this for reference in prompts - will not be used for direct mapping
+import { z } from 'zod';
+import { countryService } from './countryService';
+
+// Fields as returned by the model; arrays are joined, objects kept as JSON and nulls dropped
+const standardizedFieldsSchema = z.record(z.unknown())
+  .transform(fields => Object.fromEntries(
+    Object.entries(fields)
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(([key, value]) => [
+        key,
+        Array.isArray(value) ? value.join(', ') : typeof value === 'object' ? JSON.stringify(value) : String(value)
+      ])
+  ) as Record<string, string>);
+
+// Reference for prompts, and for direct mapping in rules-only mode
 const STANDARD_FIELD_EXAMPLES: Record<string, string[]> = {
   // Shipping details
   'trackingNumber': [
@@ -109,6 +122,18 @@ const STANDARD_FIELD_EXAMPLES: Record<string, string[]> = {
     'declared value', 'value', 'item value', 'goods value', 'customs value',
     'merchandise value', 'insured value', 'invoice value', 'value for customs'
   ],
+  'declaredValueCurrency': [
+    'currency', 'invoice currency', 'currency code', 'value currency'
+  ],
+  'declaredValueLocal': [
+    'declared value local', 'local value', 'value in local currency'
+  ],
+  'localCurrency': [
+    'local currency', 'local currency code'
+  ],
+  'actualValueUsd': [
+    'actual value usd', 'actual value', 'transaction value', 'price paid'
+  ],
   
   // International shipping
   'customsInfo': [
@@ -119,10 +144,54 @@ const STANDARD_FIELD_EXAMPLES: Record<string, string[]> = {
     'hs tariff number', 'hs code', 'harmonized system code', 'tariff code', 'commodity code',
     'customs code', 'harmonized tariff', 'hts code', 'import code'
   ],
+  'incoterm': [
+    'incoterm', 'incoterms', 'incoterms 2020', 'delivery terms', 'terms of delivery',
+    'trade terms', 'shipping terms', 'terms of sale'
+  ],
+  'eccn': [
+    'eccn', 'export control classification number', 'export classification', 'dual-use code',
+    'dual use code', 'export control number', 'ear99'
+  ],
+  'unNumber': [
+    'un number', 'un no', 'un code', 'un id', 'dangerous goods number', 'hazmat id'
+  ],
+  'properShippingName': [
+    'proper shipping name', 'psn', 'dangerous goods description', 'hazmat description'
+  ],
+  'hazardClass': [
+    'hazard class', 'dg class', 'dangerous goods class', 'hazmat class', 'imo class', 'division'
+  ],
+  'packingGroup': [
+    'packing group', 'pg', 'packaging group'
+  ],
+  'lithiumBatterySection': [
+    'lithium battery section', 'battery section', 'packing instruction', 'lithium battery pi'
+  ],
   'eoriNumber': [
     'eori number', 'eori', 'economic operator registration', 'customs registration',
     'eu trader number', 'customs identification'
   ],
+  'vatNumber': [
+    'vat number', 'vat no', 'vat id', 'vat registration number', 'vat reg no', 'tva', 'ust idnr'
+  ],
+  'iossNumber': [
+    'ioss', 'ioss number', 'ioss id', 'import one stop shop number'
+  ],
+  'abnNumber': [
+    'abn', 'australian business number'
+  ],
+  'iecCode': [
+    'iec', 'iec code', 'import export code', 'importer exporter code'
+  ],
+  'gstin': [
+    'gstin', 'gst number', 'gst identification number', 'gst registration number'
+  ],
+  'einNumber': [
+    'ein', 'employer identification number', 'federal tax id', 'irs number'
+  ],
+  'businessNumber': [
+    'business number', 'bn', 'cra business number', 'canadian business number', 'rm number'
+  ],
   
   // Payment and billing
   'shippingCost': [
@@ -139,11 +208,6 @@ const STANDARD_FIELD_EXAMPLES: Record<string, string[]> = {
   ]
 };
 
-// Gemini API configuration
-const API_KEY = 'your_api_key_here';
-const MODEL_NAME = 'gemini-1.5-pro';
-const API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${MODEL_NAME}:generateContent`;
-
 /**
  * Service for standardizing logistics data fields
  */
@@ -277,11 +341,12 @@ export class DataStandardizationService {
    * @returns Structured data with extracted fields
    */
   private async extractFieldsFromText(rawText: string, isManualInput: boolean = false): Promise<Record<string, string>> {
+    if (!llmClient.isAiEnabled()) {
+      return this.extractFieldsWithRules(rawText);
+    }
     try {
       const prompt = this.buildFieldExtractionPrompt(rawText, isManualInput);
-      const response = await this.callGeminiAPI(prompt);
-      
-      return this.parseGeminiResponse(response) || {};
+      return await this.requestFields(prompt);
     } catch (error) {
       console.error('Error extracting fields from text:', error);
       return {};
@@ -378,6 +443,9 @@ Respond ONLY with a valid JSON object containing the extracted and standardized
    * @returns Data with standardized field names using LLM
    */
   private async standardizeFieldNamesWithLLM(data: Record<string, string>): Promise<Record<string, string>> {
+    if (!llmClient.isAiEnabled()) {
+      return this.standardizeFieldNamesWithRules(data);
+    }
     try {
       const dataString = JSON.stringify(data, null, 2);
       const prompt = `
@@ -409,15 +477,74 @@ Guidelines:
 Respond ONLY with a valid JSON object containing the standardized field names and original values.
 `;
 
-      const response = await this.callGeminiAPI(prompt);
-      const standardized = this.parseGeminiResponse(response);
-      return standardized || data;
+      return await this.requestFields(prompt);
     } catch (error) {
       console.error('Error standardizing field names with LLM:', error);
       return data;
     }
   }
   
+  /**
+   * Rules-only extraction: read "Label: value" lines and map each label to a standard field name
+   */
+  private extractFieldsWithRules(rawText: string): Record<string, string> {
+    const fields: Record<string, string> = {};
+    
+    for (const line of rawText.split(/\r?\n/)) {
+      const match = line.match(/^\s*([^:=[\]]{1,60}?)\s*[:=]\s*(.+)$/);
+      if (!match) continue;
+      
+      const key = this.toStandardFieldName(match[1]);
+      const value = match[2].trim();
+      // The first occurrence of a field wins
+      if (key && value && !fields[key]) {
+        fields[key] = value;
+      }
+    }
+    
+    return fields;
+  }
+  
+  /**
+   * Rules-only counterpart of standardizeFieldNamesWithLLM
+   */
+  private standardizeFieldNamesWithRules(data: Record<string, string>): Record<string, string> {
+    const standardized: Record<string, string> = {};
+    
+    for (const [key, value] of Object.entries(data)) {
+      const standardKey = this.toStandardFieldName(key) || key;
+      if (!(standardKey in standardized)) {
+        standardized[standardKey] = value;
+      }
+    }
+    
+    return standardized;
+  }
+  
+  /**
+   * Map a free-form label to a standard field name using STANDARD_FIELD_EXAMPLES,
+   * falling back to the camelCased label
+   */
+  private toStandardFieldName(label: string): string {
+    const normalized = label
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .replace(/[^a-z0-9#]+/g, ' ')
+      .trim();
+    if (!normalized) return '';
+    
+    for (const [standardKey, aliases] of Object.entries(STANDARD_FIELD_EXAMPLES)) {
+      if (standardKey.toLowerCase() === normalized.replace(/ /g, '') || aliases.includes(normalized)) {
+        return standardKey;
+      }
+    }
+    
+    return normalized
+      .split(' ')
+      .map((word, index) => index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1))
+      .join('');
+  }
+  
   /**
    * Enhance standardized data by checking for correct data types and formats
    * @param data - The standardized data to enhance
@@ -581,42 +708,37 @@ Respond ONLY with a valid JSON object containing the standardized field names an
       }
     }
     
-    // Try to extract country information from addresses if not explicitly set
+    // Try to extract country information from addresses if not explicitly set,
+    // taking the country named last, e.g. "UK" in "10 Downing St, London SW1A 2AA, UK"
     if (!fields.recipientCountry && fields.recipientAddress) {
-      const countryMatch = fields.recipientAddress.match(/([A-Za-z]+)$/);
-      if (countryMatch && countryMatch[1]) {
-        fields.recipientCountry = countryMatch[1].trim();
+      const country = countryService.findInText(fields.recipientAddress).pop();
+      if (country) {
+        fields.recipientCountry = country.alpha2;
       }
     }
     
     if (!fields.shipperCountry && fields.shipperAddress) {
-      const countryMatch = fields.shipperAddress.match(/([A-Za-z]+)$/);
-      if (countryMatch && countryMatch[1]) {
-        fields.shipperCountry = countryMatch[1].trim();
+      const country = countryService.findInText(fields.shipperAddress).pop();
+      if (country) {
+        fields.shipperCountry = country.alpha2;
       }
     }
     
-    // Try to extract country or place from fields that contain "Japan" or "Australia", etc.
+    // Try to extract country from fields that name one, e.g. "Ship to: Osaka, Japan"
     if (!fields.recipientCountry || !fields.shipperCountry) {
-      const commonCountries = [
-        'Japan', 'Australia', 'China', 'Canada', 'USA', 'United States', 
-        'UK', 'United Kingdom', 'Germany', 'France', 'Italy', 'Spain', 
-        'Brazil', 'Mexico', 'India', 'Russia', 'South Korea'
-      ];
-      
       for (const [key, value] of Object.entries(fields)) {
-        if (value) {
-          for (const country of commonCountries) {
-            if (value.includes(country)) {
-              if (key.toLowerCase().includes('recipient') || key.toLowerCase().includes('to') || 
-                  key.toLowerCase().includes('destination')) {
-                fields.recipientCountry = country;
-              } else if (key.toLowerCase().includes('shipper') || key.toLowerCase().includes('from') || 
-                         key.toLowerCase().includes('origin')) {
-                fields.shipperCountry = country;
-              }
-            }
-          }
+        if (!value) continue;
+        
+        const country = countryService.findInText(value)[0];
+        if (!country) continue;
+        
+        const keyLower = key.toLowerCase();
+        if (!fields.recipientCountry && (keyLower.includes('recipient') || keyLower.includes('to') || 
+            keyLower.includes('destination'))) {
+          fields.recipientCountry = country.alpha2;
+        } else if (!fields.shipperCountry && (keyLower.includes('shipper') || keyLower.includes('from') || 
+                   keyLower.includes('origin'))) {
+          fields.shipperCountry = country.alpha2;
         }
       }
     }
@@ -704,9 +826,7 @@ Respond ONLY with a valid JSON object containing the transformed data with stand
 `;
       }
 
-      const response = await this.callGeminiAPI(prompt);
-      const enhanced = this.parseGeminiResponse(response);
-      return enhanced || data;
+      return await this.requestFields(prompt);
     } catch (error) {
       console.error('Error enhancing data with Gemini:', error);
       return data;
@@ -714,105 +834,16 @@ Respond ONLY with a valid JSON object containing the transformed data with stand
   }
   
   /**
-   * Call the Gemini API for data standardization
-   */
-  private async callGeminiAPI(prompt: string): Promise<any> {
-    try {
-      const response = await axios.post(
-        API_URL,
-        {
-          contents: [
-            {
-              role: 'user',
-              parts: [{ text: prompt }]
-            }
-          ],
-          generationConfig: {
-            temperature: 0.1,
-            topP: 0.95,
-            topK: 40,
-            maxOutputTokens: 2048,
-          },
-          safetySettings: [
-            {
-              category: 'HARM_CATEGORY_HARASSMENT',
-              threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-            },
-            {
-              category: 'HARM_CATEGORY_HATE_SPEECH',
-              threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-            },
-            {
-              category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
-              threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-            },
-            {
-              category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
-              threshold: 'BLOCK_MEDIUM_AND_ABOVE'
-            }
-          ]
-        },
-        {
-          params: {
-            key: API_KEY
-          },
-          headers: {
-            'Content-Type': 'application/json'
-          }
-        }
-      );
-      
-      const content = response.data.candidates[0].content.parts[0].text.trim();
-      return content;
-    } catch (error: any) {
-      console.error('Error calling Gemini API:', error);
-      throw new Error(`Failed to call Gemini API: ${error.message || 'Unknown error'}`);
-    }
-  }
-  
-  /**
-   * Parse the Gemini API response to extract the JSON data
+   * Ask the shared LLM client for the fields of a record
    */
-  private parseGeminiResponse(response: string): Record<string, string> | null {
-    try {
-      // Extract JSON from the response, handling cases where there's text before or after the JSON
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        console.error('No JSON object found in response:', response);
-        return null;
-      }
-      
-      const jsonStr = jsonMatch[0];
-      const parsed = JSON.parse(jsonStr) as Record<string, any>;
-      
-      // Convert to a Record<string, string> by processing each value
-      const result: Record<string, string> = {};
-      
-      Object.entries(parsed).forEach(([key, value]) => {
-        // Handle different value types
-        if (typeof value === 'string') {
-          // Keep strings as is
-          result[key] = value;
-        } else if (value === null || value === undefined) {
-          // Skip null or undefined values
-          return;
-        } else if (typeof value === 'number' || typeof value === 'boolean') {
-          // Convert numbers and booleans to strings
-          result[key] = String(value);
-        } else if (Array.isArray(value)) {
-          // Join arrays into a comma-separated string
-          result[key] = value.join(', ');
-        } else if (typeof value === 'object') {
-          // For objects, stringify them
-          result[key] = JSON.stringify(value);
-        }
-      });
-      
-      return result;
-    } catch (error) {
-      console.error('Error parsing Gemini response:', error, 'Response:', response);
-      return null;
-    }
+  private async requestFields(prompt: string): Promise<Record<string, string>> {
+    return llmClient.generateJson(prompt, standardizedFieldsSchema, {
+      label: 'dataStandardization',
+      temperature: 0.1,
+      topP: 0.95,
+      topK: 40,
+      maxOutputTokens: 2048
+    });
   }
   
   /**
@@ -0,0 +1,129 @@
+import { dbService } from './dbService';
+import {
+  BatchJob,
+  BatchJobRow,
+  createBatchJob,
+  createBatchJobRow
+} from './models';
+
+/**
+ * Repository for CSV batch jobs and their rows
+ */
+export class BatchJobRepository {
+  /**
+   * Create a job together with a pending row for every parsed record
+   */
+  async createJob(job: Partial<BatchJob>, records: Record<string, string>[]): Promise<BatchJob> {
+    const db = await dbService.getDb();
+    const newJob = createBatchJob({ ...job, totalRows: records.length });
+
+    const tx = db.transaction(['batchJobs', 'batchJobRows'], 'readwrite');
+    await Promise.all([
+      tx.objectStore('batchJobs').put(newJob),
+      ...records.map((record, index) =>
+        tx.objectStore('batchJobRows').put(createBatchJobRow({ jobId: newJob.id, index, record }))
+      ),
+      tx.done
+    ]);
+
+    return newJob;
+  }
+
+  /**
+   * Get a job by ID
+   */
+  async getJob(id: string): Promise<BatchJob | undefined> {
+    const db = await dbService.getDb();
+    return db.get('batchJobs', id);
+  }
+
+  /**
+   * Get all jobs for a user, newest first
+   */
+  async getJobsByUser(userId: string): Promise<BatchJob[]> {
+    const db = await dbService.getDb();
+    const jobs = await db.getAllFromIndex('batchJobs', 'by-user', userId);
+    return jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Get jobs that are running or paused, newest first.
+   * Jobs without a user are only returned when no user is given.
+   */
+  async getUnfinishedJobs(userId?: string): Promise<BatchJob[]> {
+    const db = await dbService.getDb();
+    const [running, paused] = await Promise.all([
+      db.getAllFromIndex('batchJobs', 'by-status', 'running'),
+      db.getAllFromIndex('batchJobs', 'by-status', 'paused')
+    ]);
+
+    return [...running, ...paused]
+      .filter(job => job.userId === (userId ?? null))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Save job status and counters
+   */
+  async saveJob(job: BatchJob): Promise<BatchJob> {
+    const db = await dbService.getDb();
+    job.updatedAt = new Date().toISOString();
+    await db.put('batchJobs', job);
+    return job;
+  }
+
+  /**
+   * Get the rows of a job in file order
+   */
+  async getRows(jobId: string): Promise<BatchJobRow[]> {
+    const db = await dbService.getDb();
+    const rows = await db.getAllFromIndex('batchJobRows', 'by-job', jobId);
+    return rows.sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Save the outcome of a row
+   */
+  async saveRow(row: BatchJobRow): Promise<void> {
+    const db = await dbService.getDb();
+    row.updatedAt = new Date().toISOString();
+    await db.put('batchJobRows', row);
+  }
+
+  /**
+   * Mark failed rows as pending again so they are retried
+   * @returns Number of rows reset
+   */
+  async resetFailedRows(jobId: string): Promise<number> {
+    const rows = await this.getRows(jobId);
+    const failed = rows.filter(row => row.status === 'failed');
+
+    for (const row of failed) {
+      row.status = 'pending';
+      row.error = undefined;
+      await this.saveRow(row);
+    }
+
+    return failed.length;
+  }
+
+  /**
+   * Delete a job and its rows. Runs recorded for the rows are kept.
+   */
+  async deleteJob(id: string): Promise<void> {
+    const db = await dbService.getDb();
+    const tx = db.transaction(['batchJobs', 'batchJobRows'], 'readwrite');
+    let cursor = await tx.objectStore('batchJobRows').index('by-job').openCursor(id);
+
+    while (cursor) {
+      await cursor.delete();
+      cursor = await cursor.continue();
+    }
+
+    await tx.objectStore('batchJobs').delete(id);
+    await tx.done;
+  }
+}
+
+// Create and export a singleton instance
+export const batchJobRepository = new BatchJobRepository();
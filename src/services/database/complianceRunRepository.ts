@@ -0,0 +1,185 @@
+import { dbService } from './dbService';
+import { countryService } from '../countryService';
+import {
+  ComplianceRun,
+  ComplianceRunStatus,
+  createComplianceRun
+} from './models';
+
+/**
+ * Filters for querying compliance runs; all given filters must match
+ */
+export interface ComplianceRunQuery {
+  status?: ComplianceRunStatus;
+  destinationCountry?: string;
+  trackingNumber?: string;
+  userId?: string;
+  from?: string | Date; // Inclusive lower bound on timestamp
+  to?: string | Date; // Inclusive upper bound on timestamp
+  limit?: number;
+}
+
+const toIsoString = (value: string | Date): string => {
+  return value instanceof Date ? value.toISOString() : value;
+};
+
+/**
+ * Repository for persisted compliance check runs
+ */
+export class ComplianceRunRepository {
+  /**
+   * Save a compliance run
+   */
+  async saveRun(
+    run: Partial<ComplianceRun> & Pick<ComplianceRun, 'formattedData' | 'results' | 'stats'>
+  ): Promise<ComplianceRun> {
+    const db = await dbService.getDb();
+    const newRun = createComplianceRun(run);
+    await db.put('complianceRuns', newRun);
+    return newRun;
+  }
+
+  /**
+   * Get a run by ID
+   */
+  async getRunById(id: string): Promise<ComplianceRun | undefined> {
+    const db = await dbService.getDb();
+    return db.get('complianceRuns', id);
+  }
+
+  /**
+   * Get all runs, newest first
+   */
+  async getAllRuns(): Promise<ComplianceRun[]> {
+    const db = await dbService.getDb();
+    const runs = await db.getAllFromIndex('complianceRuns', 'by-timestamp');
+    return runs.reverse();
+  }
+
+  /**
+   * Get the most recent runs
+   */
+  async getRecentRuns(limit = 20): Promise<ComplianceRun[]> {
+    const db = await dbService.getDb();
+    const runs: ComplianceRun[] = [];
+    let cursor = await db.transaction('complianceRuns').store.index('by-timestamp').openCursor(null, 'prev');
+
+    while (cursor && runs.length < limit) {
+      runs.push(cursor.value);
+      cursor = await cursor.continue();
+    }
+
+    return runs;
+  }
+
+  /**
+   * Get runs by overall status, newest first
+   */
+  async getRunsByStatus(status: ComplianceRunStatus): Promise<ComplianceRun[]> {
+    const db = await dbService.getDb();
+    const runs = await db.getAllFromIndex('complianceRuns', 'by-status', status);
+    return this.sortNewestFirst(runs);
+  }
+
+  /**
+   * Get runs by destination country code, newest first
+   */
+  async getRunsByDestinationCountry(countryCode: string): Promise<ComplianceRun[]> {
+    const db = await dbService.getDb();
+    const runs = await db.getAllFromIndex('complianceRuns', 'by-destination-country', countryService.normalizeCode(countryCode));
+    return this.sortNewestFirst(runs);
+  }
+
+  /**
+   * Get runs for a tracking number, newest first
+   */
+  async getRunsByTrackingNumber(trackingNumber: string): Promise<ComplianceRun[]> {
+    const db = await dbService.getDb();
+    const runs = await db.getAllFromIndex('complianceRuns', 'by-tracking-number', trackingNumber.trim());
+    return this.sortNewestFirst(runs);
+  }
+
+  /**
+   * Get runs within a date range (inclusive), newest first
+   */
+  async getRunsByDateRange(from?: string | Date, to?: string | Date): Promise<ComplianceRun[]> {
+    const db = await dbService.getDb();
+    const range = this.getTimestampRange(from, to);
+    const runs = await db.getAllFromIndex('complianceRuns', 'by-timestamp', range);
+    return runs.reverse();
+  }
+
+  /**
+   * Get runs for a user, newest first
+   */
+  async getRunsByUser(userId: string): Promise<ComplianceRun[]> {
+    const db = await dbService.getDb();
+    const runs = await db.getAllFromIndex('complianceRuns', 'by-user', userId);
+    return this.sortNewestFirst(runs);
+  }
+
+  /**
+   * Query runs by any combination of filters, newest first.
+   * The most selective indexed filter is used to load candidates; the rest are applied in memory.
+   */
+  async queryRuns(query: ComplianceRunQuery = {}): Promise<ComplianceRun[]> {
+    let runs: ComplianceRun[];
+
+    if (query.trackingNumber) {
+      runs = await this.getRunsByTrackingNumber(query.trackingNumber);
+    } else if (query.destinationCountry) {
+      runs = await this.getRunsByDestinationCountry(query.destinationCountry);
+    } else if (query.from || query.to) {
+      runs = await this.getRunsByDateRange(query.from, query.to);
+    } else if (query.status) {
+      runs = await this.getRunsByStatus(query.status);
+    } else if (query.userId) {
+      runs = await this.getRunsByUser(query.userId);
+    } else {
+      runs = await this.getAllRuns();
+    }
+
+    const from = query.from ? toIsoString(query.from) : undefined;
+    const to = query.to ? toIsoString(query.to) : undefined;
+    const filtered = runs.filter(run =>
+      (!query.status || run.status === query.status) &&
+      (!query.destinationCountry || run.destinationCountry === countryService.normalizeCode(query.destinationCountry)) &&
+      (!query.trackingNumber || run.trackingNumber === query.trackingNumber.trim()) &&
+      (!query.userId || run.userId === query.userId) &&
+      (!from || run.timestamp >= from) &&
+      (!to || run.timestamp <= to)
+    );
+
+    return query.limit ? filtered.slice(0, query.limit) : filtered;
+  }
+
+  /**
+   * Delete a run
+   */
+  async deleteRun(id: string): Promise<void> {
+    const db = await dbService.getDb();
+    await db.delete('complianceRuns', id);
+  }
+
+  /**
+   * Delete all runs
+   */
+  async clearRuns(): Promise<void> {
+    const db = await dbService.getDb();
+    await db.clear('complianceRuns');
+  }
+
+  private getTimestampRange(from?: string | Date, to?: string | Date): IDBKeyRange | undefined {
+    if (from && to) return IDBKeyRange.bound(toIsoString(from), toIsoString(to));
+    if (from) return IDBKeyRange.lowerBound(toIsoString(from));
+    if (to) return IDBKeyRange.upperBound(toIsoString(to));
+    return undefined;
+  }
+
+  private sortNewestFirst(runs: ComplianceRun[]): ComplianceRun[] {
+    return runs.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+}
+
+// Create and export a singleton instance
+export const complianceRunRepository = new ComplianceRunRepository();
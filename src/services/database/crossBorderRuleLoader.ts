@@ -6,8 +6,30 @@ import {
   RestrictedDestination,
   EnhancedDocumentation
 } from './models';
+import { countryService } from '../countryService';
 import { v4 as uuidv4 } from 'uuid';
 
+// Place names of the occupied regions of Ukraine, in Latin and Cyrillic script.
+// "Donetsk" is left out: it is also the name of the oblast and of a Russian town.
+const CRIMEA_KEYWORDS = [
+  'crimea', 'krym', 'sevastopol', 'simferopol', 'kerch', 'yalta', 'feodosia', 'feodosiya', 'yevpatoria',
+  'evpatoria', 'dzhankoi', 'alushta', 'крым', 'севастополь', 'симферополь', 'керчь', 'ялта', 'феодосия', 'евпатория'
+];
+const DONETSK_KEYWORDS = [
+  'dnr', 'makiivka', 'makeevka', 'horlivka', 'gorlovka', 'yenakiieve', 'enakievo', 'khartsyzk', 'mariupol',
+  'днр', 'макеевка', 'горловка', 'енакиево', 'харцызск', 'мариуполь'
+];
+const LUHANSK_KEYWORDS = [
+  'lnr', 'luhansk', 'lugansk', 'alchevsk', 'antratsyt', 'rovenky', 'kadiivka', 'stakhanov', 'sievierodonetsk',
+  'severodonetsk', 'lysychansk', 'лнр', 'луганск', 'алчевск', 'антрацит', 'ровеньки', 'северодонецк', 'лисичанск'
+];
+
+// HS code prefixes and goods keywords covered by the Russia and Belarus export bans
+const SANCTIONED_GOODS_RU_BY = [
+  '84', '85', '88', '90', '93', '7113', '7114', '7116', 'semiconductor', 'microchip', 'drone', 'aircraft',
+  'laptop', 'smartphone', 'luxury', 'jewelry', 'jewellery', 'firearm'
+];
+
 /**
  * Responsible for loading default cross-border compliance rules into the database
  */
@@ -26,9 +48,11 @@ class CrossBorderRuleLoader {
 
     try {
       // Check if we already have cross-border rules
-      const existingRequirements = await crossBorderRuleRepository.getAllCountryRequirements();
+      const existingRequirements = await crossBorderRuleRepository.getAllCountryRequirements(true);
       if (existingRequirements.length > 0) {
         console.log('Cross-border rules already exist in the database, skipping initialization');
+        await this.upgradeRestrictedDestinations();
+        await this.upgradeCountryRequirements(existingRequirements);
         this.initialized = true;
         return;
       }
@@ -52,6 +76,68 @@ class CrossBorderRuleLoader {
     }
   }
 
+  /**
+   * Give restricted destinations saved before region and goods scopes
+   * existed the scopes of the current defaults, and add the default
+   * destinations they lack
+   */
+  private async upgradeRestrictedDestinations(): Promise<void> {
+    const stored = await crossBorderRuleRepository.getRestrictedDestinations();
+    const unscoped = stored.filter(destination => destination.regions === undefined);
+    if (unscoped.length === 0) {
+      return;
+    }
+
+    for (const destination of this.getDefaultRestrictedDestinations()) {
+      const index = unscoped.findIndex(existing => existing.countryCode === destination.countryCode);
+      if (index === -1) {
+        await crossBorderRuleRepository.addRestrictedDestination(destination);
+        continue;
+      }
+
+      const [existing] = unscoped.splice(index, 1);
+      await crossBorderRuleRepository.updateRestrictedDestination(existing.id, {
+        countryName: destination.countryName,
+        restrictionType: destination.restrictionType,
+        details: destination.details,
+        regions: destination.regions || [],
+        goodsCategories: destination.goodsCategories || [],
+        licenseExceptionAvailable: destination.licenseExceptionAvailable ?? false
+      });
+    }
+
+    // Destinations added by users keep covering the whole country
+    for (const existing of unscoped) {
+      await crossBorderRuleRepository.updateRestrictedDestination(existing.id, {
+        regions: [],
+        goodsCategories: [],
+        licenseExceptionAvailable: false
+      });
+    }
+  }
+
+  /**
+   * Move country requirements saved under a code that is not ISO 3166-1
+   * alpha-2, e.g. "UK", to the country's alpha-2 code, and add the default
+   * trade bloc requirements missing from the database. Codes of no country,
+   * such as the bloc id "EU", are kept.
+   */
+  private async upgradeCountryRequirements(requirements: CountryRequirement[]): Promise<void> {
+    for (const requirement of requirements) {
+      const countryCode = countryService.normalizeCode(requirement.countryCode);
+      if (countryCode !== requirement.countryCode) {
+        await crossBorderRuleRepository.updateCountryRequirement(requirement.id, { countryCode });
+      }
+    }
+
+    for (const requirement of this.getDefaultCountryRequirements()) {
+      const isBloc = countryService.getTradeBloc(requirement.countryCode || '') !== undefined;
+      if (isBloc && !requirements.some(existing => existing.countryCode === requirement.countryCode)) {
+        await crossBorderRuleRepository.addCountryRequirement(requirement);
+      }
+    }
+  }
+
   /**
    * Get default required fields for different shipping contexts
    */
@@ -149,7 +235,7 @@ class CrossBorderRuleLoader {
       },
       {
         id: uuidv4(),
-        countryCode: 'UK',
+        countryCode: 'GB',
         countryName: 'United Kingdom',
         requiredFields: ['eoriNumber', 'hsTariffNumber', 'originCountry', 'declaredValue'],
         description: 'UK Customs requirements for international shipments',
@@ -169,6 +255,39 @@ class CrossBorderRuleLoader {
         createdAt: now,
         updatedAt: now
       },
+      {
+        id: uuidv4(),
+        countryCode: 'EAEU',
+        countryName: 'Eurasian Economic Union',
+        requiredFields: ['hsTariffNumber', 'originCountry', 'declaredValue'],
+        description: 'EAEU Customs Code requirements for imports into Armenia, Belarus, Kazakhstan, Kyrgyzstan and Russia',
+        documentationNotes: 'Ten-digit EAEU TN VED codes; the recipient\'s tax ID is required for goods over the duty-free allowance',
+        isActive: true,
+        createdAt: now,
+        updatedAt: now
+      },
+      {
+        id: uuidv4(),
+        countryCode: 'USMCA',
+        countryName: 'United States-Mexico-Canada Agreement',
+        requiredFields: ['hsTariffNumber', 'originCountry', 'declaredValue'],
+        description: 'Customs requirements shared by the USMCA countries',
+        documentationNotes: 'A certification of origin is needed to claim the USMCA preferential rate',
+        isActive: true,
+        createdAt: now,
+        updatedAt: now
+      },
+      {
+        id: uuidv4(),
+        countryCode: 'GCC',
+        countryName: 'Gulf Cooperation Council',
+        requiredFields: ['hsTariffNumber', 'originCountry', 'declaredValue'],
+        description: 'GCC Common Customs Law requirements for imports into the Gulf states',
+        documentationNotes: 'Certificates of origin are legalized; duty paid at the first point of entry covers onward movement in the GCC',
+        isActive: true,
+        createdAt: now,
+        updatedAt: now
+      },
       {
         id: uuidv4(),
         countryCode: 'CN',
@@ -355,7 +474,38 @@ class CrossBorderRuleLoader {
         countryCode: 'RU',
         countryName: 'Russia',
         restrictionType: 'sanctions',
-        details: 'Subject to various sanctions',
+        details: 'Exports of dual-use and advanced technology, industrial machinery, electronics, aviation and luxury goods are banned (EU Regulation 833/2014, US EAR Part 746)',
+        goodsCategories: SANCTIONED_GOODS_RU_BY,
+        isActive: true,
+        createdAt: now,
+        updatedAt: now
+      },
+      {
+        id: uuidv4(),
+        countryCode: 'RU',
+        countryName: 'Russia (occupied regions of Ukraine)',
+        restrictionType: 'embargoed',
+        details: 'Comprehensive embargo on Crimea and the so-called DNR and LNR, also when addressed as Russia (US Executive Orders 13685 and 14065, EU Regulations 692/2014 and 2022/263)',
+        regions: [
+          { name: 'Crimea', postalCodePattern: '^29[5-9]\\d{3}$', addressKeywords: CRIMEA_KEYWORDS, partial: false },
+          { name: 'Donetsk', postalCodePattern: '^28[3-7]\\d{3}$', addressKeywords: DONETSK_KEYWORDS, partial: false },
+          { name: 'Luhansk', postalCodePattern: '^29[1-4]\\d{3}$', addressKeywords: LUHANSK_KEYWORDS, partial: false }
+        ],
+        isActive: true,
+        createdAt: now,
+        updatedAt: now
+      },
+      {
+        id: uuidv4(),
+        countryCode: 'UA',
+        countryName: 'Ukraine (Crimea, Donetsk and Luhansk)',
+        restrictionType: 'embargoed',
+        details: 'Comprehensive embargo on Crimea and the non-government-controlled areas of the Donetsk and Luhansk oblasts (US Executive Orders 13685 and 14065, EU Regulations 692/2014 and 2022/263)',
+        regions: [
+          { name: 'Crimea', postalCodePattern: '^9[5-9]\\d{3}$', addressKeywords: CRIMEA_KEYWORDS, partial: false },
+          { name: 'Donetsk', postalCodePattern: '^8[3-7]\\d{3}$', addressKeywords: DONETSK_KEYWORDS, partial: true },
+          { name: 'Luhansk', postalCodePattern: '^9[1-4]\\d{3}$', addressKeywords: LUHANSK_KEYWORDS, partial: false }
+        ],
         isActive: true,
         createdAt: now,
         updatedAt: now
@@ -365,7 +515,8 @@ class CrossBorderRuleLoader {
         countryCode: 'BY',
         countryName: 'Belarus',
         restrictionType: 'sanctions',
-        details: 'Subject to various sanctions',
+        details: 'Exports of dual-use and advanced technology, industrial machinery, electronics, aviation and luxury goods are banned (EU Regulation 765/2006, US EAR Part 746)',
+        goodsCategories: SANCTIONED_GOODS_RU_BY,
         isActive: true,
         createdAt: now,
         updatedAt: now
@@ -47,11 +47,12 @@ export class CrossBorderRuleRepository {
 
   /**
    * Get all active country requirements
+   * @param includeInactive - Also return deactivated requirements
    */
-  async getAllCountryRequirements(): Promise<CountryRequirement[]> {
+  async getAllCountryRequirements(includeInactive = false): Promise<CountryRequirement[]> {
     const db = await dbService.getDb();
     const allRequirements = await db.getAll('countryRequirements');
-    return allRequirements.filter(req => req.isActive);
+    return includeInactive ? allRequirements : allRequirements.filter(req => req.isActive);
   }
 
   /**
@@ -83,7 +84,9 @@ export class CrossBorderRuleRepository {
    */
   async getRestrictedDestinations(): Promise<RestrictedDestination[]> {
     const db = await dbService.getDb();
-    return db.getAllFromIndex('restrictedDestinations', 'by-active', 1);
+    // isActive is stored as a boolean, which IndexedDB does not index
+    const destinations = await db.getAll('restrictedDestinations');
+    return destinations.filter(dest => dest.isActive);
   }
 
   /**
@@ -101,7 +104,9 @@ export class CrossBorderRuleRepository {
    */
   async getEnhancedDocumentationCountries(): Promise<EnhancedDocumentation[]> {
     const db = await dbService.getDb();
-    return db.getAllFromIndex('enhancedDocumentation', 'by-active', 1);
+    // isActive is stored as a boolean, which IndexedDB does not index
+    const documentation = await db.getAll('enhancedDocumentation');
+    return documentation.filter(doc => doc.isActive);
   }
 
   /**
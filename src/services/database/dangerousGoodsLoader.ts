@@ -0,0 +1,38 @@
+import { dangerousGoodsRepository } from './dangerousGoodsRepository';
+import { DangerousGoodsEntry } from './models';
+import dangerousGoodsData from './data/dangerousGoods.json';
+
+/**
+ * Responsible for loading the bundled dangerous goods list into the database
+ */
+class DangerousGoodsLoader {
+  private initialized = false;
+
+  /**
+   * Load the bundled list if the store is empty.
+   * The list covers the UN numbers of dangerous goods commonly offered by
+   * shippers: flammable liquids, gases, corrosives, lithium batteries and
+   * chemical kits.
+   */
+  async initializeDangerousGoods(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    try {
+      const count = await dangerousGoodsRepository.countEntries();
+      if (count === 0) {
+        await dangerousGoodsRepository.importEntries(dangerousGoodsData as Partial<DangerousGoodsEntry>[]);
+        console.log('Dangerous goods list initialized successfully');
+      }
+    } catch (error) {
+      console.error('Error initializing dangerous goods list:', error);
+      // Don't re-throw, dangerous goods checks are skipped without the list
+    }
+
+    this.initialized = true;
+  }
+}
+
+// Create and export a singleton instance
+export const dangerousGoodsLoader = new DangerousGoodsLoader();
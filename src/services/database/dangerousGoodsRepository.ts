@@ -0,0 +1,48 @@
+import { dbService } from './dbService';
+import { DangerousGoodsEntry, createDangerousGoodsEntry } from './models';
+
+/**
+ * Repository for the dangerous goods list
+ */
+export class DangerousGoodsRepository {
+  /**
+   * Get the entry of a UN number
+   * @param unNumber - The UN number, e.g. "UN1263"
+   */
+  async getEntry(unNumber: string): Promise<DangerousGoodsEntry | undefined> {
+    const db = await dbService.getDb();
+    return db.get('dangerousGoods', unNumber);
+  }
+
+  /**
+   * Get all entries of the list
+   */
+  async getAllEntries(): Promise<DangerousGoodsEntry[]> {
+    const db = await dbService.getDb();
+    return db.getAll('dangerousGoods');
+  }
+
+  /**
+   * Count the entries of the list
+   */
+  async countEntries(): Promise<number> {
+    const db = await dbService.getDb();
+    return db.count('dangerousGoods');
+  }
+
+  /**
+   * Bulk import entries (for initialization)
+   */
+  async importEntries(entries: Partial<DangerousGoodsEntry>[]): Promise<void> {
+    const db = await dbService.getDb();
+    const tx = db.transaction('dangerousGoods', 'readwrite');
+
+    await Promise.all([
+      ...entries.map(entry => tx.store.put(createDangerousGoodsEntry(entry))),
+      tx.done
+    ]);
+  }
+}
+
+// Create and export a singleton instance
+export const dangerousGoodsRepository = new DangerousGoodsRepository();
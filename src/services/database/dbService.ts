@@ -11,7 +11,19 @@ import {
   CountryRequirement,
   RestrictedItem,
   RestrictedDestination,
-  EnhancedDocumentation
+  EnhancedDocumentation,
+  ComplianceRun,
+  BatchJob,
+  BatchJobRow,
+  LandedCostRate,
+  HsNomenclatureEntry,
+  DeniedParty,
+  ExportControlEntry,
+  ExportControlCountry,
+  DangerousGoodsEntry,
+  ShipmentDocument,
+  DeMinimisThreshold,
+  FxRate
 } from './models';
 
 /**
@@ -138,11 +150,126 @@ interface ComplianceDB extends DBSchema {
       'by-active': number; // Index on isActive field (0 or 1)
     };
   };
+  
+  // Persisted compliance check runs
+  'complianceRuns': {
+    key: string; // Primary key is the run ID
+    value: ComplianceRun; // Value is the entire run including results
+    // Define indexes and their key types
+    indexes: {
+      'by-status': string; // Index on status field
+      'by-destination-country': string; // Index on destinationCountry field
+      'by-tracking-number': string; // Index on trackingNumber field
+      'by-timestamp': string; // Index on timestamp field
+      'by-user': string; // Index on userId field
+    };
+  };
+  
+  // CSV batch jobs
+  'batchJobs': {
+    key: string; // Primary key is the job ID
+    value: BatchJob; // Value is the job without its rows
+    // Define indexes and their key types
+    indexes: {
+      'by-status': string; // Index on status field
+      'by-user': string; // Index on userId field
+      'by-created': string; // Index on createdAt field
+    };
+  };
+  
+  // Rows of CSV batch jobs
+  'batchJobRows': {
+    key: string; // Primary key is `${jobId}:${index}`
+    value: BatchJobRow; // Value is the row with its parsed record and outcome
+    // Define indexes and their key types
+    indexes: {
+      'by-job': string; // Index on jobId field
+    };
+  };
+  
+  // Duty, tax and fee rates by destination country
+  'landedCostRates': {
+    key: string; // Primary key is the rate ID
+    value: LandedCostRate; // Value is the entire rate table of a country
+    // Define indexes and their key types
+    indexes: {
+      'by-country': string; // Index on countryCode field
+    };
+  };
+  
+  // HS tariff nomenclature
+  'hsNomenclature': {
+    key: string; // Primary key is the HS code
+    value: HsNomenclatureEntry; // Value is the chapter, heading or subheading
+    // Define indexes and their key types
+    indexes: {
+      'by-parent': string; // Index on parentCode field
+      'by-level': string; // Index on level field
+    };
+  };
+  
+  // Entries of denied party lists
+  'deniedParties': {
+    key: string; // Primary key is `${list}:${sourceId}`
+    value: DeniedParty; // Value is the listed person, company, vessel or aircraft
+    // Define indexes and their key types
+    indexes: {
+      'by-list': string; // Index on list field
+    };
+  };
+  
+  // ECCNs and EU dual-use codes of the export control list
+  'exportControlList': {
+    key: string; // Primary key is `${regime}:${code}`
+    value: ExportControlEntry; // Value is the entry with its reasons for control
+    // Define indexes and their key types
+    indexes: {
+      'by-code': string; // Index on code field
+    };
+  };
+  
+  // Export control country chart
+  'exportControlCountries': {
+    key: string; // Primary key is the country code
+    value: ExportControlCountry; // Value is the controlled reasons and country groups
+  };
+  
+  // Dangerous goods list
+  'dangerousGoods': {
+    key: string; // Primary key is the UN number
+    value: DangerousGoodsEntry; // Value is the proper shipping name, class and carriage conditions
+  };
+  
+  // Documents uploaded for shipments
+  'shipmentDocuments': {
+    key: string; // Primary key is the document ID
+    value: ShipmentDocument; // Value is the document type, file name and fields read from it
+    // Define indexes and their key types
+    indexes: {
+      'by-shipment': string; // Index on shipmentKey field
+    };
+  };
+  
+  // Duty and tax de minimis thresholds
+  'deMinimisThresholds': {
+    key: string; // Primary key is the threshold ID
+    value: DeMinimisThreshold; // Value is the thresholds and low value scheme of a destination
+    // Define indexes and their key types
+    indexes: {
+      'by-country': string; // Index on countryCode field
+    };
+  };
+  
+  // Exchange rates for offline currency conversion
+  'fxRates': {
+    key: string; // Primary key is the ISO 4217 currency code
+    value: FxRate; // Value is the rate against the US dollar
+  };
 }
 
 // Database name and version
 const DB_NAME = 'compliance-rules-db';
-const DB_VERSION = 3;
+const DB_VERSION = 13;
 
 /**
  * Database service for compliance rules
@@ -175,10 +302,8 @@ class ComplianceDBService {
     }
 
     try {
-      const dbName = 'compliance-rules-db';
-      const version = 3; // Increment version to trigger database upgrade
-
-      const db = await openDB<ComplianceDB>(dbName, version, {
+      // Increment DB_VERSION to trigger database upgrade
+      const db = await openDB<ComplianceDB>(DB_NAME, DB_VERSION, {
         upgrade(db, oldVersion, newVersion, transaction) {
           // Create stores if they don't exist already
           
@@ -244,6 +369,76 @@ class ComplianceDBService {
             enhancedDocumentationStore.createIndex('by-country', 'countryCode');
             enhancedDocumentationStore.createIndex('by-active', 'isActive');
           }
+          
+          // Compliance run history (if upgrading from version 3 or earlier)
+          if (oldVersion < 4) {
+            const complianceRunsStore = db.createObjectStore('complianceRuns', { keyPath: 'id' });
+            complianceRunsStore.createIndex('by-status', 'status');
+            complianceRunsStore.createIndex('by-destination-country', 'destinationCountry');
+            complianceRunsStore.createIndex('by-tracking-number', 'trackingNumber');
+            complianceRunsStore.createIndex('by-timestamp', 'timestamp');
+            complianceRunsStore.createIndex('by-user', 'userId');
+          }
+          
+          // CSV batch jobs (if upgrading from version 4 or earlier)
+          if (oldVersion < 5) {
+            const batchJobsStore = db.createObjectStore('batchJobs', { keyPath: 'id' });
+            batchJobsStore.createIndex('by-status', 'status');
+            batchJobsStore.createIndex('by-user', 'userId');
+            batchJobsStore.createIndex('by-created', 'createdAt');
+            
+            const batchJobRowsStore = db.createObjectStore('batchJobRows', { keyPath: 'id' });
+            batchJobRowsStore.createIndex('by-job', 'jobId');
+          }
+          
+          // Landed cost rate tables (if upgrading from version 5 or earlier)
+          if (oldVersion < 6) {
+            const landedCostRatesStore = db.createObjectStore('landedCostRates', { keyPath: 'id' });
+            landedCostRatesStore.createIndex('by-country', 'countryCode');
+          }
+          
+          // HS tariff nomenclature (if upgrading from version 6 or earlier)
+          if (oldVersion < 7) {
+            const hsNomenclatureStore = db.createObjectStore('hsNomenclature', { keyPath: 'code' });
+            hsNomenclatureStore.createIndex('by-parent', 'parentCode');
+            hsNomenclatureStore.createIndex('by-level', 'level');
+          }
+          
+          // Denied party lists (if upgrading from version 7 or earlier)
+          if (oldVersion < 8) {
+            const deniedPartiesStore = db.createObjectStore('deniedParties', { keyPath: 'id' });
+            deniedPartiesStore.createIndex('by-list', 'list');
+          }
+          
+          // Export control list and country chart (if upgrading from version 8 or earlier)
+          if (oldVersion < 9) {
+            const exportControlListStore = db.createObjectStore('exportControlList', { keyPath: 'id' });
+            exportControlListStore.createIndex('by-code', 'code');
+            
+            db.createObjectStore('exportControlCountries', { keyPath: 'countryCode' });
+          }
+          
+          // Dangerous goods list (if upgrading from version 9 or earlier)
+          if (oldVersion < 10) {
+            db.createObjectStore('dangerousGoods', { keyPath: 'unNumber' });
+          }
+          
+          // Shipment documents (if upgrading from version 10 or earlier)
+          if (oldVersion < 11) {
+            const shipmentDocumentsStore = db.createObjectStore('shipmentDocuments', { keyPath: 'id' });
+            shipmentDocumentsStore.createIndex('by-shipment', 'shipmentKey');
+          }
+          
+          // De minimis thresholds (if upgrading from version 11 or earlier)
+          if (oldVersion < 12) {
+            const deMinimisStore = db.createObjectStore('deMinimisThresholds', { keyPath: 'id' });
+            deMinimisStore.createIndex('by-country', 'countryCode');
+          }
+          
+          // Exchange rates (if upgrading from version 12 or earlier)
+          if (oldVersion < 13) {
+            db.createObjectStore('fxRates', { keyPath: 'currency' });
+          }
         }
       });
 
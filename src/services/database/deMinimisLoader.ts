@@ -0,0 +1,37 @@
+import { deMinimisRepository } from './deMinimisRepository';
+import { DeMinimisThreshold } from './models';
+import deMinimisData from './data/deMinimis.json';
+
+/**
+ * Responsible for loading the bundled de minimis table into the database
+ */
+class DeMinimisLoader {
+  private initialized = false;
+
+  /**
+   * Load the bundled table if the store is empty. It covers the EU member
+   * states, the United Kingdom, the United States, Canada, Australia, New
+   * Zealand and Japan.
+   */
+  async initializeThresholds(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    try {
+      const count = await deMinimisRepository.countThresholds();
+      if (count === 0) {
+        await deMinimisRepository.importThresholds(deMinimisData as Partial<DeMinimisThreshold>[]);
+        console.log('De minimis thresholds initialized successfully');
+      }
+    } catch (error) {
+      console.error('Error initializing de minimis thresholds:', error);
+      // Don't re-throw, de minimis checks are skipped without the table
+    }
+
+    this.initialized = true;
+  }
+}
+
+// Create and export a singleton instance
+export const deMinimisLoader = new DeMinimisLoader();
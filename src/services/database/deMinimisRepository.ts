@@ -0,0 +1,40 @@
+import { dbService } from './dbService';
+import { DeMinimisThreshold, createDeMinimisThreshold } from './models';
+
+/**
+ * Repository for the duty and tax de minimis thresholds of destinations
+ */
+export class DeMinimisRepository {
+  /**
+   * Get the thresholds of a destination, one per group of origin countries
+   * @param countryCode - ISO alpha-2 code of the destination
+   */
+  async getThresholds(countryCode: string): Promise<DeMinimisThreshold[]> {
+    const db = await dbService.getDb();
+    return db.getAllFromIndex('deMinimisThresholds', 'by-country', countryCode);
+  }
+
+  /**
+   * Count the thresholds in the table
+   */
+  async countThresholds(): Promise<number> {
+    const db = await dbService.getDb();
+    return db.count('deMinimisThresholds');
+  }
+
+  /**
+   * Bulk import thresholds (for initialization)
+   */
+  async importThresholds(thresholds: Partial<DeMinimisThreshold>[]): Promise<void> {
+    const db = await dbService.getDb();
+    const tx = db.transaction('deMinimisThresholds', 'readwrite');
+
+    await Promise.all([
+      ...thresholds.map(threshold => tx.store.put(createDeMinimisThreshold(threshold))),
+      tx.done
+    ]);
+  }
+}
+
+// Create and export a singleton instance
+export const deMinimisRepository = new DeMinimisRepository();
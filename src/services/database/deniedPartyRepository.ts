@@ -0,0 +1,70 @@
+import { dbService } from './dbService';
+import { DeniedParty, DeniedPartyListId, createDeniedParty } from './models';
+
+/**
+ * Repository for the entries of denied party lists
+ */
+export class DeniedPartyRepository {
+  /**
+   * Get all entries of all lists
+   */
+  async getAllParties(): Promise<DeniedParty[]> {
+    const db = await dbService.getDb();
+    return db.getAll('deniedParties');
+  }
+
+  /**
+   * Get the entries of one list
+   */
+  async getPartiesByList(list: DeniedPartyListId): Promise<DeniedParty[]> {
+    const db = await dbService.getDb();
+    return db.getAllFromIndex('deniedParties', 'by-list', list);
+  }
+
+  /**
+   * Count the entries of one list
+   */
+  async countByList(list: DeniedPartyListId): Promise<number> {
+    const db = await dbService.getDb();
+    return db.countFromIndex('deniedParties', 'by-list', list);
+  }
+
+  /**
+   * Get any entry of a list, e.g. to read when the list was imported
+   */
+  async getFirstOfList(list: DeniedPartyListId): Promise<DeniedParty | undefined> {
+    const db = await dbService.getDb();
+    return db.getFromIndex('deniedParties', 'by-list', list);
+  }
+
+  /**
+   * Replace all entries of a list with a newly published version
+   */
+  async replaceList(list: DeniedPartyListId, parties: Partial<DeniedParty>[]): Promise<void> {
+    const db = await dbService.getDb();
+    const tx = db.transaction('deniedParties', 'readwrite');
+
+    const existingKeys = await tx.store.index('by-list').getAllKeys(list);
+    await Promise.all([
+      ...existingKeys.map(key => tx.store.delete(key)),
+      ...parties.map(party => tx.store.put(createDeniedParty({ ...party, list }))),
+      tx.done
+    ]);
+  }
+
+  /**
+   * Save entries, replacing stored entries with the same ID
+   */
+  async saveParties(parties: DeniedParty[]): Promise<void> {
+    const db = await dbService.getDb();
+    const tx = db.transaction('deniedParties', 'readwrite');
+
+    await Promise.all([
+      ...parties.map(party => tx.store.put(party)),
+      tx.done
+    ]);
+  }
+}
+
+// Create and export a singleton instance
+export const deniedPartyRepository = new DeniedPartyRepository();
@@ -0,0 +1,41 @@
+import { exportControlRepository } from './exportControlRepository';
+import { ExportControlCountry, ExportControlEntry } from './models';
+import exportControlListData from './data/exportControlList.json';
+import exportControlCountriesData from './data/exportControlCountries.json';
+
+/**
+ * Responsible for loading the bundled export control list and country chart
+ * into the database
+ */
+class ExportControlLoader {
+  private initialized = false;
+
+  /**
+   * Load the bundled control list and country chart if the store is empty.
+   * The list covers the ECCNs and EU dual-use codes of goods commonly seen in
+   * cross-border parcels; the chart marks the reasons for control of the
+   * Commerce Country Chart for the usual destinations.
+   */
+  async initializeControlList(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    try {
+      const count = await exportControlRepository.countEntries();
+      if (count === 0) {
+        await exportControlRepository.importEntries(exportControlListData as Partial<ExportControlEntry>[]);
+        await exportControlRepository.importCountries(exportControlCountriesData as Partial<ExportControlCountry>[]);
+        console.log('Export control list initialized successfully');
+      }
+    } catch (error) {
+      console.error('Error initializing export control list:', error);
+      // Don't re-throw, export control checks are skipped without the list
+    }
+
+    this.initialized = true;
+  }
+}
+
+// Create and export a singleton instance
+export const exportControlLoader = new ExportControlLoader();
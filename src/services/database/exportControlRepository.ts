@@ -0,0 +1,76 @@
+import { dbService } from './dbService';
+import {
+  ExportControlCountry,
+  ExportControlEntry,
+  ExportControlRegime,
+  createExportControlCountry,
+  createExportControlEntry
+} from './models';
+
+/**
+ * Repository for the export control list and country chart
+ */
+export class ExportControlRepository {
+  /**
+   * Get the entry of a code under one regime
+   * @param code - The base code, e.g. "5A002"
+   */
+  async getEntry(regime: ExportControlRegime, code: string): Promise<ExportControlEntry | undefined> {
+    const db = await dbService.getDb();
+    return db.get('exportControlList', `${regime}:${code.toUpperCase()}`);
+  }
+
+  /**
+   * Get all entries of the control list
+   */
+  async getAllEntries(): Promise<ExportControlEntry[]> {
+    const db = await dbService.getDb();
+    return db.getAll('exportControlList');
+  }
+
+  /**
+   * Count the entries of the control list
+   */
+  async countEntries(): Promise<number> {
+    const db = await dbService.getDb();
+    return db.count('exportControlList');
+  }
+
+  /**
+   * Get the country chart entry of a destination
+   * @param countryCode - The ISO country code
+   */
+  async getCountry(countryCode: string): Promise<ExportControlCountry | undefined> {
+    const db = await dbService.getDb();
+    return db.get('exportControlCountries', countryCode.toUpperCase());
+  }
+
+  /**
+   * Bulk import control list entries (for initialization)
+   */
+  async importEntries(entries: Partial<ExportControlEntry>[]): Promise<void> {
+    const db = await dbService.getDb();
+    const tx = db.transaction('exportControlList', 'readwrite');
+
+    await Promise.all([
+      ...entries.map(entry => tx.store.put(createExportControlEntry(entry))),
+      tx.done
+    ]);
+  }
+
+  /**
+   * Bulk import country chart entries (for initialization)
+   */
+  async importCountries(countries: Partial<ExportControlCountry>[]): Promise<void> {
+    const db = await dbService.getDb();
+    const tx = db.transaction('exportControlCountries', 'readwrite');
+
+    await Promise.all([
+      ...countries.map(country => tx.store.put(createExportControlCountry(country))),
+      tx.done
+    ]);
+  }
+}
+
+// Create and export a singleton instance
+export const exportControlRepository = new ExportControlRepository();
@@ -0,0 +1,36 @@
+import { fxRateRepository } from './fxRateRepository';
+import { FxRate } from './models';
+import fxRatesData from './data/fxRates.json';
+
+/**
+ * Responsible for loading the bundled exchange rates into the database
+ */
+class FxRateLoader {
+  private initialized = false;
+
+  /**
+   * Load the bundled indicative rates if the store is empty. Imported rates
+   * replace them currency by currency.
+   */
+  async initializeRates(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    try {
+      const count = await fxRateRepository.countRates();
+      if (count === 0) {
+        await fxRateRepository.importRates(fxRatesData as Partial<FxRate>[]);
+        console.log('Exchange rates initialized successfully');
+      }
+    } catch (error) {
+      console.error('Error initializing exchange rates:', error);
+      // Don't re-throw, the bundled rates are used from memory
+    }
+
+    this.initialized = true;
+  }
+}
+
+// Create and export a singleton instance
+export const fxRateLoader = new FxRateLoader();
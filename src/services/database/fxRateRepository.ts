@@ -0,0 +1,39 @@
+import { dbService } from './dbService';
+import { FxRate, createFxRate } from './models';
+
+/**
+ * Repository for the exchange rates used for offline currency conversion
+ */
+export class FxRateRepository {
+  /**
+   * Get the rates of all currencies
+   */
+  async getAllRates(): Promise<FxRate[]> {
+    const db = await dbService.getDb();
+    return db.getAll('fxRates');
+  }
+
+  /**
+   * Count the rates in the table
+   */
+  async countRates(): Promise<number> {
+    const db = await dbService.getDb();
+    return db.count('fxRates');
+  }
+
+  /**
+   * Save rates, replacing the stored rates of the same currencies
+   */
+  async importRates(rates: Partial<FxRate>[]): Promise<void> {
+    const db = await dbService.getDb();
+    const tx = db.transaction('fxRates', 'readwrite');
+
+    await Promise.all([
+      ...rates.map(rate => tx.store.put(createFxRate(rate))),
+      tx.done
+    ]);
+  }
+}
+
+// Create and export a singleton instance
+export const fxRateRepository = new FxRateRepository();
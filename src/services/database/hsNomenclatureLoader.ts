@@ -0,0 +1,38 @@
+import { hsNomenclatureRepository } from './hsNomenclatureRepository';
+import { HsNomenclatureEntry } from './models';
+import hsNomenclatureData from './data/hsNomenclature.json';
+
+/**
+ * Responsible for loading the bundled HS nomenclature into the database
+ */
+class HsNomenclatureLoader {
+  private initialized = false;
+
+  /**
+   * Load the bundled nomenclature if the store is empty.
+   * All chapters are included; headings and subheadings cover the goods
+   * commonly seen in cross-border parcels, and entries flagged `complete`
+   * list every child code.
+   */
+  async initializeNomenclature(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    try {
+      const count = await hsNomenclatureRepository.countEntries();
+      if (count === 0) {
+        await hsNomenclatureRepository.importEntries(hsNomenclatureData as Partial<HsNomenclatureEntry>[]);
+        console.log('HS nomenclature initialized successfully');
+      }
+    } catch (error) {
+      console.error('Error initializing HS nomenclature:', error);
+      // Don't re-throw, HS code lookups are skipped without the nomenclature
+    }
+
+    this.initialized = true;
+  }
+}
+
+// Create and export a singleton instance
+export const hsNomenclatureLoader = new HsNomenclatureLoader();
@@ -0,0 +1,56 @@
+import { dbService } from './dbService';
+import { HsNomenclatureEntry, createHsNomenclatureEntry } from './models';
+
+/**
+ * Repository for the HS tariff nomenclature
+ */
+export class HsNomenclatureRepository {
+  /**
+   * Get a chapter, heading or subheading by its code
+   * @param code - The HS code, digits only
+   */
+  async getEntry(code: string): Promise<HsNomenclatureEntry | undefined> {
+    const db = await dbService.getDb();
+    return db.get('hsNomenclature', code);
+  }
+
+  /**
+   * Get the headings of a chapter or the subheadings of a heading
+   */
+  async getChildren(parentCode: string): Promise<HsNomenclatureEntry[]> {
+    const db = await dbService.getDb();
+    return db.getAllFromIndex('hsNomenclature', 'by-parent', parentCode);
+  }
+
+  /**
+   * Get all entries of the nomenclature
+   */
+  async getAllEntries(): Promise<HsNomenclatureEntry[]> {
+    const db = await dbService.getDb();
+    return db.getAll('hsNomenclature');
+  }
+
+  /**
+   * Count the entries of the nomenclature
+   */
+  async countEntries(): Promise<number> {
+    const db = await dbService.getDb();
+    return db.count('hsNomenclature');
+  }
+
+  /**
+   * Bulk import entries (for initialization and updates of the nomenclature)
+   */
+  async importEntries(entries: Partial<HsNomenclatureEntry>[]): Promise<void> {
+    const db = await dbService.getDb();
+    const tx = db.transaction('hsNomenclature', 'readwrite');
+
+    await Promise.all([
+      ...entries.map(entry => tx.store.put(createHsNomenclatureEntry(entry))),
+      tx.done
+    ]);
+  }
+}
+
+// Create and export a singleton instance
+export const hsNomenclatureRepository = new HsNomenclatureRepository();
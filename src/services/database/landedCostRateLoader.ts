@@ -0,0 +1,133 @@
+import { landedCostRateRepository } from './landedCostRateRepository';
+import { LandedCostRate } from './models';
+
+/**
+ * Responsible for loading default landed cost rate tables into the database
+ */
+class LandedCostRateLoader {
+  private initialized = false;
+
+  /**
+   * Load the default rate tables if none exist yet.
+   * Unlike the rule tables this runs on its own, so databases created before
+   * the rate tables existed get them on first use.
+   */
+  async initializeRates(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    try {
+      const existingRates = await landedCostRateRepository.getAllRates();
+      if (existingRates.length === 0) {
+        await landedCostRateRepository.importRates(this.getDefaultRates());
+        console.log('Landed cost rates initialized successfully');
+      }
+    } catch (error) {
+      console.error('Error initializing landed cost rates:', error);
+      // Don't re-throw, landed cost checks are skipped without rate tables
+    }
+
+    this.initialized = true;
+  }
+
+  /**
+   * Default rate tables. Tax is charged on the goods value and the clearance
+   * fee only when duty is collected, as in the broker figures of our sample
+   * shipment data.
+   */
+  private getDefaultRates(): Partial<LandedCostRate>[] {
+    const eu = (countryCode: string, countryName: string, taxRate: number): Partial<LandedCostRate> => ({
+      countryCode,
+      countryName,
+      taxName: 'VAT',
+      taxRate,
+      defaultDutyRate: 4.2,
+      processingFee: 10,
+      valuationBasis: 'CIF'
+    });
+
+    return [
+      {
+        countryCode: 'US',
+        countryName: 'United States',
+        taxName: 'Sales tax',
+        taxRate: 0,
+        defaultDutyRate: 3.4,
+        processingFee: 10,
+        valuationBasis: 'FOB'
+      },
+      {
+        countryCode: 'CA',
+        countryName: 'Canada',
+        taxName: 'GST',
+        taxRate: 5,
+        defaultDutyRate: 4,
+        processingFee: 10,
+        valuationBasis: 'FOB'
+      },
+      {
+        countryCode: 'GB',
+        countryName: 'United Kingdom',
+        taxName: 'VAT',
+        taxRate: 20,
+        defaultDutyRate: 4,
+        processingFee: 10,
+        valuationBasis: 'CIF'
+      },
+      eu('DE', 'Germany', 19),
+      eu('FR', 'France', 20),
+      eu('IT', 'Italy', 22),
+      eu('ES', 'Spain', 21),
+      eu('NL', 'Netherlands', 21),
+      {
+        countryCode: 'AU',
+        countryName: 'Australia',
+        taxName: 'GST',
+        taxRate: 10,
+        defaultDutyRate: 5,
+        processingFee: 10,
+        valuationBasis: 'FOB'
+      },
+      {
+        countryCode: 'CN',
+        countryName: 'China',
+        taxName: 'VAT',
+        taxRate: 13,
+        defaultDutyRate: 7.5,
+        processingFee: 10,
+        valuationBasis: 'CIF'
+      },
+      {
+        countryCode: 'JP',
+        countryName: 'Japan',
+        taxName: 'Consumption tax',
+        taxRate: 10,
+        defaultDutyRate: 4,
+        processingFee: 10,
+        valuationBasis: 'CIF'
+      },
+      {
+        countryCode: 'IN',
+        countryName: 'India',
+        taxName: 'IGST',
+        taxRate: 18,
+        defaultDutyRate: 20,
+        processingFee: 10,
+        valuationBasis: 'CIF'
+      },
+      {
+        countryCode: 'BR',
+        countryName: 'Brazil',
+        taxName: 'ICMS',
+        taxRate: 17,
+        defaultDutyRate: 12,
+        processingFee: 10,
+        valuationBasis: 'CIF'
+      }
+    ];
+  }
+}
+
+// Create and export a singleton instance
+export const landedCostRateLoader = new LandedCostRateLoader();
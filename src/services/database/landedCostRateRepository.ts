@@ -0,0 +1,64 @@
+import { dbService } from './dbService';
+import { LandedCostRate, createLandedCostRate } from './models';
+
+/**
+ * Repository for the duty, tax and fee rate tables used for landed cost
+ */
+export class LandedCostRateRepository {
+  /**
+   * Get the active rate table of a destination country
+   * @param countryCode - The ISO country code
+   */
+  async getRateForCountry(countryCode: string): Promise<LandedCostRate | undefined> {
+    const db = await dbService.getDb();
+    const rates = await db.getAllFromIndex('landedCostRates', 'by-country', countryCode.toUpperCase());
+    return rates.find(rate => rate.isActive);
+  }
+
+  /**
+   * Get all active rate tables
+   */
+  async getAllRates(): Promise<LandedCostRate[]> {
+    const db = await dbService.getDb();
+    const rates = await db.getAll('landedCostRates');
+    return rates.filter(rate => rate.isActive);
+  }
+
+  /**
+   * Add a rate table, or update it when the ID already exists
+   */
+  async saveRate(rate: Partial<LandedCostRate>): Promise<LandedCostRate> {
+    const db = await dbService.getDb();
+    const existing = rate.id ? await db.get('landedCostRates', rate.id) : undefined;
+    const savedRate = existing
+      ? { ...existing, ...rate, updatedAt: new Date().toISOString() }
+      : createLandedCostRate(rate);
+
+    await db.put('landedCostRates', savedRate);
+    return savedRate;
+  }
+
+  /**
+   * Delete a rate table
+   */
+  async deleteRate(id: string): Promise<void> {
+    const db = await dbService.getDb();
+    await db.delete('landedCostRates', id);
+  }
+
+  /**
+   * Bulk import rate tables (for initialization)
+   */
+  async importRates(rates: Partial<LandedCostRate>[]): Promise<void> {
+    const db = await dbService.getDb();
+    const tx = db.transaction('landedCostRates', 'readwrite');
+
+    await Promise.all([
+      ...rates.map(rate => tx.store.put(createLandedCostRate(rate))),
+      tx.done
+    ]);
+  }
+}
+
+// Create and export a singleton instance
+export const landedCostRateRepository = new LandedCostRateRepository();
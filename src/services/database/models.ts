@@ -1,4 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
+import type { ComplianceResult, ComplianceStats } from '../types';
+import type { FormattedData, RawInputData } from '../formatConverterDb';
+import { countryService } from '../countryService';
 
 /**
  * Database model for storing compliance rules
@@ -7,7 +10,7 @@ import { v4 as uuidv4 } from 'uuid';
 // Rule field types
 export type FieldType = 'text' | 'date' | 'number' | 'select' | 'regex';
 export type ValidationLevel = 'error' | 'warning' | 'info';
-export type ConstraintType = 'regex' | 'length' | 'required' | 'min' | 'max' | 'equal' | 'pattern' | 'custom';
+export type ConstraintType = 'regex' | 'length' | 'required' | 'min' | 'max' | 'equal' | 'oneOf' | 'pattern' | 'custom';
 export type ConstraintSeverity = 'compliant' | 'non-compliant' | 'warning';
 
 // Shipping types
@@ -35,7 +38,7 @@ export interface RequiredField {
  */
 export interface CountryRequirement {
   id: string;
-  countryCode: string;
+  countryCode: string; // ISO alpha-2 code, or a trade bloc id (EU, EAEU, USMCA, GCC) whose members inherit the requirement
   countryName: string;
   requiredFields: string[]; // Array of fieldKeys
   description: string;
@@ -61,7 +64,18 @@ export interface RestrictedItem {
 }
 
 /**
- * Country with shipping restrictions
+ * Sub-national region a destination restriction is limited to
+ */
+export interface RestrictedRegion {
+  name: string;
+  postalCodePattern: string; // Regular expression for the postal codes of the region
+  addressKeywords: string[]; // Place names that identify the region in an address
+  partial: boolean; // Only part of the region is restricted, so a postal code match needs review
+}
+
+/**
+ * Country with shipping restrictions. A restriction covers the whole country
+ * and all goods unless it is scoped to regions or goods categories.
  */
 export interface RestrictedDestination {
   id: string;
@@ -69,6 +83,9 @@ export interface RestrictedDestination {
   countryName: string;
   restrictionType: 'embargoed' | 'sanctions' | 'limited';
   details: string;
+  regions: RestrictedRegion[]; // Empty for the whole country
+  goodsCategories: string[]; // HS code prefixes or goods keywords; empty for all goods
+  licenseExceptionAvailable: boolean; // Shipments may proceed under a licence exception or general licence
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -88,6 +105,172 @@ export interface EnhancedDocumentation {
   updatedAt: string;
 }
 
+/**
+ * Import duty, tax and fee rates of a destination country.
+ * Rates are percentages and amounts are in USD.
+ */
+export interface LandedCostRate {
+  id: string;
+  countryCode: string;
+  countryName: string;
+  taxName: string; // VAT, GST, IVA, ...
+  taxRate: number;
+  taxIncludesDuty: boolean; // Whether tax is charged on the customs value plus duty
+  defaultDutyRate: number;
+  dutyRates: Record<string, number>; // Tariff-line rates keyed by HS code prefix; the longest match wins
+  processingFee: number; // Flat clearance fee charged when duty is collected
+  valuationBasis: 'CIF' | 'FOB'; // CIF adds the shipping cost to the customs value
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Entry of the HS tariff nomenclature (chapter, heading or 6-digit subheading)
+ */
+export interface HsNomenclatureEntry {
+  code: string; // Digits only: 2 for a chapter, 4 for a heading, 6 for a subheading
+  level: 'chapter' | 'heading' | 'subheading';
+  parentCode: string | null;
+  description: string;
+  keywords: string[]; // Common names of goods classified here
+  complete: boolean; // Whether all child codes are listed, so a missing child is invalid
+}
+
+/**
+ * Published denied party lists that shipments are screened against
+ */
+export type DeniedPartyListId = 'ofac-sdn' | 'eu-consolidated' | 'uk-hmt' | 'bis-entity';
+
+/**
+ * Entry of a denied party list: a sanctioned person, company, vessel or aircraft
+ */
+export interface DeniedParty {
+  id: string; // `${list}:${sourceId}`
+  list: DeniedPartyListId;
+  sourceId: string; // ID of the entry in the published list
+  name: string;
+  aliases: string[]; // Also-known-as names, spelling variants and names in other scripts
+  partyType: 'individual' | 'entity' | 'vessel' | 'aircraft' | 'unknown';
+  programs: string[]; // Sanctions programmes or regimes, e.g. "IRAN" or "Russia"
+  countries: string[]; // Countries of address, nationality or citizenship
+  remarks: string;
+  importedAt: string;
+}
+
+/**
+ * Export control regimes an item can be classified under
+ */
+export type ExportControlRegime = 'EAR' | 'EU';
+
+/**
+ * Entry of a control list: an ECCN of the US Commerce Control List or a
+ * code of Annex I of the EU Dual-Use Regulation
+ */
+export interface ExportControlEntry {
+  id: string; // `${regime}:${code}`
+  regime: ExportControlRegime;
+  code: string; // Base code, e.g. "5A002"
+  description: string;
+  reasons: string[]; // Reasons for control, e.g. ["NS1", "AT1"]; empty for EU entries
+  licenseExceptions: string[]; // Licence exceptions or general authorisations, e.g. "ENC" or "EU001"
+  keywords: string[]; // Common names of goods classified here
+}
+
+/**
+ * Export control treatment of a destination country: the reasons for control
+ * the Commerce Country Chart marks for it and its country groups
+ */
+export interface ExportControlCountry {
+  countryCode: string;
+  countryName: string;
+  controlledReasons: string[]; // Reasons for control requiring a licence, e.g. "NS2"
+  countryGroups: string[]; // e.g. "E:1", "D:1", "EU" for member states, "EU001" for general authorisation
+  licenseForAllListedItems: boolean; // Every ECCN needs a licence, e.g. under embargoes
+  licenseForEar99: boolean; // Even items not on the control list (EAR99) need a licence
+}
+
+/**
+ * Entry of the dangerous goods list: a UN number with its proper shipping
+ * name, hazard class and the conditions for carriage by air
+ */
+export interface DangerousGoodsEntry {
+  unNumber: string; // "UN" and four digits, e.g. "UN1263"
+  properShippingName: string;
+  alternativeNames: string[]; // Other proper shipping names of the same UN number
+  hazardClass: string; // Class or division, e.g. "3" or "2.1"
+  subsidiaryHazards: string[];
+  packingGroups: string[]; // Permitted packing groups; empty when the entry has none
+  air: 'passenger' | 'cargo-only' | 'forbidden'; // Carriage by air under the IATA DGR
+  lithiumPackingInstructions: string[]; // IATA packing instructions of lithium batteries, e.g. "PI967"
+  keywords: string[]; // Common names of goods shipped under this entry
+}
+
+/**
+ * Kinds of documents that accompany a cross-border shipment
+ */
+export type ShipmentDocumentType =
+  | 'commercial-invoice'
+  | 'proforma-invoice'
+  | 'packing-list'
+  | 'certificate-of-origin'
+  | 'customs-declaration' // CN22 or CN23 of postal shipments
+  | 'air-waybill'
+  | 'bill-of-lading'
+  | 'export-declaration'
+  | 'export-license'
+  | 'import-license'
+  | 'insurance-certificate'
+  | 'dangerous-goods-declaration'
+  | 'health-certificate'
+  | 'phytosanitary-certificate'
+  | 'safety-certification'
+  | 'inspection-certificate'
+  | 'other';
+
+/**
+ * A document uploaded for a shipment, with the fields read from it
+ */
+export interface ShipmentDocument {
+  id: string;
+  shipmentKey: string; // Tracking or reference number of the shipment
+  type: ShipmentDocumentType;
+  filename: string;
+  fields: Record<string, string>;
+  text: string; // Text recognized in or read from the file
+  attachedAt: string;
+}
+
+/**
+ * Duty and tax de minimis of a destination: consignments valued up to a
+ * threshold are cleared free of duty or import tax. Thresholds are in the
+ * currency the destination sets them in.
+ */
+export interface DeMinimisThreshold {
+  id: string;
+  countryCode: string;
+  currency: string; // ISO 4217 code, e.g. "CAD"
+  dutyThreshold: number; // 0 when all goods pay duty
+  taxThreshold: number; // 0 when all goods pay import tax
+  taxName: string; // Shown in findings, e.g. "UK VAT"
+  lowValueScheme?: 'ioss' | 'point-of-sale'; // How tax on consignments up to schemeThreshold is collected
+  schemeThreshold?: number;
+  origins: string[]; // Origin countries the thresholds apply to; empty for all others
+  notes: string;
+}
+
+/**
+ * Exchange rate of a currency against the US dollar, from the bundled table
+ * or an imported one
+ */
+export interface FxRate {
+  currency: string; // ISO 4217 code
+  name: string;
+  unitsPerUsd: number;
+  source: string; // "bundled" or the name of the imported file
+  updatedAt: string;
+}
+
 // Rule category for organization
 export interface RuleCategory {
   id: string;
@@ -126,7 +309,7 @@ export interface ValidationConstraint {
   id: string;
   ruleId: string;
   // Original fields (for backward compatibility)
-  constraintType: 'min' | 'max' | 'equal' | 'pattern' | 'custom';
+  constraintType: 'min' | 'max' | 'equal' | 'oneOf' | 'pattern' | 'custom';
   constraintValue: string;
   validationLevel: ValidationLevel;
   errorMessage: string;
@@ -151,6 +334,9 @@ export interface RuleDependency {
   dependentRuleId: string;
   condition: string; // e.g., "value === 'international'"
   isActive: boolean;
+  description?: string;
+  message?: string; // Shown when the dependent field is missing
+  severity?: ConstraintSeverity;
 }
 
 // Country/region specific rules
@@ -162,6 +348,9 @@ export interface RegionalRule {
   validationPattern: string;
   validationMessage: string;
   isActive: boolean;
+  appliesTo?: 'destination' | 'origin'; // Which country of the shipment selects this override
+  severity?: ConstraintSeverity;
+  description?: string;
 }
 
 // Rule change history for auditing
@@ -176,6 +365,69 @@ export interface RuleChangeHistory {
   timestamp: string;
 }
 
+// Who made a rule change and why
+export interface RuleChangeOptions {
+  changedBy?: string;
+  changeReason?: string;
+}
+
+// Overall outcome of a compliance check run
+export type ComplianceRunStatus = 'compliant' | 'non-compliant' | 'warning';
+
+/**
+ * A persisted compliance check run
+ */
+export interface ComplianceRun {
+  id: string;
+  source: RawInputData['source'];
+  status: ComplianceRunStatus;
+  destinationCountry: string; // Uppercased, empty when unknown
+  trackingNumber: string; // Empty when unknown
+  formattedData: FormattedData;
+  results: ComplianceResult[];
+  stats: ComplianceStats;
+  userId: string | null;
+  timestamp: string;
+  filename?: string;
+  batchId?: string; // Groups rows processed from the same CSV upload
+}
+
+// Lifecycle of a CSV batch job and its rows
+export type BatchJobStatus = 'running' | 'paused' | 'cancelled' | 'completed';
+export type BatchJobRowStatus = 'pending' | 'completed' | 'failed';
+
+/**
+ * A CSV batch job. Rows are stored separately so progress is saved row by row
+ * and a half-finished batch survives a page refresh.
+ */
+export interface BatchJob {
+  id: string; // Also the batchId of the runs recorded for its rows
+  status: BatchJobStatus;
+  filename?: string;
+  userId: string | null;
+  concurrency: number;
+  totalRows: number;
+  processedRows: number; // Completed and failed rows
+  failedRows: number;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+/**
+ * A single data row of a batch job
+ */
+export interface BatchJobRow {
+  id: string; // `${jobId}:${index}`
+  jobId: string;
+  index: number; // Zero-based position among the data rows of the file
+  status: BatchJobRowStatus;
+  record: Record<string, string>; // Parsed CSV fields
+  runId?: string; // Compliance run recorded for the row
+  error?: string;
+  updatedAt: string;
+}
+
 // Factory functions for creating new records
 export const createComplianceRule = (data: Partial<ComplianceRule>): ComplianceRule => {
   const now = new Date().toISOString();
@@ -238,6 +490,123 @@ export const createValidationConstraint = (data: Partial<ValidationConstraint>):
   };
 };
 
+/**
+ * Factory function to create a RuleDependency
+ */
+export const createRuleDependency = (data: Partial<RuleDependency>): RuleDependency => {
+  return {
+    id: data.id || uuidv4(),
+    primaryRuleId: data.primaryRuleId || '',
+    dependentRuleId: data.dependentRuleId || '',
+    condition: data.condition || '',
+    isActive: data.isActive ?? true,
+    description: data.description || '',
+    message: data.message || '',
+    severity: data.severity || 'non-compliant'
+  };
+};
+
+/**
+ * Factory function to create a RegionalRule
+ */
+export const createRegionalRule = (data: Partial<RegionalRule>): RegionalRule => {
+  return {
+    id: data.id || uuidv4(),
+    ruleId: data.ruleId || '',
+    countryCode: (data.countryCode || '').toUpperCase(),
+    regionCode: data.regionCode || undefined,
+    validationPattern: data.validationPattern || '',
+    validationMessage: data.validationMessage || '',
+    isActive: data.isActive ?? true,
+    appliesTo: data.appliesTo || 'destination',
+    severity: data.severity || 'non-compliant',
+    description: data.description || ''
+  };
+};
+
+/**
+ * Factory function to create a RuleChangeHistory entry
+ */
+export const createRuleChangeHistory = (data: Partial<RuleChangeHistory>): RuleChangeHistory => {
+  return {
+    id: data.id || uuidv4(),
+    ruleId: data.ruleId || '',
+    changedBy: data.changedBy || 'system',
+    changeType: data.changeType || 'update',
+    previousValues: data.previousValues,
+    newValues: data.newValues,
+    changeReason: data.changeReason || undefined,
+    timestamp: data.timestamp || new Date().toISOString()
+  };
+};
+
+/**
+ * Factory function to create a ComplianceRun.
+ * Status, destination and tracking number are derived from the data when not given.
+ */
+export const createComplianceRun = (
+  data: Partial<ComplianceRun> & Pick<ComplianceRun, 'formattedData' | 'results' | 'stats'>
+): ComplianceRun => {
+  const fields = data.formattedData.fields || {};
+  const status: ComplianceRunStatus = data.status ||
+    (data.stats.nonCompliant > 0 ? 'non-compliant' : data.stats.warnings > 0 ? 'warning' : 'compliant');
+  
+  return {
+    id: data.id || uuidv4(),
+    source: data.source || (data.formattedData.processingMetadata.source as RawInputData['source']) || 'manual',
+    status,
+    destinationCountry: countryService.normalizeCode(
+      data.destinationCountry ?? (fields.recipientCountry || fields.destinationCountry || '')
+    ),
+    trackingNumber: (data.trackingNumber ?? (fields.trackingNumber || '')).trim(),
+    formattedData: data.formattedData,
+    results: data.results,
+    stats: data.stats,
+    userId: data.userId ?? null,
+    timestamp: data.timestamp || new Date().toISOString(),
+    filename: data.filename,
+    batchId: data.batchId
+  };
+};
+
+/**
+ * Factory function to create a BatchJob
+ */
+export const createBatchJob = (data: Partial<BatchJob>): BatchJob => {
+  const now = new Date().toISOString();
+  return {
+    id: data.id || uuidv4(),
+    status: data.status || 'running',
+    filename: data.filename,
+    userId: data.userId ?? null,
+    concurrency: data.concurrency || 1,
+    totalRows: data.totalRows || 0,
+    processedRows: data.processedRows || 0,
+    failedRows: data.failedRows || 0,
+    createdAt: data.createdAt || now,
+    updatedAt: data.updatedAt || now,
+    completedAt: data.completedAt
+  };
+};
+
+/**
+ * Factory function to create a BatchJobRow
+ */
+export const createBatchJobRow = (
+  data: Partial<BatchJobRow> & Pick<BatchJobRow, 'jobId' | 'index' | 'record'>
+): BatchJobRow => {
+  return {
+    id: data.id || `${data.jobId}:${data.index}`,
+    jobId: data.jobId,
+    index: data.index,
+    status: data.status || 'pending',
+    record: data.record,
+    runId: data.runId,
+    error: data.error,
+    updatedAt: data.updatedAt || new Date().toISOString()
+  };
+};
+
 /**
  * Factory function to create a RequiredField
  */
@@ -302,6 +671,9 @@ export const createRestrictedDestination = (data: Partial<RestrictedDestination>
     countryName: data.countryName || '',
     restrictionType: data.restrictionType || 'limited',
     details: data.details || '',
+    regions: data.regions || [],
+    goodsCategories: data.goodsCategories || [],
+    licenseExceptionAvailable: data.licenseExceptionAvailable ?? false,
     isActive: data.isActive ?? true,
     createdAt: data.createdAt || now,
     updatedAt: data.updatedAt || now
@@ -323,4 +695,159 @@ export const createEnhancedDocumentation = (data: Partial<EnhancedDocumentation>
     createdAt: data.createdAt || now,
     updatedAt: data.updatedAt || now
   };
-}; 
\ No newline at end of file
+}; 
+/**
+ * Factory function to create a LandedCostRate
+ */
+export const createLandedCostRate = (data: Partial<LandedCostRate>): LandedCostRate => {
+  const now = new Date().toISOString();
+  return {
+    id: data.id || uuidv4(),
+    countryCode: data.countryCode || '',
+    countryName: data.countryName || '',
+    taxName: data.taxName || 'VAT',
+    taxRate: data.taxRate ?? 0,
+    taxIncludesDuty: data.taxIncludesDuty ?? false,
+    defaultDutyRate: data.defaultDutyRate ?? 0,
+    dutyRates: data.dutyRates || {},
+    processingFee: data.processingFee ?? 0,
+    valuationBasis: data.valuationBasis || 'CIF',
+    isActive: data.isActive ?? true,
+    createdAt: data.createdAt || now,
+    updatedAt: data.updatedAt || now
+  };
+};
+
+/**
+ * Factory function to create an HsNomenclatureEntry.
+ * The level and parent code are derived from the code length.
+ */
+export const createHsNomenclatureEntry = (data: Partial<HsNomenclatureEntry>): HsNomenclatureEntry => {
+  const code = (data.code || '').replace(/\D/g, '');
+  const level = code.length >= 6 ? 'subheading' : code.length === 4 ? 'heading' : 'chapter';
+  return {
+    code,
+    level: data.level || level,
+    parentCode: data.parentCode ?? (code.length > 2 ? code.slice(0, code.length - 2) : null),
+    description: data.description || '',
+    keywords: data.keywords || [],
+    complete: data.complete ?? false
+  };
+};
+
+/**
+ * Factory function to create a DeniedParty.
+ * The ID is derived from the list and the ID of the entry in that list.
+ */
+export const createDeniedParty = (data: Partial<DeniedParty>): DeniedParty => {
+  const list = data.list || 'ofac-sdn';
+  const sourceId = data.sourceId || uuidv4();
+  return {
+    id: data.id || `${list}:${sourceId}`,
+    list,
+    sourceId,
+    name: data.name || '',
+    aliases: data.aliases || [],
+    partyType: data.partyType || 'unknown',
+    programs: data.programs || [],
+    countries: data.countries || [],
+    remarks: data.remarks || '',
+    importedAt: data.importedAt || new Date().toISOString()
+  };
+};
+
+/**
+ * Factory function to create an ExportControlEntry.
+ * The ID is derived from the regime and the code.
+ */
+export const createExportControlEntry = (data: Partial<ExportControlEntry>): ExportControlEntry => {
+  const regime = data.regime || 'EAR';
+  const code = (data.code || '').toUpperCase();
+  return {
+    id: data.id || `${regime}:${code}`,
+    regime,
+    code,
+    description: data.description || '',
+    reasons: data.reasons || [],
+    licenseExceptions: data.licenseExceptions || [],
+    keywords: data.keywords || []
+  };
+};
+
+/**
+ * Factory function to create an ExportControlCountry
+ */
+export const createExportControlCountry = (data: Partial<ExportControlCountry>): ExportControlCountry => {
+  return {
+    countryCode: (data.countryCode || '').toUpperCase(),
+    countryName: data.countryName || '',
+    controlledReasons: data.controlledReasons || [],
+    countryGroups: data.countryGroups || [],
+    licenseForAllListedItems: data.licenseForAllListedItems ?? false,
+    licenseForEar99: data.licenseForEar99 ?? false
+  };
+};
+
+/**
+ * Factory function to create a DangerousGoodsEntry.
+ * The UN number is normalized to "UN" and four digits.
+ */
+export const createDangerousGoodsEntry = (data: Partial<DangerousGoodsEntry>): DangerousGoodsEntry => {
+  return {
+    unNumber: `UN${(data.unNumber || '').replace(/\D/g, '')}`,
+    properShippingName: data.properShippingName || '',
+    alternativeNames: data.alternativeNames || [],
+    hazardClass: data.hazardClass || '',
+    subsidiaryHazards: data.subsidiaryHazards || [],
+    packingGroups: data.packingGroups || [],
+    air: data.air || 'passenger',
+    lithiumPackingInstructions: data.lithiumPackingInstructions || [],
+    keywords: data.keywords || []
+  };
+};
+
+/**
+ * Factory function to create a ShipmentDocument
+ */
+export const createShipmentDocument = (data: Partial<ShipmentDocument>): ShipmentDocument => {
+  return {
+    id: data.id || uuidv4(),
+    shipmentKey: data.shipmentKey || '',
+    type: data.type || 'other',
+    filename: data.filename || '',
+    fields: data.fields || {},
+    text: data.text || '',
+    attachedAt: data.attachedAt || new Date().toISOString()
+  };
+};
+
+/**
+ * Factory function to create a DeMinimisThreshold
+ */
+export const createDeMinimisThreshold = (data: Partial<DeMinimisThreshold>): DeMinimisThreshold => {
+  return {
+    id: data.id || uuidv4(),
+    countryCode: data.countryCode || '',
+    currency: data.currency || 'USD',
+    dutyThreshold: data.dutyThreshold ?? 0,
+    taxThreshold: data.taxThreshold ?? 0,
+    taxName: data.taxName || 'VAT',
+    lowValueScheme: data.lowValueScheme,
+    schemeThreshold: data.schemeThreshold,
+    origins: data.origins || [],
+    notes: data.notes || ''
+  };
+};
+
+/**
+ * Factory function to create an FxRate
+ */
+export const createFxRate = (data: Partial<FxRate>): FxRate => {
+  return {
+    currency: (data.currency || '').toUpperCase(),
+    name: data.name || data.currency || '',
+    unitsPerUsd: data.unitsPerUsd ?? 1,
+    source: data.source || 'bundled',
+    updatedAt: data.updatedAt || new Date().toISOString()
+  };
+};
@@ -29,6 +29,7 @@ export class RuleLoader {
       const existingRules = await ruleRepository.getAllRules();
       if (existingRules.length > 0) {
         console.log('Rules already exist in the database, skipping initialization');
+        await this.upgradeConditionalRules(existingRules);
         this.initialized = true;
         return;
       }
@@ -39,6 +40,12 @@ export class RuleLoader {
       // Create default rules
       await this.createDefaultRules(categories);
       
+      // Create default dependencies between rules
+      await this.createDefaultDependencies();
+      
+      // Create default regional overrides
+      await this.createDefaultRegionalRules();
+      
       // Initialize cross-border compliance rules
       await crossBorderRuleLoader.initializeCrossBorderRules();
       
@@ -634,6 +641,176 @@ export class RuleLoader {
       severity: 'warning',
       isActive: true
     });
+    
+    // Rules that dependencies and regional overrides apply to
+    for (const rule of this.getConditionalDefaultRules(categories)) {
+      await ruleRepository.addRule(rule);
+    }
+  }
+
+  /**
+   * Get the default rules that are required conditionally (see dependencies)
+   * or whose country formats come from regional overrides
+   */
+  private getConditionalDefaultRules(categories: Record<string, RuleCategory>): Partial<ComplianceRule>[] {
+    return [
+      // Customs Information rule (required conditionally, see dependencies)
+      {
+        categoryId: categories.customs.id,
+        fieldKey: 'customsInfo',
+        displayName: 'Customs Information',
+        description: 'Customs declaration details for international shipments',
+        fieldType: 'text',
+        isRequired: false,
+        isActive: true,
+        validationPattern: '.+',
+        validationMessage: 'Customs information must not be empty',
+        exampleValue: 'CN22 attached - merchandise',
+        priority: 21
+      },
+      // Commercial Invoice Number rule (required conditionally, see dependencies)
+      {
+        categoryId: categories.customs.id,
+        fieldKey: 'commercialInvoiceNumber',
+        displayName: 'Commercial Invoice Number',
+        description: 'Reference number of the commercial invoice accompanying the shipment',
+        fieldType: 'text',
+        isRequired: false,
+        isActive: true,
+        validationPattern: '^[A-Za-z0-9\\-/]{3,35}$',
+        validationMessage: 'Commercial invoice number must be 3-35 letters, digits, dashes or slashes',
+        exampleValue: 'INV-2024-00123',
+        priority: 22
+      },
+      // Recipient Postal Code rule (country formats come from regional overrides)
+      {
+        categoryId: categories.address.id,
+        fieldKey: 'recipientPostalCode',
+        displayName: 'Recipient Postal Code',
+        description: 'Validates the recipient postal or ZIP code',
+        fieldType: 'text',
+        isRequired: false,
+        isActive: true,
+        validationPattern: '^[A-Za-z0-9\\s\\-]{3,10}$',
+        validationMessage: 'Postal code must be 3-10 letters, digits, spaces or dashes',
+        exampleValue: '10001',
+        priority: 14
+      },
+      // Shipper Postal Code rule (country formats come from regional overrides)
+      {
+        categoryId: categories.address.id,
+        fieldKey: 'shipperPostalCode',
+        displayName: 'Shipper Postal Code',
+        description: 'Validates the shipper postal or ZIP code',
+        fieldType: 'text',
+        isRequired: false,
+        isActive: true,
+        validationPattern: '^[A-Za-z0-9\\s\\-]{3,10}$',
+        validationMessage: 'Postal code must be 3-10 letters, digits, spaces or dashes',
+        exampleValue: '10001',
+        priority: 14
+      }
+    ];
+  }
+
+  /**
+   * Add the conditional default rules missing from a database initialized
+   * before them, with their default dependencies and regional overrides.
+   * Rules of a renamed or deleted default category are not added.
+   */
+  private async upgradeConditionalRules(existingRules: ComplianceRule[]): Promise<void> {
+    const allCategories = await ruleRepository.getAllCategories();
+    const customs = allCategories.find(category => category.name === 'Customs & International');
+    const address = allCategories.find(category => category.name === 'Address Information');
+    if (!customs || !address) {
+      return;
+    }
+
+    const missing = this.getConditionalDefaultRules({ customs, address })
+      .filter(rule => !existingRules.some(existing => existing.fieldKey === rule.fieldKey));
+    if (missing.length === 0) {
+      return;
+    }
+
+    for (const rule of missing) {
+      await ruleRepository.addRule(rule);
+    }
+
+    const addedFieldKeys = new Set(missing.map(rule => rule.fieldKey!));
+    await this.createDefaultDependencies(addedFieldKeys);
+    await this.createDefaultRegionalRules(addedFieldKeys);
+    console.log(`Added default rules: ${Array.from(addedFieldKeys).join(', ')}`);
+  }
+
+  /**
+   * Create default regional overrides (UK postcodes, Canadian postal codes)
+   * @param fieldKeys Only create the overrides of these rules
+   */
+  private async createDefaultRegionalRules(fieldKeys?: Set<string>): Promise<void> {
+    const ukPostcodePattern = '^(GIR ?0AA|[A-Z]{1,2}\\d[A-Z\\d]? ?\\d[A-Z]{2})$';
+    const caPostalCodePattern = '^[ABCEGHJ-NPRSTVXY]\\d[ABCEGHJ-NPRSTV-Z] ?\\d[ABCEGHJ-NPRSTV-Z]\\d$';
+    
+    const overrides: Array<{ fieldKey: string; appliesTo: 'destination' | 'origin' }> = [
+      { fieldKey: 'recipientPostalCode', appliesTo: 'destination' },
+      { fieldKey: 'shipperPostalCode', appliesTo: 'origin' }
+    ];
+    
+    for (const { fieldKey, appliesTo } of overrides) {
+      if (fieldKeys && !fieldKeys.has(fieldKey)) continue;
+
+      const rule = await ruleRepository.getRuleByFieldKey(fieldKey);
+      if (!rule) continue;
+      
+      await ruleRepository.addRegionalRule({
+        ruleId: rule.id,
+        countryCode: 'GB',
+        appliesTo,
+        validationPattern: ukPostcodePattern,
+        validationMessage: 'UK postcodes must follow the outward/inward format, e.g. SW1A 1AA',
+        description: 'Royal Mail postcode format'
+      });
+      
+      await ruleRepository.addRegionalRule({
+        ruleId: rule.id,
+        countryCode: 'CA',
+        appliesTo,
+        validationPattern: caPostalCodePattern,
+        validationMessage: 'Canadian postal codes must follow the A1A 1A1 format, e.g. K1A 0B1',
+        description: 'Canada Post postal code format'
+      });
+    }
+  }
+
+  /**
+   * Create default dependencies between rules
+   * @param fieldKeys Only create the dependencies of these dependent rules
+   */
+  private async createDefaultDependencies(fieldKeys?: Set<string>): Promise<void> {
+    const isIncluded = (fieldKey: string) => !fieldKeys || fieldKeys.has(fieldKey);
+    const shippingService = await ruleRepository.getRuleByFieldKey('shippingService');
+    const declaredValue = await ruleRepository.getRuleByFieldKey('declaredValue');
+    const customsInfo = await ruleRepository.getRuleByFieldKey('customsInfo');
+    const commercialInvoice = await ruleRepository.getRuleByFieldKey('commercialInvoiceNumber');
+    
+    if (shippingService && customsInfo && isIncluded('customsInfo')) {
+      await ruleRepository.addDependency({
+        primaryRuleId: shippingService.id,
+        dependentRuleId: customsInfo.id,
+        condition: "value contains 'international'",
+        description: 'International services need customs information',
+        message: 'Customs information is required for international shipping services'
+      });
+    }
+    
+    if (declaredValue && commercialInvoice && isIncluded('commercialInvoiceNumber')) {
+      await ruleRepository.addDependency({
+        primaryRuleId: declaredValue.id,
+        dependentRuleId: commercialInvoice.id,
+        condition: 'value > 2500',
+        description: 'High-value shipments need a commercial invoice',
+        message: 'A commercial invoice number is required when the declared value exceeds 2500'
+      });
+    }
   }
 
   /**
@@ -5,11 +5,46 @@ import {
   ValidationConstraint,
   RuleDependency,
   RegionalRule,
+  RuleChangeHistory,
+  RuleChangeOptions,
   createComplianceRule,
   createRuleCategory,
-  createValidationConstraint
+  createValidationConstraint,
+  createRuleDependency,
+  createRegionalRule,
+  createRuleChangeHistory
 } from './models';
 
+// Bookkeeping fields that are not part of a rule's history
+const UNTRACKED_RULE_FIELDS = ['updatedAt', 'updatedBy', '__isActive'];
+
+/**
+ * Copy a stored rule without indexing helpers
+ */
+const toRuleSnapshot = (rule: ComplianceRule): Partial<ComplianceRule> => {
+  const { __isActive, ...snapshot } = rule as ComplianceRule & { __isActive?: number };
+  return snapshot;
+};
+
+/**
+ * Copy the given fields of a rule
+ */
+const pickRuleFields = (rule: Partial<ComplianceRule>, fields: Array<keyof ComplianceRule>): Partial<ComplianceRule> =>
+  Object.fromEntries(fields.map(field => [field, rule[field]]));
+
+/**
+ * Get the fields whose values differ between two versions of a rule
+ */
+export const getChangedRuleFields = (
+  previous: Partial<ComplianceRule>,
+  next: Partial<ComplianceRule>
+): Array<keyof ComplianceRule> => {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)] as Array<keyof ComplianceRule>);
+  return Array.from(keys)
+    .filter(key => !UNTRACKED_RULE_FIELDS.includes(key))
+    .filter(key => JSON.stringify(previous[key]) !== JSON.stringify(next[key]));
+};
+
 /**
  * Repository for accessing and managing compliance rules
  */
@@ -58,9 +93,12 @@ export class RuleRepository {
   /**
    * Add a new compliance rule
    */
-  async addRule(rule: Partial<ComplianceRule>): Promise<ComplianceRule> {
+  async addRule(rule: Partial<ComplianceRule>, options: RuleChangeOptions = {}): Promise<ComplianceRule> {
     const db = await dbService.getDb();
-    const newRule = createComplianceRule(rule);
+    const newRule = createComplianceRule({
+      ...rule,
+      createdBy: rule.createdBy || options.changedBy
+    });
     
     // Convert boolean values to numbers for indexing
     const ruleToStore = {
@@ -70,13 +108,24 @@ export class RuleRepository {
     };
     
     await db.put('rules', ruleToStore);
+    
+    await this.recordChange({
+      ruleId: newRule.id,
+      changeType: 'create',
+      newValues: toRuleSnapshot(newRule)
+    }, options);
+    
     return newRule;
   }
 
   /**
    * Update an existing rule
    */
-  async updateRule(id: string, updates: Partial<ComplianceRule>): Promise<ComplianceRule> {
+  async updateRule(
+    id: string,
+    updates: Partial<ComplianceRule>,
+    options: RuleChangeOptions = {}
+  ): Promise<ComplianceRule> {
     const db = await dbService.getDb();
     const existingRule = await this.getRuleById(id);
     
@@ -84,11 +133,14 @@ export class RuleRepository {
       throw new Error(`Rule with ID ${id} not found`);
     }
     
+    const { __isActive, ...cleanUpdates } = updates as Partial<ComplianceRule> & { __isActive?: number };
     const updatedRule = {
-      ...existingRule,
-      ...updates,
-      updatedAt: new Date().toISOString()
-    };
+      ...toRuleSnapshot(existingRule),
+      ...cleanUpdates,
+      id,
+      updatedAt: new Date().toISOString(),
+      updatedBy: options.changedBy || updates.updatedBy || existingRule.updatedBy
+    } as ComplianceRule;
     
     // Convert boolean values to numbers for indexing
     const ruleToStore = {
@@ -98,15 +150,149 @@ export class RuleRepository {
     };
     
     await db.put('rules', ruleToStore);
+    
+    // Record only the fields that actually changed
+    const changedFields = getChangedRuleFields(existingRule, updatedRule);
+    if (changedFields.length > 0) {
+      const isActivationChange = changedFields.length === 1 && changedFields[0] === 'isActive';
+      await this.recordChange({
+        ruleId: id,
+        changeType: isActivationChange ? (updatedRule.isActive ? 'activate' : 'deactivate') : 'update',
+        previousValues: pickRuleFields(existingRule, changedFields),
+        newValues: pickRuleFields(updatedRule, changedFields)
+      }, options);
+    }
+    
     return updatedRule;
   }
 
   /**
-   * Delete a rule
+   * Activate a rule
+   */
+  async activateRule(id: string, options: RuleChangeOptions = {}): Promise<ComplianceRule> {
+    return this.updateRule(id, { isActive: true }, options);
+  }
+
+  /**
+   * Deactivate a rule
+   */
+  async deactivateRule(id: string, options: RuleChangeOptions = {}): Promise<ComplianceRule> {
+    return this.updateRule(id, { isActive: false }, options);
+  }
+
+  /**
+   * Delete a rule with its constraints, dependencies and regional overrides
    */
-  async deleteRule(id: string): Promise<void> {
+  async deleteRule(id: string, options: RuleChangeOptions = {}): Promise<void> {
     const db = await dbService.getDb();
+    const existingRule = await this.getRuleById(id);
     await db.delete('rules', id);
+    
+    const [constraints, dependencies, dependents, regionalRules] = await Promise.all([
+      this.getConstraintsByRuleId(id),
+      this.getDependenciesByRuleId(id),
+      this.getDependentsByRuleId(id),
+      this.getRegionalRulesByRuleId(id)
+    ]);
+    await Promise.all([
+      ...constraints.map(constraint => this.deleteConstraint(constraint.id)),
+      ...[...dependencies, ...dependents].map(dependency => this.deleteDependency(dependency.id)),
+      ...regionalRules.map(regionalRule => this.deleteRegionalRule(regionalRule.id))
+    ]);
+    
+    if (existingRule) {
+      await this.recordChange({
+        ruleId: id,
+        changeType: 'delete',
+        previousValues: toRuleSnapshot(existingRule)
+      }, options);
+    }
+  }
+
+  /**
+   * Get the change history for a rule, newest first
+   */
+  async getRuleHistory(ruleId: string): Promise<RuleChangeHistory[]> {
+    const db = await dbService.getDb();
+    const history = await db.getAllFromIndex('history', 'by-rule', ruleId);
+    return history.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  /**
+   * Get change history for all rules, newest first
+   */
+  async getAllRuleHistory(): Promise<RuleChangeHistory[]> {
+    const db = await dbService.getDb();
+    const history = await db.getAllFromIndex('history', 'by-timestamp');
+    return history.reverse();
+  }
+
+  /**
+   * Restore a rule to its state before a recorded change, undoing that change
+   * and every later change of the rule, newest first
+   */
+  async revertChange(historyId: string, options: RuleChangeOptions = {}): Promise<ComplianceRule | undefined> {
+    const db = await dbService.getDb();
+    const entry = await db.get('history', historyId);
+    
+    if (!entry) {
+      throw new Error(`History entry with ID ${historyId} not found`);
+    }
+    
+    const revertOptions: RuleChangeOptions = {
+      changedBy: options.changedBy,
+      changeReason: options.changeReason || `Reverted ${entry.changeType} from ${new Date(entry.timestamp).toLocaleString()}`
+    };
+    
+    const history = await this.getRuleHistory(entry.ruleId);
+    const current = await this.getRuleById(entry.ruleId);
+    let restored: Partial<ComplianceRule> | undefined = current && toRuleSnapshot(current);
+    for (const change of history.slice(0, history.findIndex(change => change.id === entry.id) + 1)) {
+      switch (change.changeType) {
+        case 'create':
+          restored = undefined;
+          break;
+        case 'delete':
+          restored = change.previousValues;
+          break;
+        default:
+          restored = { ...restored, ...change.previousValues };
+      }
+    }
+    
+    if (!restored) {
+      if (current) {
+        await this.deleteRule(entry.ruleId, revertOptions);
+      }
+      return undefined;
+    }
+    
+    if (!current) {
+      return this.addRule({ ...restored, id: entry.ruleId }, revertOptions);
+    }
+    
+    // Clear the fields the rule did not have then
+    const cleared = getChangedRuleFields(current, restored)
+      .filter(field => !(field in restored!))
+      .map(field => [field, undefined]);
+    return this.updateRule(entry.ruleId, { ...Object.fromEntries(cleared), ...restored }, revertOptions);
+  }
+
+  /**
+   * Write a rule change to the history store
+   */
+  private async recordChange(entry: Partial<RuleChangeHistory>, options: RuleChangeOptions): Promise<void> {
+    try {
+      const db = await dbService.getDb();
+      await db.add('history', createRuleChangeHistory({
+        ...entry,
+        changedBy: options.changedBy,
+        changeReason: options.changeReason
+      }));
+    } catch (error) {
+      // History must never block the rule change itself
+      console.error('Failed to record rule change history:', error);
+    }
   }
 
   /**
@@ -241,6 +427,68 @@ export class RuleRepository {
     return db.getAllFromIndex('dependencies', 'by-primary-rule', ruleId);
   }
 
+  /**
+   * Get all rule dependencies
+   */
+  async getAllDependencies(): Promise<RuleDependency[]> {
+    const db = await dbService.getDb();
+    return db.getAll('dependencies');
+  }
+
+  /**
+   * Get active rule dependencies
+   */
+  async getActiveDependencies(): Promise<RuleDependency[]> {
+    const dependencies = await this.getAllDependencies();
+    return dependencies.filter(dependency => dependency.isActive);
+  }
+
+  /**
+   * Get dependencies where a rule is the dependent side
+   */
+  async getDependentsByRuleId(ruleId: string): Promise<RuleDependency[]> {
+    const db = await dbService.getDb();
+    return db.getAllFromIndex('dependencies', 'by-dependent-rule', ruleId);
+  }
+
+  /**
+   * Add a new rule dependency
+   */
+  async addDependency(dependency: Partial<RuleDependency>): Promise<RuleDependency> {
+    const db = await dbService.getDb();
+    const newDependency = createRuleDependency(dependency);
+    await db.add('dependencies', newDependency);
+    return newDependency;
+  }
+
+  /**
+   * Update a rule dependency
+   */
+  async updateDependency(id: string, updates: Partial<RuleDependency>): Promise<RuleDependency> {
+    const db = await dbService.getDb();
+    const existingDependency = await db.get('dependencies', id);
+    
+    if (!existingDependency) {
+      throw new Error(`Dependency with ID ${id} not found`);
+    }
+    
+    const updatedDependency = {
+      ...existingDependency,
+      ...updates
+    };
+    
+    await db.put('dependencies', updatedDependency);
+    return updatedDependency;
+  }
+
+  /**
+   * Delete a rule dependency
+   */
+  async deleteDependency(id: string): Promise<void> {
+    const db = await dbService.getDb();
+    await db.delete('dependencies', id);
+  }
+
   /**
    * Get regional rules for a rule
    */
@@ -249,6 +497,61 @@ export class RuleRepository {
     return db.getAllFromIndex('regionalRules', 'by-rule', ruleId);
   }
 
+  /**
+   * Get all regional rules
+   */
+  async getAllRegionalRules(): Promise<RegionalRule[]> {
+    const db = await dbService.getDb();
+    return db.getAll('regionalRules');
+  }
+
+  /**
+   * Get regional rules for a country
+   */
+  async getRegionalRulesByCountry(countryCode: string): Promise<RegionalRule[]> {
+    const db = await dbService.getDb();
+    return db.getAllFromIndex('regionalRules', 'by-country', countryCode.toUpperCase());
+  }
+
+  /**
+   * Add a new regional rule
+   */
+  async addRegionalRule(regionalRule: Partial<RegionalRule>): Promise<RegionalRule> {
+    const db = await dbService.getDb();
+    const newRegionalRule = createRegionalRule(regionalRule);
+    await db.add('regionalRules', newRegionalRule);
+    return newRegionalRule;
+  }
+
+  /**
+   * Update a regional rule
+   */
+  async updateRegionalRule(id: string, updates: Partial<RegionalRule>): Promise<RegionalRule> {
+    const db = await dbService.getDb();
+    const existingRegionalRule = await db.get('regionalRules', id);
+    
+    if (!existingRegionalRule) {
+      throw new Error(`Regional rule with ID ${id} not found`);
+    }
+    
+    const updatedRegionalRule = {
+      ...existingRegionalRule,
+      ...updates,
+      countryCode: (updates.countryCode || existingRegionalRule.countryCode).toUpperCase()
+    };
+    
+    await db.put('regionalRules', updatedRegionalRule);
+    return updatedRegionalRule;
+  }
+
+  /**
+   * Delete a regional rule
+   */
+  async deleteRegionalRule(id: string): Promise<void> {
+    const db = await dbService.getDb();
+    await db.delete('regionalRules', id);
+  }
+
   /**
    * Import rules (batch operation)
    */
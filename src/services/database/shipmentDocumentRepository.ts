@@ -0,0 +1,54 @@
+import { dbService } from './dbService';
+import { ShipmentDocument, createShipmentDocument } from './models';
+
+/**
+ * Repository for the documents uploaded for shipments
+ */
+export class ShipmentDocumentRepository {
+  /**
+   * Get the documents of a shipment, oldest first
+   * @param shipmentKey - Tracking or reference number of the shipment
+   */
+  async getDocumentsByShipment(shipmentKey: string): Promise<ShipmentDocument[]> {
+    const db = await dbService.getDb();
+    const documents = await db.getAllFromIndex('shipmentDocuments', 'by-shipment', shipmentKey);
+    return documents.sort((a, b) => a.attachedAt.localeCompare(b.attachedAt));
+  }
+
+  /**
+   * Add a document to a shipment
+   */
+  async addDocument(document: Partial<ShipmentDocument>): Promise<ShipmentDocument> {
+    const db = await dbService.getDb();
+    const newDocument = createShipmentDocument(document);
+    await db.add('shipmentDocuments', newDocument);
+    return newDocument;
+  }
+
+  /**
+   * Update an existing document, e.g. to correct its detected type
+   */
+  async updateDocument(id: string, updates: Partial<ShipmentDocument>): Promise<ShipmentDocument> {
+    const db = await dbService.getDb();
+    const document = await db.get('shipmentDocuments', id);
+
+    if (!document) {
+      throw new Error(`Shipment document with ID ${id} not found`);
+    }
+
+    const updatedDocument = { ...document, ...updates, id };
+    await db.put('shipmentDocuments', updatedDocument);
+    return updatedDocument;
+  }
+
+  /**
+   * Remove a document from its shipment
+   */
+  async deleteDocument(id: string): Promise<void> {
+    const db = await dbService.getDb();
+    await db.delete('shipmentDocuments', id);
+  }
+}
+
+// Create and export a singleton instance
+export const shipmentDocumentRepository = new ShipmentDocumentRepository();
@@ -0,0 +1,195 @@
+import { ComplianceResult } from './types';
+import { DeMinimisThreshold } from './database/models';
+import { deMinimisRepository } from './database/deMinimisRepository';
+import { deMinimisLoader } from './database/deMinimisLoader';
+import { currencyService } from './currencyService';
+import { countryService } from './countryService';
+import { validateIoss } from './traderIdService';
+
+// Field of the de minimis findings; low-value scheme findings use their own
+const DE_MINIMIS_FIELD = 'De Minimis';
+const LOW_VALUE_FIELD = 'Low Value Consignment';
+
+/**
+ * Service for checking a consignment's value against the duty and tax de
+ * minimis thresholds of its destination, and against the low-value schemes
+ * under which import VAT or GST is collected at the point of sale: the EU
+ * Import One-Stop Shop and the UK, Australian and New Zealand vendor
+ * collection rules. Thresholds are in the destination's currency, so the
+ * declared value is converted first.
+ */
+class DeMinimisService {
+  /**
+   * Check the declared value of a consignment against the thresholds of its
+   * destination. Records without a declared value or to a destination
+   * without thresholds are skipped.
+   * @param fields Formatted shipment fields
+   * @param destinationCountry ISO alpha-2 code of the destination country
+   */
+  async checkLowValueConsignment(fields: Record<string, string>, destinationCountry: string): Promise<ComplianceResult[]> {
+    const declared = currencyService.readDeclaredValue(fields);
+    if (!declared || !declared.currency) {
+      return [];
+    }
+    await currencyService.loadRates();
+
+    const origin = fields.shipperCountry || fields.originCountry;
+    const threshold = await this.getThreshold(destinationCountry, origin ? countryService.normalizeCode(origin) : undefined);
+    if (!threshold) {
+      return [];
+    }
+
+    const results: ComplianceResult[] = [];
+    const declaredText = currencyService.format(declared.amount, declared.currency);
+    const countryName = countryService.getName(threshold.countryCode);
+    const value = currencyService.convert(declared.amount, declared.currency, threshold.currency);
+
+    if (value === undefined) {
+      results.push({
+        id: `de-minimis-currency-${Date.now()}`,
+        field: DE_MINIMIS_FIELD,
+        value: declaredText,
+        status: 'warning',
+        message: `The declared value of ${declaredText} could not be converted to ${threshold.currency}, so it was not checked against the de minimis thresholds of ${countryName}. Declare the value in a known ISO 4217 currency.`
+      });
+      return results;
+    }
+
+    const converted = declared.currency === threshold.currency
+      ? declaredText
+      : `${declaredText} (about ${currencyService.format(Math.round(value * 100) / 100, threshold.currency)})`;
+    const limit = (amount: number) => currencyService.format(amount, threshold.currency);
+
+    if (threshold.dutyThreshold > 0) {
+      const dutyFree = value <= threshold.dutyThreshold;
+      results.push({
+        id: `de-minimis-duty-${Date.now()}`,
+        field: DE_MINIMIS_FIELD,
+        value: declaredText,
+        status: 'compliant',
+        message: dutyFree
+          ? `${converted} is below the ${limit(threshold.dutyThreshold)} duty threshold of ${countryName}; no duty is due.`
+          : `${converted} is above the ${limit(threshold.dutyThreshold)} duty threshold of ${countryName}; duty is due.`
+      });
+    }
+
+    // Tax collected at the point of sale is reported with the scheme below
+    if (threshold.taxThreshold > 0 && !threshold.lowValueScheme) {
+      const taxFree = value <= threshold.taxThreshold;
+      results.push({
+        id: `de-minimis-tax-${Date.now()}`,
+        field: DE_MINIMIS_FIELD,
+        value: declaredText,
+        status: 'compliant',
+        message: taxFree
+          ? `${converted} is below the ${limit(threshold.taxThreshold)} ${threshold.taxName} threshold of ${countryName}; no ${threshold.taxName} is due.`
+          : `${converted} is above the ${limit(threshold.taxThreshold)} ${threshold.taxName} threshold of ${countryName}; ${threshold.taxName} is due on import.`
+      });
+    }
+
+    if (threshold.dutyThreshold === 0 && threshold.taxThreshold === 0) {
+      results.push({
+        id: `de-minimis-none-${Date.now()}`,
+        field: DE_MINIMIS_FIELD,
+        value: declaredText,
+        status: 'warning',
+        message: `${countryName} has no de minimis: duty and ${threshold.taxName} may be due on ${converted}. ${threshold.notes}.`
+      });
+    }
+
+    const schemeResult = this.checkLowValueScheme(fields, threshold, value, declaredText);
+    if (schemeResult) {
+      results.push(schemeResult);
+    }
+
+    return results;
+  }
+
+  /**
+   * Check the IOSS number or point-of-sale collection of a consignment within
+   * the scheme threshold of its destination
+   */
+  private checkLowValueScheme(
+    fields: Record<string, string>,
+    threshold: DeMinimisThreshold,
+    value: number,
+    declaredText: string
+  ): ComplianceResult | undefined {
+    if (!threshold.lowValueScheme || threshold.schemeThreshold === undefined) {
+      return undefined;
+    }
+
+    const id = `low-value-${threshold.lowValueScheme}-${Date.now()}`;
+    const limit = currencyService.format(threshold.schemeThreshold, threshold.currency);
+    const withinScheme = value <= threshold.schemeThreshold;
+
+    if (threshold.lowValueScheme === 'ioss') {
+      const iossNumber = (fields.iossNumber || '').trim();
+      if (iossNumber && !validateIoss(iossNumber).valid) {
+        return undefined; // Reported by the trader identifier check
+      }
+      if (!withinScheme) {
+        return iossNumber
+          ? {
+            id,
+            field: LOW_VALUE_FIELD,
+            value: iossNumber,
+            status: 'non-compliant',
+            message: `IOSS only covers consignments up to ${limit}; ${declaredText} must be declared for import with VAT paid at the border.`
+          }
+          : undefined;
+      }
+      return iossNumber
+        ? {
+          id,
+          field: LOW_VALUE_FIELD,
+          value: iossNumber,
+          status: 'compliant',
+          message: `EU VAT on this consignment under ${limit} was collected at the point of sale under IOSS number ${iossNumber}.`
+        }
+        : {
+          id,
+          field: 'IOSS Number',
+          value: 'Missing',
+          status: 'warning',
+          message: `EU IOSS number required for consignments under ${limit} when VAT was collected at the point of sale. Without it, VAT and a clearance fee are charged to the recipient on delivery.`
+        };
+    }
+
+    if (!withinScheme) {
+      return undefined;
+    }
+
+    const registration = fields.vatNumber || fields.abnNumber;
+    return {
+      id,
+      field: LOW_VALUE_FIELD,
+      value: declaredText,
+      status: registration ? 'compliant' : 'warning',
+      message: registration
+        ? `${threshold.taxName} must be collected at point of sale for goods under ${limit}; the seller's registration ${registration.trim()} is declared.`
+        : `${threshold.taxName} must be collected at point of sale for goods under ${limit}. Declare the seller's or marketplace's ${threshold.taxName} registration number.`
+    };
+  }
+
+  /**
+   * Get the thresholds of a destination that apply to goods from an origin,
+   * falling back to those for all other origins
+   * @param countryCode ISO alpha-2 code of the destination country
+   * @param origin ISO alpha-2 code of the origin country
+   */
+  async getThreshold(countryCode: string, origin?: string): Promise<DeMinimisThreshold | undefined> {
+    try {
+      await deMinimisLoader.initializeThresholds();
+      const thresholds = await deMinimisRepository.getThresholds(countryCode);
+      return thresholds.find(threshold => origin !== undefined && threshold.origins.includes(origin))
+        || thresholds.find(threshold => threshold.origins.length === 0);
+    } catch (error) {
+      console.error(`Error loading de minimis thresholds for ${countryCode}:`, error);
+      return undefined;
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const deMinimisService = new DeMinimisService();
@@ -0,0 +1,54 @@
+import { declaredValueService } from './declaredValueService';
+
+describe('declaredValueService.checkDeclaredValues', () => {
+  beforeAll(() => {
+    // Without IndexedDB the bundled exchange rates are used
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('skips records without a declared value', async () => {
+    await expect(declaredValueService.checkDeclaredValues({ shipperCountry: 'US' })).resolves.toEqual([]);
+  });
+
+  it.each([
+    ['0', 'zero'],
+    ['-25.00 USD', 'negative']
+  ])('flags a declared value of %s', async (declaredValue, description) => {
+    const results = await declaredValueService.checkDeclaredValues({ declaredValue, shipperCountry: 'US', recipientCountry: 'DE' });
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ field: 'Declared Value', status: 'non-compliant' });
+    expect(results[0].message).toContain(`is ${description}`);
+  });
+
+  it('flags declared values far below the actual value', async () => {
+    const [result] = await declaredValueService.checkDeclaredValues({
+      declaredValueUsd: '50',
+      actualValueUsd: '100',
+      shipperCountry: 'US'
+    });
+
+    expect(result.status).toBe('non-compliant');
+    expect(result.message).toContain('50% below the actual value');
+  });
+
+  it('flags currency codes that are not ISO 4217 codes', async () => {
+    const results = await declaredValueService.checkDeclaredValues({
+      declaredValue: '100',
+      declaredValueCurrency: 'XYZ',
+      shipperCountry: 'US'
+    });
+
+    expect(results.map(result => [result.value, result.status])).toEqual([['XYZ', 'non-compliant']]);
+  });
+
+  it('accepts values in the currency of the origin', async () => {
+    const [result] = await declaredValueService.checkDeclaredValues({
+      declaredValue: '1.234,56 €',
+      shipperCountry: 'DE',
+      recipientCountry: 'US'
+    });
+
+    expect(result.status).toBe('compliant');
+  });
+});
@@ -0,0 +1,167 @@
+import { ComplianceResult } from './types';
+import { Money, currencyService } from './currencyService';
+import { countryService } from './countryService';
+
+// Field of the declared value findings
+export const DECLARED_VALUE_FIELD = 'Declared Value';
+
+// Declared values this far below the actual value are flagged, and this far below are undervalued
+const UNDERVALUE_WARNING = 0.05;
+const UNDERVALUE_LIMIT = 0.2;
+
+// Bundled and imported rates are indicative, so local and USD values may differ by 10 percent
+const RATE_TOLERANCE = 0.1;
+
+// Currencies goods are commonly invoiced in regardless of where the parties are
+const INVOICING_CURRENCIES = ['USD', 'EUR'];
+
+const percent = (fraction: number): string => `${Math.round(fraction * 100)}%`;
+
+/**
+ * A declared amount with the field it was read from
+ */
+interface DeclaredAmount extends Money {
+  currency: string;
+  raw: string;
+}
+
+/**
+ * Service for checking the declared value of a shipment for signs of
+ * undervaluation and for currencies that do not fit the shipment: the
+ * declared value against the actual value, the value in local currency
+ * against the value in USD, and the currency against the origin country.
+ */
+class DeclaredValueService {
+  /**
+   * Check the declared value fields of a shipment. Records without a
+   * declared value are skipped.
+   * @param fields Formatted shipment fields
+   * @returns The findings, or a single compliant result when the values agree
+   */
+  async checkDeclaredValues(fields: Record<string, string>): Promise<ComplianceResult[]> {
+    await currencyService.loadRates();
+
+    const declared = this.readAmount(fields.declaredValue, fields.declaredValueCurrency || fields.currency || 'USD');
+    const declaredUsd = this.readAmount(fields.declaredValueUsd, 'USD');
+    const local = this.readAmount(fields.declaredValueLocal, fields.localCurrency);
+    const actualUsd = this.readAmount(fields.actualValueUsd, 'USD');
+    if (!declared && !declaredUsd && !local) {
+      return [];
+    }
+
+    const results: ComplianceResult[] = [];
+    const checked: string[] = [];
+    const id = `declared-value-${Date.now()}`;
+    const addFinding = (value: string, status: ComplianceResult['status'], message: string) => {
+      results.push({ id: `${id}-${results.length}`, field: DECLARED_VALUE_FIELD, value, status, message });
+    };
+
+    // Goods are never declared at no value, not even gifts and samples; the
+    // checks below need a positive value
+    for (const amount of [declared, declaredUsd, local]) {
+      if (amount && amount.amount <= 0) {
+        addFinding(
+          amount.raw,
+          'non-compliant',
+          `The declared value of ${amount.raw} is ${amount.amount < 0 ? 'negative' : 'zero'}. Declare the price paid or payable, or for gifts and samples the value the goods would sell for.`
+        );
+      }
+    }
+    if (results.length > 0) {
+      return results;
+    }
+
+    // The value in USD, as declared or converted from the invoice or local currency
+    const valueUsd = [declaredUsd, declared, local]
+      .map(amount => amount && currencyService.convert(amount.amount, amount.currency, 'USD'))
+      .find(amount => amount !== undefined);
+
+    // Declared against actual value
+    if (actualUsd && valueUsd !== undefined && actualUsd.amount > 0) {
+      checked.push('actual value');
+      const shortfall = 1 - valueUsd / actualUsd.amount;
+      if (shortfall > UNDERVALUE_WARNING) {
+        const declaredText = currencyService.format(Math.round(valueUsd * 100) / 100, 'USD');
+        const actualText = currencyService.format(actualUsd.amount, 'USD');
+        addFinding(
+          declaredText,
+          shortfall >= UNDERVALUE_LIMIT ? 'non-compliant' : 'warning',
+          `The declared value of ${declaredText} is ${percent(shortfall)} below the actual value of ${actualText}. Goods must be declared at the price actually paid or payable; undervalued goods are held and reassessed by customs.`
+        );
+      }
+    }
+
+    // Local against USD value
+    if (local && declaredUsd) {
+      const localText = currencyService.format(local.amount, local.currency);
+      const localUsd = currencyService.convert(local.amount, local.currency, 'USD');
+      if (localUsd === undefined) {
+        addFinding(localText, 'warning', `There is no exchange rate for ${local.currency}, so the local value of ${local.raw} could not be compared with the declared ${currencyService.format(declaredUsd.amount, 'USD')}. Import a rate table that includes it.`);
+      } else if (declaredUsd.amount > 0) {
+        checked.push('local value');
+        const difference = Math.abs(localUsd - declaredUsd.amount) / declaredUsd.amount;
+        if (difference > RATE_TOLERANCE) {
+          addFinding(
+            localText,
+            'warning',
+            `The local value of ${localText} is ${currencyService.format(Math.round(localUsd * 100) / 100, 'USD')} at the indicative rate, ${percent(difference)} off the declared ${currencyService.format(declaredUsd.amount, 'USD')}. Check the exchange rate and currency of the local value.`
+          );
+        }
+      }
+    }
+
+    // Currencies against the origin and destination countries
+    const origin = fields.shipperCountry || fields.originCountry;
+    const originCurrency = origin ? countryService.getCurrency(origin) : undefined;
+    if (originCurrency) {
+      checked.push('currency of the origin country');
+      const destination = fields.recipientCountry || fields.destinationCountry;
+      const destinationCurrency = destination ? countryService.getCurrency(destination) : undefined;
+      const currencies = Array.from(new Set([declared, local].filter(Boolean).map(amount => amount!.currency)));
+
+      for (const currency of currencies) {
+        if (!currencyService.isKnownCurrency(currency)) {
+          addFinding(currency, 'non-compliant', `${currency} is not an ISO 4217 currency code. Declare the value with the code of its currency, e.g. ${originCurrency}.`);
+        } else if (currency !== originCurrency && currency !== destinationCurrency && !INVOICING_CURRENCIES.includes(currency)) {
+          const originText = `the currency of the origin country, ${countryService.getName(origin!)} (${originCurrency})`;
+          const countriesText = destination && destinationCurrency
+            ? `neither ${originText}, nor of the destination, ${countryService.getName(destination)} (${destinationCurrency})`
+            : `not ${originText}`;
+          addFinding(
+            currency,
+            'warning',
+            `The value is declared in ${currency}, which is ${countriesText}. Check that the currency code matches the commercial invoice.`
+          );
+        }
+      }
+    }
+
+    if (results.length === 0 && checked.length > 0) {
+      const shown = declaredUsd || declared || local!;
+      results.push({
+        id,
+        field: DECLARED_VALUE_FIELD,
+        value: currencyService.format(shown.amount, shown.currency),
+        status: 'compliant',
+        message: `The declared value was checked against the ${checked.join(', ').replace(/, ([^,]*)$/, ' and $1')}; no undervaluation or currency mismatch was found.`
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Read an amount, in the currency it names or else in the hinted currency
+   * @returns The amount, or undefined when the field is empty or names no currency
+   */
+  private readAmount(value: string | undefined, currencyHint?: string): DeclaredAmount | undefined {
+    const money = currencyService.parseMoney(value, currencyHint);
+    if (!money || !money.currency) {
+      return undefined;
+    }
+    return { amount: money.amount, currency: money.currency, raw: value!.trim() };
+  }
+}
+
+// Create and export a singleton instance
+export const declaredValueService = new DeclaredValueService();
@@ -0,0 +1,353 @@
+import { DeniedParty, DeniedPartyListId } from './database/models';
+import { countryService } from './countryService';
+
+/**
+ * Entries read from a published list file. Alias files (OFAC alt.csv) only
+ * carry additional names for entries of a list imported before.
+ */
+export interface ParsedDeniedPartyList {
+  list: DeniedPartyListId;
+  format: string; // Description of the file format, for import messages
+  mode: 'replace' | 'aliases';
+  parties: Partial<DeniedParty>[];
+}
+
+// Sources of the trade.gov Consolidated Screening List that map to our lists
+const CONSOLIDATED_SCREENING_SOURCES: [RegExp, DeniedPartyListId][] = [
+  [/Entity List/i, 'bis-entity'],
+  [/Specially Designated Nationals/i, 'ofac-sdn']
+];
+
+// OFAC writes "-0-" in empty columns of its CSV files
+const OFAC_EMPTY = '-0-';
+
+/**
+ * Split CSV text into rows of cells. Quoted cells may contain the delimiter,
+ * doubled quotes and line breaks.
+ */
+export const parseCsvRows = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      if (row.some(value => value.trim() !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  if (row.some(value => value.trim() !== '')) rows.push(row);
+  return rows;
+};
+
+const unique = (values: string[]): string[] =>
+  values.map(value => value.trim()).filter((value, index, all) => value !== '' && all.indexOf(value) === index);
+
+// Lists name countries ("Russia", "Korea, North") where others use ISO codes; keep names of no known country as given
+const countryCodes = (values: string[]): string[] =>
+  unique(values.map(value => countryService.resolve(value)?.alpha2 || value));
+
+/**
+ * Read rows with a header into records keyed by column name. Rows of the
+ * same entry (one per alias or address) are grouped by the key column.
+ */
+const groupRows = (rows: string[][], headerIndex: number, keyColumn: string): Map<string, Record<string, string>[]> => {
+  const header = rows[headerIndex].map(column => column.trim());
+  const groups = new Map<string, Record<string, string>[]>();
+
+  for (const row of rows.slice(headerIndex + 1)) {
+    const record: Record<string, string> = {};
+    header.forEach((column, index) => {
+      record[column] = (row[index] || '').trim();
+    });
+
+    const key = record[keyColumn];
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) || []), record]);
+  }
+
+  return groups;
+};
+
+const parseXml = (content: string): Document => {
+  const document = new DOMParser().parseFromString(content, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not well-formed XML');
+  }
+  return document;
+};
+
+const childText = (element: Element, tag: string): string => {
+  const child = Array.from(element.children).find(node => node.localName === tag);
+  return child?.textContent?.trim() || '';
+};
+
+const descendants = (element: Element | Document, tag: string): Element[] =>
+  Array.from(element.getElementsByTagNameNS('*', tag));
+
+const joinName = (...parts: string[]): string => parts.map(part => part.trim()).filter(Boolean).join(' ');
+
+/**
+ * OFAC SDN list in XML (sdn.xml)
+ */
+const parseOfacSdnXml = (document: Document): ParsedDeniedPartyList => {
+  const parties = descendants(document, 'sdnEntry').map(entry => {
+    const sdnType = childText(entry, 'sdnType').toLowerCase();
+    const countries = [
+      ...descendants(entry, 'address').map(address => childText(address, 'country')),
+      ...descendants(entry, 'nationality').map(nationality => childText(nationality, 'country')),
+      ...descendants(entry, 'citizenship').map(citizenship => childText(citizenship, 'country'))
+    ];
+
+    return {
+      sourceId: childText(entry, 'uid'),
+      name: joinName(childText(entry, 'firstName'), childText(entry, 'lastName')),
+      aliases: unique(descendants(entry, 'aka').map(aka => joinName(childText(aka, 'firstName'), childText(aka, 'lastName')))),
+      partyType: (['individual', 'vessel', 'aircraft'].includes(sdnType) ? sdnType : 'entity') as DeniedParty['partyType'],
+      programs: unique(descendants(entry, 'program').map(program => program.textContent || '')),
+      countries: countryCodes(countries),
+      remarks: childText(entry, 'remarks')
+    };
+  });
+
+  return { list: 'ofac-sdn', format: 'OFAC SDN XML', mode: 'replace', parties };
+};
+
+/**
+ * EU consolidated financial sanctions list in XML
+ */
+const parseEuConsolidatedXml = (document: Document): ParsedDeniedPartyList => {
+  const parties = descendants(document, 'sanctionEntity').map(entity => {
+    const names = unique(descendants(entity, 'nameAlias').map(alias =>
+      alias.getAttribute('wholeName') ||
+      joinName(alias.getAttribute('firstName') || '', alias.getAttribute('middleName') || '', alias.getAttribute('lastName') || '')
+    ));
+    const subjectType = descendants(entity, 'subjectType')[0]?.getAttribute('code') || '';
+    const countries = [
+      ...descendants(entity, 'address').map(address => address.getAttribute('countryIso2Code') || ''),
+      ...descendants(entity, 'citizenship').map(citizenship => citizenship.getAttribute('countryIso2Code') || '')
+    ];
+
+    return {
+      sourceId: entity.getAttribute('logicalId') || '',
+      name: names[0] || '',
+      aliases: names.slice(1),
+      partyType: subjectType === 'person' ? 'individual' : subjectType === 'enterprise' ? 'entity' : 'unknown',
+      programs: unique(descendants(entity, 'regulation').map(regulation => regulation.getAttribute('programme') || '')),
+      countries: unique(countries.filter(country => country !== '00')),
+      remarks: descendants(entity, 'remark').map(remark => remark.textContent || '').join(' ').trim()
+    } as Partial<DeniedParty>;
+  });
+
+  return { list: 'eu-consolidated', format: 'EU consolidated list XML', mode: 'replace', parties };
+};
+
+/**
+ * EU consolidated financial sanctions list in CSV: semicolon separated, one
+ * row per name, address or other detail of an entity
+ */
+const parseEuConsolidatedCsv = (rows: string[][]): ParsedDeniedPartyList => {
+  const groups = groupRows(rows, 0, 'Entity_LogicalId');
+
+  const parties = Array.from(groups.entries()).map(([logicalId, records]) => {
+    const names = unique(records.map(record =>
+      record.NameAlias_WholeName ||
+      joinName(record.NameAlias_FirstName || '', record.NameAlias_MiddleName || '', record.NameAlias_LastName || '')
+    ));
+    const subjectType = records[0].Entity_SubjectType || records[0].Entity_SubjectType_ClassificationCode || '';
+
+    return {
+      sourceId: logicalId,
+      name: names[0] || '',
+      aliases: names.slice(1),
+      partyType: /^(person|P)$/i.test(subjectType) ? 'individual' : /^(enterprise|E)$/i.test(subjectType) ? 'entity' : 'unknown',
+      programs: unique(records.map(record => record.Entity_Regulation_Programme || '')),
+      countries: unique(records.flatMap(record => [record.Address_CountryIso2Code || '', record.Citizenship_CountryIso2Code || ''])
+        .filter(country => country !== '00')),
+      remarks: records[0].Entity_Remark || ''
+    } as Partial<DeniedParty>;
+  });
+
+  return { list: 'eu-consolidated', format: 'EU consolidated list CSV', mode: 'replace', parties };
+};
+
+/**
+ * OFAC SDN list in CSV (sdn.csv): no header, names as "LAST, First"
+ */
+const parseOfacSdnCsv = (rows: string[][]): ParsedDeniedPartyList => {
+  const value = (cell: string | undefined) => (cell || '').trim() === OFAC_EMPTY ? '' : (cell || '').trim();
+
+  const parties = rows.map(row => {
+    const sdnType = value(row[2]).toLowerCase();
+    return {
+      sourceId: value(row[0]),
+      name: value(row[1]),
+      aliases: [],
+      partyType: (['individual', 'vessel', 'aircraft'].includes(sdnType) ? sdnType : 'entity') as DeniedParty['partyType'],
+      programs: unique(value(row[3]).replace(/^\[|\]$/g, '').split('] [')),
+      countries: unique([value(row[9])]),
+      remarks: value(row[11])
+    };
+  });
+
+  return { list: 'ofac-sdn', format: 'OFAC SDN CSV', mode: 'replace', parties };
+};
+
+/**
+ * OFAC SDN alternate names (alt.csv): one row per alias of an SDN entry
+ */
+const parseOfacAltCsv = (rows: string[][]): ParsedDeniedPartyList => {
+  const aliases = new Map<string, string[]>();
+  for (const row of rows) {
+    const entryId = row[0].trim();
+    const name = (row[3] || '').trim();
+    if (name && name !== OFAC_EMPTY) {
+      aliases.set(entryId, [...(aliases.get(entryId) || []), name]);
+    }
+  }
+
+  const parties = Array.from(aliases.entries()).map(([sourceId, names]) => ({ sourceId, aliases: unique(names) }));
+  return { list: 'ofac-sdn', format: 'OFAC SDN alternate names CSV', mode: 'aliases', parties };
+};
+
+/**
+ * UK HM Treasury (OFSI) consolidated list (ConList.csv): a "Last Updated"
+ * line, then one row per name of a group; Name 6 is the surname or the
+ * name of an entity
+ */
+const parseUkHmtCsv = (rows: string[][]): ParsedDeniedPartyList => {
+  const headerIndex = rows.findIndex(row => row.some(cell => cell.trim() === 'Group ID'));
+  const groups = groupRows(rows, headerIndex, 'Group ID');
+
+  const parties = Array.from(groups.entries()).map(([groupId, records]) => {
+    const primary = records.find(record => /primary name$/i.test(record['Alias Type'] || '')) || records[0];
+    const nameOf = (record: Record<string, string>) =>
+      joinName(record['Name 1'], record['Name 2'], record['Name 3'], record['Name 4'], record['Name 5'], record['Name 6']);
+    const groupType = (primary['Group Type'] || '').toLowerCase();
+    const name = nameOf(primary);
+
+    return {
+      sourceId: groupId,
+      name,
+      aliases: unique([
+        ...records.map(nameOf),
+        ...records.map(record => record['Name Non-Latin Script'] || '')
+      ]).filter(alias => alias !== name),
+      partyType: groupType === 'individual' ? 'individual' : groupType === 'entity' ? 'entity' : groupType === 'ship' ? 'vessel' : 'unknown',
+      programs: unique(records.map(record => record.Regime || '')),
+      countries: countryCodes(records.flatMap(record => [record.Country || '', record.Nationality || ''])),
+      remarks: primary['Other Information'] || ''
+    } as Partial<DeniedParty>;
+  });
+
+  return { list: 'uk-hmt', format: 'UK HM Treasury consolidated list CSV', mode: 'replace', parties };
+};
+
+/**
+ * trade.gov Consolidated Screening List (consolidated.csv), which is where
+ * the BIS Entity List is published in bulk. Rows of other sources in the
+ * file are imported into their own lists when we keep them, else skipped.
+ */
+const parseConsolidatedScreeningCsv = (rows: string[][]): ParsedDeniedPartyList[] => {
+  const header = rows[0].map(column => column.trim());
+  const column = (row: string[], name: string) => (row[header.indexOf(name)] || '').trim();
+  const lists = new Map<DeniedPartyListId, Partial<DeniedParty>[]>();
+
+  for (const row of rows.slice(1)) {
+    const source = CONSOLIDATED_SCREENING_SOURCES.find(([pattern]) => pattern.test(column(row, 'source')));
+    if (!source) continue;
+
+    const type = column(row, 'type').toLowerCase();
+    const addressCountries = column(row, 'addresses').split(';').map(address => address.split(',').pop() || '');
+    const party: Partial<DeniedParty> = {
+      sourceId: column(row, 'entity_number') || column(row, '_id'),
+      name: column(row, 'name'),
+      aliases: unique(column(row, 'alt_names').split(';')),
+      partyType: ['individual', 'entity', 'vessel', 'aircraft'].includes(type) ? type as DeniedParty['partyType'] : 'entity',
+      programs: unique(column(row, 'programs').split(';')),
+      countries: countryCodes([...addressCountries, ...column(row, 'nationalities').split(';'), ...column(row, 'citizenships').split(';')])
+        .filter(country => /^[A-Z]{2}$/.test(country)),
+      remarks: [column(row, 'license_requirement'), column(row, 'remarks')].filter(Boolean).join(' ')
+    };
+    lists.set(source[1], [...(lists.get(source[1]) || []), party]);
+  }
+
+  return Array.from(lists.entries()).map(([list, parties]) => ({
+    list,
+    format: 'Consolidated Screening List CSV',
+    mode: 'replace' as const,
+    parties
+  }));
+};
+
+/**
+ * Read a published denied party list file. The format is recognised from
+ * its content: OFAC SDN XML or CSV (sdn.csv, alt.csv), the EU consolidated
+ * list XML or CSV, the UK HM Treasury consolidated list CSV and the trade.gov
+ * Consolidated Screening List CSV for the BIS Entity List.
+ * @throws Error when the format is not recognised
+ */
+export const parseDeniedPartyList = (content: string): ParsedDeniedPartyList[] => {
+  const text = content.replace(/^\uFEFF/, '').trim();
+
+  if (text.startsWith('<')) {
+    const document = parseXml(text);
+    const root = document.documentElement.localName;
+    if (root === 'sdnList') return [parseOfacSdnXml(document)];
+    if (root === 'export' && descendants(document, 'sanctionEntity').length > 0) return [parseEuConsolidatedXml(document)];
+    throw new Error(`Unrecognised XML list with root element <${root}>`);
+  }
+
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  if (firstLine.includes(';') && firstLine.includes('Entity_LogicalId')) {
+    return [parseEuConsolidatedCsv(parseCsvRows(text, ';'))];
+  }
+
+  const rows = parseCsvRows(text);
+  if (rows.length === 0) {
+    throw new Error('The file is empty');
+  }
+
+  if (rows.slice(0, 3).some(row => row.some(cell => cell.trim() === 'Group ID'))) {
+    return [parseUkHmtCsv(rows)];
+  }
+  if (rows[0].includes('source') && rows[0].includes('alt_names')) {
+    const lists = parseConsolidatedScreeningCsv(rows);
+    if (lists.length === 0) {
+      throw new Error('The Consolidated Screening List file has no Entity List or SDN entries');
+    }
+    return lists;
+  }
+  if (/^\d+$/.test(rows[0][0].trim()) && rows[0].length >= 12) {
+    return [parseOfacSdnCsv(rows)];
+  }
+  if (/^\d+$/.test(rows[0][0].trim()) && /^\d+$/.test((rows[0][1] || '').trim()) && rows[0].length >= 4) {
+    return [parseOfacAltCsv(rows)];
+  }
+
+  throw new Error('Unrecognised list format. Import OFAC SDN, EU consolidated, UK HM Treasury or Consolidated Screening List files.');
+};
@@ -0,0 +1,123 @@
+import { DeniedParty, createDeniedParty } from './database/models';
+import { comparePartyNames, tokenizePartyName, transliterateName } from './deniedPartyScreeningService';
+
+// Entries returned by the mocked repository, or the error it fails with
+let mockParties: DeniedParty[] | Error = [];
+
+jest.mock('./database/deniedPartyRepository', () => ({
+  deniedPartyRepository: {
+    getAllParties: async () => {
+      if (mockParties instanceof Error) throw mockParties;
+      return mockParties;
+    }
+  }
+}));
+
+// The service keeps the loaded lists, so each test screens with a fresh instance
+const loadService = () => {
+  let service!: typeof import('./deniedPartyScreeningService').deniedPartyScreeningService;
+  jest.isolateModules(() => {
+    service = require('./deniedPartyScreeningService').deniedPartyScreeningService;
+  });
+  return service;
+};
+
+describe('transliterateName', () => {
+  it.each([
+    ['Müller', 'muller'],
+    ['Straße', 'strasse'],
+    ['Газпром', 'gazprom'],
+    ['Ωμέγα', 'omega'],
+    ['Łódź', 'lodz']
+  ])('writes %s as %s', (name, expected) => {
+    expect(transliterateName(name)).toBe(expected);
+  });
+});
+
+describe('tokenizePartyName', () => {
+  it('drops legal forms and punctuation', () => {
+    expect(tokenizePartyName('Acme Trading Co., Ltd.')).toEqual(['acme', 'trading']);
+    expect(tokenizePartyName("O'Neill & Sons GmbH")).toEqual(['oneil', 'sons']);
+  });
+
+  it('reduces transliteration variants to the same spelling', () => {
+    expect(tokenizePartyName('Mokhammed')).toEqual(tokenizePartyName('Mohamed'));
+    expect(tokenizePartyName('Dzhamal')).toEqual(tokenizePartyName('Jamal'));
+  });
+});
+
+describe('comparePartyNames', () => {
+  it('ignores legal forms, word order and case', () => {
+    expect(comparePartyNames('Acme Trading Ltd', 'ACME TRADING LIMITED')).toBe(1);
+    expect(comparePartyNames('Trading Acme', 'Acme Trading Inc.')).toBe(1);
+  });
+
+  it('matches names in other scripts', () => {
+    expect(comparePartyNames('Газпром нефть', 'Gazprom Neft PJSC')).toBe(1);
+  });
+
+  it('scores small misspellings high and different names low', () => {
+    expect(comparePartyNames('Rosoboronexport', 'Rosoboronexprot')).toBeGreaterThan(0.9);
+    expect(comparePartyNames('Acme Trading', 'Globex Logistics')).toBeLessThan(0.6);
+  });
+
+  it('scores names without comparable tokens 0', () => {
+    expect(comparePartyNames('Ltd', 'Acme Ltd')).toBe(0);
+  });
+});
+
+describe('deniedPartyScreeningService.checkParties', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    mockParties = [
+      createDeniedParty({
+        list: 'ofac-sdn',
+        sourceId: '12345',
+        name: 'Rosoboronexport',
+        aliases: ['Rosoboronexport JSC', 'Рособоронэкспорт'],
+        programs: ['UKRAINE-EO13662']
+      })
+    ];
+  });
+
+  it('reports parties matching a list entry or one of its aliases', async () => {
+    const results = await loadService().checkParties({ recipientCompany: 'Рособоронэкспорт АО' }, 'rec');
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ id: 'rec-deniedParty-recipientCompany-ofac-sdn:12345', status: 'non-compliant' });
+    expect(results[0].message).toContain('on the OFAC Specially Designated Nationals (SDN) List (entry 12345');
+  });
+
+  it('names the lists screened against when nothing matches', async () => {
+    const results = await loadService().checkParties({ shipperName: 'Acme Trading Ltd' }, 'rec');
+
+    expect(results).toHaveLength(1);
+    expect(results[0].status).toBe('compliant');
+    expect(results[0].message).toContain('screened against the OFAC Specially Designated Nationals (SDN) List');
+  });
+
+  it('warns when no lists are imported', async () => {
+    mockParties = [];
+    const results = await loadService().checkParties({ shipperName: 'Acme Trading Ltd' }, 'rec');
+
+    expect(results).toHaveLength(1);
+    expect(results[0].status).toBe('warning');
+    expect(results[0].message).toContain('Denied party screening not performed: no lists imported');
+  });
+
+  it('warns when the lists fail to load', async () => {
+    mockParties = new Error('IndexedDB unavailable');
+    const results = await loadService().checkParties({ shipperName: 'Acme Trading Ltd' }, 'rec');
+
+    expect(results).toHaveLength(1);
+    expect(results[0].status).toBe('warning');
+    expect(results[0].message).toContain('the imported lists failed to load');
+  });
+
+  it('skips records without party names', async () => {
+    await expect(loadService().checkParties({ shipperName: ' ' }, 'rec')).resolves.toEqual([]);
+  });
+});
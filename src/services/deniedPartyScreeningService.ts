@@ -0,0 +1,453 @@
+import { ComplianceResult } from './types';
+import { DeniedParty, DeniedPartyListId } from './database/models';
+import { deniedPartyRepository } from './database/deniedPartyRepository';
+import { parseDeniedPartyList } from './deniedPartyListParser';
+
+const SETTINGS_STORAGE_KEY = 'denied-party-screening-settings';
+const DEFAULT_THRESHOLD = 0.88;
+
+// Name tokens need this similarity to make their entries candidates for scoring
+const TOKEN_CANDIDATE_SIMILARITY = 0.8;
+const MAX_MATCHES_PER_NAME = 3;
+
+export const DENIED_PARTY_LISTS: Record<DeniedPartyListId, string> = {
+  'ofac-sdn': 'OFAC Specially Designated Nationals (SDN) List',
+  'eu-consolidated': 'EU Consolidated Financial Sanctions List',
+  'uk-hmt': 'UK HM Treasury Consolidated List',
+  'bis-entity': 'BIS Entity List'
+};
+
+// Fields naming the parties to a shipment, with their display names
+const PARTY_FIELDS: [string, string][] = [
+  ['shipperName', 'Shipper Name'],
+  ['shipperCompany', 'Shipper Company'],
+  ['recipientName', 'Recipient Name'],
+  ['recipientCompany', 'Recipient Company'],
+  ['exporterName', 'Exporter Name'],
+  ['importerName', 'Importer Name']
+];
+
+// Legal forms and filler words, which say nothing about who a party is
+const IGNORED_NAME_TOKENS = new Set([
+  'the', 'of', 'and', 'co', 'company', 'corp', 'corporation', 'inc', 'incorporated', 'llc', 'llp', 'lp', 'ltd',
+  'limited', 'plc', 'gmbh', 'ag', 'kg', 'sa', 'sas', 'sarl', 'srl', 'spa', 'bv', 'nv', 'ab', 'as', 'oy', 'kft',
+  'sro', 'pte', 'pty', 'ooo', 'oao', 'zao', 'pao', 'jsc', 'cjsc', 'ojsc', 'pjsc', 'fze', 'fzc', 'fzco', 'fzllc'
+]);
+
+const SPECIAL_LETTERS: Record<string, string> = {
+  'ß': 'ss', 'æ': 'ae', 'œ': 'oe', 'ø': 'o', 'ł': 'l', 'đ': 'd', 'ð': 'd', 'þ': 'th', 'ı': 'i'
+};
+
+const CYRILLIC_LETTERS: Record<string, string> = {
+  'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'e', 'ж': 'zh', 'з': 'z', 'и': 'i',
+  'й': 'y', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r', 'с': 's', 'т': 't',
+  'у': 'u', 'ф': 'f', 'х': 'kh', 'ц': 'ts', 'ч': 'ch', 'ш': 'sh', 'щ': 'shch', 'ъ': '', 'ы': 'y', 'ь': '',
+  'э': 'e', 'ю': 'yu', 'я': 'ya', 'і': 'i', 'ї': 'yi', 'є': 'ye', 'ґ': 'g'
+};
+
+const GREEK_LETTERS: Record<string, string> = {
+  'α': 'a', 'β': 'v', 'γ': 'g', 'δ': 'd', 'ε': 'e', 'ζ': 'z', 'η': 'i', 'θ': 'th', 'ι': 'i', 'κ': 'k',
+  'λ': 'l', 'μ': 'm', 'ν': 'n', 'ξ': 'x', 'ο': 'o', 'π': 'p', 'ρ': 'r', 'σ': 's', 'ς': 's', 'τ': 't',
+  'υ': 'y', 'φ': 'f', 'χ': 'ch', 'ψ': 'ps', 'ω': 'o'
+};
+
+/**
+ * Write a name in plain Latin letters: accents are dropped and Cyrillic
+ * and Greek letters are transliterated, e.g. "Müller" to "muller" and
+ * "Газпром" to "gazprom"
+ */
+export const transliterateName = (name: string): string =>
+  name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split('')
+    .map(char => SPECIAL_LETTERS[char] ?? CYRILLIC_LETTERS[char] ?? GREEK_LETTERS[char] ?? char)
+    .join('');
+
+/**
+ * Reduce a name token to a spelling skeleton, so that common
+ * transliteration variants compare equal, e.g. "Mokhammed" and "Mohamed"
+ */
+const spellingSkeleton = (token: string): string =>
+  token
+    .replace(/dzh|dj/g, 'j')
+    .replace(/ph/g, 'f')
+    .replace(/kh/g, 'h')
+    .replace(/ck/g, 'k')
+    .replace(/ou/g, 'u')
+    .replace(/w/g, 'v')
+    .replace(/y/g, 'i')
+    .replace(/(.)\1+/g, '$1');
+
+/**
+ * Split a party name into comparable tokens, without legal forms
+ */
+export const tokenizePartyName = (name: string): string[] =>
+  transliterateName(name)
+    .replace(/['’`]/g, '')
+    .replace(/&/g, ' and ')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token !== '' && !IGNORED_NAME_TOKENS.has(token))
+    .map(spellingSkeleton);
+
+/**
+ * Jaro-Winkler similarity of two strings, from 0 to 1
+ */
+const jaroWinkler = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j <= Math.min(b.length - 1, i + window); j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = true;
+        bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+/**
+ * Share of one name's tokens found in another, weighted by token length
+ */
+const coverage = (from: string[], to: string[]): number => {
+  let weight = 0;
+  let matched = 0;
+  for (const token of from) {
+    weight += token.length;
+    matched += token.length * Math.max(...to.map(other => jaroWinkler(token, other)));
+  }
+  return weight > 0 ? matched / weight : 0;
+};
+
+/**
+ * Similarity of two tokenized names from 0 to 1, independent of word order
+ */
+const nameSimilarity = (a: string[], b: string[]): number =>
+  a.length === 0 || b.length === 0 ? 0 : (coverage(a, b) + coverage(b, a)) / 2;
+
+/**
+ * Similarity of two party names from 0 to 1, ignoring legal forms, word
+ * order and spelling variants, e.g. of the consignee on two documents
+ */
+export const comparePartyNames = (a: string, b: string): number =>
+  nameSimilarity(tokenizePartyName(a), tokenizePartyName(b));
+
+/**
+ * A list entry matching a screened name
+ */
+export interface DeniedPartyMatch {
+  party: DeniedParty;
+  listName: string;
+  matchedName: string; // The entry's name or alias that matched
+  score: number; // 0 to 1
+}
+
+interface IndexedName {
+  party: DeniedParty;
+  name: string;
+  tokens: string[];
+}
+
+/**
+ * Summary of an imported list
+ */
+export interface DeniedPartyListStatus {
+  list: DeniedPartyListId;
+  name: string;
+  entries: number;
+  importedAt?: string;
+}
+
+const loadThreshold = (): number => {
+  try {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(SETTINGS_STORAGE_KEY) : null;
+    const threshold = saved ? Number(JSON.parse(saved).threshold) : NaN;
+    return isNaN(threshold) ? DEFAULT_THRESHOLD : threshold;
+  } catch (error) {
+    console.error('Error loading denied party screening settings:', error);
+    return DEFAULT_THRESHOLD;
+  }
+};
+
+/**
+ * Service for screening the parties of a shipment against denied party
+ * lists imported from their published files.
+ *
+ * Names are compared after transliteration, without legal forms and in any
+ * word order; every alias of a list entry is compared as well. A match
+ * needs a similarity of at least the threshold, which is saved in the browser.
+ */
+class DeniedPartyScreeningService {
+  private names: IndexedName[] = [];
+  private postings = new Map<string, number[]>(); // Token to indexes into names
+  private tokensByInitial = new Map<string, string[]>();
+  private similarTokens = new Map<string, string[]>();
+  private loaded = false;
+  private loadFailed = false;
+  private loading: Promise<void> | null = null;
+  private threshold = loadThreshold();
+
+  getThreshold(): number {
+    return this.threshold;
+  }
+
+  /**
+   * Set the similarity a name needs to match a list entry, from 0.5 to 1
+   */
+  setThreshold(threshold: number): void {
+    this.threshold = Math.min(1, Math.max(0.5, threshold));
+    try {
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify({ threshold: this.threshold }));
+    } catch (error) {
+      console.error('Error saving denied party screening settings:', error);
+    }
+  }
+
+  /**
+   * Import a published list file. Lists are replaced as a whole; OFAC
+   * alternate name files add aliases to the SDN entries imported before.
+   * @throws Error when the file format is not recognised
+   */
+  async importList(content: string): Promise<{ list: DeniedPartyListId; format: string; imported: number }[]> {
+    const parsedLists = parseDeniedPartyList(content);
+    const importedAt = new Date().toISOString();
+    const summary: { list: DeniedPartyListId; format: string; imported: number }[] = [];
+
+    for (const parsed of parsedLists) {
+      if (parsed.mode === 'aliases') {
+        const aliases = new Map(parsed.parties.map(party => [party.sourceId, party.aliases || []]));
+        const updated = (await deniedPartyRepository.getPartiesByList(parsed.list))
+          .filter(party => aliases.has(party.sourceId))
+          .map(party => ({
+            ...party,
+            aliases: Array.from(new Set([...party.aliases, ...aliases.get(party.sourceId)!]))
+          }));
+        await deniedPartyRepository.saveParties(updated);
+        summary.push({ list: parsed.list, format: parsed.format, imported: updated.length });
+      } else {
+        const parties = parsed.parties.filter(party => party.sourceId && party.name);
+        await deniedPartyRepository.replaceList(parsed.list, parties.map(party => ({ ...party, importedAt })));
+        summary.push({ list: parsed.list, format: parsed.format, imported: parties.length });
+      }
+    }
+
+    this.loaded = false;
+    return summary;
+  }
+
+  /**
+   * Get the number of entries and the import date of each list
+   */
+  async getListStatus(): Promise<DeniedPartyListStatus[]> {
+    const lists = Object.keys(DENIED_PARTY_LISTS) as DeniedPartyListId[];
+    return Promise.all(lists.map(async list => {
+      try {
+        const [entries, first] = await Promise.all([
+          deniedPartyRepository.countByList(list),
+          deniedPartyRepository.getFirstOfList(list)
+        ]);
+        return { list, name: DENIED_PARTY_LISTS[list], entries, importedAt: first?.importedAt };
+      } catch (error) {
+        console.error(`Error reading denied party list ${list}:`, error);
+        return { list, name: DENIED_PARTY_LISTS[list], entries: 0 };
+      }
+    }));
+  }
+
+  /**
+   * Find the list entries matching a name, best match first
+   * @param threshold Similarity a match needs; the saved threshold by default
+   */
+  async screenName(name: string, threshold = this.threshold): Promise<DeniedPartyMatch[]> {
+    await this.ensureLoaded();
+
+    const tokens = tokenizePartyName(name);
+    if (tokens.join('').length < 3) {
+      return [];
+    }
+
+    const candidates = new Set<number>();
+    tokens.forEach(token => this.findSimilarTokens(token).forEach(similar => {
+      (this.postings.get(similar) || []).forEach(index => candidates.add(index));
+    }));
+
+    // Keep the best-matching name of each entry
+    const best = new Map<string, DeniedPartyMatch>();
+    candidates.forEach(index => {
+      const candidate = this.names[index];
+      const score = Math.round(nameSimilarity(tokens, candidate.tokens) * 100) / 100;
+      const current = best.get(candidate.party.id);
+      if (score >= threshold && (!current || score > current.score)) {
+        best.set(candidate.party.id, {
+          party: candidate.party,
+          listName: DENIED_PARTY_LISTS[candidate.party.list],
+          matchedName: candidate.name,
+          score
+        });
+      }
+    });
+
+    return Array.from(best.values()).sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Screen the shipper, recipient and other party names of a record. Each
+   * match is non-compliant; a record without matches gets one compliant
+   * result naming the lists it was screened against, and a record that
+   * could not be screened gets a warning.
+   * @param idPrefix - Prefix of the result IDs
+   */
+  async checkParties(fields: Record<string, string>, idPrefix: string): Promise<ComplianceResult[]> {
+    const parties = PARTY_FIELDS.filter(([key]) => fields[key] && fields[key].trim());
+    if (parties.length === 0) {
+      return [];
+    }
+
+    const results: ComplianceResult[] = [];
+    const notScreened = (reason: string): ComplianceResult => ({
+      id: `${idPrefix}-deniedParty`,
+      field: 'Denied Party Screening',
+      value: parties.map(([key]) => fields[key]).join(', '),
+      status: 'warning',
+      message: `Denied party screening not performed: ${reason}. Screen ${parties.map(([, displayName]) => displayName).join(', ')} before shipping.`
+    });
+
+    try {
+      await this.ensureLoaded();
+      if (this.loadFailed) {
+        return [notScreened('the imported lists failed to load')];
+      }
+      if (this.names.length === 0) {
+        return [notScreened('no lists imported')];
+      }
+
+      for (const [key, displayName] of parties) {
+        const matches = await this.screenName(fields[key]);
+        matches.slice(0, MAX_MATCHES_PER_NAME).forEach(match => {
+          const entry = match.party;
+          const alias = match.matchedName !== entry.name ? ` (alias of "${entry.name}")` : '';
+          const programs = entry.programs.length > 0 ? `, programs: ${entry.programs.join(', ')}` : '';
+          results.push({
+            id: `${idPrefix}-deniedParty-${key}-${entry.id}`,
+            field: displayName,
+            value: fields[key],
+            status: 'non-compliant',
+            message: `"${fields[key]}" matches "${match.matchedName}"${alias} on the ${match.listName} (entry ${entry.sourceId}${programs}) with ${Math.round(match.score * 100)}% similarity. Do not ship until the match is cleared.`
+          });
+        });
+      }
+
+      if (results.length === 0) {
+        const lists = Array.from(new Set(this.names.map(name => name.party.list))).map(list => DENIED_PARTY_LISTS[list]);
+        results.push({
+          id: `${idPrefix}-deniedParty`,
+          field: 'Denied Party Screening',
+          value: parties.map(([key]) => fields[key]).join(', '),
+          status: 'compliant',
+          message: `${parties.map(([, displayName]) => displayName).join(', ')} screened against the ${lists.join(', ')}: no matches at ${Math.round(this.threshold * 100)}% similarity.`
+        });
+      }
+    } catch (error) {
+      console.error('Error screening denied parties:', error);
+      return [notScreened('screening failed')];
+    }
+
+    return results;
+  }
+
+  /**
+   * Tokens of the lists similar to a name token. Tokens are compared within
+   * the same initial, since transliterations rarely change the first letter.
+   */
+  private findSimilarTokens(token: string): string[] {
+    const cached = this.similarTokens.get(token);
+    if (cached) {
+      return cached;
+    }
+
+    const similar = (this.tokensByInitial.get(token[0]) || [])
+      .filter(other => Math.abs(other.length - token.length) <= 3 && jaroWinkler(token, other) >= TOKEN_CANDIDATE_SIMILARITY);
+    this.similarTokens.set(token, similar);
+    return similar;
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const parties = await deniedPartyRepository.getAllParties();
+          this.buildIndex(parties);
+          this.loaded = true;
+          this.loadFailed = false;
+        } catch (error) {
+          console.error('Error loading denied party lists:', error);
+          this.loadFailed = true;
+        } finally {
+          this.loading = null;
+        }
+      })();
+    }
+
+    await this.loading;
+  }
+
+  private buildIndex(parties: DeniedParty[]): void {
+    this.names = [];
+    this.postings = new Map();
+    this.tokensByInitial = new Map();
+    this.similarTokens = new Map();
+
+    for (const party of parties) {
+      for (const name of [party.name, ...party.aliases]) {
+        const tokens = tokenizePartyName(name);
+        if (tokens.length === 0) continue;
+
+        const index = this.names.push({ party, name, tokens }) - 1;
+        new Set(tokens).forEach(token => {
+          const posting = this.postings.get(token);
+          if (posting) {
+            posting.push(index);
+          } else {
+            this.postings.set(token, [index]);
+            const sameInitial = this.tokensByInitial.get(token[0]);
+            if (sameInitial) {
+              sameInitial.push(token);
+            } else {
+              this.tokensByInitial.set(token[0], [token]);
+            }
+          }
+        });
+      }
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const deniedPartyScreeningService = new DeniedPartyScreeningService();
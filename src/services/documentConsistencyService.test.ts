@@ -0,0 +1,78 @@
+import { ConsistencyDocument, documentConsistencyService, parseWeightKg } from './documentConsistencyService';
+
+const document = (name: string, fields: Record<string, string>): ConsistencyDocument => ({
+  name,
+  data: {
+    id: name,
+    fields,
+    processingMetadata: { confidence: 1, source: 'manual', timestamp: '2024-05-01T00:00:00.000Z', warnings: [] }
+  }
+});
+
+describe('parseWeightKg', () => {
+  it.each([
+    ['12 kg', 12],
+    ['12kg', 12],
+    ['1,250 kg', 1250],
+    ['1 250 kgs', 1250],
+    ['1.234,5 kg', 1234.5],
+    ['1,5 kg', 1.5],
+    ['500 g', 0.5]
+  ])('reads %s', (value, expected) => {
+    expect(parseWeightKg(value)).toBeCloseTo(expected);
+  });
+
+  it('converts pounds and ounces', () => {
+    expect(parseWeightKg('12 lbs')).toBeCloseTo(5.443);
+    expect(parseWeightKg('1,234.5 lbs')).toBeCloseTo(559.96);
+    expect(parseWeightKg('16 oz')).toBeCloseTo(0.4536);
+  });
+
+  it('uses the unit field for bare numbers', () => {
+    expect(parseWeightKg('10', 'lb')).toBeCloseTo(4.536);
+    expect(parseWeightKg('10')).toBe(10);
+  });
+
+  it.each([
+    ['12 grams'],
+    ['approx. 12 kg'],
+    ['12 kg net'],
+    ['heavy']
+  ])('returns undefined for %p', value => {
+    expect(parseWeightKg(value)).toBeUndefined();
+  });
+});
+
+describe('documentConsistencyService.checkConsistency', () => {
+  it('needs at least two documents', () => {
+    expect(documentConsistencyService.checkConsistency([document('Commercial Invoice', { weight: '12 kg' })])).toEqual([]);
+  });
+
+  it('accepts weights within 3 percent in any unit', () => {
+    const [result] = documentConsistencyService.checkConsistency([
+      document('Commercial Invoice', { weight: '1,250 kg' }),
+      document('Packing List', { weight: '2,756 lbs' })
+    ]);
+
+    expect(result.status).toBe('compliant');
+  });
+
+  it('reports weights that differ', () => {
+    const [result] = documentConsistencyService.checkConsistency([
+      document('Commercial Invoice', { weight: '1,250 kg' }),
+      document('Air Waybill', { weight: '1.25 kg' })
+    ]);
+
+    expect(result).toMatchObject({ value: 'Weight', status: 'non-compliant' });
+    expect(result.message).toContain('1250 kg on the Commercial Invoice, 1.25 kg on the Air Waybill');
+  });
+
+  it('reports declared values in different currencies', () => {
+    const results = documentConsistencyService.checkConsistency([
+      document('Commercial Invoice', { declaredValue: '1.234,56 €' }),
+      document('Packing List', { declaredValue: 'USD 1,234.56' })
+    ]);
+
+    expect(results.map(result => [result.value, result.status])).toEqual([['Declared Value', 'warning']]);
+  });
+});
@@ -0,0 +1,251 @@
+import { ComplianceResult } from './types';
+import { FormattedData } from './formatConverterDb';
+import { comparePartyNames } from './deniedPartyScreeningService';
+import { currencyService, parseNumber } from './currencyService';
+
+/**
+ * One of the documents of a shipment, e.g. its commercial invoice, packing
+ * list, air waybill or label
+ */
+export interface ConsistencyDocument {
+  name: string; // Shown in findings, e.g. "Packing List (packing.png)"
+  data: FormattedData;
+}
+
+// Field of the compliance results reported by the consistency check
+export const DOCUMENT_CONSISTENCY_FIELD = 'Document Consistency';
+
+// Consignee names at least this similar are the same party; below the lower bound they are different parties
+const CONSIGNEE_SIMILARITY = 0.88;
+const CONSIGNEE_DIFFERENT = 0.7;
+
+// Scales of packing lists and carriers differ slightly, so allow 3 percent or 0.1 kg
+const weightsAgree = (a: number, b: number): boolean =>
+  Math.abs(a - b) <= Math.max(0.1, Math.max(a, b) * 0.03);
+
+// Declared amounts are rounded per line, so allow half a percent or 5 cents
+const amountsAgree = (a: number, b: number): boolean =>
+  Math.abs(a - b) <= Math.max(0.05, Math.max(a, b) * 0.005);
+
+const KILOGRAMS_PER_UNIT: Record<string, number> = {
+  kg: 1, kgs: 1, g: 0.001, lb: 0.45359237, lbs: 0.45359237, oz: 0.028349523
+};
+
+/**
+ * Read a weight in kilograms, e.g. 5.44 from "12 lbs" or 1250 from "1,250 kg"
+ * @param unit Unit of a bare number, from a separate weight unit field
+ * @returns The weight, or undefined when the value is not a number with an optional known unit
+ */
+export const parseWeightKg = (value: string, unit?: string): number | undefined => {
+  const match = value.trim().match(/^(\d[\d.,\s\u00a0\u202f'’]*?)\s*(kgs?|g|lbs?|oz)?$/i);
+  if (!match) {
+    return undefined;
+  }
+
+  const factor = KILOGRAMS_PER_UNIT[(match[2] || unit || 'kg').trim().toLowerCase()];
+  const weight = parseNumber(match[1]);
+  return factor === undefined || weight === undefined ? undefined : weight * factor;
+};
+
+const parseAmount = (value: string): number | undefined => {
+  const parsed = parseFloat(value.replace(/[^0-9.-]/g, ''));
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+const normalizeIdentifier = (value: string): string => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * Read the HS codes of a document at the six-digit level, which all
+ * countries share; national tariff digits beyond it may differ between
+ * the export and import declaration
+ */
+const parseHsCodes = (value: string): string[] =>
+  Array.from(new Set(
+    value
+      .split(/[,;\n]/)
+      .map(code => code.replace(/\D/g, '').slice(0, 6))
+      .filter(code => code.length >= 4)
+  ));
+
+const formatKg = (kilograms: number): string => `${Math.round(kilograms * 100) / 100} kg`;
+
+/**
+ * A value of a shared field as read from one document
+ */
+interface DocumentValue<T> {
+  document: string;
+  raw: string;
+  value: T;
+}
+
+/**
+ * Service for reconciling the fields several documents of one shipment
+ * share: consignee, weight, piece count, declared value, HS codes and
+ * tracking numbers. Documents that disagree are what get shipments held at
+ * customs, so every difference is reported.
+ */
+class DocumentConsistencyService {
+  /**
+   * Compare the shared fields of the documents of a shipment. Fields are
+   * only compared between documents that state them.
+   * @param documents Formatted data of each document of the shipment
+   * @returns One finding for each field the documents disagree on, or a
+   * single compliant result when they all agree
+   */
+  checkConsistency(documents: ConsistencyDocument[]): ComplianceResult[] {
+    if (documents.length < 2) {
+      return [];
+    }
+
+    const results: ComplianceResult[] = [];
+    const compared: string[] = [];
+    const id = `consistency-${Date.now()}`;
+    const addFinding = (label: string, status: ComplianceResult['status'], message: string) => {
+      results.push({ id: `${id}-${results.length}`, field: DOCUMENT_CONSISTENCY_FIELD, value: label, status, message });
+    };
+
+    // Consignee
+    const consignees = this.collect(documents, fields => fields.recipientName || fields.recipientCompany, name => name);
+    if (consignees.length > 1) {
+      compared.push('consignee');
+      const lowest = Math.min(...consignees.slice(1).map(other => comparePartyNames(consignees[0].value, other.value)));
+      if (lowest < CONSIGNEE_SIMILARITY) {
+        addFinding(
+          'Consignee',
+          lowest < CONSIGNEE_DIFFERENT ? 'non-compliant' : 'warning',
+          `${lowest < CONSIGNEE_DIFFERENT ? 'The consignee differs' : 'The consignee may differ'} between documents: ${this.describe(consignees)}. The consignee must be named the same on every document.`
+        );
+      }
+    }
+
+    const postalCodes = this.collect(documents, fields => fields.recipientPostalCode, normalizeIdentifier);
+    if (postalCodes.length > 1) {
+      compared.push('postal code');
+      if (new Set(postalCodes.map(code => code.value)).size > 1) {
+        addFinding('Recipient Postal Code', 'non-compliant', `The recipient postal code differs between documents: ${this.describe(postalCodes)}.`);
+      }
+    }
+
+    // Weight
+    const weights = this.collect(documents, fields => fields.weight, (raw, fields) => parseWeightKg(raw, fields.weightUnit));
+    if (weights.length > 1) {
+      compared.push('weight');
+      if (weights.some(weight => !weightsAgree(weight.value, weights[0].value))) {
+        addFinding(
+          'Weight',
+          'non-compliant',
+          `The weight differs between documents: ${weights.map(weight => `${formatKg(weight.value)} on the ${weight.document}`).join(', ')}. Weights must agree within 3 percent.`
+        );
+      }
+    }
+
+    // Piece count
+    const pieces = this.collect(documents, fields => fields.packageCount, raw => parseAmount(raw));
+    if (pieces.length > 1) {
+      compared.push('piece count');
+      if (new Set(pieces.map(count => count.value)).size > 1) {
+        addFinding('Piece Count', 'non-compliant', `The number of packages differs between documents: ${this.describe(pieces)}.`);
+      }
+    }
+
+    // Declared value, compared only between documents in the same currency
+    const values = this.collect(documents, fields => fields.declaredValue, (raw, fields) => {
+      const money = currencyService.parseMoney(raw, fields.declaredValueCurrency || fields.currency);
+      return money && { amount: money.amount, currency: money.currency || '' };
+    });
+    if (values.length > 1) {
+      compared.push('declared value');
+      const currencies = new Set(values.map(value => value.value.currency).filter(Boolean));
+      if (currencies.size > 1) {
+        addFinding(
+          'Declared Value',
+          'warning',
+          `The declared value is stated in different currencies: ${this.describe(values)}. Declare the value in the invoice currency on every document.`
+        );
+      } else if (values.some(value => !amountsAgree(value.value.amount, values[0].value.amount))) {
+        addFinding('Declared Value', 'non-compliant', `The declared value differs between documents: ${this.describe(values)}.`);
+      }
+    }
+
+    // HS codes
+    const hsCodes = this.collect(documents, fields => fields.hsTariffNumber, raw => {
+      const codes = parseHsCodes(raw);
+      return codes.length > 0 ? codes : undefined;
+    });
+    if (hsCodes.length > 1) {
+      compared.push('HS codes');
+      const first = hsCodes[0].value;
+      const differing = hsCodes.slice(1).filter(codes =>
+        codes.value.length !== first.length || codes.value.some(code => !first.includes(code)));
+      if (differing.length > 0) {
+        const overlap = differing.every(codes => codes.value.some(code => first.includes(code)));
+        addFinding(
+          'HS Code',
+          overlap ? 'warning' : 'non-compliant',
+          `The HS codes differ between documents: ${this.describe(hsCodes)}. Each item must be classified under the same six-digit HS code on every document.`
+        );
+      }
+    }
+
+    // Tracking and air waybill numbers
+    const identifiers = [
+      { key: 'trackingNumber', label: 'Tracking Number', name: 'tracking number' },
+      { key: 'airWaybill', label: 'Air Waybill Number', name: 'air waybill number' }
+    ];
+    for (const { key, label, name } of identifiers) {
+      const numbers = this.collect(documents, fields => fields[key], normalizeIdentifier);
+      if (numbers.length > 1) {
+        compared.push(`${name}s`);
+        if (new Set(numbers.map(number => number.value)).size > 1) {
+          addFinding(label, 'non-compliant', `The ${name} differs between documents: ${this.describe(numbers)}.`);
+        }
+      }
+    }
+
+    if (results.length === 0 && compared.length > 0) {
+      results.push({
+        id,
+        field: DOCUMENT_CONSISTENCY_FIELD,
+        value: `${documents.length} documents`,
+        status: 'compliant',
+        message: `The ${this.joinList(compared)} agree across the ${this.joinList(documents.map(document => document.name))}.`
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Read a field from every document that states it
+   * @param read Picks the raw value from the fields of a document
+   * @param parse Turns the raw value into a comparable value, undefined when it cannot be read
+   */
+  private collect<T>(
+    documents: ConsistencyDocument[],
+    read: (fields: Record<string, string>) => string | undefined,
+    parse: (raw: string, fields: Record<string, string>) => T | undefined
+  ): DocumentValue<T>[] {
+    const values: DocumentValue<T>[] = [];
+    for (const document of documents) {
+      const raw = (read(document.data.fields) || '').trim();
+      const value = raw ? parse(raw, document.data.fields) : undefined;
+      if (value !== undefined && value !== '') {
+        values.push({ document: document.name, raw, value });
+      }
+    }
+    return values;
+  }
+
+  private joinList(items: string[]): string {
+    return items.length > 1
+      ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`
+      : items[0];
+  }
+
+  private describe<T>(values: DocumentValue<T>[]): string {
+    return values.map(value => `"${value.raw}" on the ${value.document}`).join(', ');
+  }
+}
+
+// Create and export a singleton instance
+export const documentConsistencyService = new DocumentConsistencyService();
@@ -0,0 +1,86 @@
+import { exportControlService, parseEccn } from './exportControlService';
+
+// Serve the bundled control list and country chart from memory instead of IndexedDB
+jest.mock('./database/exportControlRepository', () => {
+  const { createExportControlCountry, createExportControlEntry } = jest.requireActual('./database/models');
+  const entries = jest.requireActual('./database/data/exportControlList.json').map(createExportControlEntry);
+  const countries = jest.requireActual('./database/data/exportControlCountries.json').map(createExportControlCountry);
+  return {
+    exportControlRepository: {
+      countEntries: async () => entries.length,
+      getEntry: async (regime: string, code: string) =>
+        entries.find((entry: { regime: string; code: string }) => entry.regime === regime && entry.code === code),
+      getCountry: async (countryCode: string) =>
+        countries.find((country: { countryCode: string }) => country.countryCode === countryCode)
+    }
+  };
+});
+
+describe('parseEccn', () => {
+  it.each([
+    ['5A002.a.1', '5A002', '.a.1'],
+    ['5a002.A.1', '5A002', '.a.1'],
+    ['5A002a1', '5A002', 'a1'],
+    ['ECCN: 3A001', '3A001', ''],
+    ['3A001 .b', '3A001', '.b']
+  ])('reads %s', (value, code, paragraphs) => {
+    expect(parseEccn(value)).toEqual({ code, paragraphs, isEar99: false });
+  });
+
+  it.each([['EAR99'], ['ear-99'], ['ECCN EAR99']])('reads %s as EAR99', value => {
+    expect(parseEccn(value)).toEqual({ code: 'EAR99', paragraphs: '', isEar99: true });
+  });
+
+  it.each([['5F002'], ['5A02'], ['5A002-a-1'], ['EAR98'], ['']])('rejects %p', value => {
+    expect(parseEccn(value)).toBeUndefined();
+  });
+});
+
+describe('exportControlService.checkExportControl', () => {
+  const check = async (fields: Record<string, string>, destination: string, origin = 'US') =>
+    (await exportControlService.checkExportControl(fields, destination, origin))[0];
+
+  it('needs no licence where no reason for control applies', async () => {
+    const result = await check({ eccn: '3A001.b' }, 'CA');
+    expect(result.status).toBe('compliant');
+    expect(result.message).toContain('(NLR)');
+  });
+
+  it('asks for a licence or licence exception where one applies', async () => {
+    expect((await check({ eccn: '5A002.a.1' }, 'CN')).status).toBe('warning');
+    expect((await check({ eccn: '5A002.a.1', licenseException: 'ENC' }, 'CN')).status).toBe('compliant');
+  });
+
+  it.each([['N/A'], ['none'], ['NLR'], ['-'], ['Not required']])('ignores the placeholder licence %p', async license => {
+    const result = await check({ eccn: '0A501', exportLicenseNumber: license }, 'CN');
+    expect(result.status).toBe('non-compliant');
+  });
+
+  it('asks to verify a licence declared for an embargoed destination', async () => {
+    const result = await check({ eccn: '5A002.a.1', exportLicenseNumber: 'D1234567' }, 'RU');
+    expect(result.status).toBe('warning');
+    expect(result.message).toContain('verify it was issued for this export');
+  });
+
+  it('requires a licence for EAR99 items to Cuba, Iran, North Korea and Syria', async () => {
+    expect((await check({ eccn: 'EAR99' }, 'IR')).status).toBe('non-compliant');
+    expect((await check({ eccn: 'EAR99', exportLicenseNumber: 'None' }, 'CU')).status).toBe('non-compliant');
+    expect((await check({ eccn: 'EAR99', exportLicenseNumber: 'D1234567' }, 'CU')).status).toBe('warning');
+    expect((await check({ eccn: 'EAR99' }, 'DE')).status).toBe('compliant');
+  });
+
+  it('checks exports from the EU under the Dual-Use Regulation', async () => {
+    expect((await check({ eccn: '5A002a1' }, 'FR', 'DE')).message).toContain('transfer within the EU');
+    expect((await check({ eccn: '5A002a1' }, 'CA', 'DE')).message).toContain('EU001');
+    expect((await check({ eccn: '5A002a1' }, 'CN', 'DE')).status).toBe('non-compliant');
+  });
+
+  it('warns about controllable goods without a classification', async () => {
+    const result = await check({ packageContents: 'GPS receivers' }, 'CN');
+    expect(result).toMatchObject({ field: 'ECCN', status: 'warning' });
+  });
+
+  it('rejects malformed codes', async () => {
+    expect((await check({ eccn: '5X002' }, 'CN')).status).toBe('non-compliant');
+  });
+});
@@ -0,0 +1,308 @@
+import { ComplianceResult } from './types';
+import { ExportControlCountry, ExportControlEntry, ExportControlRegime } from './database/models';
+import { exportControlRepository } from './database/exportControlRepository';
+import { exportControlLoader } from './database/exportControlLoader';
+import { countryService } from './countryService';
+
+/**
+ * Classification of a shipment read from its ECCN or EU dual-use code
+ */
+export interface ParsedEccn {
+  code: string; // Base code, e.g. "5A002", or "EAR99"
+  paragraphs: string; // Sub-paragraphs after the base code, e.g. ".a.1" or "a1"
+  isEar99: boolean;
+}
+
+// ECCN ("5A002.a.1") or EU dual-use code ("5A002a1"): category, product group, three digits, then paragraphs
+const ECCN_PATTERN = /^(\d[A-E]\d{3})((\.[a-z0-9]+)*|[a-z0-9]*)$/;
+
+// HS chapters of machinery, electrical and electronic equipment, instruments, aircraft and arms
+const CONTROLLABLE_HS_CHAPTERS = ['84', '85', '88', '90', '93'];
+
+// Licence field values that state no licence, e.g. "N/A" or "NLR"
+const NO_LICENSE_PATTERN = /^(n\/?a|none|nil|no|nlr|not (applicable|required)|tbd|pending|-+|0+)$/i;
+
+const CONTROLLABLE_GOODS_PATTERN = /\b(electronics?|electronic components?|computers?|laptops?|servers?|smartphones?|phones?|tablets?|routers?|modems?|encryption|cryptographic|software|semiconductors?|microchips?|chips?|integrated circuits?|drones?|cameras?|gps|radar|sensors?|machinery|machines?|machine tools?|cnc|lathes?)\b/i;
+
+/**
+ * Read the base code and paragraphs of an ECCN or EU dual-use code, e.g.
+ * "5A002" and ".a.1" from "5A002.a.1"
+ * @returns The parsed code, or undefined when the format is invalid
+ */
+export const parseEccn = (value: string): ParsedEccn | undefined => {
+  const compact = value.trim().replace(/^ECCN[\s:]*/i, '').replace(/\s+/g, '');
+  if (/^EAR-?99$/i.test(compact)) {
+    return { code: 'EAR99', paragraphs: '', isEar99: true };
+  }
+
+  const normalized = compact.slice(0, 5).toUpperCase() + compact.slice(5).toLowerCase();
+  const match = normalized.match(ECCN_PATTERN);
+  return match ? { code: match[1], paragraphs: match[2], isEar99: false } : undefined;
+};
+
+/**
+ * Service for screening the export control classification of a shipment:
+ * whether an ECCN or EU dual-use code is valid and whether exporting the
+ * item to the destination needs a licence
+ */
+class ExportControlService {
+  /**
+   * Check the ECCN of a record against the local control list and country
+   * chart. Exports from EU member states are checked under the EU Dual-Use
+   * Regulation, all others under the EAR. Electronics, encryption and
+   * machinery without a classification get a warning.
+   * @param fields Formatted shipment fields
+   * @param destinationCountry ISO code of the destination country
+   * @param exportCountry ISO code of the country the goods are exported from
+   */
+  async checkExportControl(
+    fields: Record<string, string>,
+    destinationCountry: string,
+    exportCountry?: string
+  ): Promise<ComplianceResult[]> {
+    const declared = (fields.eccn || '').trim();
+    const results: ComplianceResult[] = [];
+
+    if (!declared) {
+      const goods = this.describeControllableGoods(fields);
+      if (goods) {
+        results.push({
+          id: `export-control-${Date.now()}`,
+          field: 'ECCN',
+          value: goods,
+          status: 'warning',
+          message: `No ECCN or EU dual-use code is declared for ${goods} shipped abroad. Classify the goods, or declare EAR99 if they are not on the control list, to check whether an export licence is required.`
+        });
+      }
+      return results;
+    }
+
+    const eccn = parseEccn(declared);
+    if (!eccn) {
+      results.push({
+        id: `export-control-${Date.now()}`,
+        field: 'ECCN',
+        value: declared,
+        status: 'non-compliant',
+        message: `"${declared}" is not a valid ECCN or EU dual-use code. Use a code like 5A002.a.1 (EAR), 5A002a1 (EU) or EAR99.`
+      });
+      return results;
+    }
+
+    const destination = await this.getCountry(destinationCountry);
+    const destinationName = destination ? destination.countryName : destinationCountry;
+    const origin = exportCountry ? await this.getCountry(exportCountry) : undefined;
+    const regime: ExportControlRegime = origin && origin.countryGroups.includes('EU') ? 'EU' : 'EAR';
+    const license = [fields.exportLicenseNumber, fields.licenseException, fields.licenseNumber]
+      .map(candidate => (candidate || '').trim())
+      .find(candidate => candidate && !NO_LICENSE_PATTERN.test(candidate));
+    const value = `${declared} / ${destinationCountry}`;
+
+    if (eccn.isEar99) {
+      const required = regime === 'EAR' && destination?.licenseForEar99;
+      // Licences for embargoed destinations are rare, so a declared one is verified rather than trusted
+      results.push({
+        id: `export-control-${Date.now()}`,
+        field: 'ECCN',
+        value,
+        status: !required ? 'compliant' : license ? 'warning' : 'non-compliant',
+        message: required
+          ? `Items classified EAR99 need a licence for export to ${destinationName}, which is under embargo.${license ? ` The shipment declares licence ${license}; verify it was issued for this export before shipping.` : ''}`
+          : `EAR99 items are not on the control list and need no licence to ${destinationName}, unless the end user or end use is prohibited.`
+      });
+      return results;
+    }
+
+    const entry = await this.getEntry(regime, eccn.code);
+    if (!entry) {
+      results.push({
+        id: `export-control-${Date.now()}`,
+        field: 'ECCN',
+        value,
+        status: 'warning',
+        message: `${eccn.code} is not on the local ${regime === 'EU' ? 'EU dual-use' : 'Commerce Control'} list, so whether a licence is required to ${destinationName} could not be determined.`
+      });
+      return results;
+    }
+
+    results.push(regime === 'EU'
+      ? this.checkEuAuthorisation(entry, destination, destinationCountry, value, license)
+      : this.checkEarLicense(entry, destination, destinationCountry, value, license));
+    return results;
+  }
+
+  /**
+   * Decide whether an ECCN needs a licence to a destination under the EAR:
+   * when one of its reasons for control is marked for the country in the
+   * Commerce Country Chart, or the country is under embargo
+   */
+  private checkEarLicense(
+    entry: ExportControlEntry,
+    destination: ExportControlCountry | undefined,
+    destinationCountry: string,
+    value: string,
+    license: string | undefined
+  ): ComplianceResult {
+    const id = `export-control-${Date.now()}`;
+    const item = `${entry.code} (${entry.description})`;
+
+    if (!destination) {
+      return {
+        id,
+        field: 'ECCN',
+        value,
+        status: 'warning',
+        message: `${item} is controlled for ${entry.reasons.join(', ')}, but ${destinationCountry} is not in the local country chart. Check the Commerce Country Chart for a licence requirement.`
+      };
+    }
+
+    const reasons = entry.reasons.filter(reason => destination.controlledReasons.includes(reason));
+    if (reasons.length === 0 && !destination.licenseForAllListedItems) {
+      return {
+        id,
+        field: 'ECCN',
+        value,
+        status: 'compliant',
+        message: `No licence is required for ${item} to ${destination.countryName} (NLR): none of its reasons for control (${entry.reasons.join(', ')}) apply to the country.`
+      };
+    }
+
+    const why = destination.licenseForAllListedItems
+      ? `${destination.countryName} is under embargo or sanctions covering all listed items`
+      : `it is controlled for ${reasons.join(', ')} to ${destination.countryName}`;
+
+    if (license) {
+      return {
+        id,
+        field: 'ECCN',
+        value,
+        status: destination.licenseForAllListedItems ? 'warning' : 'compliant',
+        message: destination.licenseForAllListedItems
+          ? `${item} needs a licence because ${why}. The shipment declares licence ${license}; verify it was issued for this export before shipping.`
+          : `${item} needs a licence because ${why}. The shipment declares licence or licence exception ${license}.`
+      };
+    }
+
+    if (entry.licenseExceptions.length > 0 && !destination.licenseForAllListedItems) {
+      return {
+        id,
+        field: 'ECCN',
+        value,
+        status: 'warning',
+        message: `${item} needs a licence because ${why}, unless licence exception ${this.joinAlternatives(entry.licenseExceptions)} applies. Declare the licence or licence exception on the shipment.`
+      };
+    }
+
+    return {
+      id,
+      field: 'ECCN',
+      value,
+      status: 'non-compliant',
+      message: `${item} needs an export licence because ${why}. Shipment cannot proceed without a licence.`
+    };
+  }
+
+  /**
+   * Decide whether a dual-use item needs an authorisation under the EU
+   * Dual-Use Regulation: transfers within the EU do not, and exports to the
+   * countries of general authorisation EU001 are covered by it
+   */
+  private checkEuAuthorisation(
+    entry: ExportControlEntry,
+    destination: ExportControlCountry | undefined,
+    destinationCountry: string,
+    value: string,
+    license: string | undefined
+  ): ComplianceResult {
+    const id = `export-control-${Date.now()}`;
+    const item = `Dual-use item ${entry.code} (${entry.description})`;
+    const destinationName = destination ? destination.countryName : destinationCountry;
+
+    if (destination?.countryGroups.includes('EU')) {
+      return {
+        id,
+        field: 'ECCN',
+        value,
+        status: 'compliant',
+        message: `${item} needs no export authorisation for a transfer within the EU to ${destinationName}.`
+      };
+    }
+
+    if (license) {
+      return {
+        id,
+        field: 'ECCN',
+        value,
+        status: destination?.licenseForAllListedItems ? 'warning' : 'compliant',
+        message: destination?.licenseForAllListedItems
+          ? `${item} needs an export authorisation to ${destinationName}, which is under EU sanctions. The shipment declares authorisation ${license}; verify it was issued for this export before shipping.`
+          : `${item} needs an export authorisation to ${destinationName}. The shipment declares authorisation ${license}.`
+      };
+    }
+
+    if (destination?.countryGroups.includes('EU001') && entry.licenseExceptions.includes('EU001')) {
+      return {
+        id,
+        field: 'ECCN',
+        value,
+        status: 'compliant',
+        message: `${item} may be exported to ${destinationName} under Union general export authorisation EU001, which must be registered before first use.`
+      };
+    }
+
+    return {
+      id,
+      field: 'ECCN',
+      value,
+      status: 'non-compliant',
+      message: destination?.licenseForAllListedItems
+        ? `${item} may not be exported to ${destinationName}, which is under EU sanctions. Shipment cannot proceed without an authorisation.`
+        : `${item} needs an individual or global export authorisation to ${destinationName}. Shipment cannot proceed without an authorisation.`
+    };
+  }
+
+  /**
+   * Describe the goods of a record that are likely to be on a control list,
+   * e.g. electronics, encryption or machinery
+   * @returns The goods description or HS chapter, or undefined when none apply
+   */
+  private describeControllableGoods(fields: Record<string, string>): string | undefined {
+    const contents = fields.packageContents || '';
+    if (CONTROLLABLE_GOODS_PATTERN.test(contents)) {
+      return contents;
+    }
+
+    const hsCode = (fields.hsTariffNumber || '').replace(/\D/g, '');
+    const chapter = hsCode.slice(0, 2);
+    return CONTROLLABLE_HS_CHAPTERS.includes(chapter) ? `goods of HS chapter ${chapter}` : undefined;
+  }
+
+  private joinAlternatives(items: string[]): string {
+    return items.length > 1
+      ? `${items.slice(0, -1).join(', ')} or ${items[items.length - 1]}`
+      : items[0];
+  }
+
+  private async getEntry(regime: ExportControlRegime, code: string): Promise<ExportControlEntry | undefined> {
+    try {
+      await exportControlLoader.initializeControlList();
+      return await exportControlRepository.getEntry(regime, code);
+    } catch (error) {
+      console.error(`Error loading export control entry ${code}:`, error);
+      return undefined;
+    }
+  }
+
+  private async getCountry(countryCode: string): Promise<ExportControlCountry | undefined> {
+    try {
+      await exportControlLoader.initializeControlList();
+      return await exportControlRepository.getCountry(countryService.normalizeCode(countryCode));
+    } catch (error) {
+      console.error(`Error loading export control country ${countryCode}:`, error);
+      return undefined;
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const exportControlService = new ExportControlService();
@@ -0,0 +1,76 @@
+import { ExpressionError, ExpressionEvaluator } from './expressionEvaluator';
+
+describe('ExpressionEvaluator', () => {
+  const evaluator = new ExpressionEvaluator();
+
+  it('evaluates arithmetic with precedence', () => {
+    expect(evaluator.evaluate('2 + 3 * 4', {})).toBe(14);
+    expect(evaluator.evaluate('(2 + 3) * 4', {})).toBe(20);
+    expect(evaluator.evaluate('-value % 7', { value: '15' })).toBe(-1);
+  });
+
+  it('compares amounts with currencies and separators as numbers', () => {
+    expect(evaluator.test('declaredValue > 1000', { declaredValue: '$1,250.00' })).toBe(true);
+    expect(evaluator.test('declaredValue <= 2500', { declaredValue: '2,500 USD' })).toBe(true);
+    expect(evaluator.test('weight == 12', { weight: '12.0' })).toBe(true);
+  });
+
+  it('compares dates and strings', () => {
+    expect(evaluator.test("shipDate < '2024-06-01'", { shipDate: '2024-05-15' })).toBe(true);
+    expect(evaluator.test("date(shipDate) >= today()", { shipDate: '2000-01-01' })).toBe(false);
+    expect(evaluator.test("country == 'germany'", { country: ' Germany ' })).toBe(true);
+  });
+
+  it('supports logical operators as symbols and words', () => {
+    const context = { service: 'international', declaredValue: '50' };
+    expect(evaluator.test("service == 'international' && declaredValue > 10", context)).toBe(true);
+    expect(evaluator.test("service == 'domestic' or not (declaredValue > 100)", context)).toBe(true);
+    expect(evaluator.test('!isPresent(customsInfo)', context)).toBe(true);
+  });
+
+  it('supports the list and text operators', () => {
+    const context = { country: 'DE', contents: 'Lithium batteries', tags: ['fragile', 'gift'] };
+    expect(evaluator.test("country in ['DE', 'FR']", context)).toBe(true);
+    expect(evaluator.test("country not in ['US', 'CA']", context)).toBe(true);
+    expect(evaluator.test("contents contains 'lithium'", context)).toBe(true);
+    expect(evaluator.test("tags contains 'Gift'", context)).toBe(true);
+    expect(evaluator.test("contents startsWith 'lith' and contents endsWith 'IES'", context)).toBe(true);
+    expect(evaluator.test("contents matches '^lith.*ies$'", context)).toBe(true);
+  });
+
+  it('resolves dotted identifiers and treats missing ones as empty', () => {
+    expect(evaluator.evaluate('fields.weight', { fields: { weight: '2 kg' } })).toBe('2 kg');
+    expect(evaluator.evaluate('fields.height', { fields: {} })).toBeUndefined();
+    expect(evaluator.test("missing == ''", {})).toBe(true);
+  });
+
+  it('calls the built-in functions', () => {
+    expect(evaluator.evaluate("len(trim('  abc  '))", {})).toBe(3);
+    expect(evaluator.evaluate("upper(code) + lower('X')", { code: 'ab' })).toBe('ABx');
+    expect(evaluator.evaluate("number('1,234.5 EUR')", {})).toBe(1234.5);
+    expect(evaluator.test('isEmpty(value)', { value: '   ' })).toBe(true);
+  });
+
+  it('does not read keywords or functions from the object prototype', () => {
+    expect(evaluator.evaluate('constructor', {})).toBeUndefined();
+    expect(evaluator.evaluate('toString', { toString: 'own value' })).toBe('own value');
+    expect(() => evaluator.evaluate('constructor(1)', {})).toThrow("Unknown function 'constructor'");
+    expect(() => evaluator.evaluate('hasOwnProperty(value)', { value: 'x' })).toThrow(ExpressionError);
+  });
+
+  it('reports syntax errors with their position', () => {
+    expect(evaluator.validate("value == 'open")).toBe('Unterminated string literal (at position 9)');
+    expect(evaluator.validate('value >')).toBe('Unexpected end of expression (at position 7)');
+    expect(evaluator.validate('value # 2')).toBe("Unexpected character '#' (at position 6)");
+    expect(evaluator.validate("value in ['a', 'b']")).toBeNull();
+  });
+
+  it('rejects invalid regular expressions', () => {
+    expect(() => evaluator.test("value matches '('", { value: 'x' })).toThrow("Invalid regular expression '('");
+  });
+
+  it('lists the identifiers an expression uses', () => {
+    expect(evaluator.getIdentifiers("service == 'international' && isPresent(fields.customsInfo)"))
+      .toEqual(['service', 'fields.customsInfo']);
+  });
+});
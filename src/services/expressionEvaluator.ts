@@ -0,0 +1,573 @@
+/**
+ * Safe expression language used by custom constraints and rule conditions.
+ *
+ * Expressions are parsed by a small recursive-descent parser and evaluated
+ * against a plain context object, so rule authors never get access to
+ * `eval`, `Function` or any browser globals.
+ *
+ * Supported syntax:
+ *   - literals: 12.5, 'text', "text", true, false, null, ['a', 'b']
+ *   - identifiers resolved from the context: declaredValue, value
+ *   - arithmetic: + - * / %
+ *   - comparison: == != === !== < <= > >= (numeric / date aware, strings compared case-insensitively)
+ *   - logic: && || ! (or the words and, or, not)
+ *   - operators: in, not in, contains, matches, startsWith, endsWith
+ *   - functions: len, lower, upper, trim, number, isEmpty, isPresent, today, date
+ */
+
+export type ExpressionContext = Record<string, unknown>;
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'punctuation' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+type ExpressionNode =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'list'; items: ExpressionNode[] }
+  | { kind: 'call'; name: string; args: ExpressionNode[] }
+  | { kind: 'unary'; operator: string; operand: ExpressionNode }
+  | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode };
+
+/**
+ * Error raised when an expression cannot be parsed or evaluated
+ */
+export class ExpressionError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position !== undefined ? `${message} (at position ${position})` : message);
+    this.name = 'ExpressionError';
+  }
+}
+
+const MAX_EXPRESSION_LENGTH = 1000;
+const WORD_OPERATORS = ['and', 'or', 'not', 'in', 'contains', 'matches', 'startsWith', 'endsWith'];
+const SYMBOL_OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '+', '-', '*', '/', '%'];
+const LITERAL_KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null };
+
+const FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+  len: (value) => toText(value).length,
+  lower: (value) => toText(value).toLowerCase(),
+  upper: (value) => toText(value).toUpperCase(),
+  trim: (value) => toText(value).trim(),
+  number: (value) => toNumber(value) ?? NaN,
+  isEmpty: (value) => toText(value).trim() === '',
+  isPresent: (value) => toText(value).trim() !== '',
+  today: () => startOfDay(new Date()).getTime(),
+  date: (value) => toDate(value)?.getTime() ?? NaN
+};
+
+/**
+ * Convert any value to a display string
+ */
+const toText = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(toText).join(', ');
+  return String(value);
+};
+
+/**
+ * Parse a number, tolerating currency symbols, codes and thousands separators
+ */
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const text = toText(value).trim();
+  if (!text) return null;
+  const match = text.match(/^[^\d\-.]*?(-?[\d,]*\.?\d+)\s*[a-zA-Z$€£¥]*\.?$/);
+  if (!match) return null;
+  const parsed = parseFloat(match[1].replace(/,/g, ''));
+  return isNaN(parsed) ? null : parsed;
+};
+
+const startOfDay = (date: Date): Date => {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+};
+
+/**
+ * Parse an ISO-like date string (YYYY-MM-DD with optional time)
+ */
+const toDate = (value: unknown): Date | null => {
+  if (typeof value === 'number') return new Date(value);
+  const text = toText(value).trim();
+  if (!/^\d{4}-\d{2}-\d{2}/.test(text)) return null;
+  const parsed = new Date(text);
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+// Only own keys count, so "constructor" or "toString" are not read from the prototype
+const hasKey = (record: Record<string, unknown>, key: string): boolean =>
+  Object.prototype.hasOwnProperty.call(record, key);
+
+const isTruthy = (value: unknown): boolean => {
+  if (typeof value === 'string') return value.trim() !== '' && value.trim().toLowerCase() !== 'false';
+  return Boolean(value);
+};
+
+/**
+ * Split an expression into tokens
+ */
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const char = expression[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    // Numbers
+    if (/\d/.test(char) || (char === '.' && /\d/.test(expression[index + 1] || ''))) {
+      const match = expression.slice(index).match(/^\d*\.?\d+/);
+      tokens.push({ type: 'number', value: match![0], position: index });
+      index += match![0].length;
+      continue;
+    }
+
+    // Strings with single or double quotes
+    if (char === '"' || char === "'") {
+      let value = '';
+      let cursor = index + 1;
+      while (cursor < expression.length && expression[cursor] !== char) {
+        if (expression[cursor] === '\\' && cursor + 1 < expression.length) {
+          cursor++;
+        }
+        value += expression[cursor];
+        cursor++;
+      }
+      if (cursor >= expression.length) {
+        throw new ExpressionError('Unterminated string literal', index);
+      }
+      tokens.push({ type: 'string', value, position: index });
+      index = cursor + 1;
+      continue;
+    }
+
+    // Identifiers (allow dotted paths such as fields.weight)
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = expression.slice(index).match(/^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*/);
+      const word = match![0];
+      tokens.push({
+        type: WORD_OPERATORS.includes(word) ? 'operator' : 'identifier',
+        value: word,
+        position: index
+      });
+      index += word.length;
+      continue;
+    }
+
+    const start = index;
+    const symbol = SYMBOL_OPERATORS.find(op => expression.startsWith(op, start));
+    if (symbol) {
+      tokens.push({ type: 'operator', value: symbol, position: index });
+      index += symbol.length;
+      continue;
+    }
+
+    if ('()[],'.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, position: index });
+      index++;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${char}'`, index);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: expression.length });
+  return tokens;
+};
+
+/**
+ * Recursive-descent parser producing an expression tree
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw new ExpressionError(`Unexpected token '${next.value}'`, next.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private matchOperator(...operators: string[]): string | null {
+    const token = this.peek();
+    if (token.type === 'operator' && operators.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private expectPunctuation(value: string): void {
+    const token = this.next();
+    if (token.type !== 'punctuation' || token.value !== value) {
+      throw new ExpressionError(`Expected '${value}'`, token.position);
+    }
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.matchOperator('||', 'or')) {
+      left = { kind: 'binary', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.matchOperator('&&', 'and')) {
+      left = { kind: 'binary', operator: '&&', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.matchOperator('!', 'not')) {
+      return { kind: 'unary', operator: '!', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+
+    // "not in" is the only two-word operator
+    const token = this.peek();
+    const following = this.tokens[this.index + 1];
+    if (token.type === 'operator' && token.value === 'not' && following?.value === 'in') {
+      this.index += 2;
+      return { kind: 'binary', operator: 'not in', left, right: this.parseAdditive() };
+    }
+
+    const operator = this.matchOperator(
+      '===', '!==', '==', '!=', '<=', '>=', '<', '>',
+      'in', 'contains', 'matches', 'startsWith', 'endsWith'
+    );
+    if (operator) {
+      return { kind: 'binary', operator, left, right: this.parseAdditive() };
+    }
+    return left;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    let operator: string | null;
+    while ((operator = this.matchOperator('+', '-'))) {
+      left = { kind: 'binary', operator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    let operator: string | null;
+    while ((operator = this.matchOperator('*', '/', '%'))) {
+      left = { kind: 'binary', operator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.matchOperator('-')) {
+      return { kind: 'unary', operator: '-', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: parseFloat(token.value) };
+
+      case 'string':
+        return { kind: 'literal', value: token.value };
+
+      case 'identifier': {
+        if (hasKey(LITERAL_KEYWORDS, token.value)) {
+          return { kind: 'literal', value: LITERAL_KEYWORDS[token.value] };
+        }
+        const after = this.peek();
+        if (after.type === 'punctuation' && after.value === '(') {
+          if (!hasKey(FUNCTIONS, token.value)) {
+            throw new ExpressionError(`Unknown function '${token.value}'`, token.position);
+          }
+          this.index++;
+          const args = this.parseArguments(')');
+          return { kind: 'call', name: token.value, args };
+        }
+        return { kind: 'identifier', name: token.value };
+      }
+
+      case 'punctuation':
+        if (token.value === '(') {
+          const inner = this.parseOr();
+          this.expectPunctuation(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          return { kind: 'list', items: this.parseArguments(']') };
+        }
+        break;
+    }
+
+    throw new ExpressionError(
+      token.type === 'eof' ? 'Unexpected end of expression' : `Unexpected token '${token.value}'`,
+      token.position
+    );
+  }
+
+  private parseArguments(closing: string): ExpressionNode[] {
+    const args: ExpressionNode[] = [];
+    const first = this.peek();
+    if (first.type === 'punctuation' && first.value === closing) {
+      this.index++;
+      return args;
+    }
+
+    args.push(this.parseOr());
+    while (this.peek().type === 'punctuation' && this.peek().value === ',') {
+      this.index++;
+      args.push(this.parseOr());
+    }
+    this.expectPunctuation(closing);
+    return args;
+  }
+}
+
+/**
+ * Compare two values, numerically or by date when both sides allow it
+ */
+const compareValues = (left: unknown, right: unknown): number => {
+  const leftNumber = toNumber(left);
+  const rightNumber = toNumber(right);
+  if (leftNumber !== null && rightNumber !== null) {
+    return leftNumber - rightNumber;
+  }
+
+  const leftDate = toDate(left);
+  const rightDate = toDate(right);
+  if (leftDate && rightDate) {
+    return leftDate.getTime() - rightDate.getTime();
+  }
+
+  return toText(left).trim().toLowerCase().localeCompare(toText(right).trim().toLowerCase());
+};
+
+const valuesEqual = (left: unknown, right: unknown): boolean => {
+  if ((left === null || left === undefined || left === '') && (right === null || right === undefined || right === '')) {
+    return true;
+  }
+  if (typeof left === 'boolean' || typeof right === 'boolean') {
+    return isTruthy(left) === isTruthy(right);
+  }
+  return compareValues(left, right) === 0;
+};
+
+/**
+ * Evaluates expressions written in the rule expression language
+ */
+export class ExpressionEvaluator {
+  private cache = new Map<string, ExpressionNode>();
+
+  /**
+   * Parse an expression, caching the resulting tree
+   */
+  private parse(expression: string): ExpressionNode {
+    const cached = this.cache.get(expression);
+    if (cached) return cached;
+
+    if (expression.length > MAX_EXPRESSION_LENGTH) {
+      throw new ExpressionError(`Expression exceeds ${MAX_EXPRESSION_LENGTH} characters`);
+    }
+
+    const tree = new Parser(tokenize(expression)).parse();
+    this.cache.set(expression, tree);
+    return tree;
+  }
+
+  /**
+   * Evaluate an expression against a context and return the raw result
+   */
+  evaluate(expression: string, context: ExpressionContext): unknown {
+    return this.evaluateNode(this.parse(expression), context);
+  }
+
+  /**
+   * Evaluate an expression and coerce the result to a boolean
+   */
+  test(expression: string, context: ExpressionContext): boolean {
+    return isTruthy(this.evaluate(expression, context));
+  }
+
+  /**
+   * Check an expression for syntax errors; returns the error message or null
+   */
+  validate(expression: string): string | null {
+    try {
+      this.parse(expression);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * List the context identifiers referenced by an expression
+   */
+  getIdentifiers(expression: string): string[] {
+    const identifiers = new Set<string>();
+    const visit = (node: ExpressionNode): void => {
+      switch (node.kind) {
+        case 'identifier':
+          identifiers.add(node.name);
+          break;
+        case 'list':
+          node.items.forEach(visit);
+          break;
+        case 'call':
+          node.args.forEach(visit);
+          break;
+        case 'unary':
+          visit(node.operand);
+          break;
+        case 'binary':
+          visit(node.left);
+          visit(node.right);
+          break;
+      }
+    };
+    visit(this.parse(expression));
+    return Array.from(identifiers);
+  }
+
+  private resolveIdentifier(name: string, context: ExpressionContext): unknown {
+    let current: unknown = context;
+    for (const part of name.split('.')) {
+      if (current === null || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, part)) {
+        return undefined;
+      }
+      current = (current as Record<string, unknown>)[part];
+    }
+    return current;
+  }
+
+  private evaluateNode(node: ExpressionNode, context: ExpressionContext): unknown {
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
+
+      case 'identifier':
+        return this.resolveIdentifier(node.name, context);
+
+      case 'list':
+        return node.items.map(item => this.evaluateNode(item, context));
+
+      case 'call':
+        return FUNCTIONS[node.name](...node.args.map(arg => this.evaluateNode(arg, context)));
+
+      case 'unary': {
+        const operand = this.evaluateNode(node.operand, context);
+        return node.operator === '!' ? !isTruthy(operand) : -(toNumber(operand) ?? NaN);
+      }
+
+      case 'binary':
+        return this.evaluateBinary(node.operator, node.left, node.right, context);
+    }
+  }
+
+  private evaluateBinary(
+    operator: string,
+    leftNode: ExpressionNode,
+    rightNode: ExpressionNode,
+    context: ExpressionContext
+  ): unknown {
+    // Short-circuit logical operators
+    if (operator === '&&') {
+      return isTruthy(this.evaluateNode(leftNode, context)) && isTruthy(this.evaluateNode(rightNode, context));
+    }
+    if (operator === '||') {
+      return isTruthy(this.evaluateNode(leftNode, context)) || isTruthy(this.evaluateNode(rightNode, context));
+    }
+
+    const left = this.evaluateNode(leftNode, context);
+    const right = this.evaluateNode(rightNode, context);
+
+    switch (operator) {
+      case '==':
+      case '===':
+        return valuesEqual(left, right);
+      case '!=':
+      case '!==':
+        return !valuesEqual(left, right);
+      case '<':
+        return compareValues(left, right) < 0;
+      case '<=':
+        return compareValues(left, right) <= 0;
+      case '>':
+        return compareValues(left, right) > 0;
+      case '>=':
+        return compareValues(left, right) >= 0;
+      case 'in':
+      case 'not in': {
+        const found = Array.isArray(right)
+          ? right.some(item => valuesEqual(left, item))
+          : toText(right).toLowerCase().includes(toText(left).toLowerCase());
+        return operator === 'in' ? found : !found;
+      }
+      case 'contains':
+        return Array.isArray(left)
+          ? left.some(item => valuesEqual(item, right))
+          : toText(left).toLowerCase().includes(toText(right).toLowerCase());
+      case 'startsWith':
+        return toText(left).toLowerCase().startsWith(toText(right).toLowerCase());
+      case 'endsWith':
+        return toText(left).toLowerCase().endsWith(toText(right).toLowerCase());
+      case 'matches':
+        try {
+          return new RegExp(toText(right), 'i').test(toText(left));
+        } catch {
+          throw new ExpressionError(`Invalid regular expression '${toText(right)}'`);
+        }
+      case '+': {
+        const leftNumber = toNumber(left);
+        const rightNumber = toNumber(right);
+        return leftNumber !== null && rightNumber !== null ? leftNumber + rightNumber : toText(left) + toText(right);
+      }
+      case '-':
+        return (toNumber(left) ?? NaN) - (toNumber(right) ?? NaN);
+      case '*':
+        return (toNumber(left) ?? NaN) * (toNumber(right) ?? NaN);
+      case '/':
+        return (toNumber(left) ?? NaN) / (toNumber(right) ?? NaN);
+      case '%':
+        return (toNumber(left) ?? NaN) % (toNumber(right) ?? NaN);
+    }
+
+    throw new ExpressionError(`Unsupported operator '${operator}'`);
+  }
+}
+
+export const expressionEvaluator = new ExpressionEvaluator();
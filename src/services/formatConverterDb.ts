@@ -1,14 +1,24 @@
 import { v4 as uuidv4 } from 'uuid';
-import { ComplianceResult } from './types';
+import { ComplianceResult, OcrMetadata } from './types';
 import { ruleRepository } from './database/ruleRepository';
 import { ruleLoader } from './database/ruleLoader';
+import { constraintEvaluator } from './constraintEvaluator';
+import { ruleDependencyEngine } from './ruleDependencyEngine';
 import { 
   ComplianceRule, 
   ValidationConstraint,
+  RuleDependency,
+  RegionalRule,
   FieldType 
 } from './database/models';
-import axios from 'axios';
+import { z } from 'zod';
+import { llmClient } from './llm/llmClient';
 import { dataStandardizationService } from './dataStandardizationService';
+import { hsNomenclatureService } from './hsNomenclatureService';
+import { deniedPartyScreeningService } from './deniedPartyScreeningService';
+import { dangerousGoodsService } from './dangerousGoodsService';
+import { countryService } from './countryService';
+import { currencyService } from './currencyService';
 
 // Interface for the input data that can come from various sources
 export interface RawInputData {
@@ -19,6 +29,7 @@ export interface RawInputData {
     filename?: string;
     timestamp?: string;
     userId?: string;
+    ocr?: OcrMetadata; // Set when the text was read with on-device OCR
   };
 }
 
@@ -32,13 +43,18 @@ export interface FormattedData {
     source: string;
     timestamp: string;
     warnings: string[];
+    aiAssisted?: boolean; // False when produced in rules-only mode
+    localOnly?: boolean; // Read with on-device OCR; neither the text nor its fields are sent to the model provider
   };
 }
 
-// Gemini API configuration for text processing
-const API_KEY = 'your_api_key_here'; // Replace with environment variable in production
-const MODEL_NAME = 'gemini-2.0-flash-thinking-exp-01-21';
-const API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${MODEL_NAME}:generateContent`;
+// Extracted fields as returned by the model; scalar values are kept as strings and nulls dropped
+const extractedFieldsSchema = z.record(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+  .transform(fields => Object.fromEntries(
+    Object.entries(fields)
+      .filter(([, value]) => value !== null)
+      .map(([key, value]) => [key, String(value)])
+  ) as Record<string, string>);
 
 /**
  * Database-enabled version of the format converter
@@ -48,6 +64,7 @@ export class FormatConverterDb {
   private rules: ComplianceRule[] = [];
   private rulesByFieldKey: Record<string, ComplianceRule> = {};
   private constraints: Record<string, ValidationConstraint[]> = {};
+  private dependencies: RuleDependency[] = [];
   private initialized = false;
 
   /**
@@ -72,6 +89,9 @@ export class FormatConverterDb {
         this.constraints[rule.id] = await ruleRepository.getConstraintsByRuleId(rule.id);
       }
       
+      // Load conditional requirements between rules
+      this.dependencies = await ruleRepository.getActiveDependencies();
+      
       this.initialized = true;
       console.log(`Initialized format converter with ${this.rules.length} rules`);
     } catch (error) {
@@ -235,7 +255,37 @@ export class FormatConverterDb {
         fieldKey: 'hsTariffNumber', 
         displayName: 'HS Tariff Number',
         category: 'customs',
-        pattern: '^\\d{6,10}$'
+        pattern: '^\\d{4}(\\.?\\d{2}){1,3}$'
+      },
+      // Incoterms are checked by incotermsService, which also reads rule names such as "Free on Board"
+      { 
+        fieldKey: 'incoterm', 
+        displayName: 'Incoterm',
+        category: 'customs'
+      },
+      { 
+        fieldKey: 'eccn', 
+        displayName: 'ECCN',
+        category: 'customs',
+        pattern: '^(EAR-?99|\\d[A-Ea-e]\\d{3}[.a-z0-9]*)$'
+      },
+      { 
+        fieldKey: 'unNumber', 
+        displayName: 'UN Number',
+        category: 'customs',
+        pattern: '^(UN)?\\s?\\d{4}$'
+      },
+      { 
+        fieldKey: 'hazardClass', 
+        displayName: 'Hazard Class',
+        category: 'customs',
+        pattern: '^[1-9](\\.[1-6])?[A-S]?$'
+      },
+      { 
+        fieldKey: 'packingGroup', 
+        displayName: 'Packing Group',
+        category: 'customs',
+        pattern: '^(I{1,3}|[1-3])$'
       },
       // Account fields
       { 
@@ -263,7 +313,7 @@ export class FormatConverterDb {
           description: `Temporary validation rule for ${field.displayName}`,
           fieldType: this.determineFieldType(field.fieldKey),
           isRequired: false,
-          validationPattern: field.pattern,
+          validationPattern: field.pattern || '',
           validationMessage: `${field.displayName} format validation`,
           exampleValue: '',
           isActive: true,
@@ -293,22 +343,20 @@ export class FormatConverterDb {
   }
 
   /**
-   * Use Gemini LLM to transform unstructured text to structured data
+   * Use Gemini LLM to transform unstructured text to structured data.
+   * Falls back to regex extraction in rules-only mode.
    */
   async transformTextWithGemini(text: string): Promise<Record<string, string>> {
+    if (!llmClient.isAiEnabled()) {
+      return this.extractStructuredData(text);
+    }
     try {
       // Create the list of field specs for the prompt
       const fieldSpecList = this.rules.map(rule => 
         `- ${rule.fieldKey}: ${rule.description || rule.displayName}`
       ).join('\n');
       
-      // Prepare the request body for Gemini API
-      const requestBody = {
-        contents: [
-          {
-            parts: [
-              { 
-                text: `
+      const prompt = `
                 Extract structured information from the following logistics document text.
                 Return ONLY a JSON object with the following fields where available:
                 
@@ -320,42 +368,15 @@ export class FormatConverterDb {
                 """
                 
                 Respond ONLY with the JSON object containing extracted fields. Do not include explanations.
-                `
-              }
-            ]
-          }
-        ],
-        generationConfig: {
-          temperature: 0.1,
-          topP: 0.8,
-          topK: 40,
-          maxOutputTokens: 1024
-        }
-      };
+                `;
 
-      // Make the API request
-      const response = await axios.post(
-        API_URL, 
-        requestBody, 
-        { params: { key: API_KEY } }
-      );
-
-      // Extract JSON from response
-      const generatedText = response.data.candidates[0].content.parts[0].text || '';
-      const jsonMatch = generatedText.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/) || 
-                        generatedText.match(/\{[\s\S]*?\}/);
-      
-      if (jsonMatch && jsonMatch[1]) {
-        return JSON.parse(jsonMatch[1]);
-      }
-      
-      // Try parsing the entire text as JSON
-      try {
-        return JSON.parse(generatedText);
-      } catch (e) {
-        console.warn('Failed to parse Gemini response as JSON, falling back to regex extraction');
-        return this.extractStructuredData(text);
-      }
+      return await llmClient.generateJson(prompt, extractedFieldsSchema, {
+        label: 'formatConverter.transformText',
+        temperature: 0.1,
+        topP: 0.8,
+        topK: 40,
+        maxOutputTokens: 1024
+      });
     } catch (error) {
       console.error('Error transforming text with Gemini:', error);
       // Fallback to regex extraction
@@ -572,6 +593,8 @@ export class FormatConverterDb {
       'senderCountry': 'shipperCountry',
       'fromCountry': 'shipperCountry',
       'originCountry': 'shipperCountry',
+      'senderCompany': 'shipperCompany',
+      'fromCompany': 'shipperCompany',
       
       // Recipient mappings
       'to': 'recipientName',
@@ -592,6 +615,8 @@ export class FormatConverterDb {
       'toCountry': 'recipientCountry',
       'deliveryCountry': 'recipientCountry',
       'destinationCountry': 'recipientCountry',
+      'receiverCompany': 'recipientCompany',
+      'consigneeCompany': 'recipientCompany',
       
       // Package/shipment mappings
       'contents': 'packageContents',
@@ -629,10 +654,83 @@ export class FormatConverterDb {
       'grossWeight': 'weight',
       'netWeight': 'weight',
       'parcelWeight': 'weight',
+      'pieces': 'packageCount',
+      'pieceCount': 'packageCount',
+      'numberOfPieces': 'packageCount',
+      'numberOfPackages': 'packageCount',
+      'totalPackages': 'packageCount',
+      'packages': 'packageCount',
       'parcelDimensions': 'dimensions',
       'packageDimensions': 'dimensions',
       'size': 'dimensions',
-      'measurements': 'dimensions'
+      'measurements': 'dimensions',
+      
+      // Customs mappings
+      'hsCode': 'hsTariffNumber',
+      'hsTariffCode': 'hsTariffNumber',
+      'htsCode': 'hsTariffNumber',
+      'tariffCode': 'hsTariffNumber',
+      'commodityCode': 'hsTariffNumber',
+      'incoterms': 'incoterm',
+      'deliveryTerms': 'incoterm',
+      'tradeTerms': 'incoterm',
+      'termsOfDelivery': 'incoterm',
+      'eccnCode': 'eccn',
+      'exportControlClassification': 'eccn',
+      'exportControlClassificationNumber': 'eccn',
+      'exportClassification': 'eccn',
+      'dualUseCode': 'eccn',
+      
+      // Trader identifier mappings
+      'eori': 'eoriNumber',
+      'eoriNo': 'eoriNumber',
+      'vat': 'vatNumber',
+      'vatNo': 'vatNumber',
+      'vatId': 'vatNumber',
+      'vatRegistrationNumber': 'vatNumber',
+      'ioss': 'iossNumber',
+      'iossNo': 'iossNumber',
+      'iossId': 'iossNumber',
+      'abn': 'abnNumber',
+      'iec': 'iecCode',
+      'iecNumber': 'iecCode',
+      'importExportCode': 'iecCode',
+      'gstinNumber': 'gstin',
+      'gstNo': 'gstin',
+      'ein': 'einNumber',
+      'employerIdentificationNumber': 'einNumber',
+      'bn': 'businessNumber',
+      'craBusinessNumber': 'businessNumber',
+      
+      // Dangerous goods mappings
+      'un': 'unNumber',
+      'unNo': 'unNumber',
+      'unCode': 'unNumber',
+      'unId': 'unNumber',
+      'psn': 'properShippingName',
+      'shippingName': 'properShippingName',
+      'dgClass': 'hazardClass',
+      'dangerousGoodsClass': 'hazardClass',
+      'hazmatClass': 'hazardClass',
+      'imoClass': 'hazardClass',
+      'pg': 'packingGroup',
+      'lithiumBattery': 'lithiumBatterySection',
+      'batterySection': 'lithiumBatterySection',
+      'packingInstruction': 'lithiumBatterySection',
+      'flashpoint': 'flashPoint',
+      'hazmat': 'dangerousGoods',
+      'dg': 'dangerousGoods',
+      
+      // Shipment document mappings
+      'docStatus': 'documentationStatus',
+      'documentStatus': 'documentationStatus',
+      'missingDocs': 'missingDocuments',
+      'docsAttached': 'attachedDocuments',
+      'enclosures': 'attachedDocuments',
+      'invoiceNo': 'invoiceNumber',
+      'awb': 'airWaybill',
+      'awbNo': 'airWaybill',
+      'blNo': 'billOfLading'
     };
     
     // Copy fields to avoid modification during iteration
@@ -834,11 +932,23 @@ export class FormatConverterDb {
         // Handle vision model output - could be structured or unstructured
         if (typeof input.content === 'string') {
           rawText = input.content;
-          // Use Gemini LLM to transform unstructured text to structured data
-          fields = await this.transformTextWithGemini(input.content);
           
-          // Adjust confidence based on the quality of the extracted data
-          confidence = this.calculateConfidenceScore(fields, rawText);
+          if (input.metadata?.ocr) {
+            // OCR text is parsed locally; confidence is the OCR word confidence
+            fields = await this.extractStructuredData(input.content);
+            confidence = input.metadata.confidence ?? this.calculateConfidenceScore(fields, rawText);
+            
+            const { lowConfidenceWords } = input.metadata.ocr;
+            if (lowConfidenceWords.length > 0) {
+              warnings.push(`${lowConfidenceWords.length} word(s) recognized with low confidence: ${lowConfidenceWords.slice(0, 10).join(', ')}`);
+            }
+          } else {
+            // Use Gemini LLM to transform unstructured text to structured data
+            fields = await this.transformTextWithGemini(input.content);
+            
+            // Adjust confidence based on the quality of the extracted data
+            confidence = this.calculateConfidenceScore(fields, rawText);
+          }
         } else {
           fields = input.content;
         }
@@ -868,7 +978,7 @@ export class FormatConverterDb {
               // Add a note to the warnings if there are multiple data rows
               const lineCount = input.content.split(/\r?\n/).filter(line => line.trim().length > 0).length;
               if (lineCount > 2) {
-                warnings.push(`Found ${lineCount - 1} data rows in CSV. Only the first data row has been processed. For multi-record processing, please upload records separately.`);
+                warnings.push(`Found ${lineCount - 1} data rows in CSV. Only the first data row has been processed. Upload the file on the CSV tab to check every row as a batch.`);
               }
               
               // Calculate confidence based on CSV data quality
@@ -1032,7 +1142,9 @@ export class FormatConverterDb {
         confidence,
         source: input.source,
         timestamp: input.metadata?.timestamp || timestamp,
-        warnings
+        warnings,
+        aiAssisted: llmClient.isAiEnabled() && !input.metadata?.ocr,
+        localOnly: input.metadata?.ocr !== undefined
       }
     };
   }
@@ -1054,6 +1166,9 @@ export class FormatConverterDb {
         this.constraints[rule.id] = await ruleRepository.getConstraintsByRuleId(rule.id);
       }
       
+      // Load conditional requirements between rules
+      this.dependencies = await ruleRepository.getActiveDependencies();
+      
       console.log(`Refreshed rules: ${this.rules.length} rules loaded`);
     } catch (error) {
       console.error('Failed to refresh rules:', error);
@@ -1061,12 +1176,19 @@ export class FormatConverterDb {
   }
 
   /**
-   * Validate a field against its constraints
+   * Validate a field against its constraints.
+   * Returns one entry per violated constraint, or a single compliant entry.
    */
-  private validateField(fieldKey: string, value: string): { 
+  private validateField(
+    fieldKey: string,
+    value: string,
+    fields: Record<string, string> = {},
+    regionalOverrides: Record<string, RegionalRule> = {}
+  ): Array<{ 
     status: 'compliant' | 'non-compliant' | 'warning'; 
     message: string;
-  } {
+    constraintId?: string;
+  }> {
     // Try to find a rule for this field key (case insensitive if needed)
     let rule = this.rulesByFieldKey[fieldKey];
     
@@ -1117,75 +1239,137 @@ export class FormatConverterDb {
     }
     
     if (!rule) {
-      return { 
+      return [{ 
         status: 'warning', 
         message: `No validation rules found for field: ${fieldKey}` 
-      };
+      }];
     }
     
-    const ruleConstraints = this.constraints[rule.id] || [];
+    const regionalRule = regionalOverrides[rule.id];
+    let ruleConstraints = this.constraints[rule.id] || [];
+    
+    // A regional override replaces the rule's own pattern constraints
+    if (regionalRule) {
+      ruleConstraints = ruleConstraints.filter(
+        constraint => !['regex', 'pattern'].includes(constraint.type || constraint.constraintType)
+      );
+    }
     
     // No constraints means the field is automatically compliant
-    if (ruleConstraints.length === 0) {
-      return { 
+    if (ruleConstraints.length === 0 && !regionalRule) {
+      return [{ 
         status: 'compliant', 
         message: 'Field complies with basic requirements' 
-      };
+      }];
+    }
+    
+    const violations: Array<{
+      status: 'compliant' | 'non-compliant' | 'warning';
+      message: string;
+      constraintId?: string;
+    }> = constraintEvaluator.evaluate(rule, ruleConstraints, value, fields).map(violation => ({
+      status: violation.status,
+      message: violation.message,
+      constraintId: violation.constraintId
+    }));
+    
+    if (regionalRule) {
+      const regionalViolation = this.checkRegionalRule(regionalRule, value);
+      if (regionalViolation) {
+        violations.push(regionalViolation);
+      }
     }
     
-    // Check each constraint
-    for (const constraint of ruleConstraints) {
-      // Skip disabled constraints
-      if (!constraint.isEnabled) continue;
-      
-      switch (constraint.type) {
-        case 'regex':
-          if (constraint.pattern) {
-            const regex = new RegExp(constraint.pattern);
-            if (!regex.test(value)) {
-              return { 
-                status: constraint.severity as 'non-compliant' | 'warning', 
-                message: constraint.message || `Value does not match required pattern: ${constraint.pattern}` 
-              };
-            }
-          }
-          break;
-          
-        case 'length':
-          if (constraint.minLength !== undefined && value.length < constraint.minLength) {
-            return { 
-              status: constraint.severity as 'non-compliant' | 'warning', 
-              message: constraint.message || `Value length (${value.length}) is less than minimum required (${constraint.minLength})` 
-            };
-          }
-          if (constraint.maxLength !== undefined && value.length > constraint.maxLength) {
-            return { 
-              status: constraint.severity as 'non-compliant' | 'warning', 
-              message: constraint.message || `Value length (${value.length}) exceeds maximum allowed (${constraint.maxLength})` 
-            };
-          }
-          break;
-          
-        case 'required':
-          if (!value || value.trim() === '') {
-            return { 
-              status: constraint.severity as 'non-compliant' | 'warning', 
-              message: constraint.message || 'Value is required but missing' 
-            };
-          }
-          break;
-          
-        // Add more constraint types as needed
-      }
+    if (violations.length > 0) {
+      return violations;
     }
     
     // If all constraints pass, the field is compliant
-    return { 
+    return [{ 
       status: 'compliant', 
-      message: 'Field validated successfully against all constraints' 
+      message: regionalRule
+        ? `Field validated successfully, including ${regionalRule.countryCode} regional format`
+        : 'Field validated successfully against all constraints' 
+    }];
+  }
+
+  /**
+   * Check a value against a regional override pattern.
+   * Regional formats such as postal codes are matched case-insensitively.
+   */
+  private checkRegionalRule(regionalRule: RegionalRule, value: string): {
+    status: 'non-compliant' | 'warning';
+    message: string;
+    constraintId: string;
+  } | null {
+    if (!value || value.trim() === '' || !regionalRule.validationPattern) return null;
+    
+    const constraintId = `regional-${regionalRule.id}`;
+    try {
+      if (new RegExp(regionalRule.validationPattern, 'i').test(value.trim())) {
+        return null;
+      }
+    } catch (error) {
+      return {
+        status: 'warning',
+        message: `Regional rule for ${regionalRule.countryCode} has an invalid pattern: ${regionalRule.validationPattern}`,
+        constraintId
+      };
+    }
+    
+    return {
+      status: regionalRule.severity === 'warning' ? 'warning' : 'non-compliant',
+      message: regionalRule.validationMessage || `Value does not match the required format for ${regionalRule.countryCode}`,
+      constraintId
     };
   }
 
+  /**
+   * Load regional overrides for the shipment's destination and origin countries.
+   * Returns the applicable override per rule ID; region-specific overrides win over country-wide ones.
+   */
+  private async getRegionalOverrides(fields: Record<string, string>): Promise<Record<string, RegionalRule>> {
+    const overrides: Record<string, RegionalRule> = {};
+    const sides: Array<{ appliesTo: 'destination' | 'origin'; country?: string; region?: string }> = [
+      {
+        appliesTo: 'destination',
+        country: fields.recipientCountry || fields.destinationCountry,
+        region: fields.recipientState || fields.recipientProvince || fields.recipientRegion
+      },
+      {
+        appliesTo: 'origin',
+        country: fields.shipperCountry || fields.originCountry,
+        region: fields.shipperState || fields.shipperProvince || fields.shipperRegion
+      }
+    ];
+    
+    for (const side of sides) {
+      if (!side.country || !side.country.trim()) continue;
+      
+      const countryCode = countryService.normalizeCode(side.country);
+      let regionalRules: RegionalRule[] = [];
+      try {
+        regionalRules = await ruleRepository.getRegionalRulesByCountry(countryCode);
+      } catch (error) {
+        console.error(`Failed to load regional rules for ${countryCode}:`, error);
+        continue;
+      }
+      
+      for (const regionalRule of regionalRules) {
+        if (!regionalRule.isActive || (regionalRule.appliesTo || 'destination') !== side.appliesTo) continue;
+        if (regionalRule.regionCode &&
+            regionalRule.regionCode.toUpperCase() !== (side.region || '').trim().toUpperCase()) continue;
+        
+        const existing = overrides[regionalRule.ruleId];
+        if (!existing || (!existing.regionCode && regionalRule.regionCode)) {
+          overrides[regionalRule.ruleId] = regionalRule;
+        }
+      }
+    }
+    
+    return overrides;
+  }
+
   /**
    * Convert formatted data to compliance results
    */
@@ -1198,17 +1382,28 @@ export class FormatConverterDb {
     // Track validated fields to ensure we include compliant results
     const validatedFields = new Set<string>();
     
+    // Country-specific overrides for this shipment's destination and origin
+    const regionalOverrides = await this.getRegionalOverrides(fields);
+    
+    // Min/max constraints on amounts convert at the imported exchange rates
+    await currencyService.loadRates();
+    
     // Validate each field against its constraints
     for (const [key, value] of Object.entries(fields)) {
-      const validation = this.validateField(key, value);
+      const validations = this.validateField(key, value, fields, regionalOverrides);
       
-      results.push({
-        id: `${formattedData.id}-${key}`,
-        field: this.rulesByFieldKey[key]?.displayName || this.formatDisplayName(key),
-        value,
-        status: validation.status,
-        message: validation.message
-      });
+      // Report each violated constraint as its own result
+      for (const validation of validations) {
+        results.push({
+          id: validation.constraintId
+            ? `${formattedData.id}-${key}-${validation.constraintId}`
+            : `${formattedData.id}-${key}`,
+          field: this.rulesByFieldKey[key]?.displayName || this.formatDisplayName(key),
+          value,
+          status: validation.status,
+          message: validation.message
+        });
+      }
       
       validatedFields.add(key);
     }
@@ -1237,6 +1432,18 @@ export class FormatConverterDb {
       }
     }
     
+    // Check conditional requirements between rules
+    results.push(...ruleDependencyEngine.evaluate(formattedData.id, fields, this.dependencies, this.rules));
+    
+    // Check the HS code against the tariff nomenclature
+    results.push(...await hsNomenclatureService.checkTariffNumber(fields, formattedData.id));
+    
+    // Screen the parties against the denied party lists
+    results.push(...await deniedPartyScreeningService.checkParties(fields, formattedData.id));
+    
+    // Check the dangerous goods declaration for the mode of transport
+    results.push(...await dangerousGoodsService.checkDangerousGoods(fields, formattedData.id));
+    
     // Check for shipping-specific compliance issues
     this.checkShippingComplianceIssues(formattedData, results);
     
@@ -1323,18 +1530,19 @@ export class FormatConverterDb {
         keyword: string;
         message: string;
         severity: 'warning' | 'non-compliant';
+        dangerousGoods?: boolean; // Reported by UN number when the dangerous goods check covered the record
       }> = [
         // Warning level items
-        { keyword: 'lithium', message: 'Lithium batteries are restricted and require special handling/labeling.', severity: 'warning' },
-        { keyword: 'battery', message: 'Batteries may be restricted and require special handling/labeling.', severity: 'warning' },
+        { keyword: 'lithium', message: 'Lithium batteries are restricted and require special handling/labeling.', severity: 'warning', dangerousGoods: true },
+        { keyword: 'battery', message: 'Batteries may be restricted and require special handling/labeling.', severity: 'warning', dangerousGoods: true },
         { keyword: 'alcohol', message: 'Alcohol shipments require special licensing and may be prohibited in certain regions.', severity: 'warning' },
         { keyword: 'tobacco', message: 'Tobacco products are restricted and may be subject to additional taxes or be prohibited.', severity: 'warning' },
         { keyword: 'medicine', message: 'Medicine/pharmaceuticals may require prescription documentation and special permits.', severity: 'warning' },
         { keyword: 'pharmaceutical', message: 'Pharmaceuticals may require documentation and special permits.', severity: 'warning' },
         { keyword: 'prescription', message: 'Prescription medications may require documentation and special permits.', severity: 'warning' },
-        { keyword: 'flammable', message: 'Flammable materials require hazardous materials shipping procedures.', severity: 'warning' },
-        { keyword: 'chemical', message: 'Chemicals may require hazardous materials shipping procedures.', severity: 'warning' },
-        { keyword: 'aerosol', message: 'Aerosols may be restricted or prohibited due to pressurized containers.', severity: 'warning' },
+        { keyword: 'flammable', message: 'Flammable materials require hazardous materials shipping procedures.', severity: 'warning', dangerousGoods: true },
+        { keyword: 'chemical', message: 'Chemicals may require hazardous materials shipping procedures.', severity: 'warning', dangerousGoods: true },
+        { keyword: 'aerosol', message: 'Aerosols may be restricted or prohibited due to pressurized containers.', severity: 'warning', dangerousGoods: true },
         { keyword: 'perishable', message: 'Perishable goods require special handling and expedited shipping.', severity: 'warning' },
         
         // Non-compliant level items
@@ -1354,7 +1562,11 @@ export class FormatConverterDb {
         { keyword: 'explosive', message: 'Explosive materials are prohibited in standard shipping.', severity: 'non-compliant' }
       ];
       
+      const dangerousGoodsChecked = results.some(r => r.field === 'UN Number');
+      
       for (const item of restrictedItems) {
+        if (item.dangerousGoods && dangerousGoodsChecked) continue;
+        
         if (contentsLower.includes(item.keyword)) {
           if (!results.some(r => r.field === 'Restricted Item' && r.value.includes(item.keyword))) {
             results.push({
@@ -1374,7 +1586,7 @@ export class FormatConverterDb {
     const origin = fields.shipperCountry || fields.originCountry || '';
     
     if (destination) {
-      const destinationUpper = destination.toUpperCase();
+      const destinationCode = (countryService.resolve(destination) || countryService.findInText(destination)[0])?.alpha2;
       
       const restrictedDestinations = [
         { code: 'CU', name: 'Cuba', message: 'Shipping to Cuba is restricted due to trade embargoes.' },
@@ -1384,47 +1596,40 @@ export class FormatConverterDb {
         { code: 'RU', name: 'Russia', message: 'Shipping to Russia may be subject to restrictions and sanctions.' }
       ];
       
-      for (const restricted of restrictedDestinations) {
-        if (destinationUpper.includes(restricted.code) || destinationUpper.includes(restricted.name.toUpperCase())) {
-          if (!results.some(r => r.field === 'Destination Restriction')) {
-            results.push({
-              id: `${formattedData.id}-destination-${restricted.code}`,
-              field: 'Destination Restriction',
-              value: restricted.name,
-              status: 'non-compliant',
-              message: restricted.message
-            });
-            break;
-          }
-        }
+      const restricted = restrictedDestinations.find(candidate => candidate.code === destinationCode);
+      if (restricted && !results.some(r => r.field === 'Destination Restriction')) {
+        results.push({
+          id: `${formattedData.id}-destination-${restricted.code}`,
+          field: 'Destination Restriction',
+          value: restricted.name,
+          status: 'non-compliant',
+          message: restricted.message
+        });
       }
       
       // Check for route-specific restrictions
-      if (origin) {
-        const originUpper = origin.toUpperCase();
-        
+      if (origin && destinationCode) {
         // US embargo checks
-        if ((originUpper === 'US' || originUpper === 'USA' || originUpper.includes('UNITED STATES')) && 
-            (destinationUpper === 'CU' || destinationUpper === 'CUBA' || 
-             destinationUpper === 'IR' || destinationUpper === 'IRAN' || 
-             destinationUpper === 'KP' || destinationUpper.includes('KOREA') || 
-             destinationUpper === 'SY' || destinationUpper === 'SYRIA')) {
+        if (countryService.normalizeCode(origin) === 'US' && ['CU', 'IR', 'KP', 'SY'].includes(destinationCode)) {
+          const destinationName = countryService.getName(destinationCode);
           results.push({
-            id: `${formattedData.id}-usembargo-${destinationUpper}`,
+            id: `${formattedData.id}-usembargo-${destinationCode}`,
             field: 'US Export Restriction',
-            value: `${originUpper} to ${destinationUpper}`,
+            value: `United States to ${destinationName}`,
             status: 'non-compliant',
-            message: `Shipping from the United States to ${destinationUpper} is prohibited due to trade embargoes and sanctions.`
+            message: `Shipping from the United States to ${destinationName} is prohibited due to trade embargoes and sanctions.`
           });
         }
       }
     }
     
-    // 4. Check for international shipping without required customs documentation
-    if (this.isLikelyInternational(fields)) {
+    // 4. Check for international shipping without required customs documentation,
+    // which movements within the EU or EAEU do not need
+    const freeCirculation = countryService.getFreeCirculationBloc(origin, destination) !== undefined;
+    if (this.isLikelyInternational(fields) && !freeCirculation) {
       const customsFields = [
         { key: 'declaredValue', displayName: 'Declared Value' },
-        { key: 'harmonizedCode', displayName: 'Harmonized Code (HS)' },
+        { key: 'hsTariffNumber', displayName: 'Harmonized Code (HS)' },
         { key: 'customsContents', displayName: 'Customs Contents Description' }
       ];
       
@@ -1449,7 +1654,7 @@ export class FormatConverterDb {
   private isLikelyInternational(fields: Record<string, string>): boolean {
     // Check for different country codes in origin and destination
     if (fields.shipperCountry && fields.recipientCountry && 
-        fields.shipperCountry.toUpperCase() !== fields.recipientCountry.toUpperCase()) {
+        countryService.normalizeCode(fields.shipperCountry) !== countryService.normalizeCode(fields.recipientCountry)) {
       return true;
     }
     
@@ -1617,8 +1822,16 @@ export class FormatConverterDb {
       'shippingCost': 'Shipping Cost',
       'insuranceAmount': 'Insurance Amount',
       'declaredValue': 'Declared Value',
+      'incoterm': 'Incoterm',
+      'eccn': 'ECCN',
       'customsInfo': 'Customs Information',
       'dangerousGoods': 'Dangerous Goods',
+      'unNumber': 'UN Number',
+      'properShippingName': 'Proper Shipping Name',
+      'hazardClass': 'Hazard Class',
+      'packingGroup': 'Packing Group',
+      'lithiumBatterySection': 'Lithium Battery Section',
+      'flashPoint': 'Flash Point',
       'specialInstructions': 'Special Instructions'
     };
     
@@ -2197,16 +2410,18 @@ export class FormatConverterDb {
     if (!fields.shipperCountry && fields.shipperAddress) {
       // Check for common country patterns at end of address
       const countryMatch = fields.shipperAddress.match(/,\s*([A-Za-z\s]{2,})$/);
-      if (countryMatch && countryMatch[1]) {
-        fields.shipperCountry = countryMatch[1].trim();
+      const country = countryMatch ? countryService.resolve(countryMatch[1]) : undefined;
+      if (country) {
+        fields.shipperCountry = country.alpha2;
       }
     }
     
     if (!fields.recipientCountry && fields.recipientAddress) {
       // Check for common country patterns at end of address
       const countryMatch = fields.recipientAddress.match(/,\s*([A-Za-z\s]{2,})$/);
-      if (countryMatch && countryMatch[1]) {
-        fields.recipientCountry = countryMatch[1].trim();
+      const country = countryMatch ? countryService.resolve(countryMatch[1]) : undefined;
+      if (country) {
+        fields.recipientCountry = country.alpha2;
       }
     }
   }
@@ -2238,6 +2453,19 @@ export class FormatConverterDb {
       }
     }
     
+    // Split amounts written with their currency, e.g. "1.234,56 €", into the amount and currency code
+    const amountFields: [string, string][] = [['declaredValue', 'declaredValueCurrency'], ['declaredValueLocal', 'localCurrency']];
+    for (const [amountKey, currencyKey] of amountFields) {
+      if (!fields[amountKey] || /^\d+(\.\d+)?$/.test(fields[amountKey].trim())) continue;
+      const money = currencyService.parseMoney(fields[amountKey], fields[currencyKey]);
+      if (money) {
+        fields[amountKey] = String(money.amount);
+        if (money.currency && !fields[currencyKey]) {
+          fields[currencyKey] = money.currency;
+        }
+      }
+    }
+
     // Format postal/zip codes consistently
     if (fields.postalCode) {
       // US format: 12345-6789 or 12345
@@ -0,0 +1,202 @@
+import { z } from 'zod';
+import { HsNomenclatureEntry } from './database/models';
+import { hsNomenclatureService, tokenizeGoodsDescription, formatHsCode } from './hsNomenclatureService';
+import { llmClient } from './llm/llmClient';
+
+const DEFAULT_LIMIT = 3;
+const RERANK_CANDIDATES = 8;
+
+// Token weights within a candidate: its own keywords name the goods best,
+// the wording of the heading and chapter above it only hints at them
+const KEYWORD_WEIGHT = 2;
+const DESCRIPTION_WEIGHT = 1;
+const ANCESTOR_WEIGHT = 0.5;
+
+const rerankSchema = z.array(z.object({
+  code: z.coerce.string(),
+  confidence: z.coerce.number()
+}));
+
+/**
+ * A candidate HS code for a goods description
+ */
+export interface HsCodeSuggestion {
+  code: string; // Formatted code, e.g. "8471.30"
+  description: string; // Nomenclature text of the code
+  confidence: number; // 0 to 1
+  matchedKeywords: string[];
+}
+
+interface Candidate {
+  entry: HsNomenclatureEntry;
+  weights: Map<string, number>;
+  norm: number;
+  keywords: string[][];
+}
+
+/**
+ * Service for proposing HS codes from a goods description.
+ *
+ * Candidates are the most specific codes of the local nomenclature, ranked
+ * by TF-IDF similarity between the description and their nomenclature text,
+ * with a bonus when one of their keywords names the goods. The model can
+ * optionally re-rank the best candidates; it cannot add codes of its own.
+ */
+class HsClassifierService {
+  private candidates: Candidate[] = [];
+  private idf = new Map<string, number>();
+  private indexedEntries = 0;
+
+  /**
+   * Get the top candidate codes for a goods description
+   * @param options.limit Number of suggestions, 3 by default
+   * @param options.rerank Let the model re-rank the candidates when AI is enabled
+   */
+  async suggest(description: string, options: { limit?: number; rerank?: boolean } = {}): Promise<HsCodeSuggestion[]> {
+    const limit = options.limit || DEFAULT_LIMIT;
+
+    try {
+      await this.ensureIndex();
+
+      const tokens = tokenizeGoodsDescription(description).filter(token => this.idf.has(token));
+      if (tokens.length === 0) {
+        return [];
+      }
+
+      const ranked = this.rank(tokens);
+      if (options.rerank && llmClient.isAiEnabled() && ranked.length > 1) {
+        return (await this.rerank(description, ranked.slice(0, RERANK_CANDIDATES))).slice(0, limit);
+      }
+
+      return ranked.slice(0, limit);
+    } catch (error) {
+      console.error('Error suggesting HS codes:', error);
+      return [];
+    }
+  }
+
+  private rank(tokens: string[]): HsCodeSuggestion[] {
+    const queryWeights = new Map<string, number>();
+    tokens.forEach(token => queryWeights.set(token, (queryWeights.get(token) || 0) + this.idf.get(token)!));
+    const queryTokens = new Set(tokens);
+    const queryNorm = Math.sqrt(Array.from(queryWeights.values()).reduce((sum, weight) => sum + weight * weight, 0));
+
+    const suggestions: HsCodeSuggestion[] = [];
+    for (const candidate of this.candidates) {
+      let dot = 0;
+      queryWeights.forEach((weight, token) => {
+        dot += weight * (candidate.weights.get(token) || 0);
+      });
+      if (dot === 0) continue;
+
+      const matchedKeywords = candidate.keywords
+        .filter(keyword => keyword.every(token => queryTokens.has(token)))
+        .map(keyword => keyword.join(' '))
+        .filter((keyword, index, all) => all.indexOf(keyword) === index);
+      const similarity = dot / (queryNorm * candidate.norm);
+
+      suggestions.push({
+        code: formatHsCode(candidate.entry.code),
+        description: candidate.entry.description,
+        confidence: Math.round(Math.min(1, 0.6 * similarity + (matchedKeywords.length > 0 ? 0.4 : 0)) * 100) / 100,
+        matchedKeywords
+      });
+    }
+
+    return suggestions.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Ask the model to order the candidates; the local ranking is kept when the call fails
+   */
+  private async rerank(description: string, candidates: HsCodeSuggestion[]): Promise<HsCodeSuggestion[]> {
+    const prompt = `
+Classify the following goods in the Harmonized System.
+
+Goods description: "${description}"
+
+Candidate codes:
+${candidates.map(candidate => `- ${candidate.code}: ${candidate.description}`).join('\n')}
+
+Return a JSON array with every candidate code, best match first, each with your confidence between 0 and 1.
+Example: [{"code": "8471.30", "confidence": 0.9}]
+Only use the candidate codes listed above.
+`;
+
+    try {
+      const ranking = await llmClient.generateJson(prompt, rerankSchema, {
+        label: 'hs.rerank',
+        temperature: 0.1,
+        maxOutputTokens: 512
+      });
+
+      const reranked: HsCodeSuggestion[] = [];
+      for (const item of ranking) {
+        const candidate = candidates.find(c => c.code === formatHsCode(item.code));
+        if (candidate && !reranked.includes(candidate)) {
+          reranked.push({ ...candidate, confidence: Math.round(Math.min(1, Math.max(0, item.confidence)) * 100) / 100 });
+        }
+      }
+
+      // Keep candidates the model left out behind the ones it ranked
+      return [...reranked, ...candidates.filter(c => !reranked.some(r => r.code === c.code))];
+    } catch (error) {
+      console.error('Error re-ranking HS code suggestions:', error);
+      return candidates;
+    }
+  }
+
+  /**
+   * Build the candidate vectors from the nomenclature. Candidates are the
+   * subheadings and the headings without subheadings in the local list.
+   */
+  private async ensureIndex(): Promise<void> {
+    const entries = await hsNomenclatureService.getEntries();
+    if (entries.length === this.indexedEntries) {
+      return;
+    }
+
+    const byCode = new Map(entries.map(entry => [entry.code, entry]));
+    const parents = new Set(entries.map(entry => entry.parentCode));
+    const leaves = entries.filter(entry => entry.level !== 'chapter' && !parents.has(entry.code));
+
+    const termWeights = leaves.map(entry => {
+      const weights = new Map<string, number>();
+      const add = (text: string, weight: number) => tokenizeGoodsDescription(text).forEach(token => {
+        weights.set(token, Math.max(weights.get(token) || 0, weight));
+      });
+
+      entry.keywords.forEach(keyword => add(keyword, KEYWORD_WEIGHT));
+      add(entry.description, DESCRIPTION_WEIGHT);
+      for (let parent = byCode.get(entry.parentCode || ''); parent; parent = byCode.get(parent.parentCode || '')) {
+        parent.keywords.forEach(keyword => add(keyword, ANCESTOR_WEIGHT));
+        add(parent.description, ANCESTOR_WEIGHT);
+      }
+      return weights;
+    });
+
+    // Inverse document frequency over the candidates
+    const documentFrequency = new Map<string, number>();
+    termWeights.forEach(weights => weights.forEach((_, token) => {
+      documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+    }));
+    this.idf = new Map();
+    documentFrequency.forEach((count, token) => this.idf.set(token, Math.log(1 + leaves.length / count)));
+
+    this.candidates = leaves.map((entry, index) => {
+      const weights = new Map<string, number>();
+      termWeights[index].forEach((weight, token) => weights.set(token, weight * this.idf.get(token)!));
+      const norm = Math.sqrt(Array.from(weights.values()).reduce((sum, weight) => sum + weight * weight, 0));
+      return {
+        entry,
+        weights,
+        norm,
+        keywords: entry.keywords.map(keyword => tokenizeGoodsDescription(keyword)).filter(tokens => tokens.length > 0)
+      };
+    });
+    this.indexedEntries = entries.length;
+  }
+}
+
+// Create and export a singleton instance
+export const hsClassifierService = new HsClassifierService();
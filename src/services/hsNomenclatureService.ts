@@ -0,0 +1,301 @@
+import { ComplianceResult } from './types';
+import { HsNomenclatureEntry } from './database/models';
+import { hsNomenclatureRepository } from './database/hsNomenclatureRepository';
+import { hsNomenclatureLoader } from './database/hsNomenclatureLoader';
+
+// Words that say nothing about what the goods are
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into', 'is', 'it', 'its',
+  'not', 'of', 'on', 'or', 'other', 'than', 'that', 'the', 'their', 'thereof', 'this', 'to', 'whether',
+  'which', 'with', 'without', 'kind', 'new', 'used', 'set', 'sets', 'pcs', 'piece', 'pieces', 'pair',
+  'pairs', 'item', 'items', 'goods', 'sample', 'samples', 'gift', 'assorted', 'misc', 'various'
+]);
+
+/**
+ * Reduce an English word to its singular form, e.g. "batteries" to "battery"
+ */
+const singularize = (word: string): string => {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (/(sses|shes|ches|xes|zes)$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+};
+
+/**
+ * Split a goods description into lowercase, singular words without stopwords
+ * and numbers. Single-letter prefixes are kept, e.g. "tshirt" for "T-shirt".
+ */
+export const tokenizeGoodsDescription = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/'s\b/g, '')
+    .replace(/\b([a-z])-(?=[a-z])/g, '$1')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length >= 2 && !STOPWORDS.has(token) && !/^\d+$/.test(token))
+    .map(singularize);
+
+/**
+ * The last word of each item in a goods description, e.g. "laptop" and
+ * "charger" for "Dell laptop with charger". Words in front of it are mostly
+ * brands and materials, which appear in unrelated tariff descriptions.
+ */
+const headNouns = (text: string): string[] =>
+  text
+    .split(/[,;/&+()]|\b(?:and|with|or|plus)\b/i)
+    .map(part => tokenizeGoodsDescription(part))
+    .filter(tokens => tokens.length > 0)
+    .map(tokens => tokens[tokens.length - 1]);
+
+/**
+ * Get the digits of an HS code, e.g. "847130" for "8471.30"
+ */
+export const normalizeHsCode = (code: string): string => code.replace(/\D/g, '');
+
+/**
+ * Format HS code digits for display, e.g. "8471.30" for "84713000"
+ */
+export const formatHsCode = (code: string): string => {
+  const digits = normalizeHsCode(code);
+  return digits.length > 4 ? `${digits.slice(0, 4)}.${digits.slice(4, 6)}` : digits;
+};
+
+/**
+ * Outcome of looking up an HS code in the nomenclature
+ */
+export interface HsCodeLookup {
+  code: string; // The looked-up digits, at most 6
+  status: 'valid' | 'invalid' | 'unverified'; // Unverified when a level is missing from a partial list
+  entry?: HsNomenclatureEntry; // Most specific entry found
+  path: HsNomenclatureEntry[]; // Entries found, from the chapter down
+  message: string;
+}
+
+/**
+ * Service for validating HS codes against the local tariff nomenclature and
+ * for checking that the declared goods fit the description of the code
+ */
+class HsNomenclatureService {
+  private entries = new Map<string, HsNomenclatureEntry>();
+  private loading: Promise<void> | null = null;
+
+  /**
+   * Get all entries of the nomenclature
+   */
+  async getEntries(): Promise<HsNomenclatureEntry[]> {
+    await this.ensureLoaded();
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * Get an entry by its code
+   */
+  async getEntry(code: string): Promise<HsNomenclatureEntry | undefined> {
+    await this.ensureLoaded();
+    return this.entries.get(normalizeHsCode(code));
+  }
+
+  /**
+   * Look up an HS code down to subheading level. National tariff digits
+   * beyond the sixth are not part of the shared nomenclature and are ignored.
+   */
+  async lookup(code: string): Promise<HsCodeLookup> {
+    await this.ensureLoaded();
+
+    const digits = normalizeHsCode(code).slice(0, 6);
+    const path: HsNomenclatureEntry[] = [];
+
+    if (digits.length < 2 || digits.length % 2 !== 0) {
+      return { code: digits, status: 'invalid', path, message: `"${code}" is not a valid HS code` };
+    }
+
+    for (let length = 2; length <= digits.length; length += 2) {
+      const entry = this.entries.get(digits.slice(0, length));
+      const parent = path[path.length - 1];
+
+      if (!entry) {
+        const level = length === 2 ? 'Chapter' : length === 4 ? 'Heading' : 'Subheading';
+        const label = `${level} ${formatHsCode(digits.slice(0, length))}`;
+
+        if (!parent || parent.complete) {
+          return {
+            code: digits,
+            status: 'invalid',
+            entry: parent,
+            path,
+            message: parent
+              ? `${label} does not exist under ${formatHsCode(parent.code)} (${parent.description})`
+              : `${label} does not exist in the HS nomenclature`
+          };
+        }
+
+        return {
+          code: digits,
+          status: 'unverified',
+          entry: parent,
+          path,
+          message: `${label} is not in the local nomenclature; verify it against the national tariff`
+        };
+      }
+
+      path.push(entry);
+    }
+
+    const entry = path[path.length - 1];
+    return { code: digits, status: 'valid', entry, path, message: entry.description };
+  }
+
+  /**
+   * Check the HS code of a record: that it exists, is declared to at least
+   * six digits, and that its description fits the declared package contents
+   * @param idPrefix - Prefix of the result IDs
+   */
+  async checkTariffNumber(fields: Record<string, string>, idPrefix: string): Promise<ComplianceResult[]> {
+    const declaredCode = fields.hsTariffNumber || fields.hsCode;
+    if (!declaredCode) {
+      return [];
+    }
+
+    const results: ComplianceResult[] = [];
+
+    try {
+      const lookup = await this.lookup(declaredCode);
+      if (this.entries.size === 0) {
+        return results;
+      }
+
+      if (lookup.status === 'invalid') {
+        results.push({
+          id: `${idPrefix}-hsTariffNumber-nomenclature`,
+          field: 'HS Tariff Number',
+          value: declaredCode,
+          status: 'non-compliant',
+          message: `${lookup.message}.`
+        });
+        return results;
+      }
+
+      results.push({
+        id: `${idPrefix}-hsTariffNumber-nomenclature`,
+        field: 'HS Tariff Number',
+        value: declaredCode,
+        status: lookup.status === 'valid' && lookup.code.length === 6 ? 'compliant' : 'warning',
+        message: lookup.status === 'unverified'
+          ? `${lookup.message}.`
+          : lookup.code.length < 6
+            ? `${formatHsCode(lookup.code)} (${lookup.entry!.description}) must be declared to at least 6 digits.`
+            : `${formatHsCode(lookup.code)}: ${lookup.entry!.description}.`
+      });
+
+      if (fields.packageContents) {
+        results.push(this.checkDescription(lookup, fields.packageContents, declaredCode, idPrefix));
+      }
+    } catch (error) {
+      console.error('Error checking HS code against the nomenclature:', error);
+    }
+
+    return results;
+  }
+
+  /**
+   * Compare the declared goods with the code's subheading, then with its
+   * sibling subheadings (a likely better fit), then with its heading.
+   * Chapters only count when the heading is missing from the local list,
+   * since their wording is too broad to tell goods apart.
+   */
+  private checkDescription(
+    lookup: HsCodeLookup,
+    packageContents: string,
+    declaredCode: string,
+    idPrefix: string
+  ): ComplianceResult {
+    const goods = {
+      tokens: new Set(tokenizeGoodsDescription(packageContents)),
+      heads: headNouns(packageContents)
+    };
+    const [chapter, heading, subheading] = lookup.path;
+    const result = {
+      id: `${idPrefix}-hsTariffNumber-description`,
+      field: 'HS Code Description',
+      value: `${formatHsCode(lookup.code)} / ${packageContents}`
+    };
+
+    if (subheading && this.matchScore(subheading, goods) > 0) {
+      return { ...result, status: 'compliant', message: `Package contents fit ${formatHsCode(subheading.code)} (${subheading.description}).` };
+    }
+
+    if (subheading) {
+      // Prefer siblings named by a keyword over ones whose description merely mentions the goods
+      let sibling: HsNomenclatureEntry | undefined;
+      let siblingScore = 0;
+      this.entries.forEach(entry => {
+        if (entry.parentCode !== subheading.parentCode || entry.code === subheading.code) return;
+        const score = this.matchScore(entry, goods);
+        if (score > siblingScore) {
+          sibling = entry;
+          siblingScore = score;
+        }
+      });
+      if (sibling) {
+        return {
+          ...result,
+          status: 'warning',
+          message: `Package contents "${packageContents}" do not fit ${formatHsCode(subheading.code)} (${subheading.description}) and look like ${formatHsCode(sibling.code)} (${sibling.description}).`
+        };
+      }
+    }
+
+    const fallback = heading || chapter;
+    if (fallback && this.matchScore(fallback, goods) > 0) {
+      return { ...result, status: 'compliant', message: `Package contents fit ${formatHsCode(fallback.code)} (${fallback.description}).` };
+    }
+
+    const declared = lookup.entry!;
+    return {
+      ...result,
+      status: 'warning',
+      message: `Package contents "${packageContents}" do not match the description of HS ${formatHsCode(declaredCode)} (${declared.description}). Verify the classification.`
+    };
+  }
+
+  /**
+   * How well the goods fit an entry: 2 when they are named by one of its
+   * keywords, 1 when its description mentions one of the goods, 0 otherwise
+   */
+  private matchScore(entry: HsNomenclatureEntry, goods: { tokens: Set<string>; heads: string[] }): number {
+    const keywordMatch = entry.keywords.some(keyword => {
+      const keywordTokens = tokenizeGoodsDescription(keyword);
+      return keywordTokens.length > 0 && keywordTokens.every(token => goods.tokens.has(token));
+    });
+    if (keywordMatch) {
+      return 2;
+    }
+
+    const descriptionTokens = new Set(tokenizeGoodsDescription(entry.description));
+    return goods.heads.some(head => descriptionTokens.has(head)) ? 1 : 0;
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (this.entries.size > 0) {
+      return;
+    }
+
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          await hsNomenclatureLoader.initializeNomenclature();
+          const entries = await hsNomenclatureRepository.getAllEntries();
+          this.entries = new Map(entries.map(entry => [entry.code, entry]));
+        } catch (error) {
+          console.error('Error loading HS nomenclature:', error);
+        } finally {
+          this.loading = null;
+        }
+      })();
+    }
+
+    await this.loading;
+  }
+}
+
+// Create and export a singleton instance
+export const hsNomenclatureService = new HsNomenclatureService();
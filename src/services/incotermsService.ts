@@ -0,0 +1,214 @@
+import { ComplianceResult } from './types';
+
+export type IncotermParty = 'seller' | 'buyer';
+
+export type TransportMode = 'sea' | 'air' | 'road' | 'rail' | 'courier';
+
+/**
+ * An Incoterms 2020 rule and the costs and formalities it assigns
+ */
+export interface IncotermDefinition {
+  code: string;
+  name: string;
+  seaOnly: boolean; // Sea and inland waterway transport only
+  carriagePaidBy: IncotermParty; // Main carriage to the destination
+  sellerInsures: boolean; // Seller must insure the goods in transit
+  exportClearanceBy: IncotermParty;
+  dutiesPaidBy: IncotermParty; // Import clearance, duty and import VAT
+  riskTransfer: string; // Where the risk passes to the buyer
+}
+
+export const INCOTERMS: IncotermDefinition[] = [
+  { code: 'EXW', name: 'Ex Works', seaOnly: false, carriagePaidBy: 'buyer', sellerInsures: false, exportClearanceBy: 'buyer', dutiesPaidBy: 'buyer', riskTransfer: 'when the goods are made available at the seller\'s premises' },
+  { code: 'FCA', name: 'Free Carrier', seaOnly: false, carriagePaidBy: 'buyer', sellerInsures: false, exportClearanceBy: 'seller', dutiesPaidBy: 'buyer', riskTransfer: 'when the goods are handed to the buyer\'s carrier' },
+  { code: 'CPT', name: 'Carriage Paid To', seaOnly: false, carriagePaidBy: 'seller', sellerInsures: false, exportClearanceBy: 'seller', dutiesPaidBy: 'buyer', riskTransfer: 'when the goods are handed to the first carrier' },
+  { code: 'CIP', name: 'Carriage and Insurance Paid To', seaOnly: false, carriagePaidBy: 'seller', sellerInsures: true, exportClearanceBy: 'seller', dutiesPaidBy: 'buyer', riskTransfer: 'when the goods are handed to the first carrier' },
+  { code: 'DAP', name: 'Delivered at Place', seaOnly: false, carriagePaidBy: 'seller', sellerInsures: false, exportClearanceBy: 'seller', dutiesPaidBy: 'buyer', riskTransfer: 'when the goods arrive at the named place, ready for unloading' },
+  { code: 'DPU', name: 'Delivered at Place Unloaded', seaOnly: false, carriagePaidBy: 'seller', sellerInsures: false, exportClearanceBy: 'seller', dutiesPaidBy: 'buyer', riskTransfer: 'when the goods are unloaded at the named place' },
+  { code: 'DDP', name: 'Delivered Duty Paid', seaOnly: false, carriagePaidBy: 'seller', sellerInsures: false, exportClearanceBy: 'seller', dutiesPaidBy: 'seller', riskTransfer: 'when the goods arrive at the named place, cleared for import' },
+  { code: 'FAS', name: 'Free Alongside Ship', seaOnly: true, carriagePaidBy: 'buyer', sellerInsures: false, exportClearanceBy: 'seller', dutiesPaidBy: 'buyer', riskTransfer: 'when the goods are placed alongside the vessel at the port of shipment' },
+  { code: 'FOB', name: 'Free on Board', seaOnly: true, carriagePaidBy: 'buyer', sellerInsures: false, exportClearanceBy: 'seller', dutiesPaidBy: 'buyer', riskTransfer: 'when the goods are on board the vessel at the port of shipment' },
+  { code: 'CFR', name: 'Cost and Freight', seaOnly: true, carriagePaidBy: 'seller', sellerInsures: false, exportClearanceBy: 'seller', dutiesPaidBy: 'buyer', riskTransfer: 'when the goods are on board the vessel at the port of shipment' },
+  { code: 'CIF', name: 'Cost, Insurance and Freight', seaOnly: true, carriagePaidBy: 'seller', sellerInsures: true, exportClearanceBy: 'seller', dutiesPaidBy: 'buyer', riskTransfer: 'when the goods are on board the vessel at the port of shipment' }
+];
+
+// Terms dropped from earlier editions and the Incoterms 2020 rule replacing them
+const LEGACY_INCOTERMS: Record<string, string> = {
+  DAT: 'DPU',
+  DDU: 'DAP',
+  DAF: 'DAP',
+  DES: 'DAP',
+  DEQ: 'DPU'
+};
+
+// Rules for any mode of transport that split costs like a sea-only rule
+const SEA_ONLY_ALTERNATIVES: Record<string, string> = {
+  FAS: 'FCA',
+  FOB: 'FCA',
+  CFR: 'CPT',
+  CIF: 'CIP'
+};
+
+const TRANSPORT_MODE_PATTERNS: [TransportMode, RegExp][] = [
+  ['sea', /\b(ocean|sea|vessel|maritime|barge|inland waterway)\b/i],
+  ['air', /\bair\b/i],
+  ['rail', /\b(rail|train)\b/i],
+  ['road', /\b(road|truck|lorry|ltl|ftl|ground)\b/i],
+  ['courier', /\b(courier|express|postal|post|parcel)\b/i]
+];
+
+/**
+ * Read the rule code from an incoterm field, e.g. "FOB" from
+ * "FOB Shanghai Incoterms 2020" or "Free on Board"
+ * @returns The upper-case code, which may be a legacy or unknown term
+ */
+export const parseIncotermCode = (value: string): string | undefined => {
+  const tokens = value.toUpperCase().match(/\b[A-Z]{3}\b/g) || [];
+  const known = tokens.find(token => INCOTERMS.some(term => term.code === token) || LEGACY_INCOTERMS[token]);
+  if (known) {
+    return known;
+  }
+
+  // Longest names first, so "Delivered at Place Unloaded" is not read as "Delivered at Place"
+  const named = [...INCOTERMS]
+    .sort((a, b) => b.name.length - a.name.length)
+    .find(term => value.toLowerCase().includes(term.name.toLowerCase()));
+  return named ? named.code : tokens[0];
+};
+
+/**
+ * Find the Incoterms 2020 rule of an incoterm field. Legacy terms resolve to
+ * the rule that replaced them.
+ */
+export const getIncoterm = (value: string | undefined): IncotermDefinition | undefined => {
+  const code = value ? parseIncotermCode(value) : undefined;
+  if (!code) {
+    return undefined;
+  }
+
+  const current = LEGACY_INCOTERMS[code] || code;
+  return INCOTERMS.find(term => term.code === current);
+};
+
+/**
+ * Tell the mode of transport from a service or transport mode field,
+ * e.g. "sea" for "Ocean Freight"
+ */
+export const detectTransportMode = (value: string | undefined): TransportMode | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  const match = TRANSPORT_MODE_PATTERNS.find(([, pattern]) => pattern.test(value));
+  return match ? match[0] : undefined;
+};
+
+/**
+ * Service for validating the Incoterms of a shipment and for describing who
+ * pays for carriage, insurance, duty and import VAT under them
+ */
+class IncotermsService {
+  /**
+   * Check the incoterm of a record: that it is an Incoterms 2020 rule and
+   * that a sea-only rule is not used for another mode of transport. Valid
+   * terms also get a summary of the seller's and buyer's obligations.
+   * @param fields Formatted shipment fields
+   */
+  checkIncoterm(fields: Record<string, string>): ComplianceResult[] {
+    const declared = (fields.incoterm || fields.incoterms || '').trim();
+    if (!declared) {
+      return [];
+    }
+
+    const results: ComplianceResult[] = [];
+    const code = parseIncotermCode(declared);
+    const incoterm = getIncoterm(declared);
+
+    if (!incoterm) {
+      results.push({
+        id: `incoterm-${Date.now()}`,
+        field: 'Incoterm',
+        value: declared,
+        status: 'non-compliant',
+        message: `"${declared}" is not an Incoterms 2020 rule. Use one of ${INCOTERMS.map(term => term.code).join(', ')}.`
+      });
+      return results;
+    }
+
+    const transportField = fields.transportMode || fields.modeOfTransport || fields.shippingService;
+    const transportMode = detectTransportMode(transportField);
+
+    if (code !== incoterm.code) {
+      results.push({
+        id: `incoterm-${Date.now()}`,
+        field: 'Incoterm',
+        value: declared,
+        status: 'warning',
+        message: `${code} is not part of Incoterms 2020; it was replaced by ${incoterm.code} (${incoterm.name}).`
+      });
+    } else if (incoterm.seaOnly && transportMode && transportMode !== 'sea') {
+      const alternative = SEA_ONLY_ALTERNATIVES[incoterm.code];
+      results.push({
+        id: `incoterm-${Date.now()}`,
+        field: 'Incoterm',
+        value: `${incoterm.code} / ${transportField}`,
+        status: 'warning',
+        message: `${incoterm.code} (${incoterm.name}) is for sea and inland waterway transport only, but the goods are shipped by ${transportField}. Use ${alternative} (${this.getName(alternative)}) instead.`
+      });
+    } else {
+      results.push({
+        id: `incoterm-${Date.now()}`,
+        field: 'Incoterm',
+        value: declared,
+        status: 'compliant',
+        message: `${incoterm.code} (${incoterm.name}) is a valid Incoterms 2020 rule${transportMode ? ` for ${transportField}` : ''}.`
+      });
+    }
+
+    results.push({
+      id: `incoterm-responsibilities-${Date.now()}`,
+      field: 'Incoterm Responsibilities',
+      value: incoterm.code,
+      status: 'compliant',
+      message: this.describeResponsibilities(incoterm)
+    });
+
+    return results;
+  }
+
+  /**
+   * Describe who pays for what under a rule, e.g. for CIP: "Under CIP the
+   * seller pays the main carriage and insurance and clears the goods for
+   * export; the buyer pays duty and import VAT on import."
+   */
+  describeResponsibilities(incoterm: IncotermDefinition): string {
+    const seller: string[] = [];
+    const buyer: string[] = [];
+
+    const carriage = incoterm.sellerInsures ? 'the main carriage and insurance' : 'the main carriage';
+    (incoterm.carriagePaidBy === 'seller' ? seller : buyer).push(`pays ${carriage}`);
+    (incoterm.exportClearanceBy === 'seller' ? seller : buyer).push('clears the goods for export');
+    (incoterm.dutiesPaidBy === 'seller' ? seller : buyer).push('pays duty and import VAT on import');
+
+    const parts = [
+      seller.length > 0 ? `the seller ${this.joinClauses(seller)}` : undefined,
+      buyer.length > 0 ? `the buyer ${this.joinClauses(buyer)}` : undefined
+    ].filter(Boolean);
+
+    return `Under ${incoterm.code} ${parts.join('; ')}. Risk passes to the buyer ${incoterm.riskTransfer}.`;
+  }
+
+  private joinClauses(clauses: string[]): string {
+    return clauses.length > 1
+      ? `${clauses.slice(0, -1).join(', ')} and ${clauses[clauses.length - 1]}`
+      : clauses[0];
+  }
+
+  private getName(code: string): string {
+    const incoterm = INCOTERMS.find(term => term.code === code);
+    return incoterm ? incoterm.name : code;
+  }
+}
+
+// Create and export a singleton instance
+export const incotermsService = new IncotermsService();
@@ -0,0 +1,367 @@
+import { ComplianceResult } from './types';
+import { DeMinimisThreshold, LandedCostRate } from './database/models';
+import { landedCostRateRepository } from './database/landedCostRateRepository';
+import { landedCostRateLoader } from './database/landedCostRateLoader';
+import { getIncoterm } from './incotermsService';
+import { countryService } from './countryService';
+import { currencyService, parseNumber } from './currencyService';
+import { deMinimisService } from './deMinimisService';
+
+// Field names the declared figures are read from, in order of preference
+const FIGURE_FIELDS = {
+  declaredValue: ['declaredValueUsd', 'declaredValue', 'customsValue'],
+  shippingCost: ['shippingCostUsd', 'shippingCost', 'freightCost'],
+  dutyRate: ['dutyRate'],
+  dutyAmount: ['dutyAmountUsd', 'dutyAmount'],
+  taxRate: ['vatRate', 'gstRate', 'taxRate'],
+  taxAmount: ['vatAmountUsd', 'vatAmount', 'gstAmountUsd', 'gstAmount', 'taxAmountUsd', 'taxAmount'],
+  processingFee: ['processingFeeUsd', 'processingFee'],
+  totalLandedCost: ['totalLandedCostUsd', 'totalLandedCost', 'landedCost']
+};
+
+type Figure = keyof typeof FIGURE_FIELDS;
+
+// Figures that are percentages rather than amounts
+const RATE_FIGURES: Figure[] = ['dutyRate', 'taxRate'];
+
+/**
+ * Shipment details the landed cost is calculated from. Amounts are in USD.
+ */
+export interface LandedCostInput {
+  destinationCountry: string;
+  originCountry?: string;
+  hsCode?: string;
+  declaredValue: number;
+  shippingCost?: number;
+  incoterm?: string;
+  dutyRate?: number; // Percentage; overrides the rate table, e.g. the rate of the exact tariff line
+}
+
+/**
+ * Calculated landed cost. Rates are percentages and amounts are in USD.
+ */
+export interface LandedCostBreakdown {
+  countryCode: string;
+  customsValue: number;
+  dutyRate: number;
+  duty: number;
+  taxName: string;
+  taxRate: number;
+  taxBase: number;
+  tax: number;
+  processingFee: number;
+  shippingCost: number;
+  total: number; // Goods, shipping, duty, tax and fees
+  isImport: boolean; // False when the goods are shipped within the destination country
+  dutyDeMinimisApplied: boolean;
+  taxDeMinimisApplied: boolean;
+  incoterm?: string; // Incoterms 2020 rule the charges are split by
+  dutiesPaidBy: 'seller' | 'buyer';
+}
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const formatAmount = (amount: number): string => `${amount.toFixed(2)} USD`;
+
+// Declared amounts are rounded per line by brokers, so allow half a percent or 5 cents
+const amountsAgree = (declared: number, expected: number): boolean =>
+  Math.abs(declared - expected) <= Math.max(0.05, Math.abs(expected) * 0.005);
+
+/**
+ * Service for calculating duty, import tax and fees of a shipment from the
+ * per-country rate tables, and for checking the figures declared on a record
+ */
+class LandedCostService {
+  /**
+   * Calculate the landed cost of a shipment
+   * @returns The breakdown, or undefined when there is no rate table for the destination
+   */
+  async calculate(input: LandedCostInput): Promise<LandedCostBreakdown | undefined> {
+    const rate = await this.getRate(input.destinationCountry);
+    if (!rate) {
+      return undefined;
+    }
+    const threshold = await this.getDeMinimis(rate.countryCode, input.originCountry);
+    return this.calculateWithRate(input, rate, threshold);
+  }
+
+  /**
+   * Compare the duty, tax, fee and total figures declared in the fields with
+   * the calculated ones, and warn when the seller bears the import charges
+   * under DDP. Records without a declared value or to a destination without
+   * a rate table are skipped.
+   * @param fields Formatted shipment fields
+   * @param destinationCountry ISO code of the destination country
+   */
+  async checkDeclaredLandedCost(fields: Record<string, string>, destinationCountry: string): Promise<ComplianceResult[]> {
+    await currencyService.loadRates();
+    const declared = this.readDeclaredFigures(fields);
+    const hasDeclaredCost = (['dutyRate', 'dutyAmount', 'taxRate', 'taxAmount', 'processingFee', 'totalLandedCost'] as Figure[])
+      .some(figure => declared[figure] !== undefined);
+
+    if (declared.declaredValue === undefined) {
+      return [];
+    }
+
+    const rate = await this.getRate(destinationCountry);
+    if (!rate) {
+      return [];
+    }
+
+    const hsCode = fields.hsCode || fields.hsTariffNumber;
+    const originCountry = fields.shipperCountry || fields.originCountry;
+    const threshold = await this.getDeMinimis(rate.countryCode, originCountry);
+    const breakdown = this.calculateWithRate({
+      destinationCountry,
+      originCountry,
+      hsCode,
+      declaredValue: declared.declaredValue,
+      shippingCost: declared.shippingCost,
+      incoterm: fields.incoterm || fields.incoterms,
+      dutyRate: declared.dutyRate
+    }, rate, threshold);
+
+    const results: ComplianceResult[] = [];
+    const countryCode = breakdown.countryCode;
+    const importCharges = round(breakdown.duty + breakdown.tax + breakdown.processingFee);
+
+    if (breakdown.dutiesPaidBy === 'seller' && importCharges > 0) {
+      results.push({
+        id: `landed-cost-ddp-${Date.now()}`,
+        field: 'Duties Paid By',
+        value: breakdown.incoterm || 'DDP',
+        status: 'warning',
+        message: `Under ${breakdown.incoterm} the seller pays the import charges of ${countryCode}: duty ${formatAmount(breakdown.duty)}, ${rate.taxName} ${formatAmount(breakdown.tax)}, fees ${formatAmount(breakdown.processingFee)}. The seller must be able to clear the goods as importer in ${countryCode} or appoint a representative to do so.`
+      });
+    }
+
+    if (!hasDeclaredCost) {
+      return results;
+    }
+
+    // Mismatches found below; the DDP warning above is not one of them
+    const reportedBefore = results.length;
+
+    if (!breakdown.isImport) {
+      const charged = (declared.dutyAmount || 0) + (declared.taxAmount || 0) + (declared.processingFee || 0);
+      if (charged > 0) {
+        results.push({
+          id: `landed-cost-domestic-${Date.now()}`,
+          field: 'Landed Cost',
+          value: formatAmount(charged),
+          status: 'warning',
+          message: `Import charges of ${formatAmount(charged)} are declared, but the goods are shipped within ${countryCode} and no duty, ${rate.taxName} or clearance fees apply.`
+        });
+      }
+      return results;
+    }
+
+    // The declared duty rate is only checked against a tariff-line rate; the
+    // default rate of a country is an average, not the rate of the goods
+    const tariffRate = hsCode ? this.findTariffRate(rate, hsCode) : undefined;
+    if (declared.dutyRate !== undefined && tariffRate !== undefined && Math.abs(declared.dutyRate - tariffRate) > 0.01) {
+      results.push({
+        id: `landed-cost-duty-rate-${Date.now()}`,
+        field: 'Duty Rate',
+        value: `${declared.dutyRate}%`,
+        status: 'non-compliant',
+        message: `Declared duty rate of ${declared.dutyRate}% does not match the ${tariffRate}% rate for HS ${hsCode} in ${countryCode}.`
+      });
+    }
+
+    if (declared.dutyAmount !== undefined && !amountsAgree(declared.dutyAmount, breakdown.duty)) {
+      results.push({
+        id: `landed-cost-duty-${Date.now()}`,
+        field: 'Duty Amount',
+        value: formatAmount(declared.dutyAmount),
+        status: 'non-compliant',
+        message: breakdown.dutyDeMinimisApplied
+          ? `Duty of ${formatAmount(declared.dutyAmount)} is declared, but goods up to ${currencyService.format(threshold!.dutyThreshold, threshold!.currency)} are duty free in ${countryCode}.`
+          : `Declared duty of ${formatAmount(declared.dutyAmount)} does not match the calculated ${formatAmount(breakdown.duty)} (${breakdown.dutyRate}% of the ${formatAmount(breakdown.customsValue)} customs value).`
+      });
+    }
+
+    if (declared.taxRate !== undefined && Math.abs(declared.taxRate - rate.taxRate) > 0.01) {
+      results.push({
+        id: `landed-cost-tax-rate-${Date.now()}`,
+        field: `${rate.taxName} Rate`,
+        value: `${declared.taxRate}%`,
+        status: 'non-compliant',
+        message: `Declared ${rate.taxName} rate of ${declared.taxRate}% does not match the ${rate.taxRate}% rate of ${countryCode}.`
+      });
+    }
+
+    if (declared.taxAmount !== undefined && !amountsAgree(declared.taxAmount, breakdown.tax)) {
+      results.push({
+        id: `landed-cost-tax-${Date.now()}`,
+        field: `${rate.taxName} Amount`,
+        value: formatAmount(declared.taxAmount),
+        status: 'non-compliant',
+        message: breakdown.taxDeMinimisApplied
+          ? `${rate.taxName} of ${formatAmount(declared.taxAmount)} is declared, but goods up to ${currencyService.format(threshold!.taxThreshold, threshold!.currency)} are exempt in ${countryCode}.`
+          : `Declared ${rate.taxName} of ${formatAmount(declared.taxAmount)} does not match the calculated ${formatAmount(breakdown.tax)} (${breakdown.taxRate}% of ${formatAmount(breakdown.taxBase)}).`
+      });
+    }
+
+    if (declared.processingFee !== undefined && !amountsAgree(declared.processingFee, breakdown.processingFee)) {
+      results.push({
+        id: `landed-cost-fee-${Date.now()}`,
+        field: 'Processing Fee',
+        value: formatAmount(declared.processingFee),
+        status: 'warning',
+        message: breakdown.duty > 0
+          ? `Declared processing fee of ${formatAmount(declared.processingFee)} does not match the ${formatAmount(rate.processingFee)} clearance fee of ${countryCode}.`
+          : `A processing fee of ${formatAmount(declared.processingFee)} is declared, but no fee is charged when no duty is collected.`
+      });
+    }
+
+    // Check the total against the declared parts so a wrong duty or tax amount is not reported twice
+    if (declared.totalLandedCost !== undefined) {
+      const expectedTotal = round(
+        declared.declaredValue +
+        breakdown.shippingCost +
+        (declared.dutyAmount ?? breakdown.duty) +
+        (declared.taxAmount ?? breakdown.tax) +
+        (declared.processingFee ?? breakdown.processingFee)
+      );
+
+      if (!amountsAgree(declared.totalLandedCost, expectedTotal)) {
+        results.push({
+          id: `landed-cost-total-${Date.now()}`,
+          field: 'Total Landed Cost',
+          value: formatAmount(declared.totalLandedCost),
+          status: 'warning',
+          message: `Declared total landed cost of ${formatAmount(declared.totalLandedCost)} does not add up to ${formatAmount(expectedTotal)} (goods, shipping, duty, ${rate.taxName} and fees).`
+        });
+      }
+    }
+
+    if (results.length === reportedBefore) {
+      const payer = breakdown.incoterm ? ` Paid by the ${breakdown.dutiesPaidBy} under ${breakdown.incoterm}.` : '';
+      results.push({
+        id: `landed-cost-${Date.now()}`,
+        field: 'Landed Cost',
+        value: formatAmount(breakdown.total),
+        status: 'compliant',
+        message: `Declared duty, ${rate.taxName} and fees match the ${countryCode} rates: duty ${formatAmount(breakdown.duty)}, ${rate.taxName} ${formatAmount(breakdown.tax)}, fees ${formatAmount(breakdown.processingFee)}.${payer}`
+      });
+    }
+
+    return results;
+  }
+
+  private async getRate(countryCode: string): Promise<LandedCostRate | undefined> {
+    try {
+      await landedCostRateLoader.initializeRates();
+      return await landedCostRateRepository.getRateForCountry(countryCode);
+    } catch (error) {
+      console.error(`Error loading landed cost rates for ${countryCode}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Get the de minimis thresholds of a destination, kept with the low-value
+   * consignment checks
+   */
+  private async getDeMinimis(countryCode: string, originCountry?: string): Promise<DeMinimisThreshold | undefined> {
+    await currencyService.loadRates();
+    return deMinimisService.getThreshold(countryCode, originCountry ? countryService.normalizeCode(originCountry) : undefined);
+  }
+
+  private calculateWithRate(input: LandedCostInput, rate: LandedCostRate, threshold?: DeMinimisThreshold): LandedCostBreakdown {
+    const incoterm = getIncoterm(input.incoterm);
+    const shippingCost = input.shippingCost || 0;
+    const countryCode = rate.countryCode;
+
+    // Goods staying in the country are not imported
+    const isImport = !input.originCountry || countryService.normalizeCode(input.originCountry) !== countryCode;
+
+    // CIF valuation adds the carriage to the border when the price does not include it
+    const customsValue = round(
+      rate.valuationBasis === 'CIF' && (!incoterm || incoterm.carriagePaidBy === 'buyer')
+        ? input.declaredValue + shippingCost
+        : input.declaredValue
+    );
+
+    // Thresholds are in the destination's currency; a threshold that cannot be converted is not applied
+    const withinThreshold = (amount: number | undefined): boolean => {
+      const limit = threshold && amount ? currencyService.convert(amount, threshold.currency, 'USD') : undefined;
+      return limit !== undefined && input.declaredValue <= limit;
+    };
+    const dutyDeMinimisApplied = withinThreshold(threshold?.dutyThreshold);
+    const taxDeMinimisApplied = withinThreshold(threshold?.taxThreshold);
+
+    const tariffRate = input.hsCode ? this.findTariffRate(rate, input.hsCode) : undefined;
+    const dutyRate = input.dutyRate ?? tariffRate ?? rate.defaultDutyRate;
+    const duty = isImport && !dutyDeMinimisApplied ? round(customsValue * dutyRate / 100) : 0;
+
+    const taxBase = round(rate.taxIncludesDuty ? customsValue + duty : customsValue);
+    const tax = isImport && !taxDeMinimisApplied ? round(taxBase * rate.taxRate / 100) : 0;
+
+    const processingFee = duty > 0 ? rate.processingFee : 0;
+
+    return {
+      countryCode,
+      customsValue,
+      dutyRate,
+      duty,
+      taxName: rate.taxName,
+      taxRate: rate.taxRate,
+      taxBase,
+      tax,
+      processingFee,
+      shippingCost,
+      total: round(input.declaredValue + shippingCost + duty + tax + processingFee),
+      isImport,
+      dutyDeMinimisApplied,
+      taxDeMinimisApplied,
+      incoterm: incoterm?.code,
+      dutiesPaidBy: incoterm ? incoterm.dutiesPaidBy : 'buyer'
+    };
+  }
+
+  /**
+   * Find the tariff-line rate with the longest HS code prefix
+   */
+  private findTariffRate(rate: LandedCostRate, hsCode: string): number | undefined {
+    const digits = hsCode.replace(/\D/g, '');
+    let match: string | undefined;
+
+    for (const prefix of Object.keys(rate.dutyRates)) {
+      if (digits.startsWith(prefix) && (!match || prefix.length > match.length)) {
+        match = prefix;
+      }
+    }
+
+    return match !== undefined ? rate.dutyRates[match] : undefined;
+  }
+
+  /**
+   * Read the declared figures, with amounts converted to USD from the
+   * currency they are written in or else the currency of the record
+   */
+  private readDeclaredFigures(fields: Record<string, string>): Partial<Record<Figure, number>> {
+    const figures: Partial<Record<Figure, number>> = {};
+    const currency = fields.declaredValueCurrency || fields.currency || 'USD';
+
+    for (const [figure, keys] of Object.entries(FIGURE_FIELDS) as [Figure, string[]][]) {
+      const key = keys.find(candidate => fields[candidate] !== undefined && fields[candidate].trim() !== '');
+      if (!key) {
+        continue;
+      }
+      if (RATE_FIGURES.includes(figure)) {
+        figures[figure] = parseNumber(fields[key].replace('%', '').trim());
+        continue;
+      }
+      const money = currencyService.parseMoney(fields[key], key.endsWith('Usd') ? 'USD' : currency);
+      const usd = money?.currency ? currencyService.convert(money.amount, money.currency, 'USD') : undefined;
+      figures[figure] = usd === undefined ? undefined : round(usd);
+    }
+
+    return figures;
+  }
+}
+
+// Create and export a singleton instance
+export const landedCostService = new LandedCostService();
@@ -0,0 +1,135 @@
+import { LLMError } from './llmError';
+import { LLMProvider, LLMProviderOptions, LLMRequest, LLMResponse } from './types';
+
+const API_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+/**
+ * Gemini expects OpenAPI-style upper-case type names
+ */
+const toGeminiSchema = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const converted: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema as Record<string, unknown>)) {
+    if (key === 'type' && typeof value === 'string') {
+      converted.type = value.toUpperCase();
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      converted.properties = Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([name, property]) => [name, toGeminiSchema(property)])
+      );
+    } else if (key === 'items') {
+      converted.items = toGeminiSchema(value);
+    } else {
+      converted[key] = value;
+    }
+  }
+  return converted;
+};
+
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  return isNaN(seconds) ? undefined : seconds * 1000;
+};
+
+/**
+ * Provider for the Google Gemini generateContent API
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  requiresApiKey = true;
+
+  async generate(request: LLMRequest & { model: string }, options: LLMProviderOptions): Promise<LLMResponse> {
+    const parts: Array<Record<string, unknown>> = [{ text: request.prompt }];
+    for (const image of request.images || []) {
+      parts.push({ inline_data: { mime_type: image.mimeType, data: image.data } });
+    }
+
+    const generationConfig: Record<string, unknown> = {
+      temperature: request.temperature,
+      topP: request.topP,
+      topK: request.topK,
+      maxOutputTokens: request.maxOutputTokens
+    };
+    if (request.responseMimeType) {
+      generationConfig.responseMimeType = request.responseMimeType;
+    }
+    if (request.responseSchema) {
+      generationConfig.responseSchema = toGeminiSchema(request.responseSchema);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${API_BASE_URL}/${request.model}:generateContent?key=${encodeURIComponent(options.apiKey)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contents: [{ role: 'user', parts }],
+          generationConfig
+        }),
+        signal: options.signal
+      });
+    } catch (error) {
+      if (options.signal.aborted) {
+        throw new LLMError('aborted', 'Request was aborted');
+      }
+      throw new LLMError('network', `Gemini request failed: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!response.ok) {
+      throw await this.toLLMError(response);
+    }
+
+    let data: any;
+    try {
+      data = await response.json();
+    } catch {
+      throw new LLMError('invalid-response', 'Gemini returned a response that is not JSON');
+    }
+
+    const candidate = data?.candidates?.[0];
+    const text = (candidate?.content?.parts || [])
+      .map((part: { text?: string }) => part.text || '')
+      .join('');
+    if (!text) {
+      const reason = candidate?.finishReason || data?.promptFeedback?.blockReason || 'no content';
+      throw new LLMError('invalid-response', `Gemini returned an empty response (${reason})`);
+    }
+
+    const usage = data.usageMetadata;
+    return {
+      text,
+      model: data.modelVersion || request.model,
+      usage: usage
+        ? {
+            promptTokens: usage.promptTokenCount || 0,
+            completionTokens: usage.candidatesTokenCount || 0,
+            totalTokens: usage.totalTokenCount || 0
+          }
+        : undefined
+    };
+  }
+
+  private async toLLMError(response: Response): Promise<LLMError> {
+    const status = response.status;
+    let detail = response.statusText;
+    try {
+      const body = await response.json();
+      detail = body?.error?.message || detail;
+    } catch {
+      // Keep the status text
+    }
+
+    if (status === 429) {
+      return new LLMError('rate-limited', `Gemini rate limit exceeded: ${detail}`, {
+        status,
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after'))
+      });
+    }
+    if (status >= 500) {
+      return new LLMError('server', `Gemini server error (${status}): ${detail}`, { status });
+    }
+    return new LLMError('request', `Gemini rejected the request (${status}): ${detail}`, { status });
+  }
+}
@@ -0,0 +1,87 @@
+import { z } from 'zod';
+
+/**
+ * Convert a zod schema into the JSON schema subset that model providers accept
+ * for constrained output. Returns undefined when the schema uses a construct
+ * that cannot be expressed (records, unions, ...); the response is then only
+ * validated after parsing.
+ */
+export const toResponseSchema = (schema: z.ZodTypeAny): Record<string, unknown> | undefined => {
+  const description = schema.description ? { description: schema.description } : {};
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return toResponseSchema(schema._def.innerType);
+  }
+  if (schema instanceof z.ZodNullable) {
+    const inner = toResponseSchema(schema._def.innerType);
+    return inner && { ...inner, nullable: true };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return toResponseSchema(schema._def.schema);
+  }
+  if (schema instanceof z.ZodString) {
+    return { type: 'string', ...description };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return { type: schema.isInt ? 'integer' : 'number', ...description };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean', ...description };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: [...schema.options], ...description };
+  }
+  if (schema instanceof z.ZodLiteral && typeof schema.value === 'string') {
+    return { type: 'string', enum: [schema.value], ...description };
+  }
+  if (schema instanceof z.ZodArray) {
+    const items = toResponseSchema(schema.element);
+    return items && { type: 'array', items, ...description };
+  }
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, unknown> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(schema.shape as Record<string, z.ZodTypeAny>)) {
+      const property = toResponseSchema(value);
+      if (!property) return undefined;
+      properties[key] = property;
+      if (!value.isOptional()) required.push(key);
+    }
+    return { type: 'object', properties, required, ...description };
+  }
+
+  return undefined;
+};
+
+/**
+ * Parse JSON from model output, tolerating code fences and surrounding prose
+ */
+export const extractJson = (text: string): unknown => {
+  const trimmed = text.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // Fall through to looser extraction
+  }
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  if (fenced) {
+    try {
+      return JSON.parse(fenced[1]);
+    } catch {
+      // Fall through
+    }
+  }
+
+  // Take the outermost array or object, whichever starts first
+  const start = trimmed.search(/[[{]/);
+  if (start >= 0) {
+    const closing = trimmed[start] === '[' ? ']' : '}';
+    const end = trimmed.lastIndexOf(closing);
+    if (end > start) {
+      return JSON.parse(trimmed.slice(start, end + 1));
+    }
+  }
+
+  throw new SyntaxError('No JSON found in model response');
+};
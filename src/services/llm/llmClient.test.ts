@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { LLMClient } from './llmClient';
+import { LLMError } from './llmError';
+import { MockLLMProvider } from './mockProvider';
+
+const createClient = (provider: MockLLMProvider, rulesOnly = false): LLMClient => {
+  const client = new LLMClient({ maxRetries: 2, retryBaseDelayMs: 0, retryMaxDelayMs: 0, rulesOnly });
+  client.useProvider(provider);
+  return client;
+};
+
+describe('LLMClient with the mock provider', () => {
+  it('routes calls to the mock provider without an API key', async () => {
+    const provider = new MockLLMProvider(request => `echo: ${request.prompt}`);
+    const client = createClient(provider);
+
+    expect(client.isAiEnabled()).toBe(true);
+    await expect(client.generateText('hello', { model: 'test-model' })).resolves.toBe('echo: hello');
+    expect(provider.requests).toHaveLength(1);
+    expect(provider.requests[0].model).toBe('test-model');
+  });
+
+  it('validates JSON responses against the schema', async () => {
+    const provider = new MockLLMProvider().enqueue('```json\n{"code": 850760, "confidence": "0.9"}\n```');
+    const client = createClient(provider);
+    const schema = z.object({ code: z.coerce.string(), confidence: z.coerce.number() });
+
+    await expect(client.generateJson('classify', schema)).resolves.toEqual({ code: '850760', confidence: 0.9 });
+    expect(provider.requests[0].responseMimeType).toBe('application/json');
+  });
+
+  it('rejects responses that do not match the schema', async () => {
+    const provider = new MockLLMProvider().enqueue('{"code": "850760"}');
+    const client = createClient(provider);
+    const schema = z.object({ code: z.string(), confidence: z.number() });
+
+    await expect(client.generateJson('classify', schema)).rejects.toMatchObject({ code: 'validation' });
+  });
+
+  it('retries transient failures and records them in the metrics', async () => {
+    const provider = new MockLLMProvider().enqueue(new LLMError('server', 'Unavailable', { status: 503 }), 'ok');
+    const client = createClient(provider);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await expect(client.generateText('hello', { label: 'test' })).resolves.toBe('ok');
+    expect(provider.requests).toHaveLength(2);
+
+    const metrics = client.getMetrics();
+    expect(metrics.totalCalls).toBe(1);
+    expect(metrics.retries).toBe(1);
+    expect(metrics.recentCalls[0]).toMatchObject({ label: 'test', attempts: 2, success: true });
+  });
+
+  it('does not retry request errors', async () => {
+    const provider = new MockLLMProvider().enqueue(new LLMError('request', 'Bad request', { status: 400 }), 'ok');
+    const client = createClient(provider);
+
+    await expect(client.generateText('hello')).rejects.toMatchObject({ code: 'request' });
+    expect(provider.requests).toHaveLength(1);
+    expect(client.getMetrics().failedCalls).toBe(1);
+  });
+
+  it('makes no calls in rules-only mode', async () => {
+    const provider = new MockLLMProvider(() => 'unexpected');
+    const client = createClient(provider, true);
+
+    expect(client.isAiEnabled()).toBe(false);
+    await expect(client.generateText('hello')).rejects.toMatchObject({ code: 'disabled' });
+    expect(provider.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,329 @@
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { GeminiProvider } from './geminiProvider';
+import { extractJson, toResponseSchema } from './jsonResponse';
+import { LLMError } from './llmError';
+import { MockLLMProvider } from './mockProvider';
+import {
+  LLMCallOptions,
+  LLMCallRecord,
+  LLMConfig,
+  LLMMetrics,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse
+} from './types';
+
+const SETTINGS_STORAGE_KEY = 'llmSettings';
+const MAX_RECENT_CALLS = 100;
+const PLACEHOLDER_KEY_PATTERN = /your_api_key|api-key/i;
+
+const readNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = value !== undefined && value !== '' ? Number(value) : NaN;
+  return isNaN(parsed) ? fallback : parsed;
+};
+
+/**
+ * Defaults, overridable with REACT_APP_* environment variables
+ */
+const getEnvironmentConfig = (): LLMConfig => {
+  const model = process.env.REACT_APP_GEMINI_MODEL || 'gemini-2.0-flash';
+  return {
+    provider: process.env.REACT_APP_LLM_PROVIDER || 'gemini',
+    apiKey: process.env.REACT_APP_GEMINI_API_KEY || '',
+    model,
+    visionModel: process.env.REACT_APP_GEMINI_VISION_MODEL || model,
+    timeoutMs: readNumber(process.env.REACT_APP_LLM_TIMEOUT_MS, 30000),
+    maxRetries: readNumber(process.env.REACT_APP_LLM_MAX_RETRIES, 2),
+    retryBaseDelayMs: readNumber(process.env.REACT_APP_LLM_RETRY_DELAY_MS, 500),
+    retryMaxDelayMs: 8000,
+    rulesOnly: process.env.REACT_APP_RULES_ONLY === 'true'
+  };
+};
+
+const loadSettings = (): Partial<LLMConfig> => {
+  try {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(SETTINGS_STORAGE_KEY) : null;
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('Error loading LLM settings:', error);
+    return {};
+  }
+};
+
+const emptyMetrics = (): LLMMetrics => ({
+  totalCalls: 0,
+  failedCalls: 0,
+  retries: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  averageLatencyMs: 0,
+  recentCalls: []
+});
+
+/**
+ * Shared client for all LLM calls in the app.
+ *
+ * Configuration is resolved from environment variables, then settings saved
+ * in the browser, then in-memory overrides. Calls are retried with
+ * exponential backoff on timeouts, rate limits and server errors, and every
+ * call is recorded in the metrics.
+ */
+export class LLMClient {
+  private providers = new Map<string, LLMProvider>();
+  private settings: Partial<LLMConfig> = loadSettings();
+  private overrides: Partial<LLMConfig>;
+  private metrics: LLMMetrics = emptyMetrics();
+
+  constructor(overrides: Partial<LLMConfig> = {}) {
+    this.overrides = overrides;
+    this.registerProvider(new GeminiProvider());
+    this.registerProvider(new MockLLMProvider());
+  }
+
+  /**
+   * Make a provider available by name
+   */
+  registerProvider(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Register a provider and route all calls to it, e.g. a MockLLMProvider in tests
+   */
+  useProvider(provider: LLMProvider): void {
+    this.registerProvider(provider);
+    this.overrides = { ...this.overrides, provider: provider.name };
+  }
+
+  /**
+   * Get the resolved configuration
+   */
+  getConfig(): LLMConfig {
+    return { ...getEnvironmentConfig(), ...this.settings, ...this.overrides };
+  }
+
+  /**
+   * Apply in-memory overrides that are not persisted
+   */
+  configure(overrides: Partial<LLMConfig>): void {
+    this.overrides = { ...this.overrides, ...overrides };
+  }
+
+  /**
+   * Save settings in the browser so they survive reloads
+   */
+  updateSettings(settings: Partial<LLMConfig>): void {
+    const merged: Record<string, unknown> = { ...this.settings, ...settings };
+    // Empty values fall back to the environment configuration
+    Object.keys(merged).forEach(key => {
+      if (merged[key] === '' || merged[key] === undefined) delete merged[key];
+    });
+    this.settings = merged as Partial<LLMConfig>;
+    try {
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.error('Error saving LLM settings:', error);
+    }
+  }
+
+  /**
+   * Whether calls can be made with the current configuration
+   */
+  isConfigured(): boolean {
+    const config = this.getConfig();
+    const provider = this.providers.get(config.provider);
+    if (!provider) return false;
+    return !provider.requiresApiKey || (!!config.apiKey && !PLACEHOLDER_KEY_PATTERN.test(config.apiKey));
+  }
+
+  /**
+   * Whether model calls should be made at all. False in rules-only mode or
+   * without a usable configuration; callers then take their deterministic path.
+   */
+  isAiEnabled(): boolean {
+    return !this.getConfig().rulesOnly && this.isConfigured();
+  }
+
+  /**
+   * Generate a response, retrying transient failures
+   */
+  async generate(prompt: string, options: LLMCallOptions = {}): Promise<LLMResponse> {
+    const { label = 'default', timeoutMs, maxRetries, signal, ...requestOptions } = options;
+    const config = this.getConfig();
+    const provider = this.providers.get(config.provider);
+
+    if (config.rulesOnly) {
+      throw new LLMError('disabled', 'Rules-only mode is enabled, model calls are disabled');
+    }
+    if (!provider) {
+      throw new LLMError('not-configured', `Unknown LLM provider "${config.provider}"`);
+    }
+    if (!this.isConfigured()) {
+      throw new LLMError('not-configured', `No API key configured for the ${provider.name} provider`);
+    }
+
+    const request = { ...requestOptions, prompt, model: requestOptions.model || config.model };
+    const retryLimit = maxRetries ?? config.maxRetries;
+    const startedAt = new Date();
+    let attempts = 0;
+
+    while (true) {
+      attempts++;
+      try {
+        const response = await this.attempt(provider, request, config.apiKey, timeoutMs ?? config.timeoutMs, signal);
+        this.recordCall({ label, provider: provider.name, model: response.model, startedAt, attempts, usage: response.usage });
+        return response;
+      } catch (error) {
+        const llmError = error instanceof LLMError
+          ? error
+          : new LLMError('network', error instanceof Error ? error.message : String(error));
+
+        if (!llmError.retryable || attempts > retryLimit || signal?.aborted) {
+          this.recordCall({ label, provider: provider.name, model: request.model, startedAt, attempts, errorCode: llmError.code });
+          throw llmError;
+        }
+
+        const delay = this.getRetryDelay(attempts, llmError, config);
+        console.warn(`LLM call "${label}" failed (${llmError.code}), retrying in ${delay}ms`);
+        await this.wait(delay, signal);
+      }
+    }
+  }
+
+  /**
+   * Generate plain text
+   */
+  async generateText(prompt: string, options: LLMCallOptions = {}): Promise<string> {
+    const response = await this.generate(prompt, options);
+    return response.text;
+  }
+
+  /**
+   * Generate JSON constrained to a schema and validate it with zod
+   */
+  async generateJson<T extends z.ZodTypeAny>(prompt: string, schema: T, options: LLMCallOptions = {}): Promise<z.infer<T>> {
+    const text = await this.generateText(prompt, {
+      ...options,
+      responseMimeType: 'application/json',
+      responseSchema: options.responseSchema ?? toResponseSchema(schema)
+    });
+
+    let parsed: unknown;
+    try {
+      parsed = extractJson(text);
+    } catch (error) {
+      throw new LLMError('invalid-response', `Response is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const result = schema.safeParse(parsed);
+    if (!result.success) {
+      const issues = result.error.issues
+        .slice(0, 3)
+        .map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+        .join('; ');
+      throw new LLMError('validation', `Response does not match the expected schema: ${issues}`);
+    }
+    return result.data;
+  }
+
+  /**
+   * Get token and latency metrics
+   */
+  getMetrics(): LLMMetrics {
+    return { ...this.metrics, recentCalls: [...this.metrics.recentCalls] };
+  }
+
+  resetMetrics(): void {
+    this.metrics = emptyMetrics();
+  }
+
+  /**
+   * Run one attempt, enforcing the timeout even if the provider ignores the abort signal
+   */
+  private attempt(
+    provider: LLMProvider,
+    request: LLMRequest & { model: string },
+    apiKey: string,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<LLMResponse> {
+    if (signal?.aborted) {
+      return Promise.reject(new LLMError('aborted', 'Request was aborted'));
+    }
+
+    const controller = new AbortController();
+
+    return new Promise<LLMResponse>((resolve, reject) => {
+      const onAbort = () => {
+        controller.abort();
+        reject(new LLMError('aborted', 'Request was aborted'));
+      };
+      const timer = setTimeout(() => {
+        controller.abort();
+        reject(new LLMError('timeout', `Request timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+      signal?.addEventListener('abort', onAbort);
+
+      provider
+        .generate(request, { apiKey, signal: controller.signal })
+        .then(resolve, reject)
+        .finally(() => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+        });
+    });
+  }
+
+  /**
+   * Exponential backoff with jitter, honouring a server-provided retry delay
+   */
+  private getRetryDelay(attempt: number, error: LLMError, config: LLMConfig): number {
+    if (error.retryAfterMs !== undefined) {
+      return Math.min(error.retryAfterMs, config.retryMaxDelayMs);
+    }
+    const base = Math.min(config.retryMaxDelayMs, config.retryBaseDelayMs * Math.pow(2, attempt - 1));
+    return Math.round(base / 2 + Math.random() * (base / 2));
+  }
+
+  private wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new LLMError('aborted', 'Request was aborted'));
+      };
+      signal?.addEventListener('abort', onAbort);
+    });
+  }
+
+  private recordCall(call: Omit<LLMCallRecord, 'id' | 'startedAt' | 'latencyMs' | 'success'> & { startedAt: Date }): void {
+    const record: LLMCallRecord = {
+      ...call,
+      id: uuidv4(),
+      startedAt: call.startedAt.toISOString(),
+      latencyMs: Date.now() - call.startedAt.getTime(),
+      success: !call.errorCode
+    };
+    const metrics = this.metrics;
+
+    metrics.averageLatencyMs =
+      (metrics.averageLatencyMs * metrics.totalCalls + record.latencyMs) / (metrics.totalCalls + 1);
+    metrics.totalCalls++;
+    metrics.retries += record.attempts - 1;
+    if (!record.success) metrics.failedCalls++;
+    if (record.usage) {
+      metrics.promptTokens += record.usage.promptTokens;
+      metrics.completionTokens += record.usage.completionTokens;
+      metrics.totalTokens += record.usage.totalTokens;
+    }
+    metrics.recentCalls = [record, ...metrics.recentCalls].slice(0, MAX_RECENT_CALLS);
+  }
+}
+
+// Create and export a singleton instance
+export const llmClient = new LLMClient();
@@ -0,0 +1,27 @@
+import { LLMErrorCode } from './types';
+
+const RETRYABLE_CODES: LLMErrorCode[] = ['timeout', 'rate-limited', 'server', 'network'];
+
+/**
+ * Error raised by the LLM client and its providers
+ */
+export class LLMError extends Error {
+  readonly code: LLMErrorCode;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(code: LLMErrorCode, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'LLMError';
+    this.code = code;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  /**
+   * Whether the same request may succeed if sent again
+   */
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+}
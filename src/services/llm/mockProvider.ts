@@ -0,0 +1,55 @@
+import { LLMError } from './llmError';
+import { LLMProvider, LLMProviderOptions, LLMRequest, LLMResponse } from './types';
+
+type MockReply = string | LLMResponse | Error;
+type MockHandler = (request: LLMRequest & { model: string }) => MockReply | Promise<MockReply>;
+
+/**
+ * Local provider for tests and offline development.
+ * Replies are taken from the queue first, then from the handler.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  requiresApiKey = false;
+
+  /**
+   * Every request received, in order
+   */
+  readonly requests: Array<LLMRequest & { model: string }> = [];
+
+  private queue: MockReply[] = [];
+
+  constructor(private handler: MockHandler = () => '') {}
+
+  /**
+   * Queue replies for the next calls; an Error reply is thrown
+   */
+  enqueue(...replies: MockReply[]): this {
+    this.queue.push(...replies);
+    return this;
+  }
+
+  async generate(request: LLMRequest & { model: string }, options: LLMProviderOptions): Promise<LLMResponse> {
+    this.requests.push(request);
+
+    const reply = this.queue.length > 0 ? this.queue.shift()! : await this.handler(request);
+    if (reply instanceof Error) throw reply;
+    if (options.signal.aborted) throw new LLMError('aborted', 'Request was aborted');
+
+    if (typeof reply === 'string') {
+      const promptTokens = Math.ceil(request.prompt.length / 4);
+      const completionTokens = Math.ceil(reply.length / 4);
+      return {
+        text: reply,
+        model: request.model,
+        usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+      };
+    }
+    return reply;
+  }
+
+  reset(): void {
+    this.requests.length = 0;
+    this.queue = [];
+  }
+}
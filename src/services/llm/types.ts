@@ -0,0 +1,126 @@
+/**
+ * Shared types for the LLM client and its providers
+ */
+
+/**
+ * Image or other binary content sent alongside a prompt
+ */
+export interface LLMInlineData {
+  mimeType: string;
+  data: string; // Base64 without the data URL prefix
+}
+
+/**
+ * A single generation request, independent of the provider
+ */
+export interface LLMRequest {
+  prompt: string;
+  images?: LLMInlineData[];
+  model?: string; // Defaults to the configured model
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  responseMimeType?: 'text/plain' | 'application/json';
+  responseSchema?: Record<string, unknown>; // JSON schema the response must follow
+}
+
+/**
+ * Token usage reported by the provider, when available
+ */
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  model: string;
+  usage?: LLMUsage;
+}
+
+/**
+ * Settings passed to a provider for one attempt
+ */
+export interface LLMProviderOptions {
+  apiKey: string;
+  signal: AbortSignal;
+}
+
+/**
+ * A backend that can turn a request into text.
+ * Providers throw LLMError so the client can decide whether to retry.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  requiresApiKey: boolean;
+  generate(request: LLMRequest & { model: string }, options: LLMProviderOptions): Promise<LLMResponse>;
+}
+
+/**
+ * Resolved client configuration
+ */
+export interface LLMConfig {
+  provider: string;
+  apiKey: string;
+  model: string;
+  visionModel: string;
+  timeoutMs: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  rulesOnly: boolean; // Skip every model call and run on rules, regex and keyword lists only
+}
+
+/**
+ * Per-call options accepted by the client
+ */
+export interface LLMCallOptions extends Omit<LLMRequest, 'prompt'> {
+  label?: string; // Identifies the caller in metrics
+  timeoutMs?: number;
+  maxRetries?: number;
+  signal?: AbortSignal;
+}
+
+export type LLMErrorCode =
+  | 'not-configured'
+  | 'disabled'
+  | 'timeout'
+  | 'aborted'
+  | 'rate-limited'
+  | 'server'
+  | 'request'
+  | 'network'
+  | 'invalid-response'
+  | 'validation';
+
+/**
+ * Metrics recorded for a single client call, including all retries
+ */
+export interface LLMCallRecord {
+  id: string;
+  label: string;
+  provider: string;
+  model: string;
+  startedAt: string;
+  latencyMs: number;
+  attempts: number;
+  success: boolean;
+  errorCode?: LLMErrorCode;
+  usage?: LLMUsage;
+}
+
+/**
+ * Aggregated metrics since the client started or was last reset
+ */
+export interface LLMMetrics {
+  totalCalls: number;
+  failedCalls: number;
+  retries: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  averageLatencyMs: number;
+  recentCalls: LLMCallRecord[];
+}
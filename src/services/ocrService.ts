@@ -0,0 +1,104 @@
+import { createWorker } from 'tesseract.js';
+import type Tesseract from 'tesseract.js';
+
+// Words below this confidence (0-1) are reported back for manual review
+const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+export interface OcrWord {
+  text: string;
+  confidence: number; // 0-1
+}
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // Mean word confidence (0-1), weighted by word length
+  words: OcrWord[];
+  lowConfidenceWords: string[];
+}
+
+export type OcrProgressListener = (progress: number, status: string) => void;
+
+/**
+ * On-device OCR with tesseract.js.
+ *
+ * Recognition runs in a web worker so the UI stays responsive, and images never
+ * leave the machine. The worker is created on first use and reused afterwards.
+ */
+class OcrService {
+  private worker: Promise<Tesseract.Worker> | null = null;
+  private progressListener: OcrProgressListener | null = null;
+
+  /**
+   * Recognize the text in an image
+   * @param image Image file, blob or data URL
+   * @param onProgress Called with recognition progress (0-1) and the current stage
+   */
+  async recognize(image: File | Blob | string, onProgress?: OcrProgressListener): Promise<OcrResult> {
+    const worker = await this.getWorker();
+    this.progressListener = onProgress || null;
+
+    try {
+      const { data } = await worker.recognize(image);
+      return this.toResult(data);
+    } finally {
+      this.progressListener = null;
+    }
+  }
+
+  /**
+   * Stop the worker and release its memory; it is recreated on the next call
+   */
+  async terminate(): Promise<void> {
+    if (!this.worker) return;
+
+    const worker = this.worker;
+    this.worker = null;
+    try {
+      await (await worker).terminate();
+    } catch (error) {
+      console.error('Error terminating OCR worker:', error);
+    }
+  }
+
+  private getWorker(): Promise<Tesseract.Worker> {
+    if (!this.worker) {
+      const options: Partial<Tesseract.WorkerOptions> = {
+        logger: message => this.progressListener?.(message.progress, message.status)
+      };
+      // Serve language data from our own host instead of the public CDN if configured
+      if (process.env.REACT_APP_OCR_LANG_PATH) {
+        options.langPath = process.env.REACT_APP_OCR_LANG_PATH;
+      }
+
+      this.worker = createWorker('eng', 1, options).catch(error => {
+        this.worker = null;
+        throw error;
+      });
+    }
+    return this.worker;
+  }
+
+  private toResult(page: Tesseract.Page): OcrResult {
+    const words: OcrWord[] = (page.words || [])
+      .filter(word => word.text.trim())
+      .map(word => ({ text: word.text, confidence: word.confidence / 100 }));
+
+    // Weight by length so stray one-character fragments count less than real words
+    const totalLength = words.reduce((sum, word) => sum + word.text.length, 0);
+    const confidence = totalLength > 0
+      ? words.reduce((sum, word) => sum + word.confidence * word.text.length, 0) / totalLength
+      : 0;
+
+    return {
+      text: page.text || '',
+      confidence: Math.round(confidence * 100) / 100,
+      words,
+      lowConfidenceWords: words
+        .filter(word => word.confidence < LOW_CONFIDENCE_THRESHOLD)
+        .map(word => word.text)
+    };
+  }
+}
+
+// Create and export a singleton instance
+export const ocrService = new OcrService();
@@ -0,0 +1,208 @@
+import { ComplianceResult } from './types';
+import { ComplianceRule, RuleDependency } from './database/models';
+import { expressionEvaluator } from './expressionEvaluator';
+
+/**
+ * Evaluates rule dependencies such as
+ * "if shippingService is international then customsInfo is required".
+ *
+ * A dependency's condition is written in the rule expression language and is
+ * evaluated with every field of the shipment in scope, plus `value` bound to
+ * the primary rule's field. When the condition holds, the dependent rule's
+ * field must be present.
+ */
+export class RuleDependencyEngine {
+  /**
+   * Find a cycle in the dependency graph.
+   * Returns the rule IDs that form the cycle (first ID repeated at the end), or null.
+   */
+  findCycle(dependencies: RuleDependency[], rules: ComplianceRule[]): string[] | null {
+    const graph = this.buildGraph(dependencies, rules);
+    const visiting = new Set<string>();
+    const visited = new Set<string>();
+    const path: string[] = [];
+
+    const visit = (ruleId: string): string[] | null => {
+      if (visiting.has(ruleId)) {
+        return [...path.slice(path.indexOf(ruleId)), ruleId];
+      }
+      if (visited.has(ruleId)) return null;
+
+      visiting.add(ruleId);
+      path.push(ruleId);
+      for (const next of Array.from(graph.get(ruleId) || [])) {
+        const cycle = visit(next);
+        if (cycle) return cycle;
+      }
+      path.pop();
+      visiting.delete(ruleId);
+      visited.add(ruleId);
+      return null;
+    };
+
+    for (const ruleId of Array.from(graph.keys())) {
+      const cycle = visit(ruleId);
+      if (cycle) return cycle;
+    }
+    return null;
+  }
+
+  /**
+   * Check a new or edited dependency before it is saved.
+   * Returns an error message, or null when the dependency is valid.
+   */
+  validateDependency(
+    candidate: Partial<RuleDependency>,
+    existing: RuleDependency[],
+    rules: ComplianceRule[]
+  ): string | null {
+    if (!candidate.primaryRuleId || !candidate.dependentRuleId) {
+      return 'Both a primary rule and a dependent rule are required';
+    }
+    if (candidate.primaryRuleId === candidate.dependentRuleId) {
+      return 'A rule cannot depend on itself';
+    }
+    if (!candidate.condition || !candidate.condition.trim()) {
+      return 'A condition is required';
+    }
+
+    const syntaxError = expressionEvaluator.validate(candidate.condition);
+    if (syntaxError) {
+      return `Invalid condition: ${syntaxError}`;
+    }
+
+    const proposed = [
+      ...existing.filter(dependency => dependency.id !== candidate.id),
+      { ...candidate, isActive: true } as RuleDependency
+    ];
+    const cycle = this.findCycle(proposed, rules);
+    if (cycle) {
+      return `This dependency would create a cycle: ${this.describeCycle(cycle, rules)}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Evaluate active dependencies against a shipment's fields
+   */
+  evaluate(
+    dataId: string,
+    fields: Record<string, string>,
+    dependencies: RuleDependency[],
+    rules: ComplianceRule[]
+  ): ComplianceResult[] {
+    const results: ComplianceResult[] = [];
+    const rulesById = new Map(rules.map(rule => [rule.id, rule]));
+    const active = dependencies.filter(
+      dependency => dependency.isActive && rulesById.has(dependency.primaryRuleId) && rulesById.has(dependency.dependentRuleId)
+    );
+
+    // Dependencies that take part in a cycle are reported once and skipped
+    const cyclic = new Set<string>();
+    const cycle = this.findCycle(active, rules);
+    if (cycle) {
+      const cycleRules = new Set(cycle);
+      active
+        .filter(dependency => cycleRules.has(dependency.primaryRuleId) && cycleRules.has(dependency.dependentRuleId))
+        .forEach(dependency => cyclic.add(dependency.id));
+
+      results.push({
+        id: `${dataId}-dependency-cycle`,
+        field: 'Rule Dependencies',
+        value: this.describeCycle(cycle, rules),
+        status: 'warning',
+        message: 'Circular rule dependencies were detected and skipped. Review them in the Rule Manager.'
+      });
+    }
+
+    for (const dependency of active) {
+      if (cyclic.has(dependency.id)) continue;
+
+      const primaryRule = rulesById.get(dependency.primaryRuleId)!;
+      const dependentRule = rulesById.get(dependency.dependentRuleId)!;
+      const primaryValue = this.getFieldValue(fields, primaryRule.fieldKey);
+
+      let conditionMet: boolean;
+      try {
+        conditionMet = expressionEvaluator.test(dependency.condition, { ...fields, value: primaryValue });
+      } catch (error) {
+        console.error(`Error evaluating dependency ${dependency.id}:`, error);
+        results.push({
+          id: `${dataId}-dependency-${dependency.id}`,
+          field: dependentRule.displayName,
+          value: dependency.condition,
+          status: 'warning',
+          message: `Dependency condition could not be evaluated: ${error instanceof Error ? error.message : error}`
+        });
+        continue;
+      }
+
+      if (!conditionMet) continue;
+
+      const dependentValue = this.getFieldValue(fields, dependentRule.fieldKey);
+      if (dependentValue.trim() === '') {
+        results.push({
+          id: `${dataId}-dependency-${dependency.id}`,
+          field: dependentRule.displayName,
+          value: '',
+          status: dependency.severity === 'warning' ? 'warning' : 'non-compliant',
+          message: dependency.message ||
+            `${dependentRule.displayName} is required when ${primaryRule.displayName} matches: ${dependency.condition}`
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Build adjacency from primary to dependent rules.
+   * Fields referenced in a condition also count as edges into the dependent rule.
+   */
+  private buildGraph(dependencies: RuleDependency[], rules: ComplianceRule[]): Map<string, Set<string>> {
+    const graph = new Map<string, Set<string>>();
+    const rulesByFieldKey = new Map(rules.map(rule => [rule.fieldKey.toLowerCase(), rule]));
+    const addEdge = (from: string, to: string) => {
+      if (!graph.has(from)) graph.set(from, new Set());
+      graph.get(from)!.add(to);
+    };
+
+    for (const dependency of dependencies) {
+      if (!dependency.isActive) continue;
+      addEdge(dependency.primaryRuleId, dependency.dependentRuleId);
+
+      let identifiers: string[] = [];
+      try {
+        identifiers = expressionEvaluator.getIdentifiers(dependency.condition);
+      } catch {
+        // Invalid conditions are reported during evaluation
+      }
+      for (const identifier of identifiers) {
+        const referencedRule = rulesByFieldKey.get(identifier.toLowerCase());
+        if (referencedRule && referencedRule.id !== dependency.primaryRuleId) {
+          addEdge(referencedRule.id, dependency.dependentRuleId);
+        }
+      }
+    }
+
+    return graph;
+  }
+
+  /**
+   * Human-readable description of a cycle, e.g. "Weight → Dimensions → Weight"
+   */
+  describeCycle(cycle: string[], rules: ComplianceRule[]): string {
+    return cycle
+      .map(ruleId => rules.find(rule => rule.id === ruleId)?.displayName || ruleId)
+      .join(' → ');
+  }
+
+  private getFieldValue(fields: Record<string, string>, fieldKey: string): string {
+    if (fields[fieldKey] !== undefined) return fields[fieldKey] || '';
+    const matchingKey = Object.keys(fields).find(key => key.toLowerCase() === fieldKey.toLowerCase());
+    return matchingKey ? fields[matchingKey] || '' : '';
+  }
+}
+
+export const ruleDependencyEngine = new RuleDependencyEngine();
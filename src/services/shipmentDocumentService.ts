@@ -0,0 +1,419 @@
+import { ComplianceResult } from './types';
+import { FormattedData } from './formatConverterDb';
+import { EnhancedDocumentation, ShipmentDocument, ShipmentDocumentType } from './database/models';
+import { shipmentDocumentRepository } from './database/shipmentDocumentRepository';
+import { countryService } from './countryService';
+import { currencyService } from './currencyService';
+import { detectTransportMode, getIncoterm } from './incotermsService';
+import { parseLithiumSection } from './dangerousGoodsService';
+
+/**
+ * A kind of shipment document, the titles it goes by and the record fields
+ * that show it was issued, e.g. an invoice number
+ */
+export interface DocumentTypeDefinition {
+  type: ShipmentDocumentType;
+  name: string;
+  pattern: RegExp;
+  fields: string[];
+}
+
+/**
+ * A document a shipment needs and why
+ */
+export interface RequiredDocument {
+  type: ShipmentDocumentType;
+  name: string;
+  reason: string;
+  alternatives: ShipmentDocumentType[]; // Documents accepted instead
+}
+
+// Field of the compliance results reported by the document check
+export const REQUIRED_DOCUMENTS_FIELD = 'Required Documents';
+
+export const DOCUMENT_TYPES: DocumentTypeDefinition[] = [
+  { type: 'commercial-invoice', name: 'Commercial Invoice', pattern: /\b(commercial invoice|customs invoice|invoice)\b/i, fields: ['commercialInvoiceNumber', 'invoiceNumber'] },
+  { type: 'proforma-invoice', name: 'Proforma Invoice', pattern: /\bpro[\s-]?forma\b/i, fields: ['proformaInvoiceNumber'] },
+  { type: 'packing-list', name: 'Packing List', pattern: /\bpacking (list|slip|specification)\b/i, fields: ['packingListNumber'] },
+  { type: 'certificate-of-origin', name: 'Certificate of Origin', pattern: /\b(certificates? of origin|origin certificate|eur\.?\s?1|statement on origin|origin declaration)\b/i, fields: ['certificateOfOriginNumber'] },
+  { type: 'customs-declaration', name: 'Customs Declaration (CN22/CN23)', pattern: /\b(cn\s?22|cn\s?23|customs declaration)\b/i, fields: ['customsDeclarationNumber'] },
+  { type: 'air-waybill', name: 'Air Waybill', pattern: /\b(air ?waybill|awb)\b/i, fields: ['airWaybill', 'airWaybillNumber', 'awbNumber'] },
+  { type: 'bill-of-lading', name: 'Bill of Lading', pattern: /\b(bill of lading|sea ?waybill)\b/i, fields: ['billOfLading', 'billOfLadingNumber', 'blNumber'] },
+  { type: 'export-declaration', name: 'Export Declaration', pattern: /\b(export declaration|electronic export information|export accompanying document)\b/i, fields: ['exportDeclarationNumber', 'itn', 'aesItn', 'mrn'] },
+  { type: 'export-license', name: 'Export Licence', pattern: /\bexport licen[cs]e\b/i, fields: ['exportLicenseNumber'] },
+  { type: 'import-license', name: 'Import Licence', pattern: /\bimport (licen[cs]e|permit)\b/i, fields: ['importLicenseNumber', 'importPermitNumber'] },
+  { type: 'insurance-certificate', name: 'Insurance Certificate', pattern: /\b(insurance certificate|certificate of insurance|insurance policy)\b/i, fields: ['insuranceCertificateNumber', 'insurancePolicyNumber'] },
+  { type: 'dangerous-goods-declaration', name: 'Dangerous Goods Declaration', pattern: /\b(dangerous goods (declaration|note)|shipper'?s declaration for dangerous goods)\b/i, fields: ['dangerousGoodsDeclarationNumber'] },
+  { type: 'health-certificate', name: 'Health Certificate', pattern: /\b(veterinary|sanitary|health) certificate\b/i, fields: ['healthCertificateNumber'] },
+  { type: 'phytosanitary-certificate', name: 'Phytosanitary Certificate', pattern: /\bphytosanitary\b/i, fields: ['phytosanitaryCertificateNumber'] },
+  { type: 'safety-certification', name: 'Safety Certification', pattern: /\b(safety certific(ate|ation)|declaration of conformity|certificate of conformity|children'?s product certificate)\b/i, fields: ['safetyCertificateNumber'] },
+  { type: 'inspection-certificate', name: 'Inspection Certificate', pattern: /\b(inspection certificate|pre-?shipment inspection|clean report of findings)\b/i, fields: ['inspectionCertificateNumber'] }
+];
+
+// Record fields listing the documents attached to or missing from a shipment
+const ATTACHED_DOCUMENT_FIELDS = ['attachedDocuments', 'documents', 'documentsAttached', 'enclosedDocuments'];
+
+const POSTAL_PATTERN = /\b(postal|post|usps|royal mail|la poste|canada post|ems|first class|priority mail)\b/i;
+
+const NON_COMMERCIAL_PATTERN = /\b(gift|sample|personal effects|returned goods|documents only)\b/i;
+
+// Customs of the Gulf states and much of the Arab League ask for a legalized certificate of origin on every commercial import
+const CERTIFICATE_OF_ORIGIN_COUNTRIES = ['SA', 'AE', 'KW', 'QA', 'BH', 'OM', 'EG', 'JO', 'LB'];
+
+// Value above which an export declaration is required: EEI filing for US exports, the EAD for EU exports
+const US_EEI_THRESHOLD = 2500;
+const EU_EXPORT_DECLARATION_THRESHOLD = 1000;
+
+// Goods categories that need a certificate or licence, from the item type, description or HS chapter
+const FOOD_PATTERN = /\b(food|meat|fish|seafood|dairy|milk|cheese|eggs?|honey|pet food)\b/i;
+const FOOD_HS_CHAPTERS = ['02', '03', '04', '05', '16'];
+const PLANT_PATTERN = /\b(plants?|seeds?|bulbs?|flowers?|fruits?|vegetables?|grains?|timber|wood|soil)\b/i;
+const PLANT_HS_CHAPTERS = ['06', '07', '08', '10', '12', '14', '44'];
+const PHARMACEUTICAL_PATTERN = /\b(pharmaceuticals?|medicines?|medications?|drugs|vaccines?)\b/i;
+const SAFETY_PATTERN = /\b(toys?|electronics?|electrical|medical devices?|machinery|machines?)\b/i;
+const SAFETY_HS_CHAPTERS = ['84', '85', '95'];
+
+/**
+ * Get the display name of a document type, e.g. "Packing List"
+ */
+export const getDocumentTypeName = (type: ShipmentDocumentType): string => {
+  const definition = DOCUMENT_TYPES.find(documentType => documentType.type === type);
+  return definition ? definition.name : 'Other Document';
+};
+
+/**
+ * Tell the type of a document from its title or a document name, e.g.
+ * "packing-list" for "PACKING LIST No. 42". The earliest title in the text
+ * wins, so a packing list that mentions its invoice number is not read as
+ * an invoice.
+ * @returns The document type, or undefined when no title is recognized
+ */
+export const detectDocumentType = (text: string): ShipmentDocumentType | undefined => {
+  let earliest: { type: ShipmentDocumentType; index: number; length: number } | undefined;
+
+  for (const definition of DOCUMENT_TYPES) {
+    const match = text.match(definition.pattern);
+    if (!match || match.index === undefined) {
+      continue;
+    }
+
+    if (!earliest || match.index < earliest.index ||
+        (match.index === earliest.index && match[0].length > earliest.length)) {
+      earliest = { type: definition.type, index: match.index, length: match[0].length };
+    }
+  }
+
+  return earliest?.type;
+};
+
+/**
+ * Read a list of document names, e.g. "Commercial Invoice, Packing List"
+ * @returns The recognized document types; "None" gives an empty list
+ */
+export const parseDocumentTypes = (value: string): ShipmentDocumentType[] => {
+  const types = value
+    .split(/[,;/\n]|\band\b/i)
+    .map(name => detectDocumentType(name.trim()))
+    .filter((type): type is ShipmentDocumentType => type !== undefined);
+  return Array.from(new Set(types));
+};
+
+/**
+ * Get the key documents of a shipment are stored under: its tracking or
+ * reference number, or the given fallback for records without one
+ */
+export const getShipmentKey = (fields: Record<string, string>, fallback: string): string =>
+  (fields.trackingNumber || fields.referenceNo || fields.orderNumber || fallback).trim();
+
+const parseAmount = (value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  const parsed = parseFloat(value.replace(/[^0-9.-]/g, ''));
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+/**
+ * Documents the record says are attached or missing
+ */
+interface DeclaredDocuments {
+  present: Set<ShipmentDocumentType>;
+  missing: ShipmentDocumentType[];
+  listsMissing: boolean; // The record has a missing documents field, even if it says "None"
+  status?: 'complete' | 'incomplete';
+}
+
+/**
+ * Service for tracking the documents of a shipment and checking them
+ * against the documents its destination, value, goods and incoterm require
+ */
+class ShipmentDocumentService {
+  /**
+   * Work out which documents a shipment needs
+   * @param fields Formatted shipment fields
+   * @param countryCode ISO code of the destination country
+   * @param enhancedDocumentation Documents the destination country asks for, if any
+   */
+  async getRequiredDocuments(
+    fields: Record<string, string>,
+    countryCode: string,
+    enhancedDocumentation?: EnhancedDocumentation
+  ): Promise<RequiredDocument[]> {
+    const required: RequiredDocument[] = [];
+    const add = (type: ShipmentDocumentType, reason: string, alternatives: ShipmentDocumentType[] = []) => {
+      if (!required.some(document => document.type === type)) {
+        required.push({ type, name: getDocumentTypeName(type), reason, alternatives });
+      }
+    };
+
+    const countryName = enhancedDocumentation?.countryName || countryService.getName(countryCode);
+    const service = [fields.transportMode, fields.shippingService, fields.shippingCarrier].filter(Boolean).join(' ');
+    const mode = detectTransportMode(fields.transportMode || fields.shippingService);
+    const isPostal = POSTAL_PATTERN.test(service);
+    await currencyService.loadRates();
+    const declared = currencyService.readDeclaredValue(fields);
+    const goods = [fields.itemType, fields.packageContents].filter(Boolean).join(' ');
+    const hsChapter = (fields.hsTariffNumber || '').replace(/\D/g, '').slice(0, 2);
+    const isControlled = !!fields.eccn && !/^EAR-?99$/i.test(fields.eccn.trim());
+
+    // Documents the destination country asks for take precedence, with the country's wording as the reason
+    for (const requirement of enhancedDocumentation?.requirements || []) {
+      const type = detectDocumentType(requirement);
+      if (!type || (/\bcertain goods\b/i.test(requirement) && !isControlled)) {
+        continue;
+      }
+      add(type, `${countryName} requires: ${requirement}.`);
+    }
+
+    if (NON_COMMERCIAL_PATTERN.test([fields.exportReason, fields.reasonForExport, goods].filter(Boolean).join(' '))) {
+      add('commercial-invoice', 'Customs clears the goods against their invoice; a proforma invoice is accepted for gifts and samples.', ['proforma-invoice']);
+    } else {
+      add('commercial-invoice', 'Customs clears commercial goods against a commercial invoice stating their value and origin.');
+    }
+
+    if (isPostal) {
+      add('customs-declaration', 'Postal items sent abroad need a CN22, or a CN23 when their value exceeds 300 SDR.');
+    }
+
+    if (mode === 'sea' || mode === 'road' || mode === 'rail' || (parseAmount(fields.packageCount) || 0) > 1) {
+      add('packing-list', 'Freight and multi-package shipments need a packing list of the contents of each package.');
+    }
+
+    if (mode === 'air' && !isPostal) {
+      add('air-waybill', 'Air freight travels under an air waybill issued by the carrier.');
+    } else if (mode === 'sea') {
+      add('bill-of-lading', 'Ocean freight travels under a bill of lading or sea waybill.');
+    }
+
+    if (CERTIFICATE_OF_ORIGIN_COUNTRIES.includes(countryCode)) {
+      add('certificate-of-origin', `Customs in ${countryName} asks for a certificate of origin, legalized by a chamber of commerce, on commercial imports.`);
+    }
+    const agreement = fields.preferentialOrigin || fields.tradeAgreement || fields.preferenceClaimed;
+    if (agreement && !/^(no|none|n|false)$/i.test(agreement.trim())) {
+      add('certificate-of-origin', `Preferential duty under ${agreement} must be supported by a certificate or statement of origin.`);
+    }
+
+    if (declared?.currency) {
+      // The thresholds are in USD and EUR, so the value is converted first
+      const origin = countryService.resolve(fields.shipperCountry);
+      const valueIn = (currency: string) => currencyService.convert(declared.amount, declared.currency!, currency) ?? 0;
+      if (origin?.alpha2 === 'US' && valueIn('USD') > US_EEI_THRESHOLD) {
+        add('export-declaration', `Exports from the United States valued over ${US_EEI_THRESHOLD} USD need Electronic Export Information filed in AES.`);
+      } else if (origin?.euMember && valueIn('EUR') > EU_EXPORT_DECLARATION_THRESHOLD) {
+        add('export-declaration', `Exports from the EU valued over ${EU_EXPORT_DECLARATION_THRESHOLD} EUR need an export declaration (EAD).`);
+      }
+    }
+
+    const incoterm = getIncoterm(fields.incoterm);
+    if (incoterm && (incoterm.code === 'CIF' || incoterm.code === 'CIP')) {
+      add('insurance-certificate', `Under ${incoterm.code} the seller insures the goods and must give the buyer the insurance certificate.`);
+    }
+
+    if (fields.unNumber && parseLithiumSection(fields.lithiumBatterySection || '')?.section !== 'II') {
+      add('dangerous-goods-declaration', `Dangerous goods declared under ${fields.unNumber.trim()} need a dangerous goods declaration signed by the shipper.`);
+    }
+
+    if (FOOD_PATTERN.test(goods) || FOOD_HS_CHAPTERS.includes(hsChapter)) {
+      add('health-certificate', 'Food and animal products need a health certificate issued by the authorities of the exporting country.');
+    }
+    if (PLANT_PATTERN.test(goods) || PLANT_HS_CHAPTERS.includes(hsChapter)) {
+      add('phytosanitary-certificate', 'Plants and plant products need a phytosanitary certificate issued by the plant protection authority of the exporting country.');
+    }
+    if (PHARMACEUTICAL_PATTERN.test(goods) || hsChapter === '30') {
+      add('import-license', 'Medicines need an import licence or permit of the health authority of the destination.');
+    }
+    if (SAFETY_PATTERN.test(goods) || SAFETY_HS_CHAPTERS.includes(hsChapter)) {
+      add('safety-certification', 'Toys, electrical equipment, machinery and medical devices need proof of conformity with the safety standards of the destination, e.g. a CE declaration or test certificate.');
+    }
+
+    return required;
+  }
+
+  /**
+   * Check that a shipment has every document it needs. Documents count as
+   * present when they are uploaded for the shipment, listed as attached,
+   * identified by a number on the record, or not among the missing
+   * documents of a record that lists them. Each missing document is
+   * reported separately.
+   * @param fields Formatted shipment fields
+   * @param shipmentKey Key the shipment's uploaded documents are stored under
+   * @param countryCode ISO code of the destination country
+   * @param enhancedDocumentation Documents the destination country asks for, if any
+   */
+  async checkDocuments(
+    fields: Record<string, string>,
+    shipmentKey: string,
+    countryCode: string,
+    enhancedDocumentation?: EnhancedDocumentation
+  ): Promise<ComplianceResult[]> {
+    const required = await this.getRequiredDocuments(fields, countryCode, enhancedDocumentation);
+    const uploaded = await this.getDocuments(shipmentKey);
+    const declared = this.readDeclaredDocuments(fields);
+    uploaded.forEach(document => declared.present.add(document.type));
+
+    const results: ComplianceResult[] = [];
+    const id = `documents-${Date.now()}`;
+    const hasEvidence = declared.present.size > 0 || declared.listsMissing || declared.status !== undefined;
+
+    if (!hasEvidence) {
+      results.push({
+        id,
+        field: REQUIRED_DOCUMENTS_FIELD,
+        value: required.map(document => document.name).join(', '),
+        status: 'warning',
+        message: `No documents are attached or listed for this shipment, which needs: ${required.map(document => document.name).join(', ')}. Upload the documents or list them on the record.`
+      });
+      return results;
+    }
+
+    const isPresent = (type: ShipmentDocumentType): boolean =>
+      declared.present.has(type) ||
+      ((declared.listsMissing || declared.status === 'complete') && !declared.missing.includes(type));
+
+    const missing = required.filter(document => !isPresent(document.type) && !document.alternatives.some(isPresent));
+    missing.forEach((document, index) => {
+      results.push({
+        id: `${id}-${index}`,
+        field: REQUIRED_DOCUMENTS_FIELD,
+        value: document.name,
+        status: 'non-compliant',
+        message: `${document.name} is missing. ${document.reason}`
+      });
+    });
+
+    declared.missing
+      .filter(type => !required.some(document => document.type === type))
+      .forEach(type => {
+        results.push({
+          id: `${id}-listed-${type}`,
+          field: REQUIRED_DOCUMENTS_FIELD,
+          value: getDocumentTypeName(type),
+          status: 'warning',
+          message: `The record lists the ${getDocumentTypeName(type)} as missing. It is not required for this destination, goods and incoterm, but the carrier or buyer may expect it.`
+        });
+      });
+
+    if (missing.length === 0) {
+      results.push({
+        id,
+        field: REQUIRED_DOCUMENTS_FIELD,
+        value: required.map(document => document.name).join(', '),
+        status: declared.status === 'incomplete' && declared.missing.length === 0 ? 'warning' : 'compliant',
+        message: declared.status === 'incomplete' && declared.missing.length === 0
+          ? 'All required documents appear to be present, but the record marks its documentation as incomplete without listing what is missing.'
+          : `All ${required.length} required documents are present: ${required.map(document => document.name).join(', ')}.`
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Store a document uploaded for a shipment. Without a type, it is
+   * detected from the title in the text or else the file name.
+   */
+  async attachDocument(
+    shipmentKey: string,
+    document: { filename: string; text: string; fields: Record<string, string>; type?: ShipmentDocumentType }
+  ): Promise<ShipmentDocument> {
+    return shipmentDocumentRepository.addDocument({
+      shipmentKey,
+      filename: document.filename,
+      text: document.text,
+      fields: document.fields,
+      type: document.type ||
+        detectDocumentType(document.text) ||
+        detectDocumentType(document.filename.replace(/[_-]+/g, ' ')) ||
+        'other'
+    });
+  }
+
+  /**
+   * Get the documents uploaded for a shipment
+   */
+  async getDocuments(shipmentKey: string): Promise<ShipmentDocument[]> {
+    try {
+      return await shipmentDocumentRepository.getDocumentsByShipment(shipmentKey);
+    } catch (error) {
+      console.error(`Error loading documents of shipment ${shipmentKey}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Get an uploaded document as formatted data, e.g. to compare it with
+   * the other documents of its shipment
+   */
+  toFormattedData(document: ShipmentDocument): FormattedData {
+    return {
+      id: document.id,
+      fields: document.fields,
+      rawText: document.text,
+      processingMetadata: {
+        confidence: 1,
+        source: 'upload',
+        timestamp: document.attachedAt,
+        warnings: []
+      }
+    };
+  }
+
+  /**
+   * Correct the type of an uploaded document
+   */
+  async setDocumentType(id: string, type: ShipmentDocumentType): Promise<ShipmentDocument> {
+    return shipmentDocumentRepository.updateDocument(id, { type });
+  }
+
+  /**
+   * Remove an uploaded document from its shipment
+   */
+  async removeDocument(id: string): Promise<void> {
+    await shipmentDocumentRepository.deleteDocument(id);
+  }
+
+  /**
+   * Read the documents a record lists as attached, identifies by number or
+   * lists as missing, and its documentation status
+   */
+  private readDeclaredDocuments(fields: Record<string, string>): DeclaredDocuments {
+    const present = new Set<ShipmentDocumentType>();
+    ATTACHED_DOCUMENT_FIELDS
+      .filter(field => fields[field])
+      .forEach(field => parseDocumentTypes(fields[field]).forEach(type => present.add(type)));
+    DOCUMENT_TYPES
+      .filter(definition => definition.fields.some(field => fields[field] && fields[field].trim()))
+      .forEach(definition => present.add(definition.type));
+
+    const listsMissing = fields.missingDocuments !== undefined && fields.missingDocuments.trim() !== '';
+    const status = (fields.documentationStatus || '').trim();
+
+    return {
+      present,
+      missing: listsMissing ? parseDocumentTypes(fields.missingDocuments) : [],
+      listsMissing,
+      status: /^incomplete/i.test(status) ? 'incomplete' : /^complete/i.test(status) ? 'complete' : undefined
+    };
+  }
+}
+
+// Create and export a singleton instance
+export const shipmentDocumentService = new ShipmentDocumentService();
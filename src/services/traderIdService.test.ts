@@ -0,0 +1,134 @@
+import {
+  traderIdService,
+  validateAbn,
+  validateBn,
+  validateEin,
+  validateEori,
+  validateEuVat,
+  validateGstin,
+  validateIec,
+  validateIoss,
+  validateUkVat
+} from './traderIdService';
+
+describe('validateEuVat', () => {
+  it.each([
+    ['ATU10223006'],
+    ['DE 811 372 548'],
+    ['DE123456788'],
+    ['FI01120389'],
+    ['FI20774740'],
+    ['PT123456789'],
+    ['PT500000000'],
+    ['BE0776091951'],
+    ['EL094259216']
+  ])('accepts %s', number => {
+    expect(validateEuVat(number).valid).toBe(true);
+  });
+
+  it.each([
+    ['DE811372549', 'The check digits of DE811372549 do not match'],
+    ['FI01120388', 'The check digits of FI01120388 do not match'],
+    ['ATU10223007', 'The check digits of ATU10223007 do not match'],
+    ['GR094259216', 'Greek VAT numbers use the prefix EL'],
+    ['DE12345678', 'Germany VAT numbers are DE followed by 9 digits'],
+    ['US123456789', 'US is not the VAT prefix of an EU member state']
+  ])('rejects %s', (number, reason) => {
+    const validation = validateEuVat(number);
+    expect(validation.valid).toBe(false);
+    expect(validation.reason).toContain(reason);
+  });
+
+  it('rejects Finnish numbers whose check digit would be 10', () => {
+    // The weighted sum of 1234568 leaves a remainder of 1, which Finland never issues
+    expect(validateEuVat('FI12345680').valid).toBe(false);
+  });
+
+  it('gives Portuguese numbers with a remainder of 1 check digit 0', () => {
+    expect(validateEuVat('PT500000000').valid).toBe(true);
+    expect(validateEuVat('PT500000001').valid).toBe(false);
+  });
+
+  it('checks GB and XI numbers as UK VAT numbers', () => {
+    expect(validateEuVat('GB980780684')).toMatchObject({ valid: true, issuer: 'United Kingdom' });
+  });
+});
+
+describe('validateUkVat', () => {
+  it('accepts numbers with either modulus 97 check', () => {
+    expect(validateUkVat('GB 980 7806 84').valid).toBe(true);
+    expect(validateUkVat('GB980780684001').valid).toBe(true);
+    expect(validateUkVat('GBGD001').valid).toBe(true);
+  });
+
+  it('rejects mistyped numbers', () => {
+    expect(validateUkVat('GB980780685').reason).toBe('The check digits 85 do not match the first seven digits of the UK VAT number.');
+    expect(validateUkVat('GB98078068').valid).toBe(false);
+  });
+});
+
+describe('validateEori', () => {
+  it('accepts numbers in the format of the issuing country', () => {
+    expect(validateEori('GB123456789000')).toMatchObject({ valid: true, issuer: 'United Kingdom' });
+    expect(validateEori('XI123456789000')).toMatchObject({ valid: true, issuer: 'Northern Ireland' });
+    expect(validateEori('DE1234567').valid).toBe(true);
+  });
+
+  it('rejects countries that do not issue EORI numbers and malformed national parts', () => {
+    expect(validateEori('US123456789').reason).toBe('US is not an EU member state or the UK, so it does not issue EORI numbers.');
+    expect(validateEori('GB12345678').valid).toBe(false);
+    expect(validateEori('FR1234567890123456').valid).toBe(false);
+  });
+});
+
+describe('other trader identifiers', () => {
+  it('checks ABNs with the mod-89 checksum', () => {
+    expect(validateAbn('51 824 753 556').valid).toBe(true);
+    expect(validateAbn('51 824 753 557').valid).toBe(false);
+  });
+
+  it('checks the GSTIN check character', () => {
+    expect(validateGstin('27AAPFU0939F1ZV').valid).toBe(true);
+    expect(validateGstin('27AAPFU0939F1ZW').reason).toBe('The GSTIN check character is W but should be V; a character is mistyped.');
+    expect(validateGstin('40AAPFU0939F1ZV').valid).toBe(false);
+  });
+
+  it('accepts IECs as a PAN or 10 digits', () => {
+    expect(validateIec('AAACB1234C').valid).toBe(true);
+    expect(validateIec('0123456789').valid).toBe(true);
+    expect(validateIec('AAAXB1234C').valid).toBe(false);
+  });
+
+  it('rejects EIN prefixes the IRS does not assign', () => {
+    expect(validateEin('12-3456789').valid).toBe(true);
+    expect(validateEin('07-3456789').valid).toBe(false);
+  });
+
+  it('checks the Business Number check digit and program', () => {
+    expect(validateBn('123456782 RM0001').valid).toBe(true);
+    expect(validateBn('123456783').valid).toBe(false);
+    expect(validateBn('123456782XX0001').valid).toBe(false);
+  });
+
+  it('checks the member state of IOSS numbers', () => {
+    expect(validateIoss('IM2760000001')).toMatchObject({ valid: true, issuer: 'Germany' });
+    expect(validateIoss('IM8400000001').valid).toBe(false);
+    expect(validateIoss('IN2760000001').valid).toBe(false);
+  });
+});
+
+describe('traderIdService.checkTraderIds', () => {
+  it('reports one result per identifier present', () => {
+    const results = traderIdService.checkTraderIds({
+      vatNumber: 'DE811372548',
+      eoriNumber: 'GB12345678',
+      businessNumber: '123456782RT0001'
+    });
+
+    expect(results.map(result => [result.field, result.status])).toEqual([
+      ['EORI Number', 'non-compliant'],
+      ['VAT Number', 'compliant'],
+      ['Business Number', 'warning']
+    ]);
+  });
+});
@@ -0,0 +1,434 @@
+import { ComplianceResult } from './types';
+import { countryService } from './countryService';
+
+/**
+ * Outcome of validating a trader identifier
+ */
+export interface TraderIdValidation {
+  valid: boolean;
+  normalized: string; // Upper case, without spaces, dots and hyphens
+  reason?: string; // Why the identifier is invalid
+  issuer?: string; // Country that issued it, when its prefix says so
+}
+
+/**
+ * National part of an EU VAT number, after the country prefix
+ */
+interface VatFormat {
+  pattern: RegExp;
+  format: string; // Described for findings, e.g. "9 digits"
+  checksum?: (number: string) => boolean;
+}
+
+const normalize = (value: string): string => value.toUpperCase().replace(/[\s.\-/]/g, '');
+
+const digitsOf = (value: string): number[] => value.split('').map(Number);
+
+const weightedSum = (digits: number[], weights: number[]): number =>
+  weights.reduce((sum, weight, index) => sum + weight * digits[index], 0);
+
+const luhnValid = (value: string): boolean => {
+  let sum = 0;
+  digitsOf(value).reverse().forEach((digit, index) => {
+    const doubled = index % 2 === 1 ? digit * 2 : digit;
+    sum += doubled > 9 ? doubled - 9 : doubled;
+  });
+  return sum % 10 === 0;
+};
+
+// ISO 7064 MOD 11,10, used by Germany and Croatia
+const mod11_10Valid = (value: string): boolean => {
+  const digits = digitsOf(value);
+  let product = 10;
+  for (const digit of digits.slice(0, -1)) {
+    let sum = (digit + product) % 10;
+    if (sum === 0) sum = 10;
+    product = (2 * sum) % 11;
+  }
+  return (11 - product) % 10 === digits[digits.length - 1];
+};
+
+// Check digit of the weights modulo 11 is 11 minus the remainder, 0 for a remainder of 0 (Finland, Portugal).
+// Finland issues no numbers with a remainder of 1; Portugal gives them check digit 0.
+const mod11CheckDigit = (digits: number[], weights: number[], tenIsZero = false): number | undefined => {
+  const check = (11 - (weightedSum(digits, weights) % 11)) % 11;
+  if (check === 10) {
+    return tenIsZero ? 0 : undefined;
+  }
+  return check;
+};
+
+const EU_VAT_FORMATS: Record<string, VatFormat> = {
+  AT: {
+    pattern: /^U\d{8}$/,
+    format: 'U followed by 8 digits',
+    checksum: number => {
+      const digits = digitsOf(number.slice(1));
+      const sum = digits.slice(0, 7).reduce((total, digit, index) => {
+        const product = index % 2 === 1 ? digit * 2 : digit;
+        return total + Math.floor(product / 10) + (product % 10);
+      }, 0);
+      return (10 - ((sum + 4) % 10)) % 10 === digits[7];
+    }
+  },
+  BE: { pattern: /^[01]\d{9}$/, format: '10 digits starting with 0 or 1', checksum: number => 97 - (parseInt(number.slice(0, 8), 10) % 97) === parseInt(number.slice(8), 10) },
+  BG: { pattern: /^\d{9,10}$/, format: '9 or 10 digits' },
+  CY: { pattern: /^\d{8}[A-Z]$/, format: '8 digits and a letter' },
+  CZ: { pattern: /^\d{8,10}$/, format: '8 to 10 digits' },
+  DE: { pattern: /^[1-9]\d{8}$/, format: '9 digits', checksum: mod11_10Valid },
+  DK: { pattern: /^[1-9]\d{7}$/, format: '8 digits', checksum: number => weightedSum(digitsOf(number), [2, 7, 6, 5, 4, 3, 2, 1]) % 11 === 0 },
+  EE: { pattern: /^10\d{7}$/, format: '9 digits starting with 10' },
+  EL: {
+    pattern: /^\d{9}$/,
+    format: '9 digits',
+    checksum: number => {
+      const digits = digitsOf(number);
+      return (weightedSum(digits, [256, 128, 64, 32, 16, 8, 4, 2]) % 11) % 10 === digits[8];
+    }
+  },
+  ES: { pattern: /^([A-Z]\d{7}[A-Z0-9]|\d{8}[A-Z])$/, format: '9 characters starting or ending with a letter' },
+  FI: { pattern: /^\d{8}$/, format: '8 digits', checksum: number => mod11CheckDigit(digitsOf(number), [7, 9, 10, 5, 8, 4, 2]) === Number(number[7]) },
+  FR: {
+    pattern: /^[0-9A-HJ-NP-Z]{2}\d{9}$/,
+    format: '2 check characters followed by the 9-digit SIREN',
+    // Only numeric keys can be checked; letter keys are issued to new businesses
+    checksum: number => !/^\d{2}/.test(number) || (12 + 3 * (parseInt(number.slice(2), 10) % 97)) % 97 === parseInt(number.slice(0, 2), 10)
+  },
+  HR: { pattern: /^\d{11}$/, format: '11 digits', checksum: mod11_10Valid },
+  HU: { pattern: /^\d{8}$/, format: '8 digits' },
+  IE: { pattern: /^(\d{7}[A-W][A-I]?|\d[A-Z+*]\d{5}[A-W])$/, format: '7 digits and 1 or 2 letters' },
+  IT: { pattern: /^\d{11}$/, format: '11 digits', checksum: luhnValid },
+  LT: { pattern: /^(\d{9}|\d{12})$/, format: '9 or 12 digits' },
+  LU: { pattern: /^\d{8}$/, format: '8 digits', checksum: number => parseInt(number.slice(0, 6), 10) % 89 === parseInt(number.slice(6), 10) },
+  LV: { pattern: /^\d{11}$/, format: '11 digits' },
+  MT: { pattern: /^[1-9]\d{7}$/, format: '8 digits' },
+  NL: {
+    pattern: /^\d{9}B\d{2}$/,
+    format: '9 digits, B and 2 digits',
+    // Sole traders' numbers since 2020 are checked with ISO 7064 MOD 97-10 over the whole number
+    checksum: number => {
+      const digits = digitsOf(number.slice(0, 9));
+      const mod11 = weightedSum(digits, [9, 8, 7, 6, 5, 4, 3, 2]) % 11;
+      const numeric = `NL${number}`.replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+      const mod97 = numeric.split('').reduce((remainder, digit) => (remainder * 10 + Number(digit)) % 97, 0);
+      return (mod11 !== 10 && mod11 === digits[8]) || mod97 === 1;
+    }
+  },
+  PL: {
+    pattern: /^\d{10}$/,
+    format: '10 digits',
+    checksum: number => {
+      const check = weightedSum(digitsOf(number), [6, 5, 7, 2, 3, 4, 5, 6, 7]) % 11;
+      return check !== 10 && check === Number(number[9]);
+    }
+  },
+  PT: { pattern: /^[1-9]\d{8}$/, format: '9 digits', checksum: number => mod11CheckDigit(digitsOf(number), [9, 8, 7, 6, 5, 4, 3, 2], true) === Number(number[8]) },
+  RO: { pattern: /^[1-9]\d{1,9}$/, format: '2 to 10 digits' },
+  SE: { pattern: /^\d{10}01$/, format: '12 digits ending in 01', checksum: number => luhnValid(number.slice(0, 10)) },
+  SI: { pattern: /^[1-9]\d{7}$/, format: '8 digits' },
+  SK: { pattern: /^[1-9]\d{9}$/, format: '10 digits', checksum: number => parseInt(number, 10) % 11 === 0 }
+};
+
+// National identifiers in EORI numbers, where the issuing country publishes their format
+const EORI_FORMATS: Record<string, { pattern: RegExp; format: string }> = {
+  GB: { pattern: /^\d{12}$/, format: '12 digits' },
+  XI: { pattern: /^\d{12}$/, format: '12 digits' },
+  FR: { pattern: /^(\d{9}|\d{14})$/, format: 'the 9-digit SIREN or 14-digit SIRET' },
+  NL: { pattern: /^\d{9}$/, format: '9 digits' },
+  BE: { pattern: /^[01]\d{9}$/, format: '10 digits starting with 0 or 1' },
+  IT: { pattern: /^(\d{11}|[A-Z0-9]{16})$/, format: 'the 11-digit VAT number or 16-character tax code' },
+  ES: EU_VAT_FORMATS.ES,
+  IE: EU_VAT_FORMATS.IE
+};
+
+const GSTIN_CHARACTERS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// Fourth character of a PAN: the kind of holder, e.g. C for a company or P for a person
+const PAN_PATTERN = /^[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]$/;
+
+// Prefixes the IRS has never assigned to EINs
+const INVALID_EIN_PREFIXES = ['00', '07', '08', '09', '17', '18', '19', '28', '29', '49', '69', '70', '78', '79', '89', '96', '97'];
+
+// Canadian program accounts; customs uses the RM import-export account
+const BN_PROGRAMS: Record<string, string> = {
+  RT: 'GST/HST', RP: 'payroll', RC: 'corporate income tax', RM: 'import-export', RR: 'charity', RZ: 'information return'
+};
+
+const invalid = (normalized: string, reason: string, issuer?: string): TraderIdValidation =>
+  ({ valid: false, normalized, reason, issuer });
+
+/**
+ * Validate an EORI number: the two-letter code of an EU member state, GB
+ * or XI (Northern Ireland) followed by up to 15 characters in the format
+ * of the issuing country
+ */
+export const validateEori = (value: string): TraderIdValidation => {
+  const normalized = normalize(value);
+  const prefix = normalized.slice(0, 2);
+  const national = normalized.slice(2);
+
+  if (!/^[A-Z]{2}$/.test(prefix)) {
+    return invalid(normalized, 'An EORI number starts with the two-letter code of the issuing country, e.g. DE or GB.');
+  }
+  if (prefix !== 'XI' && prefix !== 'GB' && !countryService.isEuMember(prefix)) {
+    return invalid(normalized, `${prefix} is not an EU member state or the UK, so it does not issue EORI numbers.`);
+  }
+
+  const issuer = prefix === 'XI' ? 'Northern Ireland' : countryService.getName(prefix);
+  if (!/^[A-Z0-9]{1,15}$/.test(national)) {
+    return invalid(normalized, `After the ${prefix} prefix an EORI number has 1 to 15 letters and digits; "${national}" has ${national.length} characters.`, issuer);
+  }
+  const format = EORI_FORMATS[prefix];
+  if (format && !format.pattern.test(national)) {
+    return invalid(normalized, `${issuer} EORI numbers are ${prefix} followed by ${format.format}; "${national}" is not.`, issuer);
+  }
+  return { valid: true, normalized, issuer };
+};
+
+/**
+ * Validate a UK VAT number: GB followed by 9 digits, 12 with a branch
+ * suffix, or GD/HA and 3 digits for government departments and health
+ * authorities. Nine-digit numbers carry a modulus 97 check.
+ */
+export const validateUkVat = (value: string): TraderIdValidation => {
+  const normalized = normalize(value);
+  const number = normalized.replace(/^(GB|XI)/, '');
+
+  if (/^(GD[0-4]|HA[5-9])\d{2}$/.test(number)) {
+    return { valid: true, normalized, issuer: 'United Kingdom' };
+  }
+  if (!/^\d{9}(\d{3})?$/.test(number)) {
+    return invalid(normalized, `A UK VAT number is GB followed by 9 digits (12 with a branch code); "${number}" has ${number.length} characters.`, 'United Kingdom');
+  }
+
+  const digits = digitsOf(number.slice(0, 9));
+  const total = weightedSum(digits, [8, 7, 6, 5, 4, 3, 2]) + parseInt(number.slice(7, 9), 10);
+  // Numbers issued since 2010 add 55 to the total
+  if (total % 97 !== 0 && (total + 55) % 97 !== 0) {
+    return invalid(normalized, `The check digits ${number.slice(7, 9)} do not match the first seven digits of the UK VAT number.`, 'United Kingdom');
+  }
+  return { valid: true, normalized, issuer: 'United Kingdom' };
+};
+
+/**
+ * Validate an EU VAT number against the format and, where published, the
+ * check digits of its member state. Greece uses the prefix EL; GB and XI
+ * numbers are checked as UK VAT numbers.
+ */
+export const validateEuVat = (value: string): TraderIdValidation => {
+  const normalized = normalize(value);
+  const prefix = normalized.slice(0, 2);
+  const number = normalized.slice(2);
+
+  if (prefix === 'GB' || prefix === 'XI') {
+    return validateUkVat(value);
+  }
+  if (!/^[A-Z]{2}$/.test(prefix)) {
+    return invalid(normalized, 'A VAT number starts with the two-letter prefix of its member state, e.g. DE or FR.');
+  }
+  if (prefix === 'GR') {
+    return invalid(normalized, 'Greek VAT numbers use the prefix EL, not GR.', 'Greece');
+  }
+
+  const format = EU_VAT_FORMATS[prefix];
+  if (!format) {
+    return invalid(normalized, `${prefix} is not the VAT prefix of an EU member state.`);
+  }
+
+  const issuer = countryService.getName(prefix === 'EL' ? 'GR' : prefix);
+  if (!format.pattern.test(number)) {
+    return invalid(normalized, `${issuer} VAT numbers are ${prefix} followed by ${format.format}; "${number}" is not.`, issuer);
+  }
+  if (format.checksum && !format.checksum(number)) {
+    return invalid(normalized, `The check digits of ${normalized} do not match; the number is mistyped or was never issued.`, issuer);
+  }
+  return { valid: true, normalized, issuer };
+};
+
+/**
+ * Validate an Australian Business Number: 11 digits whose weighted sum,
+ * after subtracting 1 from the first digit, is divisible by 89
+ */
+export const validateAbn = (value: string): TraderIdValidation => {
+  const normalized = normalize(value);
+  if (!/^\d{11}$/.test(normalized)) {
+    return invalid(normalized, `An ABN has 11 digits; "${normalized}" has ${normalized.replace(/\D/g, '').length}.`, 'Australia');
+  }
+
+  const digits = digitsOf(normalized);
+  digits[0] -= 1;
+  const remainder = weightedSum(digits, [10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19]) % 89;
+  if (remainder !== 0) {
+    return invalid(normalized, `The ABN fails the mod-89 checksum (remainder ${remainder}); a digit is mistyped.`, 'Australia');
+  }
+  return { valid: true, normalized, issuer: 'Australia' };
+};
+
+/**
+ * Validate an Indian Import Export Code: the holder's 10-character PAN,
+ * or 10 digits for codes issued before 2018
+ */
+export const validateIec = (value: string): TraderIdValidation => {
+  const normalized = normalize(value);
+  if (/^\d{10}$/.test(normalized) || PAN_PATTERN.test(normalized)) {
+    return { valid: true, normalized, issuer: 'India' };
+  }
+  if (normalized.length !== 10) {
+    return invalid(normalized, `An IEC has 10 characters; "${normalized}" has ${normalized.length}.`, 'India');
+  }
+  return invalid(normalized, 'An IEC is the holder\'s PAN (5 letters, 4 digits and a letter, e.g. AAACB1234C) or, if issued before 2018, 10 digits.', 'India');
+};
+
+/**
+ * Validate an Indian GSTIN: state code, PAN, entity number, Z and a
+ * base-36 check character
+ */
+export const validateGstin = (value: string): TraderIdValidation => {
+  const normalized = normalize(value);
+  if (normalized.length !== 15) {
+    return invalid(normalized, `A GSTIN has 15 characters; "${normalized}" has ${normalized.length}.`, 'India');
+  }
+
+  const stateCode = parseInt(normalized.slice(0, 2), 10);
+  if (!/^\d{2}$/.test(normalized.slice(0, 2)) || !((stateCode >= 1 && stateCode <= 38) || stateCode === 97 || stateCode === 99)) {
+    return invalid(normalized, `A GSTIN starts with a state code from 01 to 38; "${normalized.slice(0, 2)}" is not one.`, 'India');
+  }
+  if (!PAN_PATTERN.test(normalized.slice(2, 12))) {
+    return invalid(normalized, `Characters 3 to 12 of a GSTIN are the holder's PAN; "${normalized.slice(2, 12)}" is not a valid PAN.`, 'India');
+  }
+  if (!/^[1-9A-Z]Z[0-9A-Z]$/.test(normalized.slice(12))) {
+    return invalid(normalized, `A GSTIN ends with an entity number, the letter Z and a check character; "${normalized.slice(12)}" does not.`, 'India');
+  }
+
+  const sum = normalized.slice(0, 14).split('').reduce((total, character, index) => {
+    const product = GSTIN_CHARACTERS.indexOf(character) * (index % 2 === 0 ? 1 : 2);
+    return total + Math.floor(product / 36) + (product % 36);
+  }, 0);
+  const check = GSTIN_CHARACTERS[(36 - (sum % 36)) % 36];
+  if (check !== normalized[14]) {
+    return invalid(normalized, `The GSTIN check character is ${normalized[14]} but should be ${check}; a character is mistyped.`, 'India');
+  }
+  return { valid: true, normalized, issuer: 'India' };
+};
+
+/**
+ * Validate a US Employer Identification Number: 9 digits (XX-XXXXXXX)
+ * with a prefix the IRS assigns
+ */
+export const validateEin = (value: string): TraderIdValidation => {
+  const normalized = normalize(value);
+  if (!/^\d{9}$/.test(normalized)) {
+    return invalid(normalized, `An EIN has 9 digits, written XX-XXXXXXX; "${value.trim()}" does not.`, 'United States');
+  }
+  if (INVALID_EIN_PREFIXES.includes(normalized.slice(0, 2))) {
+    return invalid(normalized, `${normalized.slice(0, 2)} is not a prefix the IRS assigns to EINs.`, 'United States');
+  }
+  return { valid: true, normalized, issuer: 'United States' };
+};
+
+/**
+ * Validate a Canadian Business Number: 9 digits with a Luhn check digit,
+ * optionally followed by a program account such as RM0001
+ */
+export const validateBn = (value: string): TraderIdValidation => {
+  const normalized = normalize(value);
+  const match = normalized.match(/^(\d{9})([A-Z]{2}\d{4})?$/);
+  if (!match) {
+    return invalid(normalized, `A Business Number has 9 digits, optionally followed by a program account such as RM0001; "${value.trim()}" does not.`, 'Canada');
+  }
+  if (!luhnValid(match[1])) {
+    return invalid(normalized, `The last digit of Business Number ${match[1]} does not match its check digit; a digit is mistyped.`, 'Canada');
+  }
+  if (match[2] && !BN_PROGRAMS[match[2].slice(0, 2)]) {
+    return invalid(normalized, `${match[2].slice(0, 2)} is not a CRA program identifier (RT, RP, RC, RM, RR or RZ).`, 'Canada');
+  }
+  return { valid: true, normalized, issuer: 'Canada' };
+};
+
+/**
+ * Validate an EU IOSS number: IM, the ISO 3166 numeric code of the member
+ * state the seller or intermediary is identified in, and 7 digits
+ */
+export const validateIoss = (value: string): TraderIdValidation => {
+  const normalized = normalize(value);
+  if (/^IN\d{10}$/.test(normalized)) {
+    return invalid(normalized, 'IN numbers identify IOSS intermediaries; the customs declaration needs the seller\'s IM number.');
+  }
+  if (!/^IM\d{10}$/.test(normalized)) {
+    return invalid(normalized, `An IOSS number is IM followed by 10 digits, e.g. IM2760000001; "${value.trim()}" is not.`);
+  }
+
+  const country = countryService.getCountry(normalized.slice(2, 5));
+  if (!country || !country.euMember) {
+    return invalid(normalized, `Digits 3 to 5 of an IOSS number are the code of the EU member state of identification; ${normalized.slice(2, 5)} is not one.`);
+  }
+  return { valid: true, normalized, issuer: country.name };
+};
+
+// Trader identifier fields and how each is validated
+const TRADER_ID_FIELDS: { key: string; label: string; validate: (value: string) => TraderIdValidation }[] = [
+  { key: 'eoriNumber', label: 'EORI Number', validate: validateEori },
+  { key: 'vatNumber', label: 'VAT Number', validate: validateEuVat },
+  { key: 'iossNumber', label: 'IOSS Number', validate: validateIoss },
+  { key: 'abnNumber', label: 'ABN', validate: validateAbn },
+  { key: 'iecCode', label: 'IEC', validate: validateIec },
+  { key: 'gstin', label: 'GSTIN', validate: validateGstin },
+  { key: 'einNumber', label: 'EIN', validate: validateEin },
+  { key: 'businessNumber', label: 'Business Number', validate: validateBn }
+];
+
+/**
+ * Service for validating the trader identifiers customs asks for: EORI,
+ * EU and UK VAT numbers, IOSS, ABN, IEC, GSTIN, EIN and Canadian Business
+ * Number.
+ * Format and check digits are verified locally; whether a valid number is
+ * actually registered can only be confirmed with the issuing authority.
+ */
+class TraderIdService {
+  /**
+   * Validate every trader identifier present on a shipment
+   * @param fields The shipment fields
+   * @returns One result per identifier present
+   */
+  checkTraderIds(fields: Record<string, string>): ComplianceResult[] {
+    const results: ComplianceResult[] = [];
+
+    for (const { key, label, validate } of TRADER_ID_FIELDS) {
+      const value = (fields[key] || '').trim();
+      if (!value) continue;
+
+      const validation = validate(value);
+      const id = `trader-id-${key}-${Date.now()}`;
+      if (!validation.valid) {
+        results.push({ id, field: label, value, status: 'non-compliant', message: `${label} ${value} is invalid. ${validation.reason}` });
+        continue;
+      }
+
+      // Customs declarations in Canada need the import-export program account
+      const program = key === 'businessNumber' ? validation.normalized.slice(9, 11) : '';
+      if (program && program !== 'RM') {
+        results.push({
+          id,
+          field: label,
+          value,
+          status: 'warning',
+          message: `${validation.normalized.slice(9)} is the ${BN_PROGRAMS[program]} account of Business Number ${validation.normalized.slice(0, 9)}. Customs declarations need its RM import-export account.`
+        });
+        continue;
+      }
+
+      results.push({
+        id,
+        field: label,
+        value,
+        status: 'compliant',
+        message: `${label} ${validation.normalized} is correctly formed${validation.issuer ? ` (issued by ${validation.issuer})` : ''}.`
+      });
+    }
+
+    return results;
+  }
+}
+
+// Create and export a singleton instance
+export const traderIdService = new TraderIdService();
@@ -90,9 +90,25 @@ export interface RawInputData {
     filename?: string;
     timestamp?: string;
     userId?: string;
+    ocr?: OcrMetadata;
   };
 }
 
+/**
+ * Details of on-device OCR for image input read without a vision model
+ */
+export interface OcrMetadata {
+  /**
+   * Number of words recognized
+   */
+  wordCount: number;
+  
+  /**
+   * Words recognized with low confidence, for manual review
+   */
+  lowConfidenceWords: string[];
+}
+
 /**
  * Statistics about compliance results
  */
@@ -1,6 +1,6 @@
-import axios from 'axios';
 import { v4 as uuidv4 } from 'uuid';
 import { dataStandardizationService } from './dataStandardizationService';
+import { llmClient } from './llm/llmClient';
 
 // Result type that matches the ComplianceResult type
 interface ComplianceResult {
@@ -26,11 +26,6 @@ interface ExtractedData {
   confidence: number;
 }
 
-// Gemini API configuration for image analysis ONLY
-const API_KEY = 'your_api_key_here';
-const MODEL_NAME = 'gemini-2.0-flash-thinking-exp-01-21'; // Vision-enabled model
-const API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${MODEL_NAME}:generateContent`;
-
 // Helper function to convert File to base64
 const fileToBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -54,17 +49,16 @@ const fileToBase64 = (file: File): Promise<string> => {
  * Standardization will happen in a separate step
  */
 export const analyzeImage = async (imageFile: File): Promise<ExtractedData> => {
+  if (!llmClient.isAiEnabled()) {
+    throw new Error('Vision model analysis is not available in rules-only mode. Use on-device OCR instead.');
+  }
+  
   try {
     const base64Image = await fileToBase64(imageFile);
     
-    // Prepare the request payload for the vision model
-    const data = {
-      contents: [
-        {
-          role: 'user',
-          parts: [
-            {
-              text: `You are an expert logistics document analyzer. Extract ALL text and information from this shipping document image. Include ALL numbers, dates, addresses, tracking numbers, weights, dimensions, sender and receiver information, package details, and any other relevant data.
+    // Call the vision model through the shared client
+    const responseText = await llmClient.generateText(
+      `You are an expert logistics document analyzer. Extract ALL text and information from this shipping document image. Include ALL numbers, dates, addresses, tracking numbers, weights, dimensions, sender and receiver information, package details, and any other relevant data.
 
 DO NOT try to guess or make assumptions about what fields mean - just extract the raw text.
 DO NOT skip any information, even if it seems minor.
@@ -72,33 +66,20 @@ DO NOT summarize - extract EVERYTHING visible.
 
 Respond with the following:
 1. Raw Text: A complete transcription of ALL text visible in the image, preserving the original layout as much as possible.
-2. Confidence: Your estimated confidence level (0-100%) in the text extraction.`
-            },
-            {
-              inline_data: {
-                mime_type: 'image/jpeg',
-                data: base64Image
-              }
-            }
-          ]
-        }
-      ],
-      generationConfig: {
+2. Confidence: Your estimated confidence level (0-100%) in the text extraction.`,
+      {
+        label: 'vision.analyzeImage',
+        model: llmClient.getConfig().visionModel,
+        images: [{ mimeType: imageFile.type || 'image/jpeg', data: base64Image }],
         temperature: 0.1,
         topP: 0.95,
         topK: 64,
-        maxOutputTokens: 4096,
+        maxOutputTokens: 4096
       }
-    };
-    
-    // Call the Gemini Vision API
-    const response = await axios.post(API_URL, data, {
-      params: { key: API_KEY },
-      headers: { 'Content-Type': 'application/json' }
-    });
+    );
     
     // Process the response
-    return processApiResponse(response.data);
+    return processApiResponse(responseText);
     
   } catch (error) {
     console.error("Error analyzing image:", error);
@@ -112,16 +93,9 @@ Respond with the following:
 };
 
 /**
- * Process the API response to extract structured data
+ * Process the model response to extract structured data
  */
-const processApiResponse = (apiResponse: any): ExtractedData => {
-  if (!apiResponse.candidates || !apiResponse.candidates[0] || !apiResponse.candidates[0].content) {
-    throw new Error("Invalid API response format");
-  }
-  
-  const content = apiResponse.candidates[0].content;
-  const responseText = content.parts?.[0]?.text || '';
-  
+const processApiResponse = (responseText: string): ExtractedData => {
   // Extract raw text from the response
   const extractedText = responseText;
   